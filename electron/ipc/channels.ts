@@ -15,17 +15,58 @@ export const CHANNELS = {
   WORKTREE_CREATE: "worktree:create",
   WORKTREE_LIST_BRANCHES: "worktree:list-branches",
   WORKTREE_PR_REFRESH: "worktree:pr-refresh",
+  WORKTREE_CHECK_REMOVAL: "worktree:check-removal",
+  WORKTREE_DELETE: "worktree:delete",
+  WORKTREE_GET_CLEANUP_CANDIDATES: "worktree:get-cleanup-candidates",
+  WORKTREE_CLEANUP: "worktree:cleanup",
+  WORKTREE_GET_ADAPTIVE_BACKOFF_METRICS: "worktree:get-adaptive-backoff-metrics",
+  WORKTREE_GET_CONFLICTS: "worktree:get-conflicts",
+  WORKTREE_REFRESH_CONFLICTS: "worktree:refresh-conflicts",
+  WORKTREE_CONFLICTS: "worktree:conflicts",
+  WORKTREE_SETUP_PROGRESS: "worktree:setup-progress",
+
+  // Git channels
+  GIT_GET_FILE_DIFF: "git:get-file-diff",
+  GIT_STAGE: "git:stage",
+  GIT_UNSTAGE: "git:unstage",
+  GIT_STAGE_HUNK: "git:stage-hunk",
+  GIT_UNSTAGE_HUNK: "git:unstage-hunk",
+  GIT_COMMIT: "git:commit",
+  GIT_GET_LAST_COMMIT_MESSAGE: "git:get-last-commit-message",
+  GIT_GENERATE_COMMIT_MESSAGE: "git:generate-commit-message",
+  GIT_PULL: "git:pull",
+  GIT_SYNC_WITH_MAIN: "git:sync-with-main",
+  GIT_RESOLVE_CONFLICT: "git:resolve-conflict",
+  GIT_CONTINUE_SYNC: "git:continue-sync",
+  GIT_ABORT_SYNC: "git:abort-sync",
+
+  // GitHub channels
+  GITHUB_LIST_ISSUES: "github:list-issues",
+  GITHUB_LIST_REVIEW_THREADS: "github:list-review-threads",
+  GITHUB_GET_PR_DRAFT: "github:get-pr-draft",
+  GITHUB_CREATE_PR: "github:create-pr",
 
   // Dev server channels
   DEVSERVER_START: "devserver:start",
   DEVSERVER_STOP: "devserver:stop",
   DEVSERVER_TOGGLE: "devserver:toggle",
   DEVSERVER_GET_STATE: "devserver:get-state",
+  DEVSERVER_GET_STATES: "devserver:get-states",
+  DEVSERVER_GET_PROCESSES: "devserver:get-processes",
+  DEVSERVER_START_ALL: "devserver:start-all",
+  DEVSERVER_STOP_ALL: "devserver:stop-all",
   DEVSERVER_GET_LOGS: "devserver:get-logs",
   DEVSERVER_HAS_DEV_SCRIPT: "devserver:has-dev-script",
   DEVSERVER_UPDATE: "devserver:update",
   DEVSERVER_ERROR: "devserver:error",
 
+  // Preview channels
+  PREVIEW_OPEN: "preview:open",
+  PREVIEW_SET_LAYOUT: "preview:set-layout",
+  PREVIEW_RELOAD: "preview:reload",
+  PREVIEW_CLOSE: "preview:close",
+  PREVIEW_STATE: "preview:state",
+
   // Terminal channels
   TERMINAL_SPAWN: "terminal:spawn",
   TERMINAL_DATA: "terminal:data",
@@ -34,10 +75,16 @@ export const CHANNELS = {
   TERMINAL_KILL: "terminal:kill",
   TERMINAL_EXIT: "terminal:exit",
   TERMINAL_ERROR: "terminal:error",
+  TERMINAL_GET_SNAPSHOT: "terminal:get-snapshot",
+  TERMINAL_GET_SHELL_INTEGRATION: "terminal:get-shell-integration",
+  TERMINAL_SET_SHELL_INTEGRATION: "terminal:set-shell-integration",
+  TERMINAL_CWD_CHANGED: "terminal:cwd-changed",
 
   // Agent state channels
   AGENT_STATE_CHANGED: "agent:state-changed",
   AGENT_GET_STATE: "agent:get-state",
+  AGENT_GET_REGISTRY: "agent:get-registry",
+  AGENT_SET_REGISTRY: "agent:set-registry",
 
   // Artifact channels
   ARTIFACT_DETECTED: "artifact:detected",
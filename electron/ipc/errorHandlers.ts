@@ -172,10 +172,12 @@ export class ErrorService {
     switch (action) {
       case "devserver":
         if (this.devServerManager && args?.worktreeId && args?.worktreePath) {
-          await this.devServerManager.start(
+          // Keeps the slot's health check and restart policy
+          await this.devServerManager.retry(
             args.worktreeId as string,
             args.worktreePath as string,
-            args.command as string | undefined
+            args.command as string | undefined,
+            args.processId as string | undefined
           );
         }
         break;
@@ -11,14 +11,16 @@ import os from "os";
 import path from "path";
 import { CHANNELS } from "./channels.js";
 import { PtyManager } from "../services/PtyManager.js";
-import type { DevServerManager } from "../services/DevServerManager.js";
+import { DEFAULT_DEV_PROCESS_ID, type DevServerManager } from "../services/DevServerManager.js";
 import type { WorktreeService } from "../services/WorktreeService.js";
+import type { PreviewManager } from "../services/PreviewManager.js";
 import type {
   TerminalSpawnOptions,
   TerminalResizePayload,
   DevServerStartPayload,
   DevServerStopPayload,
   DevServerTogglePayload,
+  DevServerStartAllPayload,
   CopyTreeGeneratePayload,
   CopyTreeGenerateAndCopyFilePayload,
   CopyTreeInjectPayload,
@@ -29,9 +31,37 @@ import type {
   SystemOpenExternalPayload,
   SystemOpenPathPayload,
   WorktreeSetActivePayload,
+  WorktreeDeletePayload,
+  WorktreeRemovalCheck,
+  WorktreeCleanupScanPayload,
+  WorktreeCleanupScanResult,
+  WorktreeCleanupPayload,
+  WorktreeCleanupResult,
+  WorktreeConflictReport,
+  AdaptiveBackoffMetrics,
+  WorktreeCreatePayload,
+  WorktreeCreateResult,
+  GitFileDiffPayload,
+  GitFileDiff,
+  GitStageFilesPayload,
+  GitStageHunkPayload,
+  GitCommitPayload,
+  GitCommitResult,
+  GitSyncResult,
+  GitResolveConflictPayload,
+  GitHubListIssuesPayload,
+  GitHubIssueListResult,
+  GitHubListReviewThreadsPayload,
+  GitHubReviewThreadListResult,
+  GitHubPullRequestDraft,
+  GitHubCreatePRPayload,
+  GitHubCreatedPR,
   RecentDirectory,
   DirectoryOpenPayload,
   DirectoryRemoveRecentPayload,
+  PreviewOpenPayload,
+  PreviewLayout,
+  PreviewState,
 } from "../types/index.js";
 import {
   TerminalSpawnOptionsSchema,
@@ -39,24 +69,52 @@ import {
   DevServerStartPayloadSchema,
   DevServerStopPayloadSchema,
   DevServerTogglePayloadSchema,
+  DevServerStartAllPayloadSchema,
   CopyTreeGeneratePayloadSchema,
   CopyTreeGenerateAndCopyFilePayloadSchema,
   CopyTreeInjectPayloadSchema,
   CopyTreeGetFileTreePayloadSchema,
+  WorktreeDeletePayloadSchema,
+  WorktreeCleanupScanPayloadSchema,
+  WorktreeCleanupPayloadSchema,
+  GitFileDiffPayloadSchema,
+  GitStageFilesPayloadSchema,
+  GitStageHunkPayloadSchema,
+  GitCommitPayloadSchema,
+  GitResolveConflictPayloadSchema,
+  GitHubListIssuesPayloadSchema,
+  GitHubListReviewThreadsPayloadSchema,
+  GitHubCreatePRPayloadSchema,
+  AgentRegistrySchema,
+  PreviewOpenPayloadSchema,
+  PreviewLayoutSchema,
 } from "../schemas/ipc.js";
 import { copyTreeService } from "../services/CopyTreeService.js";
+import { conflictService } from "../services/ConflictService.js";
+import { runWorktreeSetup, hasSetupSteps } from "../services/WorktreeSetupRunner.js";
+import { getForgeProvider, setProjectForgeKind } from "../services/forge/index.js";
+import { errorService } from "./errorHandlers.js";
+import { FileSystemError, ProcessError } from "../utils/errorTypes.js";
 import { store } from "../store.js";
 import { logBuffer, type FilterOptions as LogFilterOptions } from "../services/LogBuffer.js";
 import { updateRecentDirectories, removeRecentDirectory } from "../utils/recentDirectories.js";
+import { persistTerminalState, getPersistedScrollback } from "../utils/terminalState.js";
 import { join } from "path";
 import { homedir } from "os";
 import type { EventBuffer, FilterOptions as EventFilterOptions } from "../services/EventBuffer.js";
 import { events } from "../services/events.js";
 import { projectStore } from "../services/ProjectStore.js";
-import type { Project, ProjectSettings } from "../types/index.js";
+import type { Project, ProjectSettings, AgentDefinition, RunCommand } from "../types/index.js";
 import { getTranscriptManager } from "../services/TranscriptManager.js";
 import { getAIConfig, setAIConfig, clearAIKey, validateAIKey } from "../services/ai/client.js";
 import { generateProjectIdentity } from "../services/ai/identity.js";
+import { generateCommitMessage } from "../services/ai/commitMessage.js";
+import {
+  getAgentDefinition,
+  getAgentRegistry,
+  setAgentRegistry,
+  buildAgentCommand,
+} from "../services/ai/agentProfiles.js";
 import { runCommandDetector } from "../services/ai/RunCommandDetector.js";
 import { runManager } from "../services/RunManager.js";
 import type { EventContext, RunMetadata } from "@shared/types/events.js";
@@ -137,7 +195,8 @@ export function registerIpcHandlers(
   ptyManager: PtyManager,
   devServerManager?: DevServerManager,
   worktreeService?: WorktreeService,
-  eventBuffer?: EventBuffer
+  eventBuffer?: EventBuffer,
+  previewManager?: PreviewManager
 ): () => void {
   // Store handler references for cleanup
   const handlers: Array<() => void> = [];
@@ -186,6 +245,36 @@ export function registerIpcHandlers(
   });
   handlers.push(unsubArtifactDetected);
 
+  // ==========================================
+  // Terminal Shell Integration Forwarding
+  // ==========================================
+
+  // Keep the terminal's worktree association in sync when its shell changes
+  // directory, e.g. `cd`-ing from one worktree into another
+  const unsubCwdChanged = events.on("terminal:cwd-changed", (payload) => {
+    // Leaving every worktree keeps the terminal on the one it started in
+    let worktreeId = payload.worktreeId;
+    if (worktreeService) {
+      let longestMatch = 0;
+      for (const [id, state] of worktreeService.getAllStates()) {
+        const isInside =
+          payload.cwd === state.path || payload.cwd.startsWith(state.path + path.sep);
+        if (isInside && state.path.length > longestMatch) {
+          worktreeId = id;
+          longestMatch = state.path.length;
+        }
+      }
+    }
+
+    ptyManager.setWorktreeId(payload.terminalId, worktreeId);
+    sendToRenderer(mainWindow, CHANNELS.TERMINAL_CWD_CHANGED, {
+      terminalId: payload.terminalId,
+      cwd: payload.cwd,
+      worktreeId,
+    });
+  });
+  handlers.push(unsubCwdChanged);
+
   // ==========================================
   // Dev Server Event Forwarding
   // ==========================================
@@ -203,6 +292,21 @@ export function registerIpcHandlers(
   });
   handlers.push(unsubServerError);
 
+  // Forward preview navigation state to renderer
+  if (previewManager) {
+    const handlePreviewState = (state: PreviewState) => {
+      sendToRenderer(mainWindow, CHANNELS.PREVIEW_STATE, state);
+    };
+    previewManager.on("state", handlePreviewState);
+    handlers.push(() => previewManager.off("state", handlePreviewState));
+  }
+
+  // Forward conflict predictions to renderer
+  const unsubWorktreeConflicts = events.on("sys:worktree:conflicts", (report) => {
+    sendToRenderer(mainWindow, CHANNELS.WORKTREE_CONFLICTS, report);
+  });
+  handlers.push(unsubWorktreeConflicts);
+
   // ==========================================
   // Worktree Handlers
   // ==========================================
@@ -249,15 +353,61 @@ export function registerIpcHandlers(
 
   const handleWorktreeCreate = async (
     _event: Electron.IpcMainInvokeEvent,
-    payload: {
-      rootPath: string;
-      options: { baseBranch: string; newBranch: string; path: string; fromRemote?: boolean };
-    }
-  ) => {
+    payload: WorktreeCreatePayload
+  ): Promise<WorktreeCreateResult> => {
     if (!worktreeService) {
       throw new Error("WorktreeService not initialized");
     }
     await worktreeService.createWorktree(payload.rootPath, payload.options);
+
+    // Worktree IDs are the paths git reports, which are fully resolved
+    let worktreeId = path.resolve(payload.options.path);
+    try {
+      const fs = await import("fs/promises");
+      worktreeId = await fs.realpath(worktreeId);
+    } catch {
+      // Keep the resolved path
+    }
+
+    if (payload.runSetup === false) {
+      return { worktreeId, setup: null };
+    }
+
+    // Setup comes from the repository's own project, even if another one was opened meanwhile
+    const project = await projectStore.getProjectByPath(payload.rootPath);
+    const config = project
+      ? (await projectStore.getProjectSettings(project.id)).worktreeSetup
+      : undefined;
+    if (!config || !hasSetupSteps(config)) {
+      return { worktreeId, setup: null };
+    }
+
+    const setup = await runWorktreeSetup(config, {
+      sourcePath: payload.rootPath,
+      targetPath: worktreeId,
+      onProgress: (progress) => {
+        sendToRenderer(mainWindow, CHANNELS.WORKTREE_SETUP_PROGRESS, {
+          ...progress,
+          worktreeId,
+        });
+      },
+    });
+
+    if (!setup.success) {
+      const error = setup.failedCommand
+        ? new ProcessError(setup.error ?? "Worktree setup failed", {
+            command: setup.failedCommand,
+          })
+        : new FileSystemError(setup.error ?? "Worktree setup failed", {
+            pattern: setup.failedPattern,
+          });
+      errorService.notifyError(error, {
+        source: "worktree-setup",
+        context: { worktreeId, command: setup.failedCommand },
+      });
+    }
+
+    return { worktreeId, setup };
   };
   ipcMain.handle(CHANNELS.WORKTREE_CREATE, handleWorktreeCreate);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_CREATE));
@@ -274,10 +424,490 @@ export function registerIpcHandlers(
   ipcMain.handle(CHANNELS.WORKTREE_LIST_BRANCHES, handleWorktreeListBranches);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_LIST_BRANCHES));
 
+  const getWorktreeTerminalIds = (worktreeId: string): string[] =>
+    ptyManager
+      .getAll()
+      .filter((terminal) => terminal.worktreeId === worktreeId)
+      .map((terminal) => terminal.id);
+
+  // Release everything running inside a worktree right before git removes the directory
+  const releaseWorktreeProcesses = async (worktreeId: string): Promise<void> => {
+    for (const terminalId of getWorktreeTerminalIds(worktreeId)) {
+      ptyManager.kill(terminalId, "Worktree removed");
+    }
+    previewManager?.closeWorktree(worktreeId);
+    if (devServerManager?.isRunning(worktreeId)) {
+      await devServerManager.stopWorktree(worktreeId);
+    }
+  };
+
+  const handleWorktreeCheckRemoval = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<WorktreeRemovalCheck> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    const state = worktreeService.getAllStates().get(worktreeId);
+    if (!state) {
+      throw new Error(`Unknown worktree: ${worktreeId}`);
+    }
+
+    const status = await worktreeService.getRemovalStatus(worktreeId);
+    return {
+      worktreeId,
+      isMainWorktree: state.isMainWorktree ?? false,
+      ...status,
+      devServerRunning: devServerManager?.isRunning(worktreeId) ?? false,
+      terminalCount: getWorktreeTerminalIds(worktreeId).length,
+    };
+  };
+  ipcMain.handle(CHANNELS.WORKTREE_CHECK_REMOVAL, handleWorktreeCheckRemoval);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_CHECK_REMOVAL));
+
+  const handleWorktreeDelete = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: WorktreeDeletePayload
+  ) => {
+    const parseResult = WorktreeDeletePayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid worktree delete payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, deleteBranch, force } = parseResult.data;
+
+    // Processes are only released once the service has accepted the removal
+    await worktreeService.removeWorktree(worktreeId, {
+      deleteBranch,
+      force,
+      beforeRemove: () => releaseWorktreeProcesses(worktreeId),
+    });
+    devServerManager?.releasePorts(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.WORKTREE_DELETE, handleWorktreeDelete);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_DELETE));
+
+  const handleWorktreeGetCleanupCandidates = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload?: WorktreeCleanupScanPayload
+  ): Promise<WorktreeCleanupScanResult> => {
+    const parseResult = WorktreeCleanupScanPayloadSchema.safeParse(payload ?? {});
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid worktree cleanup scan payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    let staleDays = parseResult.data.staleDays;
+    if (staleDays !== undefined) {
+      store.set("userConfig.worktreeStaleDays", staleDays);
+    } else {
+      staleDays = store.get("userConfig.worktreeStaleDays") ?? 7;
+    }
+
+    const candidates = await worktreeService.getCleanupCandidates(staleDays);
+    return { staleDays, candidates };
+  };
+  ipcMain.handle(CHANNELS.WORKTREE_GET_CLEANUP_CANDIDATES, handleWorktreeGetCleanupCandidates);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_GET_CLEANUP_CANDIDATES));
+
+  const handleWorktreeCleanup = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: WorktreeCleanupPayload
+  ): Promise<WorktreeCleanupResult> => {
+    const parseResult = WorktreeCleanupPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid worktree cleanup payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeIds, deleteBranches, force } = parseResult.data;
+    const result = await worktreeService.cleanupWorktrees(worktreeIds, {
+      deleteBranches,
+      force,
+      beforeRemove: releaseWorktreeProcesses,
+    });
+    for (const worktreeId of result.removed) {
+      devServerManager?.releasePorts(worktreeId);
+    }
+    return result;
+  };
+  ipcMain.handle(CHANNELS.WORKTREE_CLEANUP, handleWorktreeCleanup);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_CLEANUP));
+
+  const handleWorktreeGetAdaptiveBackoffMetrics = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<AdaptiveBackoffMetrics | null> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    return worktreeService.getMonitor(worktreeId)?.getAdaptiveBackoffMetrics() ?? null;
+  };
+  ipcMain.handle(
+    CHANNELS.WORKTREE_GET_ADAPTIVE_BACKOFF_METRICS,
+    handleWorktreeGetAdaptiveBackoffMetrics
+  );
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_GET_ADAPTIVE_BACKOFF_METRICS));
+
+  const handleWorktreeGetConflicts = async (): Promise<WorktreeConflictReport> => {
+    return conflictService.getReport();
+  };
+  ipcMain.handle(CHANNELS.WORKTREE_GET_CONFLICTS, handleWorktreeGetConflicts);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_GET_CONFLICTS));
+
+  const handleWorktreeRefreshConflicts = async (): Promise<WorktreeConflictReport> => {
+    return conflictService.refresh();
+  };
+  ipcMain.handle(CHANNELS.WORKTREE_REFRESH_CONFLICTS, handleWorktreeRefreshConflicts);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.WORKTREE_REFRESH_CONFLICTS));
+
+  // ==========================================
+  // Git Handlers
+  // ==========================================
+
+  const handleGitGetFileDiff = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitFileDiffPayload
+  ): Promise<GitFileDiff> => {
+    const parseResult = GitFileDiffPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid git file diff payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, filePath, base } = parseResult.data;
+    return worktreeService.getFileDiff(worktreeId, filePath, base);
+  };
+  ipcMain.handle(CHANNELS.GIT_GET_FILE_DIFF, handleGitGetFileDiff);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_GET_FILE_DIFF));
+
+  const handleGitStage = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitStageFilesPayload
+  ): Promise<void> => {
+    const parseResult = GitStageFilesPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid git stage payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, filePaths } = parseResult.data;
+    await worktreeService.setFilesStaged(worktreeId, filePaths);
+  };
+  ipcMain.handle(CHANNELS.GIT_STAGE, handleGitStage);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_STAGE));
+
+  const handleGitUnstage = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitStageFilesPayload
+  ): Promise<void> => {
+    const parseResult = GitStageFilesPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid git unstage payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, filePaths } = parseResult.data;
+    await worktreeService.setFilesStaged(worktreeId, filePaths, true);
+  };
+  ipcMain.handle(CHANNELS.GIT_UNSTAGE, handleGitUnstage);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_UNSTAGE));
+
+  const handleGitStageHunk = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitStageHunkPayload
+  ): Promise<void> => {
+    const parseResult = GitStageHunkPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid git stage hunk payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, filePath, hunkHeader } = parseResult.data;
+    await worktreeService.setHunkStaged(worktreeId, filePath, hunkHeader);
+  };
+  ipcMain.handle(CHANNELS.GIT_STAGE_HUNK, handleGitStageHunk);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_STAGE_HUNK));
+
+  const handleGitUnstageHunk = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitStageHunkPayload
+  ): Promise<void> => {
+    const parseResult = GitStageHunkPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid git unstage hunk payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, filePath, hunkHeader } = parseResult.data;
+    await worktreeService.setHunkStaged(worktreeId, filePath, hunkHeader, true);
+  };
+  ipcMain.handle(CHANNELS.GIT_UNSTAGE_HUNK, handleGitUnstageHunk);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_UNSTAGE_HUNK));
+
+  const handleGitCommit = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitCommitPayload
+  ): Promise<GitCommitResult> => {
+    const parseResult = GitCommitPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid git commit payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, message, amend } = parseResult.data;
+    const hash = await worktreeService.commit(worktreeId, message, amend);
+    return { hash };
+  };
+  ipcMain.handle(CHANNELS.GIT_COMMIT, handleGitCommit);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_COMMIT));
+
+  const handleGitGetLastCommitMessage = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<string | null> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    return worktreeService.getLastCommitMessage(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.GIT_GET_LAST_COMMIT_MESSAGE, handleGitGetLastCommitMessage);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_GET_LAST_COMMIT_MESSAGE));
+
+  const handleGitGenerateCommitMessage = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<string | null> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    const diff = await worktreeService.getStagedDiff(worktreeId);
+    return generateCommitMessage(diff);
+  };
+  ipcMain.handle(CHANNELS.GIT_GENERATE_COMMIT_MESSAGE, handleGitGenerateCommitMessage);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_GENERATE_COMMIT_MESSAGE));
+
+  const handleGitPull = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<void> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    await worktreeService.pull(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.GIT_PULL, handleGitPull);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_PULL));
+
+  const handleGitSyncWithMain = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<GitSyncResult> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    const currentProject = projectStore.getCurrentProject();
+    const strategy = currentProject
+      ? (await projectStore.getProjectSettings(currentProject.id)).syncStrategy
+      : undefined;
+    return worktreeService.syncWithMain(worktreeId, strategy ?? "rebase");
+  };
+  ipcMain.handle(CHANNELS.GIT_SYNC_WITH_MAIN, handleGitSyncWithMain);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_SYNC_WITH_MAIN));
+
+  const handleGitResolveConflict = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitResolveConflictPayload
+  ): Promise<void> => {
+    const parseResult = GitResolveConflictPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid resolve conflict payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    const { worktreeId, filePath, side } = parseResult.data;
+    await worktreeService.resolveConflict(worktreeId, filePath, side);
+  };
+  ipcMain.handle(CHANNELS.GIT_RESOLVE_CONFLICT, handleGitResolveConflict);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_RESOLVE_CONFLICT));
+
+  const handleGitContinueSync = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<GitSyncResult> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    return worktreeService.continueSync(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.GIT_CONTINUE_SYNC, handleGitContinueSync);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_CONTINUE_SYNC));
+
+  const handleGitAbortSync = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<void> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    await worktreeService.abortSync(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.GIT_ABORT_SYNC, handleGitAbortSync);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GIT_ABORT_SYNC));
+
+  // ==========================================
+  // GitHub Handlers
+  // ==========================================
+
+  const handleGitHubListIssues = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitHubListIssuesPayload
+  ): Promise<GitHubIssueListResult> => {
+    const parseResult = GitHubListIssuesPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid GitHub list issues payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    const { cwd, search, limit } = parseResult.data;
+    const forge = await getForgeProvider(cwd);
+    return forge.listOpenIssues({ search, limit });
+  };
+  ipcMain.handle(CHANNELS.GITHUB_LIST_ISSUES, handleGitHubListIssues);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GITHUB_LIST_ISSUES));
+
+  const handleGitHubListReviewThreads = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitHubListReviewThreadsPayload
+  ): Promise<GitHubReviewThreadListResult> => {
+    const parseResult = GitHubListReviewThreadsPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error(
+        "[IPC] Invalid GitHub list review threads payload:",
+        parseResult.error.format()
+      );
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    const { cwd, prNumber } = parseResult.data;
+    const forge = await getForgeProvider(cwd);
+    if (!forge.listUnresolvedReviewThreads) {
+      return { threads: [], error: `Review comments aren't supported for ${forge.name} yet` };
+    }
+    return forge.listUnresolvedReviewThreads(prNumber);
+  };
+  ipcMain.handle(CHANNELS.GITHUB_LIST_REVIEW_THREADS, handleGitHubListReviewThreads);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GITHUB_LIST_REVIEW_THREADS));
+
+  const handleGitHubGetPRDraft = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ): Promise<GitHubPullRequestDraft> => {
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+    return worktreeService.getPullRequestDraft(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.GITHUB_GET_PR_DRAFT, handleGitHubGetPRDraft);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GITHUB_GET_PR_DRAFT));
+
+  const handleGitHubCreatePR = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: GitHubCreatePRPayload
+  ): Promise<GitHubCreatedPR> => {
+    const parseResult = GitHubCreatePRPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid GitHub create PR payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+    if (!worktreeService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const { worktreeId, ...options } = parseResult.data;
+    return worktreeService.createPullRequest(worktreeId, options);
+  };
+  ipcMain.handle(CHANNELS.GITHUB_CREATE_PR, handleGitHubCreatePR);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.GITHUB_CREATE_PR));
+
   // ==========================================
   // Dev Server Handlers
   // ==========================================
 
+  // Dev processes come from the current project's run commands
+  const getDevProcesses = async (worktreePath: string): Promise<RunCommand[]> => {
+    if (!devServerManager) {
+      throw new Error("DevServerManager not initialized");
+    }
+    const currentProject = projectStore.getCurrentProject();
+    const runCommands = currentProject
+      ? (await projectStore.getProjectSettings(currentProject.id)).runCommands
+      : [];
+    return devServerManager.resolveProcesses(worktreePath, runCommands);
+  };
+
+  // Health check configured for a process slot, if any
+  const getDevProcessHealthCheck = async (worktreePath: string, processId?: string) => {
+    const id = processId ?? DEFAULT_DEV_PROCESS_ID;
+    const processes = await getDevProcesses(worktreePath);
+    return processes.find((devProcess) => devProcess.id === id)?.healthCheck;
+  };
+
+  // The current project's restart policy, if it overrides the default
+  const getDevServerRestartPolicy = async () => {
+    const currentProject = projectStore.getCurrentProject();
+    return currentProject
+      ? (await projectStore.getProjectSettings(currentProject.id)).devServerRestartPolicy
+      : undefined;
+  };
+
+  // The current project's port assignment, if it overrides the default
+  const getDevServerPortSettings = async () => {
+    const currentProject = projectStore.getCurrentProject();
+    return currentProject
+      ? (await projectStore.getProjectSettings(currentProject.id)).devServerPortSettings
+      : undefined;
+  };
+
   const handleDevServerStart = async (
     _event: Electron.IpcMainInvokeEvent,
     payload: DevServerStartPayload
@@ -294,8 +924,16 @@ export function registerIpcHandlers(
     }
 
     const validated = parseResult.data;
-    await devServerManager.start(validated.worktreeId, validated.worktreePath, validated.command);
-    return devServerManager.getState(validated.worktreeId);
+    await devServerManager.start(
+      validated.worktreeId,
+      validated.worktreePath,
+      validated.command,
+      validated.processId,
+      await getDevProcessHealthCheck(validated.worktreePath, validated.processId),
+      await getDevServerRestartPolicy(),
+      await getDevServerPortSettings()
+    );
+    return devServerManager.getState(validated.worktreeId, validated.processId);
   };
   ipcMain.handle(CHANNELS.DEVSERVER_START, handleDevServerStart);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_START));
@@ -316,8 +954,8 @@ export function registerIpcHandlers(
     }
 
     const validated = parseResult.data;
-    await devServerManager.stop(validated.worktreeId);
-    return devServerManager.getState(validated.worktreeId);
+    await devServerManager.stop(validated.worktreeId, validated.processId);
+    return devServerManager.getState(validated.worktreeId, validated.processId);
   };
   ipcMain.handle(CHANNELS.DEVSERVER_STOP, handleDevServerStop);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_STOP));
@@ -338,32 +976,104 @@ export function registerIpcHandlers(
     }
 
     const validated = parseResult.data;
-    await devServerManager.toggle(validated.worktreeId, validated.worktreePath, validated.command);
-    return devServerManager.getState(validated.worktreeId);
+    await devServerManager.toggle(
+      validated.worktreeId,
+      validated.worktreePath,
+      validated.command,
+      validated.processId,
+      await getDevProcessHealthCheck(validated.worktreePath, validated.processId),
+      await getDevServerRestartPolicy(),
+      await getDevServerPortSettings()
+    );
+    return devServerManager.getState(validated.worktreeId, validated.processId);
   };
   ipcMain.handle(CHANNELS.DEVSERVER_TOGGLE, handleDevServerToggle);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_TOGGLE));
 
   const handleDevServerGetState = async (
     _event: Electron.IpcMainInvokeEvent,
-    worktreeId: string
+    worktreeId: string,
+    processId?: string
   ) => {
     if (!devServerManager) {
       throw new Error("DevServerManager not initialized");
     }
-    return devServerManager.getState(worktreeId);
+    return devServerManager.getState(worktreeId, processId);
   };
   ipcMain.handle(CHANNELS.DEVSERVER_GET_STATE, handleDevServerGetState);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_GET_STATE));
 
-  const handleDevServerGetLogs = async (
+  const handleDevServerGetStates = async (
     _event: Electron.IpcMainInvokeEvent,
     worktreeId: string
   ) => {
     if (!devServerManager) {
       throw new Error("DevServerManager not initialized");
     }
-    return devServerManager.getLogs(worktreeId);
+    return devServerManager.getStates(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.DEVSERVER_GET_STATES, handleDevServerGetStates);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_GET_STATES));
+
+  const handleDevServerGetProcesses = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreePath: string
+  ): Promise<RunCommand[]> => {
+    return getDevProcesses(worktreePath);
+  };
+  ipcMain.handle(CHANNELS.DEVSERVER_GET_PROCESSES, handleDevServerGetProcesses);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_GET_PROCESSES));
+
+  const handleDevServerStartAll = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: DevServerStartAllPayload
+  ) => {
+    const parseResult = DevServerStartAllPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid dev server start-all payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!devServerManager) {
+      throw new Error("DevServerManager not initialized");
+    }
+
+    const validated = parseResult.data;
+    const processes = await getDevProcesses(validated.worktreePath);
+    await devServerManager.startWorktree(
+      validated.worktreeId,
+      validated.worktreePath,
+      processes,
+      await getDevServerRestartPolicy(),
+      await getDevServerPortSettings()
+    );
+    return devServerManager.getStates(validated.worktreeId);
+  };
+  ipcMain.handle(CHANNELS.DEVSERVER_START_ALL, handleDevServerStartAll);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_START_ALL));
+
+  const handleDevServerStopAll = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string
+  ) => {
+    if (!devServerManager) {
+      throw new Error("DevServerManager not initialized");
+    }
+    await devServerManager.stopWorktree(worktreeId);
+    return devServerManager.getStates(worktreeId);
+  };
+  ipcMain.handle(CHANNELS.DEVSERVER_STOP_ALL, handleDevServerStopAll);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_STOP_ALL));
+
+  const handleDevServerGetLogs = async (
+    _event: Electron.IpcMainInvokeEvent,
+    worktreeId: string,
+    processId?: string
+  ) => {
+    if (!devServerManager) {
+      throw new Error("DevServerManager not initialized");
+    }
+    return devServerManager.getLogs(worktreeId, processId);
   };
   ipcMain.handle(CHANNELS.DEVSERVER_GET_LOGS, handleDevServerGetLogs);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_GET_LOGS));
@@ -380,6 +1090,64 @@ export function registerIpcHandlers(
   ipcMain.handle(CHANNELS.DEVSERVER_HAS_DEV_SCRIPT, handleDevServerHasDevScript);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.DEVSERVER_HAS_DEV_SCRIPT));
 
+  // ==========================================
+  // Preview Handlers
+  // ==========================================
+
+  const handlePreviewOpen = async (
+    _event: Electron.IpcMainInvokeEvent,
+    payload: PreviewOpenPayload
+  ) => {
+    const parseResult = PreviewOpenPayloadSchema.safeParse(payload);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid preview open payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!previewManager) {
+      throw new Error("PreviewManager not initialized");
+    }
+    previewManager.open(parseResult.data);
+  };
+  ipcMain.handle(CHANNELS.PREVIEW_OPEN, handlePreviewOpen);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.PREVIEW_OPEN));
+
+  const handlePreviewSetLayout = async (
+    _event: Electron.IpcMainInvokeEvent,
+    layout: PreviewLayout
+  ) => {
+    const parseResult = PreviewLayoutSchema.safeParse(layout);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid preview layout payload:", parseResult.error.format());
+      throw new Error(`Invalid payload: ${parseResult.error.message}`);
+    }
+
+    if (!previewManager) {
+      throw new Error("PreviewManager not initialized");
+    }
+    previewManager.setLayout(parseResult.data);
+  };
+  ipcMain.handle(CHANNELS.PREVIEW_SET_LAYOUT, handlePreviewSetLayout);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.PREVIEW_SET_LAYOUT));
+
+  const handlePreviewReload = async () => {
+    if (!previewManager) {
+      throw new Error("PreviewManager not initialized");
+    }
+    previewManager.reload();
+  };
+  ipcMain.handle(CHANNELS.PREVIEW_RELOAD, handlePreviewReload);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.PREVIEW_RELOAD));
+
+  const handlePreviewClose = async () => {
+    if (!previewManager) {
+      throw new Error("PreviewManager not initialized");
+    }
+    previewManager.close();
+  };
+  ipcMain.handle(CHANNELS.PREVIEW_CLOSE, handlePreviewClose);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.PREVIEW_CLOSE));
+
   // ==========================================
   // Terminal Handlers
   // ==========================================
@@ -408,6 +1176,14 @@ export function registerIpcHandlers(
     const title = validatedOptions.title;
     const worktreeId = validatedOptions.worktreeId;
 
+    // Agent terminals take their launch command and environment from the registry
+    const agent = validatedOptions.agentType
+      ? getAgentDefinition(validatedOptions.agentType)
+      : undefined;
+    if (validatedOptions.agentType && !agent) {
+      console.warn(`Unknown agent type: ${validatedOptions.agentType}, spawning without it`);
+    }
+
     // Generate ID if not provided
     const id = validatedOptions.id || crypto.randomUUID();
 
@@ -449,23 +1225,45 @@ export function registerIpcHandlers(
       cwd = await getValidatedFallback();
     }
 
+    // Terminals restored from a previous session keep their ID, so look up
+    // any scrollback persisted for it and carry it over as restored history
+    let restoredScrollback: string | undefined;
+    if (validatedOptions.id) {
+      try {
+        restoredScrollback = await getPersistedScrollback(validatedOptions.id);
+      } catch (error) {
+        console.warn(`Failed to load persisted scrollback for terminal ${id}:`, error);
+      }
+    }
+
+    // Restored terminals (persisted ID) come back as plain shells rather than relaunching
+    const command =
+      validatedOptions.command ??
+      (agent && !validatedOptions.id
+        ? buildAgentCommand(agent, validatedOptions.initialPrompt)
+        : undefined);
+
     try {
       ptyManager.spawn(id, {
         cwd,
         shell: validatedOptions.shell, // Shell validation happens in PtyManager
         cols,
         rows,
-        env: validatedOptions.env, // Pass environment variables through
+        env: agent?.env ? { ...agent.env, ...validatedOptions.env } : validatedOptions.env,
         type,
+        agentType: agent?.id,
+        command,
         title,
         worktreeId,
+        restoredScrollback,
+        shellIntegration: store.get("userConfig.shellIntegrationEnabled") ?? false,
       });
 
       // If a command is specified (e.g., 'claude' or 'gemini'), execute it after shell initializes
-      if (validatedOptions.command) {
+      if (command) {
         // Whitelist allowed commands to prevent command injection
         // Allow any non-empty command for recipe flexibility
-        const trimmedCommand = validatedOptions.command.trim();
+        const trimmedCommand = command.trim();
         if (trimmedCommand.length === 0) {
           console.warn("Empty command provided, ignoring");
         } else {
@@ -537,6 +1335,63 @@ export function registerIpcHandlers(
   ipcMain.handle(CHANNELS.TERMINAL_KILL, handleTerminalKill);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.TERMINAL_KILL));
 
+  const handleTerminalGetSnapshot = async (
+    _event: Electron.IpcMainInvokeEvent,
+    id: string
+  ): Promise<string | null> => {
+    if (typeof id !== "string") {
+      throw new Error("Invalid terminal ID: must be a string");
+    }
+    return ptyManager.getSerializedSnapshot(id);
+  };
+  ipcMain.handle(CHANNELS.TERMINAL_GET_SNAPSHOT, handleTerminalGetSnapshot);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.TERMINAL_GET_SNAPSHOT));
+
+  const handleTerminalGetShellIntegration = async (): Promise<boolean> => {
+    return store.get("userConfig.shellIntegrationEnabled") ?? false;
+  };
+  ipcMain.handle(CHANNELS.TERMINAL_GET_SHELL_INTEGRATION, handleTerminalGetShellIntegration);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.TERMINAL_GET_SHELL_INTEGRATION));
+
+  // Applies to terminals spawned after the change; running shells keep their setup
+  const handleTerminalSetShellIntegration = async (
+    _event: Electron.IpcMainInvokeEvent,
+    enabled: boolean
+  ): Promise<void> => {
+    if (typeof enabled !== "boolean") {
+      throw new Error("Invalid value: enabled must be a boolean");
+    }
+    store.set("userConfig.shellIntegrationEnabled", enabled);
+  };
+  ipcMain.handle(CHANNELS.TERMINAL_SET_SHELL_INTEGRATION, handleTerminalSetShellIntegration);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.TERMINAL_SET_SHELL_INTEGRATION));
+
+  // ==========================================
+  // Agent Registry Handlers
+  // ==========================================
+
+  const handleAgentGetRegistry = async (): Promise<AgentDefinition[]> => {
+    return getAgentRegistry();
+  };
+  ipcMain.handle(CHANNELS.AGENT_GET_REGISTRY, handleAgentGetRegistry);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.AGENT_GET_REGISTRY));
+
+  // Pattern changes also apply to agent terminals that are already running
+  const handleAgentSetRegistry = async (
+    _event: Electron.IpcMainInvokeEvent,
+    agents: unknown
+  ): Promise<void> => {
+    const parseResult = AgentRegistrySchema.safeParse(agents);
+    if (!parseResult.success) {
+      console.error("[IPC] Invalid agent registry:", parseResult.error.format());
+      throw new Error(`Invalid agent registry: ${parseResult.error.message}`);
+    }
+    store.set("agentRegistry", parseResult.data);
+    setAgentRegistry(parseResult.data);
+  };
+  ipcMain.handle(CHANNELS.AGENT_SET_REGISTRY, handleAgentSetRegistry);
+  handlers.push(() => ipcMain.removeHandler(CHANNELS.AGENT_SET_REGISTRY));
+
   // ==========================================
   // Artifact Handlers
   // ==========================================
@@ -1445,13 +2300,38 @@ export function registerIpcHandlers(
   ipcMain.handle(CHANNELS.PROJECT_GET_ALL, handleProjectGetAll);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.PROJECT_GET_ALL));
 
+  // A project's file watching settings for its worktree monitors
+  const getWorktreeWatchConfig = async (projectId: string) => {
+    const { usePolling, refreshDebounce } = await projectStore.getProjectSettings(projectId);
+    return { usePolling, refreshDebounce };
+  };
+
+  // Drop port blocks of worktrees deleted outside the app, once the project's worktrees are known
+  const pruneDevServerPorts = () => {
+    if (worktreeService && devServerManager) {
+      devServerManager.pruneReservedPorts(worktreeService.getAllStates().keys());
+    }
+  };
+
+  // Issues and PRs go to the open project's forge
+  const applyProjectForgeKind = async (projectId: string) => {
+    setProjectForgeKind((await projectStore.getProjectSettings(projectId)).forgeKind);
+  };
+
   const handleProjectGetCurrent = async () => {
     const currentProject = projectStore.getCurrentProject();
+    if (currentProject) {
+      await applyProjectForgeKind(currentProject.id);
+    }
 
     // Load worktrees for the current project if available
     if (currentProject && worktreeService) {
       try {
-        await worktreeService.loadProject(currentProject.path);
+        await worktreeService.loadProject(
+          currentProject.path,
+          await getWorktreeWatchConfig(currentProject.id)
+        );
+        pruneDevServerPorts();
       } catch (err) {
         console.error("Failed to load worktrees for current project:", err);
       }
@@ -1558,6 +2438,21 @@ export function registerIpcHandlers(
       throw new Error(`Project not found: ${projectId}`);
     }
 
+    // Save terminal scrollback under the outgoing project before switching
+    const previousProjectId = projectStore.getCurrentProjectId();
+    if (previousProjectId && previousProjectId !== projectId) {
+      try {
+        // The loaded worktrees (and the active one) still belong to the outgoing project
+        await persistTerminalState(
+          ptyManager,
+          previousProjectId,
+          worktreeService?.getActiveWorktreeId() ?? undefined
+        );
+      } catch (err) {
+        console.error("Failed to persist terminal state for previous project:", err);
+      }
+    }
+
     // Set as current project (updates lastOpened)
     await projectStore.setCurrentProject(projectId);
 
@@ -1567,10 +2462,13 @@ export function registerIpcHandlers(
       throw new Error(`Project not found after update: ${projectId}`);
     }
 
+    await applyProjectForgeKind(projectId);
+
     // Load worktrees for this project
     if (worktreeService) {
       try {
-        await worktreeService.loadProject(project.path);
+        await worktreeService.loadProject(project.path, await getWorktreeWatchConfig(project.id));
+        pruneDevServerPorts();
       } catch (err) {
         console.error("Failed to load worktrees for project:", err);
       }
@@ -1625,7 +2523,13 @@ export function registerIpcHandlers(
     if (!settings || typeof settings !== "object") {
       throw new Error("Invalid settings object");
     }
-    return projectStore.saveProjectSettings(projectId, settings);
+    await projectStore.saveProjectSettings(projectId, settings);
+
+    // The open project picks up its forge and file watching settings right away
+    if (projectStore.getCurrentProject()?.id === projectId) {
+      setProjectForgeKind(settings.forgeKind);
+      worktreeService?.setWatchConfig(settings);
+    }
   };
   ipcMain.handle(CHANNELS.PROJECT_SAVE_SETTINGS, handleProjectSaveSettings);
   handlers.push(() => ipcMain.removeHandler(CHANNELS.PROJECT_SAVE_SETTINGS));
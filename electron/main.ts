@@ -5,16 +5,21 @@ import os from "os";
 import { registerIpcHandlers, sendToRenderer } from "./ipc/handlers.js";
 import { registerErrorHandlers } from "./ipc/errorHandlers.js";
 import { PtyManager } from "./services/PtyManager.js";
+import { AgentObserver } from "./services/AgentObserver.js";
 import { DevServerManager } from "./services/DevServerManager.js";
+import { PreviewManager } from "./services/PreviewManager.js";
+import { PortAllocator } from "./services/PortAllocator.js";
 import { worktreeService } from "./services/WorktreeService.js";
 import { createWindowWithState } from "./windowState.js";
-import { store } from "./store.js";
 import { setLoggerWindow } from "./utils/logger.js";
 import { EventBuffer } from "./services/EventBuffer.js";
 import { CHANNELS } from "./ipc/channels.js";
 import { createApplicationMenu } from "./menu.js";
 import { projectStore } from "./services/ProjectStore.js";
 import { getTranscriptManager, disposeTranscriptManager } from "./services/TranscriptManager.js";
+import { persistTerminalState } from "./utils/terminalState.js";
+import { store } from "./store.js";
+import { DEFAULT_AGENTS, setAgentRegistry } from "./services/ai/agentProfiles.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,7 +36,9 @@ process.on("unhandledRejection", (reason, promise) => {
 
 let mainWindow: BrowserWindow | null = null;
 let ptyManager: PtyManager | null = null;
+let agentObserver: AgentObserver | null = null;
 let devServerManager: DevServerManager | null = null;
+let previewManager: PreviewManager | null = null;
 let cleanupIpcHandlers: (() => void) | null = null;
 let cleanupErrorHandlers: (() => void) | null = null;
 let eventBuffer: EventBuffer | null = null;
@@ -89,31 +96,35 @@ if (!gotTheLock) {
 
     console.log("[MAIN] Starting graceful shutdown...");
 
-    // Save terminal state before cleanup
-    if (ptyManager) {
-      const terminals = ptyManager.getAll().map((t) => ({
-        id: t.id,
-        type: t.type || "shell",
-        title: t.title || "Terminal",
-        cwd: t.cwd,
-        worktreeId: t.worktreeId,
-      }));
-      store.set("appState.terminals", terminals);
-    }
+    // Save terminal state (including scrollback) before PTYs are disposed
+    const saveTerminals = persistTerminalState(
+      ptyManager,
+      undefined,
+      worktreeService.getActiveWorktreeId() ?? undefined
+    ).catch((error) => {
+      console.error("[MAIN] Failed to persist terminal state:", error);
+    });
 
     // Perform cleanup
-    Promise.all([
-      worktreeService.stopAll(),
-      devServerManager ? devServerManager.stopAll() : Promise.resolve(),
-      disposeTranscriptManager(),
-      new Promise<void>((resolve) => {
-        if (ptyManager) {
-          ptyManager.dispose();
-          ptyManager = null;
-        }
-        resolve();
-      }),
-    ])
+    saveTerminals
+      .then(() =>
+        Promise.all([
+          worktreeService.stopAll(),
+          devServerManager ? devServerManager.stopAll() : Promise.resolve(),
+          disposeTranscriptManager(),
+          new Promise<void>((resolve) => {
+            if (agentObserver) {
+              agentObserver.stop();
+              agentObserver = null;
+            }
+            if (ptyManager) {
+              ptyManager.dispose();
+              ptyManager = null;
+            }
+            resolve();
+          }),
+        ])
+      )
       .then(() => {
         // Cleanup IPC handlers
         if (cleanupIpcHandlers) {
@@ -167,6 +178,10 @@ async function createWindow(): Promise<void> {
   console.log("[MAIN] Creating application menu...");
   createApplicationMenu(mainWindow);
 
+  // --- AGENT REGISTRY SETUP ---
+  // Load saved agent definitions before any terminal is spawned
+  setAgentRegistry(store.get("agentRegistry") ?? DEFAULT_AGENTS);
+
   // --- PTY MANAGER SETUP ---
   // Create PtyManager instance to manage all terminal processes
   console.log("[MAIN] Initializing PtyManager...");
@@ -178,10 +193,20 @@ async function createWindow(): Promise<void> {
     throw error;
   }
 
+  // --- AGENT OBSERVER SETUP ---
+  // Catch agent state changes that output patterns miss (silence timeouts, AI classification)
+  agentObserver = new AgentObserver(ptyManager);
+  agentObserver.start();
+
   // --- DEV SERVER MANAGER SETUP ---
   // Create and initialize DevServerManager
   console.log("[MAIN] Initializing DevServerManager...");
-  devServerManager = new DevServerManager();
+  // Port reservations persist so each worktree keeps its ports across app restarts
+  const portAllocator = new PortAllocator({
+    reservations: store.get("devServerPorts") ?? {},
+    onChange: (reservations) => store.set("devServerPorts", reservations),
+  });
+  devServerManager = new DevServerManager(portAllocator);
   devServerManager.initialize(mainWindow, (channel: string, ...args: unknown[]) => {
     if (mainWindow) {
       sendToRenderer(mainWindow, channel, ...args);
@@ -189,6 +214,9 @@ async function createWindow(): Promise<void> {
   });
   console.log("[MAIN] DevServerManager initialized successfully");
 
+  // Preview pane for dev servers, layered over the renderer
+  previewManager = new PreviewManager(mainWindow, devServerManager);
+
   // --- PROJECT STORE SETUP ---
   // Initialize ProjectStore
   console.log("[MAIN] Initializing ProjectStore...");
@@ -217,7 +245,8 @@ async function createWindow(): Promise<void> {
     ptyManager,
     devServerManager,
     worktreeService,
-    eventBuffer
+    eventBuffer,
+    previewManager
   );
   console.log("[MAIN] IPC handlers registered successfully");
 
@@ -288,15 +317,14 @@ async function createWindow(): Promise<void> {
 
   mainWindow.on("closed", async () => {
     // Save terminal state before cleanup (to avoid race with before-quit)
-    if (ptyManager) {
-      const terminals = ptyManager.getAll().map((t) => ({
-        id: t.id,
-        type: t.type || "shell",
-        title: t.title || "Terminal",
-        cwd: t.cwd,
-        worktreeId: t.worktreeId,
-      }));
-      store.set("appState.terminals", terminals);
+    try {
+      await persistTerminalState(
+        ptyManager,
+        undefined,
+        worktreeService.getActiveWorktreeId() ?? undefined
+      );
+    } catch (error) {
+      console.error("[MAIN] Failed to persist terminal state:", error);
     }
 
     // Cleanup event buffer subscriptions
@@ -318,6 +346,10 @@ async function createWindow(): Promise<void> {
       cleanupErrorHandlers();
       cleanupErrorHandlers = null;
     }
+    if (previewManager) {
+      previewManager.dispose();
+      previewManager = null;
+    }
     // Stop all worktree monitors
     await worktreeService.stopAll();
     // Stop all dev servers
@@ -327,6 +359,11 @@ async function createWindow(): Promise<void> {
     }
     // Cleanup transcript manager
     await disposeTranscriptManager();
+    // Stop observing agents before their terminals go away
+    if (agentObserver) {
+      agentObserver.stop();
+      agentObserver = null;
+    }
     // Then cleanup PTY manager (kills all terminals)
     if (ptyManager) {
       ptyManager.dispose();
@@ -20,6 +20,10 @@ import { contextBridge, ipcRenderer } from "electron";
 import type {
   WorktreeState,
   DevServerState,
+  DevServerErrorPayload,
+  PreviewLayout,
+  PreviewOpenPayload,
+  PreviewState,
   Project,
   ProjectSettings,
   RunCommand,
@@ -40,6 +44,8 @@ import type {
   AIServiceState,
   ProjectIdentity,
   AgentStateChangePayload,
+  TerminalCwdChangedPayload,
+  AgentDefinition,
   ArtifactDetectedPayload,
   SaveArtifactOptions,
   SaveArtifactResult,
@@ -47,6 +53,19 @@ import type {
   ApplyPatchResult,
   ElectronAPI,
   CreateWorktreeOptions,
+  WorktreeDeletePayload,
+  WorktreeCleanupScanPayload,
+  WorktreeCleanupPayload,
+  WorktreeConflictReport,
+  WorktreeSetupProgress,
+  GitFileDiffPayload,
+  GitStageFilesPayload,
+  GitStageHunkPayload,
+  GitCommitPayload,
+  GitResolveConflictPayload,
+  GitHubListIssuesPayload,
+  GitHubListReviewThreadsPayload,
+  GitHubCreatePRPayload,
   EventContext,
   RunMetadata,
   IpcInvokeMap,
@@ -117,20 +136,60 @@ const CHANNELS = {
   WORKTREE_CREATE: "worktree:create",
   WORKTREE_LIST_BRANCHES: "worktree:list-branches",
   WORKTREE_PR_REFRESH: "worktree:pr-refresh",
+  WORKTREE_CHECK_REMOVAL: "worktree:check-removal",
+  WORKTREE_DELETE: "worktree:delete",
+  WORKTREE_GET_CLEANUP_CANDIDATES: "worktree:get-cleanup-candidates",
+  WORKTREE_CLEANUP: "worktree:cleanup",
   WORKTREE_SET_ADAPTIVE_BACKOFF_CONFIG: "worktree:set-adaptive-backoff-config",
   WORKTREE_IS_CIRCUIT_BREAKER_TRIPPED: "worktree:is-circuit-breaker-tripped",
   WORKTREE_GET_ADAPTIVE_BACKOFF_METRICS: "worktree:get-adaptive-backoff-metrics",
+  WORKTREE_GET_CONFLICTS: "worktree:get-conflicts",
+  WORKTREE_REFRESH_CONFLICTS: "worktree:refresh-conflicts",
+  WORKTREE_CONFLICTS: "worktree:conflicts",
+  WORKTREE_SETUP_PROGRESS: "worktree:setup-progress",
+
+  // Git channels
+  GIT_GET_FILE_DIFF: "git:get-file-diff",
+  GIT_STAGE: "git:stage",
+  GIT_UNSTAGE: "git:unstage",
+  GIT_STAGE_HUNK: "git:stage-hunk",
+  GIT_UNSTAGE_HUNK: "git:unstage-hunk",
+  GIT_COMMIT: "git:commit",
+  GIT_GET_LAST_COMMIT_MESSAGE: "git:get-last-commit-message",
+  GIT_GENERATE_COMMIT_MESSAGE: "git:generate-commit-message",
+  GIT_PULL: "git:pull",
+  GIT_SYNC_WITH_MAIN: "git:sync-with-main",
+  GIT_RESOLVE_CONFLICT: "git:resolve-conflict",
+  GIT_CONTINUE_SYNC: "git:continue-sync",
+  GIT_ABORT_SYNC: "git:abort-sync",
+
+  // GitHub channels
+  GITHUB_LIST_ISSUES: "github:list-issues",
+  GITHUB_LIST_REVIEW_THREADS: "github:list-review-threads",
+  GITHUB_GET_PR_DRAFT: "github:get-pr-draft",
+  GITHUB_CREATE_PR: "github:create-pr",
 
   // Dev server channels
   DEVSERVER_START: "devserver:start",
   DEVSERVER_STOP: "devserver:stop",
   DEVSERVER_TOGGLE: "devserver:toggle",
   DEVSERVER_GET_STATE: "devserver:get-state",
+  DEVSERVER_GET_STATES: "devserver:get-states",
+  DEVSERVER_GET_PROCESSES: "devserver:get-processes",
+  DEVSERVER_START_ALL: "devserver:start-all",
+  DEVSERVER_STOP_ALL: "devserver:stop-all",
   DEVSERVER_GET_LOGS: "devserver:get-logs",
   DEVSERVER_HAS_DEV_SCRIPT: "devserver:has-dev-script",
   DEVSERVER_UPDATE: "devserver:update",
   DEVSERVER_ERROR: "devserver:error",
 
+  // Preview channels
+  PREVIEW_OPEN: "preview:open",
+  PREVIEW_SET_LAYOUT: "preview:set-layout",
+  PREVIEW_RELOAD: "preview:reload",
+  PREVIEW_CLOSE: "preview:close",
+  PREVIEW_STATE: "preview:state",
+
   // Terminal channels
   TERMINAL_SPAWN: "terminal:spawn",
   TERMINAL_DATA: "terminal:data",
@@ -139,10 +198,16 @@ const CHANNELS = {
   TERMINAL_KILL: "terminal:kill",
   TERMINAL_EXIT: "terminal:exit",
   TERMINAL_ERROR: "terminal:error",
+  TERMINAL_GET_SNAPSHOT: "terminal:get-snapshot",
+  TERMINAL_GET_SHELL_INTEGRATION: "terminal:get-shell-integration",
+  TERMINAL_SET_SHELL_INTEGRATION: "terminal:set-shell-integration",
+  TERMINAL_CWD_CHANGED: "terminal:cwd-changed",
 
   // Agent state channels
   AGENT_STATE_CHANGED: "agent:state-changed",
   AGENT_GET_STATE: "agent:get-state",
+  AGENT_GET_REGISTRY: "agent:get-registry",
+  AGENT_SET_REGISTRY: "agent:set-registry",
 
   // Artifact channels
   ARTIFACT_DETECTED: "artifact:detected",
@@ -257,12 +322,24 @@ const api: ElectronAPI = {
     setActive: (worktreeId: string) =>
       ipcRenderer.invoke(CHANNELS.WORKTREE_SET_ACTIVE, { worktreeId }),
 
-    create: (options: CreateWorktreeOptions, rootPath: string) =>
-      ipcRenderer.invoke(CHANNELS.WORKTREE_CREATE, { rootPath, options }),
+    create: (options: CreateWorktreeOptions, rootPath: string, runSetup?: boolean) =>
+      ipcRenderer.invoke(CHANNELS.WORKTREE_CREATE, { rootPath, options, runSetup }),
 
     listBranches: (rootPath: string) =>
       ipcRenderer.invoke(CHANNELS.WORKTREE_LIST_BRANCHES, { rootPath }),
 
+    checkRemoval: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.WORKTREE_CHECK_REMOVAL, worktreeId),
+
+    delete: (payload: WorktreeDeletePayload) =>
+      ipcRenderer.invoke(CHANNELS.WORKTREE_DELETE, payload),
+
+    getCleanupCandidates: (payload?: WorktreeCleanupScanPayload) =>
+      ipcRenderer.invoke(CHANNELS.WORKTREE_GET_CLEANUP_CANDIDATES, payload),
+
+    cleanup: (payload: WorktreeCleanupPayload) =>
+      ipcRenderer.invoke(CHANNELS.WORKTREE_CLEANUP, payload),
+
     setAdaptiveBackoffConfig: (enabled: boolean, maxInterval?: number, threshold?: number) =>
       ipcRenderer.invoke(CHANNELS.WORKTREE_SET_ADAPTIVE_BACKOFF_CONFIG, {
         enabled,
@@ -288,23 +365,121 @@ const api: ElectronAPI = {
       ipcRenderer.on(CHANNELS.WORKTREE_REMOVE, handler);
       return () => ipcRenderer.removeListener(CHANNELS.WORKTREE_REMOVE, handler);
     },
+
+    getConflicts: () => ipcRenderer.invoke(CHANNELS.WORKTREE_GET_CONFLICTS),
+
+    refreshConflicts: () => ipcRenderer.invoke(CHANNELS.WORKTREE_REFRESH_CONFLICTS),
+
+    onConflicts: (callback: (report: WorktreeConflictReport) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, report: WorktreeConflictReport) =>
+        callback(report);
+      ipcRenderer.on(CHANNELS.WORKTREE_CONFLICTS, handler);
+      return () => ipcRenderer.removeListener(CHANNELS.WORKTREE_CONFLICTS, handler);
+    },
+
+    onSetupProgress: (callback: (progress: WorktreeSetupProgress) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, progress: WorktreeSetupProgress) =>
+        callback(progress);
+      ipcRenderer.on(CHANNELS.WORKTREE_SETUP_PROGRESS, handler);
+      return () => ipcRenderer.removeListener(CHANNELS.WORKTREE_SETUP_PROGRESS, handler);
+    },
+  },
+
+  // ==========================================
+  // Git API
+  // ==========================================
+  git: {
+    getFileDiff: (payload: GitFileDiffPayload) =>
+      ipcRenderer.invoke(CHANNELS.GIT_GET_FILE_DIFF, payload),
+
+    stage: (payload: GitStageFilesPayload) => ipcRenderer.invoke(CHANNELS.GIT_STAGE, payload),
+
+    unstage: (payload: GitStageFilesPayload) => ipcRenderer.invoke(CHANNELS.GIT_UNSTAGE, payload),
+
+    stageHunk: (payload: GitStageHunkPayload) =>
+      ipcRenderer.invoke(CHANNELS.GIT_STAGE_HUNK, payload),
+
+    unstageHunk: (payload: GitStageHunkPayload) =>
+      ipcRenderer.invoke(CHANNELS.GIT_UNSTAGE_HUNK, payload),
+
+    commit: (payload: GitCommitPayload) => ipcRenderer.invoke(CHANNELS.GIT_COMMIT, payload),
+
+    getLastCommitMessage: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.GIT_GET_LAST_COMMIT_MESSAGE, worktreeId),
+
+    generateCommitMessage: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.GIT_GENERATE_COMMIT_MESSAGE, worktreeId),
+
+    pull: (worktreeId: string) => ipcRenderer.invoke(CHANNELS.GIT_PULL, worktreeId),
+
+    syncWithMain: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.GIT_SYNC_WITH_MAIN, worktreeId),
+
+    resolveConflict: (payload: GitResolveConflictPayload) =>
+      ipcRenderer.invoke(CHANNELS.GIT_RESOLVE_CONFLICT, payload),
+
+    continueSync: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.GIT_CONTINUE_SYNC, worktreeId),
+
+    abortSync: (worktreeId: string) => ipcRenderer.invoke(CHANNELS.GIT_ABORT_SYNC, worktreeId),
+  },
+
+  // ==========================================
+  // GitHub API
+  // ==========================================
+  github: {
+    listIssues: (payload: GitHubListIssuesPayload) =>
+      ipcRenderer.invoke(CHANNELS.GITHUB_LIST_ISSUES, payload),
+
+    listReviewThreads: (payload: GitHubListReviewThreadsPayload) =>
+      ipcRenderer.invoke(CHANNELS.GITHUB_LIST_REVIEW_THREADS, payload),
+
+    getPRDraft: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.GITHUB_GET_PR_DRAFT, worktreeId),
+
+    createPR: (payload: GitHubCreatePRPayload) =>
+      ipcRenderer.invoke(CHANNELS.GITHUB_CREATE_PR, payload),
   },
 
   // ==========================================
   // Dev Server API
   // ==========================================
   devServer: {
-    start: (worktreeId: string, worktreePath: string, command?: string) =>
-      ipcRenderer.invoke(CHANNELS.DEVSERVER_START, { worktreeId, worktreePath, command }),
+    start: (worktreeId: string, worktreePath: string, command?: string, processId?: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_START, {
+        worktreeId,
+        worktreePath,
+        command,
+        processId,
+      }),
+
+    stop: (worktreeId: string, processId?: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_STOP, { worktreeId, processId }),
+
+    toggle: (worktreeId: string, worktreePath: string, command?: string, processId?: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_TOGGLE, {
+        worktreeId,
+        worktreePath,
+        command,
+        processId,
+      }),
+
+    getState: (worktreeId: string, processId?: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_GET_STATE, worktreeId, processId),
+
+    getStates: (worktreeId: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_GET_STATES, worktreeId),
 
-    stop: (worktreeId: string) => ipcRenderer.invoke(CHANNELS.DEVSERVER_STOP, { worktreeId }),
+    getProcesses: (worktreePath: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_GET_PROCESSES, worktreePath),
 
-    toggle: (worktreeId: string, worktreePath: string, command?: string) =>
-      ipcRenderer.invoke(CHANNELS.DEVSERVER_TOGGLE, { worktreeId, worktreePath, command }),
+    startAll: (worktreeId: string, worktreePath: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_START_ALL, { worktreeId, worktreePath }),
 
-    getState: (worktreeId: string) => ipcRenderer.invoke(CHANNELS.DEVSERVER_GET_STATE, worktreeId),
+    stopAll: (worktreeId: string) => ipcRenderer.invoke(CHANNELS.DEVSERVER_STOP_ALL, worktreeId),
 
-    getLogs: (worktreeId: string) => ipcRenderer.invoke(CHANNELS.DEVSERVER_GET_LOGS, worktreeId),
+    getLogs: (worktreeId: string, processId?: string) =>
+      ipcRenderer.invoke(CHANNELS.DEVSERVER_GET_LOGS, worktreeId, processId),
 
     hasDevScript: (worktreePath: string) =>
       ipcRenderer.invoke(CHANNELS.DEVSERVER_HAS_DEV_SCRIPT, worktreePath),
@@ -315,16 +490,33 @@ const api: ElectronAPI = {
       return () => ipcRenderer.removeListener(CHANNELS.DEVSERVER_UPDATE, handler);
     },
 
-    onError: (callback: (data: { worktreeId: string; error: string }) => void) => {
-      const handler = (
-        _event: Electron.IpcRendererEvent,
-        data: { worktreeId: string; error: string }
-      ) => callback(data);
+    onError: (callback: (data: DevServerErrorPayload) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: DevServerErrorPayload) =>
+        callback(data);
       ipcRenderer.on(CHANNELS.DEVSERVER_ERROR, handler);
       return () => ipcRenderer.removeListener(CHANNELS.DEVSERVER_ERROR, handler);
     },
   },
 
+  // ==========================================
+  // Preview API
+  // ==========================================
+  preview: {
+    open: (payload: PreviewOpenPayload) => ipcRenderer.invoke(CHANNELS.PREVIEW_OPEN, payload),
+
+    setLayout: (layout: PreviewLayout) => ipcRenderer.invoke(CHANNELS.PREVIEW_SET_LAYOUT, layout),
+
+    reload: () => ipcRenderer.invoke(CHANNELS.PREVIEW_RELOAD),
+
+    close: () => ipcRenderer.invoke(CHANNELS.PREVIEW_CLOSE),
+
+    onState: (callback: (state: PreviewState) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, state: PreviewState) => callback(state);
+      ipcRenderer.on(CHANNELS.PREVIEW_STATE, handler);
+      return () => ipcRenderer.removeListener(CHANNELS.PREVIEW_STATE, handler);
+    },
+  },
+
   // ==========================================
   // Terminal API
   // ==========================================
@@ -338,6 +530,14 @@ const api: ElectronAPI = {
 
     kill: (id: string) => ipcRenderer.invoke(CHANNELS.TERMINAL_KILL, id),
 
+    getSnapshot: (id: string) => ipcRenderer.invoke(CHANNELS.TERMINAL_GET_SNAPSHOT, id),
+
+    getShellIntegration: (): Promise<boolean> =>
+      ipcRenderer.invoke(CHANNELS.TERMINAL_GET_SHELL_INTEGRATION),
+
+    setShellIntegration: (enabled: boolean): Promise<void> =>
+      ipcRenderer.invoke(CHANNELS.TERMINAL_SET_SHELL_INTEGRATION, enabled),
+
     onData: (id: string, callback: (data: string) => void) => {
       const handler = (_event: Electron.IpcRendererEvent, terminalId: unknown, data: unknown) => {
         // Type guards to ensure we received valid data
@@ -389,6 +589,23 @@ const api: ElectronAPI = {
       ipcRenderer.on(CHANNELS.AGENT_STATE_CHANGED, handler);
       return () => ipcRenderer.removeListener(CHANNELS.AGENT_STATE_CHANGED, handler);
     },
+
+    onCwdChanged: (callback: (data: TerminalCwdChangedPayload) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, data: TerminalCwdChangedPayload) =>
+        callback(data);
+      ipcRenderer.on(CHANNELS.TERMINAL_CWD_CHANGED, handler);
+      return () => ipcRenderer.removeListener(CHANNELS.TERMINAL_CWD_CHANGED, handler);
+    },
+  },
+
+  // ==========================================
+  // Agent Registry API
+  // ==========================================
+  agent: {
+    getRegistry: (): Promise<AgentDefinition[]> => ipcRenderer.invoke(CHANNELS.AGENT_GET_REGISTRY),
+
+    setRegistry: (agents: AgentDefinition[]): Promise<void> =>
+      ipcRenderer.invoke(CHANNELS.AGENT_SET_REGISTRY, agents),
   },
 
   // ==========================================
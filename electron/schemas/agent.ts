@@ -10,7 +10,7 @@ import { z } from "zod";
 /**
  * Valid terminal/agent types.
  */
-export const TerminalTypeSchema = z.enum(["shell", "claude", "gemini", "custom"]);
+export const TerminalTypeSchema = z.enum(["shell", "claude", "gemini", "codex", "custom"]);
 
 /**
  * Valid agent lifecycle states.
@@ -60,6 +60,7 @@ export const AgentSpawnedSchema = EventContextSchema.extend({
   agentId: z.string().min(1),
   terminalId: z.string().min(1),
   type: TerminalTypeSchema,
+  agentType: z.string().min(1).optional(),
   timestamp: z.number().int().positive(),
   traceId: z.string().optional(),
 });
@@ -69,6 +69,24 @@ export const IssueExtractionResponseSchema = z.object({
   repository: z.string().optional(),
 });
 
+/**
+ * Schema for agent state classification AI response.
+ * Expected format: {"state": "working" | "waiting", "confidence": 0-1}
+ */
+export const AgentStateClassificationResponseSchema = z.object({
+  state: z.enum(["working", "waiting"]),
+  confidence: z.number().min(0).max(1),
+});
+
+/**
+ * Schema for commit message generation AI response.
+ * Expected format: {"subject": "...", "body": "..."}
+ */
+export const CommitMessageResponseSchema = z.object({
+  subject: z.string().min(1).max(200),
+  body: z.string().optional(),
+});
+
 // ============================================================================
 // Git Output Schemas
 // ============================================================================
@@ -94,6 +112,7 @@ export const GitStatusEntrySchema = z.object({
   status: GitStatusCodeSchema,
   insertions: z.number().int().nonnegative().nullable(),
   deletions: z.number().int().nonnegative().nullable(),
+  staged: z.enum(["none", "partial", "all"]).optional(),
   mtimeMs: z.number().nonnegative().optional(),
   mtime: z.number().nonnegative().optional(),
 });
@@ -177,6 +196,10 @@ export type WorktreeSummaryResponse = z.infer<typeof WorktreeSummaryResponseSche
 export type ProjectIdentityResponse = z.infer<typeof ProjectIdentityResponseSchema>;
 export type SimplifiedProjectIdentity = z.infer<typeof SimplifiedProjectIdentitySchema>;
 export type IssueExtractionResponse = z.infer<typeof IssueExtractionResponseSchema>;
+export type AgentStateClassificationResponse = z.infer<
+  typeof AgentStateClassificationResponseSchema
+>;
+export type CommitMessageResponse = z.infer<typeof CommitMessageResponseSchema>;
 export type GitStatusCode = z.infer<typeof GitStatusCodeSchema>;
 export type GitStatusEntry = z.infer<typeof GitStatusEntrySchema>;
 export type WorktreeChanges = z.infer<typeof WorktreeChangesSchema>;
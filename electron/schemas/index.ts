@@ -36,17 +36,33 @@ export {
   DevServerStartPayloadSchema,
   DevServerStopPayloadSchema,
   DevServerTogglePayloadSchema,
+  DevServerStartAllPayloadSchema,
+  PreviewLayoutSchema,
+  PreviewOpenPayloadSchema,
   CopyTreeFormatSchema,
   CopyTreeOptionsSchema,
   CopyTreeGeneratePayloadSchema,
   CopyTreeInjectPayloadSchema,
   CopyTreeProgressSchema,
+  AgentDefinitionSchema,
+  AgentRegistrySchema,
   SystemOpenExternalPayloadSchema,
   SystemOpenPathPayloadSchema,
   DirectoryOpenPayloadSchema,
   DirectoryRemoveRecentPayloadSchema,
   WorktreeSetActivePayloadSchema,
   WorktreeCreatePayloadSchema,
+  WorktreeDeletePayloadSchema,
+  WorktreeCleanupScanPayloadSchema,
+  WorktreeCleanupPayloadSchema,
+  GitFileDiffPayloadSchema,
+  GitStageFilesPayloadSchema,
+  GitStageHunkPayloadSchema,
+  GitCommitPayloadSchema,
+  GitResolveConflictPayloadSchema,
+  GitHubListIssuesPayloadSchema,
+  GitHubListReviewThreadsPayloadSchema,
+  GitHubCreatePRPayloadSchema,
   HistoryGetSessionsPayloadSchema,
   HistoryGetSessionPayloadSchema,
   HistoryExportSessionPayloadSchema,
@@ -55,6 +71,9 @@ export {
   type DevServerStartPayload as ValidatedDevServerStartPayload,
   type DevServerStopPayload as ValidatedDevServerStopPayload,
   type DevServerTogglePayload as ValidatedDevServerTogglePayload,
+  type DevServerStartAllPayload as ValidatedDevServerStartAllPayload,
+  type PreviewLayout as ValidatedPreviewLayout,
+  type PreviewOpenPayload as ValidatedPreviewOpenPayload,
   type CopyTreeOptions as ValidatedCopyTreeOptions,
   type CopyTreeGeneratePayload as ValidatedCopyTreeGeneratePayload,
   type CopyTreeInjectPayload as ValidatedCopyTreeInjectPayload,
@@ -65,6 +84,17 @@ export {
   type DirectoryRemoveRecentPayload as ValidatedDirectoryRemoveRecentPayload,
   type WorktreeSetActivePayload as ValidatedWorktreeSetActivePayload,
   type WorktreeCreatePayload as ValidatedWorktreeCreatePayload,
+  type WorktreeDeletePayload as ValidatedWorktreeDeletePayload,
+  type WorktreeCleanupScanPayload as ValidatedWorktreeCleanupScanPayload,
+  type WorktreeCleanupPayload as ValidatedWorktreeCleanupPayload,
+  type GitFileDiffPayload as ValidatedGitFileDiffPayload,
+  type GitStageFilesPayload as ValidatedGitStageFilesPayload,
+  type GitStageHunkPayload as ValidatedGitStageHunkPayload,
+  type GitCommitPayload as ValidatedGitCommitPayload,
+  type GitResolveConflictPayload as ValidatedGitResolveConflictPayload,
+  type GitHubListIssuesPayload as ValidatedGitHubListIssuesPayload,
+  type GitHubListReviewThreadsPayload as ValidatedGitHubListReviewThreadsPayload,
+  type GitHubCreatePRPayload as ValidatedGitHubCreatePRPayload,
   type HistoryGetSessionsPayload as ValidatedHistoryGetSessionsPayload,
   type HistoryGetSessionPayload as ValidatedHistoryGetSessionPayload,
   type HistoryExportSessionPayload as ValidatedHistoryExportSessionPayload,
@@ -78,6 +108,8 @@ export {
   ProjectIdentityResponseSchema,
   SimplifiedProjectIdentitySchema,
   IssueExtractionResponseSchema,
+  AgentStateClassificationResponseSchema,
+  CommitMessageResponseSchema,
   GitStatusCodeSchema,
   GitStatusEntrySchema,
   WorktreeChangesSchema,
@@ -90,6 +122,8 @@ export {
   type ProjectIdentityResponse,
   type SimplifiedProjectIdentity,
   type IssueExtractionResponse,
+  type AgentStateClassificationResponse,
+  type CommitMessageResponse,
   type GitStatusCode,
   type GitStatusEntry,
   type WorktreeChanges as ValidatedWorktreeChanges,
@@ -25,8 +25,10 @@ export const TerminalSpawnOptionsSchema = z.object({
   command: z.string().optional(),
   env: z.record(z.string(), z.string()).optional(),
   type: TerminalTypeSchema.optional(),
+  agentType: z.string().optional(),
   title: z.string().optional(),
   worktreeId: z.string().optional(),
+  initialPrompt: z.string().max(20000).optional(),
 });
 
 /**
@@ -55,6 +57,7 @@ export const DevServerStartPayloadSchema = z.object({
   worktreeId: z.string().min(1),
   worktreePath: z.string().min(1),
   command: z.string().optional(),
+  processId: z.string().min(1).optional(),
 });
 
 /**
@@ -62,6 +65,7 @@ export const DevServerStartPayloadSchema = z.object({
  */
 export const DevServerStopPayloadSchema = z.object({
   worktreeId: z.string().min(1),
+  processId: z.string().min(1).optional(),
 });
 
 /**
@@ -71,6 +75,47 @@ export const DevServerTogglePayloadSchema = z.object({
   worktreeId: z.string().min(1),
   worktreePath: z.string().min(1),
   command: z.string().optional(),
+  processId: z.string().min(1).optional(),
+});
+
+/**
+ * Schema for starting every dev process of a worktree.
+ */
+export const DevServerStartAllPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  worktreePath: z.string().min(1),
+});
+
+// ============================================================================
+// Preview Schemas
+// ============================================================================
+
+/**
+ * Schema for the preview's placement in the window.
+ */
+export const PreviewLayoutSchema = z.object({
+  bounds: z.object({
+    x: z.number().finite(),
+    y: z.number().finite(),
+    width: z.number().finite().nonnegative(),
+    height: z.number().finite().nonnegative(),
+  }),
+  zoomFactor: z.number().positive().max(5),
+  visible: z.boolean(),
+});
+
+/**
+ * Schema for showing a dev server in the preview.
+ * Only http(s) pages may be loaded into the app window.
+ */
+export const PreviewOpenPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  processId: z.string().min(1),
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), "Only http and https URLs can be previewed"),
+  layout: PreviewLayoutSchema,
 });
 
 // ============================================================================
@@ -149,6 +194,53 @@ export const CopyTreeGetFileTreePayloadSchema = z.object({
   dirPath: z.string().optional(),
 });
 
+// ============================================================================
+// Agent Registry Schemas
+// ============================================================================
+
+const RegexSourceSchema = z.string().refine(
+  (source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid regular expression" }
+);
+
+/**
+ * Schema for a single agent registry entry.
+ */
+export const AgentDefinitionSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "ID must be lowercase letters, numbers and dashes")
+    .refine((id) => id !== "shell", { message: '"shell" is reserved' }),
+  name: z.string().trim().min(1),
+  command: z.string().trim().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  icon: z.enum(["claude", "gemini", "codex", "terminal", "bot", "sparkles", "code"]),
+  copyTreeFormat: CopyTreeFormatSchema,
+  busyPatterns: z.array(RegexSourceSchema),
+  promptPatterns: z.array(RegexSourceSchema),
+  promptPatternsIgnoreCase: z.boolean().optional(),
+  shortcut: z.string().optional(),
+  enabled: z.boolean(),
+  builtIn: z.boolean().optional(),
+});
+
+/**
+ * Schema for the full agent registry (IDs must be unique).
+ */
+export const AgentRegistrySchema = z
+  .array(AgentDefinitionSchema)
+  .refine((agents) => new Set(agents.map((agent) => agent.id)).size === agents.length, {
+    message: "Agent IDs must be unique",
+  });
+
 // ============================================================================
 // System Schemas
 // ============================================================================
@@ -209,6 +301,112 @@ export const WorktreeCreatePayloadSchema = z.object({
   }),
 });
 
+/**
+ * Schema for removing a worktree from disk.
+ */
+export const WorktreeDeletePayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  deleteBranch: z.boolean().optional(),
+  force: z.boolean().optional(),
+});
+
+/**
+ * Schema for scanning worktrees for cleanup candidates.
+ */
+export const WorktreeCleanupScanPayloadSchema = z.object({
+  staleDays: z.number().int().min(1).max(365).optional(),
+});
+
+/**
+ * Schema for bulk-removing worktrees.
+ */
+export const WorktreeCleanupPayloadSchema = z.object({
+  worktreeIds: z.array(z.string().min(1)),
+  deleteBranches: z.boolean().optional(),
+  force: z.boolean().optional(),
+});
+
+// ============================================================================
+// Git Schemas
+// ============================================================================
+
+/**
+ * Schema for getting a single file's diff.
+ */
+export const GitFileDiffPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  filePath: z.string().min(1),
+  base: z.enum(["head", "main", "staged", "unstaged"]),
+});
+
+/**
+ * Schema for staging or unstaging whole files.
+ */
+export const GitStageFilesPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  filePaths: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * Schema for staging or unstaging a single hunk.
+ */
+export const GitStageHunkPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  filePath: z.string().min(1),
+  hunkHeader: z.string().startsWith("@@"),
+});
+
+/**
+ * Schema for committing staged changes.
+ */
+export const GitCommitPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  message: z.string().trim().min(1, "Commit message is required"),
+  amend: z.boolean().optional(),
+});
+
+/**
+ * Schema for resolving a conflicted file by taking one side.
+ */
+export const GitResolveConflictPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  filePath: z.string().min(1),
+  side: z.enum(["ours", "theirs"]),
+});
+
+// ============================================================================
+// GitHub Schemas
+// ============================================================================
+
+/**
+ * Schema for listing open GitHub issues.
+ */
+export const GitHubListIssuesPayloadSchema = z.object({
+  cwd: z.string().min(1),
+  search: z.string().max(256).optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+/**
+ * Schema for listing a pull request's unresolved review threads.
+ */
+export const GitHubListReviewThreadsPayloadSchema = z.object({
+  cwd: z.string().min(1),
+  prNumber: z.number().int().positive(),
+});
+
+/**
+ * Schema for pushing a worktree's branch and opening a pull request.
+ */
+export const GitHubCreatePRPayloadSchema = z.object({
+  worktreeId: z.string().min(1),
+  title: z.string().trim().min(1).max(256),
+  body: z.string().max(65536),
+  baseBranch: z.string().min(1),
+  draft: z.boolean().optional(),
+  reviewers: z.array(z.string().min(1)).max(15).optional(),
+});
+
 // ============================================================================
 // History Schemas
 // ============================================================================
@@ -245,6 +443,9 @@ export type TerminalResizePayload = z.infer<typeof TerminalResizePayloadSchema>;
 export type DevServerStartPayload = z.infer<typeof DevServerStartPayloadSchema>;
 export type DevServerStopPayload = z.infer<typeof DevServerStopPayloadSchema>;
 export type DevServerTogglePayload = z.infer<typeof DevServerTogglePayloadSchema>;
+export type DevServerStartAllPayload = z.infer<typeof DevServerStartAllPayloadSchema>;
+export type PreviewLayout = z.infer<typeof PreviewLayoutSchema>;
+export type PreviewOpenPayload = z.infer<typeof PreviewOpenPayloadSchema>;
 export type CopyTreeOptions = z.infer<typeof CopyTreeOptionsSchema>;
 export type CopyTreeGeneratePayload = z.infer<typeof CopyTreeGeneratePayloadSchema>;
 export type CopyTreeGenerateAndCopyFilePayload = z.infer<
@@ -259,6 +460,17 @@ export type DirectoryOpenPayload = z.infer<typeof DirectoryOpenPayloadSchema>;
 export type DirectoryRemoveRecentPayload = z.infer<typeof DirectoryRemoveRecentPayloadSchema>;
 export type WorktreeSetActivePayload = z.infer<typeof WorktreeSetActivePayloadSchema>;
 export type WorktreeCreatePayload = z.infer<typeof WorktreeCreatePayloadSchema>;
+export type WorktreeDeletePayload = z.infer<typeof WorktreeDeletePayloadSchema>;
+export type WorktreeCleanupScanPayload = z.infer<typeof WorktreeCleanupScanPayloadSchema>;
+export type WorktreeCleanupPayload = z.infer<typeof WorktreeCleanupPayloadSchema>;
+export type GitFileDiffPayload = z.infer<typeof GitFileDiffPayloadSchema>;
+export type GitStageFilesPayload = z.infer<typeof GitStageFilesPayloadSchema>;
+export type GitStageHunkPayload = z.infer<typeof GitStageHunkPayloadSchema>;
+export type GitCommitPayload = z.infer<typeof GitCommitPayloadSchema>;
+export type GitResolveConflictPayload = z.infer<typeof GitResolveConflictPayloadSchema>;
+export type GitHubListIssuesPayload = z.infer<typeof GitHubListIssuesPayloadSchema>;
+export type GitHubListReviewThreadsPayload = z.infer<typeof GitHubListReviewThreadsPayloadSchema>;
+export type GitHubCreatePRPayload = z.infer<typeof GitHubCreatePRPayloadSchema>;
 export type HistoryGetSessionsPayload = z.infer<typeof HistoryGetSessionsPayloadSchema>;
 export type HistoryGetSessionPayload = z.infer<typeof HistoryGetSessionPayloadSchema>;
 export type HistoryExportSessionPayload = z.infer<typeof HistoryExportSessionPayloadSchema>;
@@ -0,0 +1,220 @@
+/**
+ * AgentObserver Service
+ *
+ * Periodically inspects agent terminal snapshots to catch state changes that
+ * output pattern matching misses - most often an agent that finished its turn
+ * without printing a recognizable prompt, leaving its badge stuck on "working".
+ *
+ * Detection ladder for a silent "working" agent:
+ * 1. Busy patterns still on screen → stay working (e.g. a long-running tool)
+ * 2. Prompt heuristics with silence timing → waiting (trigger: "timeout")
+ * 3. AI classification of the screen, if configured → waiting/working (trigger: "ai-classification")
+ * 4. Long silence with no other signal → waiting (trigger: "timeout", low confidence)
+ */
+
+import type { PtyManager, TerminalSnapshot } from "./PtyManager.js";
+import { detectBusyState, detectPrompt } from "./AgentStateMachine.js";
+import { getAgentDefinition } from "./ai/agentProfiles.js";
+import { classifyAgentState } from "./ai/stateClassifier.js";
+
+/** How often snapshots are inspected */
+const POLL_INTERVAL_MS = 2000;
+
+/** Silence after which a working agent is checked with prompt heuristics and AI */
+const SILENCE_THRESHOLD_MS = 5000;
+
+/** Silence after which a working agent is assumed to be waiting without AI */
+const LONG_SILENCE_THRESHOLD_MS = 30000;
+
+/** Minimum time between AI classifications of the same terminal (screen unchanged: never) */
+const AI_CHECK_INTERVAL_MS = 15000;
+
+/** Minimum AI confidence required to act on a classification */
+const MIN_AI_CONFIDENCE = 0.6;
+
+/** Lines of the semantic buffer used for pattern checks */
+const PATTERN_CONTEXT_LINES = 5;
+
+const TIMEOUT_PROMPT_CONFIDENCE = 0.7;
+const TIMEOUT_SILENCE_CONFIDENCE = 0.4;
+
+export interface AgentObserverOptions {
+  /** Override the AI classifier (used by tests) */
+  classify?: typeof classifyAgentState;
+  /** Override the clock (used by tests) */
+  now?: () => number;
+}
+
+export class AgentObserver {
+  private pollTimer: NodeJS.Timeout | null = null;
+  /** Terminals with an AI classification in flight */
+  private pendingClassifications = new Set<string>();
+  /** Last AI classification per terminal (state is null when AI gave no answer) */
+  private lastAICheck = new Map<
+    string,
+    { at: number; screen: string; state: "working" | "waiting" | null }
+  >();
+  private readonly classify: typeof classifyAgentState;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly ptyManager: PtyManager,
+    options: AgentObserverOptions = {}
+  ) {
+    this.classify = options.classify ?? classifyAgentState;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Start polling terminal snapshots. Safe to call more than once.
+   */
+  start(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop polling and forget per-terminal state.
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.pendingClassifications.clear();
+    this.lastAICheck.clear();
+  }
+
+  /**
+   * Inspect all agent terminals once.
+   * Exposed for tests; normally driven by the poll timer.
+   */
+  poll(): void {
+    const snapshots = this.ptyManager.getAllTerminalSnapshots();
+    const activeIds = new Set(snapshots.map((snapshot) => snapshot.id));
+
+    // Forget terminals that have exited
+    for (const id of this.lastAICheck.keys()) {
+      if (!activeIds.has(id)) this.lastAICheck.delete(id);
+    }
+
+    for (const snapshot of snapshots) {
+      if (snapshot.agentId && snapshot.agentState === "working") {
+        this.checkWorkingAgent(snapshot);
+      }
+    }
+  }
+
+  private checkWorkingAgent(snapshot: TerminalSnapshot): void {
+    const now = this.now();
+    const silence = now - snapshot.lastOutputTime;
+    if (silence < SILENCE_THRESHOLD_MS) return;
+
+    // Heuristics only need to run once per burst of output
+    const alreadyChecked = snapshot.lastCheckTime >= snapshot.lastOutputTime;
+    const agentType = snapshot.agentType;
+    const tail = snapshot.lines.slice(-PATTERN_CONTEXT_LINES).join("\n");
+
+    if (!alreadyChecked) {
+      this.ptyManager.markChecked(snapshot.id);
+
+      // Long-running tools often go quiet while the busy indicator stays on screen
+      if (agentType && detectBusyState(tail, agentType)) {
+        return;
+      }
+
+      if (detectPrompt(tail, { agentType, timeSinceLastOutput: silence, processAlive: true })) {
+        this.ptyManager.applyObservedState(
+          snapshot.id,
+          { type: "prompt" },
+          "timeout",
+          TIMEOUT_PROMPT_CONFIDENCE
+        );
+        return;
+      }
+    } else if (agentType && detectBusyState(tail, agentType)) {
+      return;
+    }
+
+    if (this.shouldClassify(snapshot, now)) {
+      void this.classifySnapshot(snapshot);
+      return;
+    }
+
+    // Only fall back to silence alone when AI had nothing to say
+    const lastAIState = this.lastAICheck.get(snapshot.id)?.state ?? null;
+    if (
+      silence >= LONG_SILENCE_THRESHOLD_MS &&
+      lastAIState === null &&
+      !this.pendingClassifications.has(snapshot.id)
+    ) {
+      this.ptyManager.applyObservedState(
+        snapshot.id,
+        { type: "prompt" },
+        "timeout",
+        TIMEOUT_SILENCE_CONFIDENCE
+      );
+    }
+  }
+
+  private shouldClassify(snapshot: TerminalSnapshot, now: number): boolean {
+    if (this.pendingClassifications.has(snapshot.id)) return false;
+    const lastCheck = this.lastAICheck.get(snapshot.id);
+    if (lastCheck === undefined) return true;
+
+    // The same screen would get the same answer; only pay for a new look
+    return (
+      now - lastCheck.at >= AI_CHECK_INTERVAL_MS && lastCheck.screen !== snapshot.lines.join("\n")
+    );
+  }
+
+  private async classifySnapshot(snapshot: TerminalSnapshot): Promise<void> {
+    const { id } = snapshot;
+    const screen = snapshot.lines.join("\n");
+    this.pendingClassifications.add(id);
+    this.lastAICheck.set(id, { at: this.now(), screen, state: null });
+
+    try {
+      const agentName = snapshot.agentType
+        ? getAgentDefinition(snapshot.agentType)?.name
+        : undefined;
+      const result = await this.classify(snapshot.lines, agentName);
+
+      // AI unavailable - leave it to the long-silence timeout
+      if (!result) return;
+
+      // Stopped while the request was in flight
+      if (!this.pendingClassifications.has(id)) return;
+
+      const confident = result.confidence >= MIN_AI_CONFIDENCE;
+      this.lastAICheck.set(id, {
+        at: this.now(),
+        screen,
+        state: confident ? result.state : null,
+      });
+
+      // Discard stale results: the agent produced output or changed state meanwhile
+      const current = this.ptyManager.getTerminalSnapshot(id);
+      if (
+        !current ||
+        current.agentState !== "working" ||
+        current.lastOutputTime !== snapshot.lastOutputTime
+      ) {
+        return;
+      }
+
+      if (result.state === "waiting" && confident) {
+        this.ptyManager.applyObservedState(
+          id,
+          { type: "prompt" },
+          "ai-classification",
+          result.confidence
+        );
+      }
+    } catch (error) {
+      console.error(`[AgentObserver] Classification failed for terminal ${id}:`, error);
+    } finally {
+      this.pendingClassifications.delete(id);
+    }
+  }
+}
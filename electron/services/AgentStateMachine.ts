@@ -197,19 +197,19 @@ export interface PromptDetectionOptions {
  * 4. Timing-based heuristics (silence after incomplete output)
  *
  * @param data - String data to analyze
- * @param options - Optional timing, process state, and terminal type
+ * @param options - Optional timing, process state, and agent registry ID
  * @returns true if data appears to be a prompt, false otherwise
  */
 export function detectPrompt(
   data: string,
-  options?: PromptDetectionOptions & { type?: string }
+  options?: PromptDetectionOptions & { agentType?: string }
 ): boolean {
   // Strip ANSI codes to handle colored prompts
   const cleanData = stripAnsi(data);
 
   // Check agent-specific patterns first
-  if (options?.type) {
-    const profile = getAgentProfile(options.type);
+  if (options?.agentType) {
+    const profile = getAgentProfile(options.agentType);
     if (profile?.promptPatterns?.some((p) => p.test(cleanData))) {
       return true;
     }
@@ -292,11 +292,11 @@ export function getStateChangeTimestamp(): number {
  * status strings like "(esc to interrupt)".
  *
  * @param data - Terminal output data (may contain ANSI codes)
- * @param type - Terminal type (claude, gemini, custom)
+ * @param agentType - Agent registry ID (claude, gemini, or a user-defined agent)
  * @returns true if busy patterns are detected, false otherwise
  */
-export function detectBusyState(data: string, type: string): boolean {
-  const profile = getAgentProfile(type);
+export function detectBusyState(data: string, agentType: string): boolean {
+  const profile = getAgentProfile(agentType);
   if (!profile) return false;
 
   // Strip ANSI color codes before pattern matching
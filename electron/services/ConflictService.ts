@@ -0,0 +1,357 @@
+/**
+ * ConflictService - Predicts merge conflicts between parallel worktrees.
+ *
+ * Architecture:
+ * - Singleton service that subscribes to sys:worktree:update and sys:worktree:remove events
+ * - Compares uncommitted changed files across all worktrees to find overlaps
+ * - Test-merges each pair of worktree HEADs with `git merge-tree --write-tree` to find
+ *   real textual conflicts in committed work (skipped on git older than 2.38)
+ * - Caches merge results by commit pair, so only pairs whose HEAD moved are re-merged
+ * - Emits sys:worktree:conflicts when the report changes
+ */
+
+import { simpleGit } from "simple-git";
+import { relative, isAbsolute } from "path";
+import { events } from "./events.js";
+import { logInfo, logWarn, logDebug } from "../utils/logger.js";
+import type { WorktreeState } from "./WorktreeMonitor.js";
+import type { WorktreeConflictPair, WorktreeConflictReport } from "../types/index.js";
+
+// Debounce delay for batching worktree updates (monitors poll every few seconds)
+const RECOMPUTE_DEBOUNCE_MS = 1000;
+
+// First git version whose merge-tree can merge without touching the index or worktree
+const MERGE_TREE_MIN_VERSION = { major: 2, minor: 38 };
+
+/**
+ * Worktree data needed for conflict prediction.
+ */
+interface TrackedWorktree {
+  worktreeId: string;
+  path: string;
+  branch?: string;
+  /** Changed file paths relative to the worktree root */
+  files: Set<string>;
+}
+
+/**
+ * Find files changed in both sets.
+ *
+ * @param a - Changed files of one worktree
+ * @param b - Changed files of another worktree
+ * @returns Shared paths, sorted
+ */
+export function findOverlappingFiles(a: Set<string>, b: Set<string>): string[] {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  return Array.from(smaller)
+    .filter((file) => larger.has(file))
+    .sort();
+}
+
+/**
+ * Parse `git merge-tree --write-tree --name-only --no-messages` output.
+ * The first line is the merged tree ID; any following lines are conflicted files.
+ *
+ * @param output - Raw command output
+ * @returns Conflicted file paths, deduplicated
+ */
+export function parseMergeTreeConflicts(output: string): string[] {
+  const lines = output
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return Array.from(new Set(lines));
+}
+
+/**
+ * ConflictService predicts which worktrees will conflict with each other.
+ *
+ * Usage:
+ * ```typescript
+ * conflictService.initialize('/path/to/repo');
+ * conflictService.start();
+ *
+ * // Latest report (also pushed via sys:worktree:conflicts)
+ * const report = conflictService.getReport();
+ *
+ * conflictService.stop();
+ * ```
+ *
+ * Events emitted:
+ * - sys:worktree:conflicts - When the set of conflicting pairs changes
+ *
+ * Events consumed:
+ * - sys:worktree:update - Tracks each worktree's changed files
+ * - sys:worktree:remove - Drops removed worktrees from the report
+ */
+class ConflictService {
+  private cwd: string = "";
+  private isRunning: boolean = false;
+  private mergeTreeSupported: boolean | null = null;
+
+  private worktrees = new Map<string, TrackedWorktree>();
+
+  // Key: "<commitA>:<commitB>" (sorted), Value: conflicted files
+  private mergeCache = new Map<string, string[]>();
+
+  private report: WorktreeConflictReport = { pairs: [], mergeChecked: false, updatedAt: 0 };
+
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private computing: Promise<WorktreeConflictReport> | null = null;
+  private recomputeQueued: boolean = false;
+
+  private unsubscribers: (() => void)[] = [];
+
+  /**
+   * Initialize the service with the repository root.
+   * @param cwd - Repository root (any worktree of the repo works)
+   */
+  public initialize(cwd: string): void {
+    this.cwd = cwd;
+    logInfo("ConflictService initialized", { cwd });
+  }
+
+  /**
+   * Start tracking worktree updates.
+   */
+  public start(): void {
+    if (this.isRunning) {
+      logWarn("ConflictService already running");
+      return;
+    }
+
+    if (!this.cwd) {
+      logWarn("ConflictService not initialized - call initialize() first");
+      return;
+    }
+
+    this.isRunning = true;
+    this.unsubscribers.push(events.on("sys:worktree:update", this.handleWorktreeUpdate.bind(this)));
+    this.unsubscribers.push(events.on("sys:worktree:remove", this.handleWorktreeRemove.bind(this)));
+    logInfo("ConflictService started");
+  }
+
+  /**
+   * Stop tracking and clear all state.
+   */
+  public stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    this.worktrees.clear();
+    this.mergeCache.clear();
+    this.report = { pairs: [], mergeChecked: false, updatedAt: 0 };
+    this.isRunning = false;
+    logInfo("ConflictService stopped");
+  }
+
+  /**
+   * Get the most recent conflict report.
+   */
+  public getReport(): WorktreeConflictReport {
+    return this.report;
+  }
+
+  /**
+   * Recompute the report now (e.g., after commits that didn't change file lists).
+   * @returns The fresh report
+   */
+  public async refresh(): Promise<WorktreeConflictReport> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    return this.recompute();
+  }
+
+  private handleWorktreeUpdate(state: WorktreeState): void {
+    const rootPath = state.worktreeChanges?.rootPath ?? state.path;
+    const files = new Set(
+      (state.worktreeChanges?.changes ?? []).map((change) =>
+        isAbsolute(change.path) ? relative(rootPath, change.path) : change.path
+      )
+    );
+
+    const previous = this.worktrees.get(state.worktreeId);
+    this.worktrees.set(state.worktreeId, {
+      worktreeId: state.worktreeId,
+      path: state.path,
+      branch: state.branch,
+      files,
+    });
+
+    const changed =
+      !previous ||
+      previous.branch !== state.branch ||
+      previous.files.size !== files.size ||
+      Array.from(files).some((file) => !previous.files.has(file));
+
+    if (changed) {
+      this.scheduleRecompute();
+    }
+  }
+
+  private handleWorktreeRemove({ worktreeId }: { worktreeId: string }): void {
+    if (this.worktrees.delete(worktreeId)) {
+      this.scheduleRecompute();
+    }
+  }
+
+  private scheduleRecompute(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.recompute();
+    }, RECOMPUTE_DEBOUNCE_MS);
+  }
+
+  private async recompute(): Promise<WorktreeConflictReport> {
+    // Coalesce overlapping runs: finish the current one, then run once more
+    if (this.computing) {
+      this.recomputeQueued = true;
+      return this.computing;
+    }
+
+    this.computing = this.computeReport();
+    try {
+      return await this.computing;
+    } finally {
+      this.computing = null;
+      if (this.recomputeQueued) {
+        this.recomputeQueued = false;
+        void this.recompute();
+      }
+    }
+  }
+
+  private async computeReport(): Promise<WorktreeConflictReport> {
+    const worktrees = Array.from(this.worktrees.values());
+    const mergeChecked = await this.isMergeTreeSupported();
+
+    const heads = new Map<string, string>();
+    if (mergeChecked) {
+      for (const worktree of worktrees) {
+        try {
+          heads.set(
+            worktree.worktreeId,
+            (await simpleGit(worktree.path).revparse(["HEAD"])).trim()
+          );
+        } catch {
+          // No commits yet - nothing to merge
+        }
+      }
+    }
+
+    const usedMergeKeys = new Set<string>();
+    const pairs: WorktreeConflictPair[] = [];
+
+    for (let i = 0; i < worktrees.length; i++) {
+      for (let j = i + 1; j < worktrees.length; j++) {
+        const a = worktrees[i];
+        const b = worktrees[j];
+
+        const overlappingFiles = findOverlappingFiles(a.files, b.files);
+
+        let conflictingFiles: string[] = [];
+        const headA = heads.get(a.worktreeId);
+        const headB = heads.get(b.worktreeId);
+        if (headA && headB && headA !== headB) {
+          const key = [headA, headB].sort().join(":");
+          usedMergeKeys.add(key);
+          conflictingFiles = await this.getMergeConflicts(key, headA, headB);
+        }
+
+        if (overlappingFiles.length > 0 || conflictingFiles.length > 0) {
+          pairs.push({
+            worktreeIds: [a.worktreeId, b.worktreeId],
+            overlappingFiles,
+            conflictingFiles,
+          });
+        }
+      }
+    }
+
+    // Forget merges of commits that are no longer any worktree's HEAD
+    for (const key of Array.from(this.mergeCache.keys())) {
+      if (!usedMergeKeys.has(key)) {
+        this.mergeCache.delete(key);
+      }
+    }
+
+    const changed =
+      mergeChecked !== this.report.mergeChecked ||
+      JSON.stringify(pairs) !== JSON.stringify(this.report.pairs);
+
+    this.report = { pairs, mergeChecked, updatedAt: Date.now() };
+
+    if (changed) {
+      logDebug("Worktree conflict report changed", {
+        pairCount: pairs.length,
+        mergeChecked,
+      });
+      events.emit("sys:worktree:conflicts", this.report);
+    }
+
+    return this.report;
+  }
+
+  private async getMergeConflicts(key: string, headA: string, headB: string): Promise<string[]> {
+    const cached = this.mergeCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      // Exits 1 with conflicted paths on stdout when the merge isn't clean
+      const output = await simpleGit(this.cwd).raw([
+        "merge-tree",
+        "--write-tree",
+        "--name-only",
+        "--no-messages",
+        headA,
+        headB,
+      ]);
+      const conflicts = parseMergeTreeConflicts(output);
+      this.mergeCache.set(key, conflicts);
+      return conflicts;
+    } catch (error) {
+      // Unrelated histories and similar - report no conflicts rather than failing the pair
+      logWarn("git merge-tree failed", { headA, headB, error: (error as Error).message });
+      return [];
+    }
+  }
+
+  private async isMergeTreeSupported(): Promise<boolean> {
+    if (this.mergeTreeSupported !== null) {
+      return this.mergeTreeSupported;
+    }
+
+    try {
+      const version = await simpleGit(this.cwd).version();
+      this.mergeTreeSupported =
+        version.installed &&
+        (version.major > MERGE_TREE_MIN_VERSION.major ||
+          (version.major === MERGE_TREE_MIN_VERSION.major &&
+            version.minor >= MERGE_TREE_MIN_VERSION.minor));
+    } catch {
+      this.mergeTreeSupported = false;
+    }
+
+    if (!this.mergeTreeSupported) {
+      logWarn(
+        "git merge-tree --write-tree unavailable - predicting conflicts from file overlap only"
+      );
+    }
+    return this.mergeTreeSupported;
+  }
+}
+
+export const conflictService = new ConflictService();
@@ -5,7 +5,10 @@
  * Migrated from the original Canopy CLI with IPC integration for renderer communication.
  *
  * Responsibilities:
- * - Start/stop dev server processes per worktree
+ * - Start/stop named dev processes per worktree (e.g. frontend, API, queue worker)
+ * - Give each process its own port (PORT env var) so worktrees don't collide
+ * - Readiness and liveness probes (TCP connect or HTTP GET)
+ * - Restart crashed processes with backoff, or when watched files change
  * - Detect server URLs from stdout
  * - Emit state updates via IPC
  * - Graceful shutdown with SIGTERM → SIGKILL fallback
@@ -13,12 +16,29 @@
  */
 
 import { execa, type ResultPromise, type Result } from "execa";
-import { existsSync } from "node:fs";
+import { existsSync, watch, type FSWatcher } from "node:fs";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 import type { BrowserWindow } from "electron";
-import type { DevServerState, DevServerStatus } from "../types/index.js";
+import type {
+  DevServerHealthCheck,
+  DevServerPortSettings,
+  DevServerProbeResult,
+  DevServerRestartPolicy,
+  DevServerRestartReason,
+  DevServerState,
+  DevServerStatus,
+  RunCommand,
+} from "../types/index.js";
+import { DEFAULT_CONFIG } from "../types/config.js";
+import { probeHttp, probeTcp, type ProbeOutcome } from "../utils/healthProbe.js";
 import { events } from "./events.js";
+import { PortAllocator } from "./PortAllocator.js";
+import { expandSetupPattern, segmentToRegExp } from "./WorktreeSetupRunner.js";
+
+/** Process slot used for a worktree's auto-detected dev script */
+export const DEFAULT_DEV_PROCESS_ID = "dev";
+const DEFAULT_DEV_PROCESS_NAME = "Dev Server";
 
 // URL detection patterns for common dev servers
 const URL_PATTERNS = [
@@ -47,6 +67,43 @@ const PORT_PATTERNS = [/(?:Listening|Started) on (?:port )?(\d+)/i, /port[:\s]+(
 const FORCE_KILL_TIMEOUT_MS = 5000;
 const MAX_LOG_LINES = 100;
 
+// How often a starting process is probed for readiness
+const READINESS_POLL_MS = 1000;
+
+const DEFAULT_HEALTH_CHECK: DevServerHealthCheck = DEFAULT_CONFIG.devServer?.healthCheck ?? {
+  type: "tcp",
+};
+
+const DEFAULT_RESTART_POLICY: DevServerRestartPolicy = DEFAULT_CONFIG.devServer?.restartPolicy ?? {
+  mode: "never",
+};
+
+// Output lines kept from a process that exited unexpectedly
+const CRASH_LOG_TAIL_LINES = 20;
+
+// A process that stayed up this long before exiting backs off from scratch
+const RESTART_RESET_MS = 60 * 1000;
+
+// Quiet period after a watched file changes before restarting
+const WATCH_DEBOUNCE_MS = 500;
+
+// How a slot was last started by hand, reused for automatic restarts
+interface DevProcessLaunch {
+  worktreePath: string;
+  command: string;
+  healthCheck?: Partial<DevServerHealthCheck>;
+  restartPolicy: DevServerRestartPolicy;
+  portSettings: Partial<DevServerPortSettings>;
+  /** Restarts after exits in a row */
+  attempts: number;
+  spawnedAt: number;
+  /** Set while the process is replaced after a file change, so its exit isn't a crash */
+  replacing: boolean;
+  restartTimer?: NodeJS.Timeout;
+  watchTimer?: NodeJS.Timeout;
+  watchers: FSWatcher[];
+}
+
 // Cache entry for dev script detection
 interface DevScriptCacheEntry {
   hasDevScript: boolean;
@@ -57,9 +114,29 @@ interface DevScriptCacheEntry {
 // Cache TTL: 5 minutes (invalidated on explicit refresh)
 const DEV_SCRIPT_CACHE_TTL_MS = 5 * 60 * 1000;
 
+// Maps are keyed by worktree and process slot; NUL can't appear in either
+function slotKey(worktreeId: string, processId: string): string {
+  return `${worktreeId}\0${processId}`;
+}
+
 /**
  * DevServerManager manages dev server processes for worktrees.
  *
+ * A worktree can run several processes at once, each in its own slot identified
+ * by a process ID (a RunCommand id, or DEFAULT_DEV_PROCESS_ID for the detected
+ * dev script) with its own state, logs and URL detection.
+ *
+ * Readiness comes from the slot's health check when one is configured: the process
+ * is "running" once its port accepts connections (or answers HTTP), not when it
+ * prints a URL. A process without one is "running" once spawned, and is probed
+ * with the default check (devServer.healthCheck) only after it prints a URL, so
+ * processes that never listen (e.g. queue workers) aren't flagged. Once running,
+ * it's probed periodically and marked as errored after repeated failures.
+ *
+ * A slot started by hand keeps its launch settings until it's stopped by hand, so
+ * the restart policy can bring it back after it exits (with exponential backoff,
+ * up to maxRetries in a row) or restart it when a watched file changes.
+ *
  * State changes are emitted via the event bus (server:update, server:error),
  * enabling observability through EventBuffer and EventInspector.
  * IPC handlers subscribe to these events and forward to renderer.
@@ -69,6 +146,22 @@ export class DevServerManager {
   private states = new Map<string, DevServerState>();
   private logBuffers = new Map<string, string[]>();
   private devScriptCache = new Map<string, DevScriptCacheEntry>();
+  private healthChecks = new Map<string, DevServerHealthCheck>();
+  private healthTimers = new Map<string, NodeJS.Timeout>();
+  private startedAt = new Map<string, number>();
+  private launches = new Map<string, DevProcessLaunch>();
+  // Settings each slot was last started with, kept after it stops for retries
+  private lastSettings = new Map<
+    string,
+    Pick<DevProcessLaunch, "healthCheck" | "restartPolicy" | "portSettings">
+  >();
+  // Processes being stopped on request, whose exit isn't a crash whatever the signal
+  private stopping = new WeakSet<ResultPromise>();
+
+  /**
+   * @param ports - Allocator for per-worktree port ranges
+   */
+  constructor(private readonly ports: PortAllocator = new PortAllocator()) {}
 
   /**
    * Initialize the manager.
@@ -83,228 +176,225 @@ export class DevServerManager {
   }
 
   /**
-   * Get the current state for a worktree's dev server.
+   * Get the current state of a worktree's dev process.
    */
-  public getState(worktreeId: string): DevServerState {
+  public getState(worktreeId: string, processId: string = DEFAULT_DEV_PROCESS_ID): DevServerState {
     return (
-      this.states.get(worktreeId) ?? {
+      this.states.get(slotKey(worktreeId, processId)) ?? {
         worktreeId,
+        processId,
         status: "stopped",
       }
     );
   }
 
   /**
-   * Get all server states.
+   * Get the states of every process slot used in a worktree.
+   */
+  public getStates(worktreeId: string): DevServerState[] {
+    return Array.from(this.states.values()).filter((state) => state.worktreeId === worktreeId);
+  }
+
+  /**
+   * Get all server states, keyed by worktree and process slot.
    */
   public getAllStates(): Map<string, DevServerState> {
     return new Map(this.states);
   }
 
   /**
-   * Check if a dev server is running for a worktree.
+   * Check if a dev process is running for a worktree.
+   *
+   * @param worktreeId - Worktree ID
+   * @param processId - Process slot to check; any slot when omitted
+   */
+  public isRunning(worktreeId: string, processId?: string): boolean {
+    const states =
+      processId === undefined ? this.getStates(worktreeId) : [this.getState(worktreeId, processId)];
+    return states.some((state) => state.status === "running" || state.status === "starting");
+  }
+
+  /**
+   * Resolve the dev processes to run in a worktree: the run commands marked as
+   * dev processes, or else the detected dev script in the default slot.
+   *
+   * @param worktreePath - Path to the worktree
+   * @param runCommands - The project's run commands
    */
-  public isRunning(worktreeId: string): boolean {
-    const state = this.states.get(worktreeId);
-    return state?.status === "running" || state?.status === "starting";
+  public async resolveProcesses(
+    worktreePath: string,
+    runCommands: RunCommand[]
+  ): Promise<RunCommand[]> {
+    const configured = runCommands.filter((runCommand) => runCommand.devProcess);
+    if (configured.length > 0) {
+      return configured;
+    }
+
+    const command = await this.detectDevCommandAsync(worktreePath);
+    return command ? [{ id: DEFAULT_DEV_PROCESS_ID, name: DEFAULT_DEV_PROCESS_NAME, command }] : [];
   }
 
   /**
-   * Start a dev server for a worktree.
+   * Start a dev process for a worktree.
    *
    * @param worktreeId - Worktree ID
    * @param worktreePath - Path to the worktree
    * @param command - Optional custom command (defaults to auto-detection)
+   * @param processId - Process slot to run in
+   * @param healthCheck - Overrides for the default health check (devServer.healthCheck)
+   * @param restartPolicy - Overrides for the default restart policy (devServer.restartPolicy)
+   * @param portSettings - Overrides for the default port assignment (devServer port settings)
    */
-  public async start(worktreeId: string, worktreePath: string, command?: string): Promise<void> {
+  public async start(
+    worktreeId: string,
+    worktreePath: string,
+    command?: string,
+    processId: string = DEFAULT_DEV_PROCESS_ID,
+    healthCheck?: Partial<DevServerHealthCheck>,
+    restartPolicy?: Partial<DevServerRestartPolicy>,
+    portSettings: Partial<DevServerPortSettings> = {}
+  ): Promise<void> {
     // Don't start if already running
-    if (this.isRunning(worktreeId)) {
-      console.warn("Dev server already running for worktree", worktreeId);
+    if (this.isRunning(worktreeId, processId)) {
+      console.warn("Dev server already running for worktree", { worktreeId, processId });
       return;
     }
 
+    const key = slotKey(worktreeId, processId);
+    this.endLaunch(key);
+
     // Detect or use provided command
     const resolvedCommand = command ?? (await this.detectDevCommandAsync(worktreePath));
 
     if (!resolvedCommand) {
-      this.updateState(worktreeId, {
+      this.updateState(worktreeId, processId, {
         status: "error",
         errorMessage: "No dev script found in package.json",
       });
-      this.emitError(worktreeId, "No dev script found in package.json");
+      this.emitError(worktreeId, processId, "No dev script found in package.json");
       return;
     }
 
-    console.log("Starting dev server", { worktreeId, command: resolvedCommand });
-
-    // Update state to starting (clear any previous error)
-    this.updateState(worktreeId, { status: "starting", errorMessage: undefined });
-
-    // Clear and initialize log buffer for fresh start
-    this.logBuffers.set(worktreeId, []);
-
-    try {
-      // Use execa for robust cross-platform process management
-      // Note: execa v9 requires command as first arg, options as second
-      const proc = execa(resolvedCommand, {
-        shell: true,
-        cwd: worktreePath,
-        buffer: false, // Don't buffer - we stream stdout/stderr
-        cleanup: true, // Kill on parent exit
-        reject: false, // Handle non-zero exit ourselves
-      });
-
-      this.servers.set(worktreeId, proc);
-      this.updateState(worktreeId, { pid: proc.pid });
-
-      // Handle stdout for URL detection
-      if (proc.stdout) {
-        proc.stdout.on("data", (data: Buffer) => {
-          const output = data.toString();
-          this.appendLog(worktreeId, output);
-          this.detectUrl(worktreeId, output);
-        });
-      }
-
-      // Handle stderr (also check for URL as some servers output there)
-      if (proc.stderr) {
-        proc.stderr.on("data", (data: Buffer) => {
-          const output = data.toString();
-          this.appendLog(worktreeId, output);
-          this.detectUrl(worktreeId, output);
-        });
-      }
-
-      // Handle process completion
-      proc
-        .then((result: Result) => {
-          console.log("Dev server exited", {
-            worktreeId,
-            exitCode: result.exitCode,
-            signal: result.signal,
-          });
-          this.servers.delete(worktreeId);
+    const launch: DevProcessLaunch = {
+      worktreePath,
+      command: resolvedCommand,
+      healthCheck,
+      restartPolicy: { ...DEFAULT_RESTART_POLICY, ...restartPolicy },
+      portSettings,
+      attempts: 0,
+      spawnedAt: 0,
+      replacing: false,
+      watchers: [],
+    };
+    this.launches.set(key, launch);
+    this.lastSettings.set(key, { healthCheck, restartPolicy: launch.restartPolicy, portSettings });
 
-          const currentState = this.states.get(worktreeId);
+    // A start by hand begins a fresh restart history
+    this.updateState(worktreeId, processId, { restartCount: undefined, lastCrash: undefined });
 
-          // Only update to stopped if not already in error state
-          if (currentState?.status !== "error") {
-            const exitCode = result.exitCode ?? null;
-            const signal = result.signal ?? null;
-
-            if (
-              exitCode !== 0 &&
-              exitCode !== null &&
-              signal !== "SIGTERM" &&
-              signal !== "SIGKILL"
-            ) {
-              const errorMessage = `Process exited with code ${exitCode}`;
-              this.updateState(worktreeId, {
-                status: "error",
-                errorMessage,
-              });
-              // Emit error event for observability (EventBuffer, EventInspector)
-              this.emitError(worktreeId, errorMessage);
-            } else {
-              this.updateState(worktreeId, {
-                status: "stopped",
-                url: undefined,
-                port: undefined,
-                pid: undefined,
-                errorMessage: undefined,
-              });
-            }
-          }
-        })
-        .catch((error: unknown) => {
-          const message = error instanceof Error ? error.message : "Unknown error";
-          console.error("Dev server process error", { worktreeId, error: message });
-          this.servers.delete(worktreeId);
-          this.updateState(worktreeId, {
-            status: "error",
-            errorMessage: message,
-          });
-          this.emitError(worktreeId, message);
-        });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      console.error("Failed to start dev server", { worktreeId, error: message });
-      this.updateState(worktreeId, {
-        status: "error",
-        errorMessage: message,
-      });
-      this.emitError(worktreeId, message);
-    }
+    await this.spawn(worktreeId, processId, launch);
+    await this.watchForChanges(worktreeId, processId, launch);
   }
 
   /**
-   * Stop a dev server for a worktree.
+   * Start a dev process again with the health check, restart policy and port
+   * settings it was last started with (e.g. when retrying after an error).
    */
-  public async stop(worktreeId: string): Promise<void> {
-    const proc = this.servers.get(worktreeId);
-
-    if (!proc) {
-      // No process - just reset state
-      this.updateState(worktreeId, {
-        status: "stopped",
-        url: undefined,
-        port: undefined,
-        pid: undefined,
-        errorMessage: undefined,
-      });
-      return;
-    }
-
-    console.log("Stopping dev server", { worktreeId, pid: proc.pid });
-
-    return new Promise((resolve) => {
-      // Set up force kill timer
-      const forceKillTimer = setTimeout(() => {
-        console.warn("Force killing dev server", { worktreeId });
-        try {
-          proc.kill("SIGKILL");
-        } catch {
-          // Process may have already exited
-        }
-      }, FORCE_KILL_TIMEOUT_MS);
-
-      // Listen for process completion
-      proc.finally(() => {
-        clearTimeout(forceKillTimer);
-        this.servers.delete(worktreeId);
-        this.updateState(worktreeId, {
-          status: "stopped",
-          url: undefined,
-          port: undefined,
-          pid: undefined,
-        });
-        resolve();
-      });
+  public async retry(
+    worktreeId: string,
+    worktreePath: string,
+    command?: string,
+    processId: string = DEFAULT_DEV_PROCESS_ID
+  ): Promise<void> {
+    const settings = this.lastSettings.get(slotKey(worktreeId, processId));
+    await this.start(
+      worktreeId,
+      worktreePath,
+      command,
+      processId,
+      settings?.healthCheck,
+      settings?.restartPolicy,
+      settings?.portSettings
+    );
+  }
 
-      // Try graceful shutdown first
-      try {
-        proc.kill("SIGTERM");
-      } catch {
-        // Process may have already exited
-        clearTimeout(forceKillTimer);
-        resolve();
-      }
-    });
+  /**
+   * Stop a dev process for a worktree, cancelling any pending restart.
+   */
+  public async stop(worktreeId: string, processId: string = DEFAULT_DEV_PROCESS_ID): Promise<void> {
+    this.endLaunch(slotKey(worktreeId, processId));
+    await this.terminate(worktreeId, processId);
   }
 
   /**
-   * Toggle dev server state for a worktree.
+   * Toggle a dev process for a worktree.
    */
-  public async toggle(worktreeId: string, worktreePath: string, command?: string): Promise<void> {
-    const state = this.getState(worktreeId);
+  public async toggle(
+    worktreeId: string,
+    worktreePath: string,
+    command?: string,
+    processId: string = DEFAULT_DEV_PROCESS_ID,
+    healthCheck?: Partial<DevServerHealthCheck>,
+    restartPolicy?: Partial<DevServerRestartPolicy>,
+    portSettings?: Partial<DevServerPortSettings>
+  ): Promise<void> {
+    const state = this.getState(worktreeId, processId);
 
     if (state.status === "stopped" || state.status === "error") {
-      await this.start(worktreeId, worktreePath, command);
+      await this.start(
+        worktreeId,
+        worktreePath,
+        command,
+        processId,
+        healthCheck,
+        restartPolicy,
+        portSettings
+      );
     } else {
-      await this.stop(worktreeId);
+      await this.stop(worktreeId, processId);
     }
   }
 
+  /**
+   * Start every given dev process for a worktree (already running ones are left alone).
+   *
+   * @param worktreeId - Worktree ID
+   * @param worktreePath - Path to the worktree
+   * @param processes - Processes to start, each in the slot named by its id
+   * @param restartPolicy - Overrides for the default restart policy (devServer.restartPolicy)
+   * @param portSettings - Overrides for the default port assignment (devServer port settings)
+   */
+  public async startWorktree(
+    worktreeId: string,
+    worktreePath: string,
+    processes: RunCommand[],
+    restartPolicy?: Partial<DevServerRestartPolicy>,
+    portSettings?: Partial<DevServerPortSettings>
+  ): Promise<void> {
+    await Promise.all(
+      processes.map((devProcess) =>
+        this.start(
+          worktreeId,
+          worktreePath,
+          devProcess.command,
+          devProcess.id,
+          devProcess.healthCheck,
+          restartPolicy,
+          portSettings
+        )
+      )
+    );
+  }
+
+  /**
+   * Stop every dev process of a worktree, clearing any errors.
+   */
+  public async stopWorktree(worktreeId: string): Promise<void> {
+    await Promise.all(
+      this.getStates(worktreeId).map((state) => this.stop(worktreeId, state.processId))
+    );
+  }
+
   /**
    * Stop all running dev servers.
    * Should be called on app shutdown.
@@ -312,19 +402,49 @@ export class DevServerManager {
   public async stopAll(): Promise<void> {
     console.log("Stopping all dev servers", { count: this.servers.size });
 
-    const promises = Array.from(this.servers.keys()).map((worktreeId) => this.stop(worktreeId));
+    for (const key of Array.from(this.launches.keys())) {
+      this.endLaunch(key);
+    }
+
+    const promises = Array.from(this.states.values())
+      .filter((state) => this.servers.has(slotKey(state.worktreeId, state.processId)))
+      .map((state) => this.stop(state.worktreeId, state.processId));
 
     await Promise.all(promises);
     this.servers.clear();
     this.states.clear();
     this.logBuffers.clear();
+    this.lastSettings.clear();
   }
 
   /**
-   * Get logs for a worktree's dev server.
+   * Release a worktree's reserved ports (e.g. after the worktree is removed).
    */
-  public getLogs(worktreeId: string): string[] {
-    return this.logBuffers.get(worktreeId) ?? [];
+  public releasePorts(worktreeId: string): void {
+    this.ports.release(worktreeId);
+  }
+
+  /**
+   * Release the reserved ports of worktrees that no longer exist: not among the
+   * given (loaded) worktrees, no process running, and no directory on disk.
+   * Worktrees of other projects keep their ports while their directories remain.
+   */
+  public pruneReservedPorts(worktreeIds: Iterable<string>): void {
+    const keep = new Set(worktreeIds);
+    for (const { worktreeId, processId } of this.states.values()) {
+      const key = slotKey(worktreeId, processId);
+      if (this.servers.has(key) || this.launches.has(key)) {
+        keep.add(worktreeId);
+      }
+    }
+    this.ports.prune((worktreeId) => keep.has(worktreeId) || existsSync(worktreeId));
+  }
+
+  /**
+   * Get logs for a worktree's dev process.
+   */
+  public getLogs(worktreeId: string, processId: string = DEFAULT_DEV_PROCESS_ID): string[] {
+    return this.logBuffers.get(slotKey(worktreeId, processId)) ?? [];
   }
 
   /**
@@ -414,29 +534,271 @@ export class DevServerManager {
     await Promise.all(worktreePaths.map((path) => this.hasDevScriptAsync(path)));
   }
 
+  /**
+   * Spawn a slot's process from its launch settings.
+   */
+  private async spawn(
+    worktreeId: string,
+    processId: string,
+    launch: DevProcessLaunch
+  ): Promise<void> {
+    const key = slotKey(worktreeId, processId);
+
+    // Same port for the slot on every start; null if none could be reserved
+    const { rangeStart, portsPerWorktree } = launch.portSettings;
+    const assignedPort = await this.ports.allocate(worktreeId, processId, {
+      rangeStart,
+      portsPerWorktree,
+    });
+
+    console.log("Starting dev server", {
+      worktreeId,
+      processId,
+      command: launch.command,
+      port: assignedPort,
+    });
+
+    // Update state to starting (clear any previous error)
+    this.updateState(worktreeId, processId, {
+      status: "starting",
+      assignedPort: assignedPort ?? undefined,
+      errorMessage: undefined,
+      health: undefined,
+    });
+
+    // Clear and initialize log buffer for fresh start
+    this.logBuffers.set(key, []);
+
+    try {
+      // Use execa for robust cross-platform process management
+      // Note: execa v9 requires command as first arg, options as second
+      const proc = execa(launch.command, {
+        shell: true,
+        cwd: launch.worktreePath,
+        env: assignedPort !== null ? this.getPortEnv(assignedPort, launch) : undefined,
+        buffer: false, // Don't buffer - we stream stdout/stderr
+        cleanup: true, // Kill on parent exit
+        reject: false, // Handle non-zero exit ourselves
+      });
+
+      this.servers.set(key, proc);
+      launch.spawnedAt = Date.now();
+      this.updateState(worktreeId, processId, { pid: proc.pid });
+
+      // Without a configured check there may be no server at all (e.g. a queue
+      // worker), so probing waits until the process prints a URL
+      const check = { ...DEFAULT_HEALTH_CHECK, ...launch.healthCheck };
+      if (check.type === "none" || !this.hasConfiguredHealthCheck(launch)) {
+        this.updateState(worktreeId, processId, { status: "running" });
+      } else {
+        this.healthChecks.set(key, check);
+        this.startedAt.set(key, Date.now());
+        this.scheduleHealthCheck(worktreeId, processId, READINESS_POLL_MS);
+      }
+
+      // Handle stdout for URL detection
+      if (proc.stdout) {
+        proc.stdout.on("data", (data: Buffer) => {
+          const output = data.toString();
+          this.appendLog(key, output);
+          this.detectUrl(worktreeId, processId, output);
+        });
+      }
+
+      // Handle stderr (also check for URL as some servers output there)
+      if (proc.stderr) {
+        proc.stderr.on("data", (data: Buffer) => {
+          const output = data.toString();
+          this.appendLog(key, output);
+          this.detectUrl(worktreeId, processId, output);
+        });
+      }
+
+      // Handle process completion
+      proc
+        .then((result: Result) => {
+          console.log("Dev server exited", {
+            worktreeId,
+            processId,
+            exitCode: result.exitCode,
+            signal: result.signal,
+          });
+          this.servers.delete(key);
+          this.clearHealthCheck(key);
+
+          const exitCode = result.exitCode ?? null;
+          const signal = result.signal ?? null;
+          // Any exit nobody asked for is a failure unless it was clean, including
+          // deaths by signal (a segfault, or the OOM killer's SIGKILL)
+          const failed = !this.stopping.has(proc) && (exitCode !== 0 || signal !== null);
+          const exitReason =
+            exitCode !== null ? `exited with code ${exitCode}` : `was killed by ${signal}`;
+
+          if (failed) {
+            this.updateState(worktreeId, processId, {
+              lastCrash: {
+                exitCode,
+                signal: signal ?? undefined,
+                crashedAt: Date.now(),
+                logTail: this.getLogs(worktreeId, processId).slice(-CRASH_LOG_TAIL_LINES),
+              },
+            });
+          }
+
+          // Exits after a stop by hand or during a file-change restart aren't restarted
+          let gaveUp = false;
+          if (this.launches.get(key) === launch && !launch.replacing) {
+            const { mode } = launch.restartPolicy;
+            if (mode === "always" || (mode === "on-failure" && failed)) {
+              if (this.restartAfterExit(worktreeId, processId, launch, exitCode)) {
+                return;
+              }
+              gaveUp = true;
+            }
+          }
+
+          const currentState = this.states.get(key);
+
+          // Only update to stopped if not already in error state
+          if (currentState?.status !== "error" || gaveUp) {
+            if (failed) {
+              const errorMessage = gaveUp
+                ? `Process ${exitReason} (gave up after ${launch.attempts} restarts)`
+                : `Process ${exitReason}`;
+              this.updateState(worktreeId, processId, {
+                status: "error",
+                errorMessage,
+              });
+              // Emit error event for observability (EventBuffer, EventInspector)
+              this.emitError(worktreeId, processId, errorMessage);
+            } else {
+              this.updateState(worktreeId, processId, {
+                status: "stopped",
+                url: undefined,
+                port: undefined,
+                pid: undefined,
+                errorMessage: undefined,
+                health: undefined,
+              });
+            }
+          }
+        })
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          console.error("Dev server process error", { worktreeId, processId, error: message });
+          this.servers.delete(key);
+          this.clearHealthCheck(key);
+          this.updateState(worktreeId, processId, {
+            status: "error",
+            errorMessage: message,
+          });
+          this.emitError(worktreeId, processId, message);
+        });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("Failed to start dev server", { worktreeId, processId, error: message });
+      this.updateState(worktreeId, processId, {
+        status: "error",
+        errorMessage: message,
+      });
+      this.emitError(worktreeId, processId, message);
+    }
+  }
+
+  /**
+   * Kill a slot's process (SIGTERM, then SIGKILL) and mark it as stopped.
+   */
+  private async terminate(worktreeId: string, processId: string): Promise<void> {
+    const key = slotKey(worktreeId, processId);
+    const proc = this.servers.get(key);
+
+    if (!proc) {
+      // No process - just reset state
+      this.updateState(worktreeId, processId, {
+        status: "stopped",
+        url: undefined,
+        port: undefined,
+        pid: undefined,
+        errorMessage: undefined,
+        health: undefined,
+      });
+      return;
+    }
+
+    // A probe failing during shutdown shouldn't flag the process
+    this.clearHealthCheck(key);
+    this.stopping.add(proc);
+
+    console.log("Stopping dev server", { worktreeId, processId, pid: proc.pid });
+
+    return new Promise((resolve) => {
+      // Set up force kill timer
+      const forceKillTimer = setTimeout(() => {
+        console.warn("Force killing dev server", { worktreeId, processId });
+        try {
+          proc.kill("SIGKILL");
+        } catch {
+          // Process may have already exited
+        }
+      }, FORCE_KILL_TIMEOUT_MS);
+
+      // Listen for process completion
+      proc.finally(() => {
+        clearTimeout(forceKillTimer);
+        this.servers.delete(key);
+        this.updateState(worktreeId, processId, {
+          status: "stopped",
+          url: undefined,
+          port: undefined,
+          pid: undefined,
+          health: undefined,
+        });
+        resolve();
+      });
+
+      // Try graceful shutdown first
+      try {
+        proc.kill("SIGTERM");
+      } catch {
+        // Process may have already exited
+        clearTimeout(forceKillTimer);
+        resolve();
+      }
+    });
+  }
+
   /**
    * Update state and emit IPC event only if state actually changed.
    */
   private updateState(
     worktreeId: string,
-    updates: Partial<Omit<DevServerState, "worktreeId">>
+    processId: string,
+    updates: Partial<Omit<DevServerState, "worktreeId" | "processId">>
   ): void {
-    const current = this.states.get(worktreeId) ?? {
+    const key = slotKey(worktreeId, processId);
+    const current = this.states.get(key) ?? {
       worktreeId,
+      processId,
       status: "stopped" as DevServerStatus,
     };
     const next: DevServerState = { ...current, ...updates };
 
-    // Only emit if something actually changed
+    // Only emit if something actually changed (not for a probe's timing alone)
     const hasChanged =
       current.status !== next.status ||
       current.url !== next.url ||
       current.port !== next.port ||
+      current.assignedPort !== next.assignedPort ||
       current.pid !== next.pid ||
-      current.errorMessage !== next.errorMessage;
-
+      current.errorMessage !== next.errorMessage ||
+      current.health?.ok !== next.health?.ok ||
+      current.health?.consecutiveFailures !== next.health?.consecutiveFailures ||
+      current.health?.error !== next.health?.error ||
+      current.restartCount !== next.restartCount ||
+      current.lastCrash !== next.lastCrash;
+
+    this.states.set(key, next);
     if (hasChanged) {
-      this.states.set(worktreeId, next);
       this.emitUpdate(next);
     }
   }
@@ -457,19 +819,28 @@ export class DevServerManager {
    * Emit error via event bus.
    * IPC handlers subscribe to this event and forward to renderer.
    */
-  private emitError(worktreeId: string, error: string): void {
+  private emitError(worktreeId: string, processId: string, error: string): void {
     events.emit("server:error", {
       worktreeId,
+      processId,
       error,
       timestamp: Date.now(),
     });
   }
 
+  /**
+   * Env vars passing an assigned port to a process.
+   */
+  private getPortEnv(port: number, launch: DevProcessLaunch): Record<string, string> {
+    const envVars = launch.portSettings.envVars ?? DEFAULT_CONFIG.devServer?.portEnvVars ?? [];
+    return Object.fromEntries(["PORT", ...envVars].map((name) => [name, String(port)]));
+  }
+
   /**
    * Append output to log buffer (with size limit).
    */
-  private appendLog(worktreeId: string, output: string): void {
-    const logs = this.logBuffers.get(worktreeId) ?? [];
+  private appendLog(key: string, output: string): void {
+    const logs = this.logBuffers.get(key) ?? [];
 
     // Split by newlines and add each line
     const lines = output.split("\n").filter((line) => line.trim());
@@ -480,23 +851,27 @@ export class DevServerManager {
       logs.splice(0, logs.length - MAX_LOG_LINES);
     }
 
-    this.logBuffers.set(worktreeId, logs);
+    this.logBuffers.set(key, logs);
 
     // Update state with latest logs (don't emit event for log-only updates)
-    const current = this.states.get(worktreeId);
+    const current = this.states.get(key);
     if (current) {
-      this.states.set(worktreeId, { ...current, logs });
+      this.states.set(key, { ...current, logs });
     }
   }
 
   /**
    * Detect URL from server output.
+   * Records the first URL printed; readiness is left to the health check.
    */
-  private detectUrl(worktreeId: string, output: string): void {
-    const currentState = this.states.get(worktreeId);
-
-    // Only detect URL if we're in starting state
-    if (currentState?.status !== "starting") {
+  private detectUrl(worktreeId: string, processId: string, output: string): void {
+    const currentState = this.states.get(slotKey(worktreeId, processId));
+
+    // Only detect URL while the process is up and hasn't printed one yet
+    if (
+      currentState?.url ||
+      (currentState?.status !== "starting" && currentState?.status !== "running")
+    ) {
       return;
     }
 
@@ -515,14 +890,10 @@ export class DevServerManager {
         const portMatch = url.match(/:(\d+)/);
         const port = portMatch ? parseInt(portMatch[1], 10) : undefined;
 
-        console.log("Detected dev server URL", { worktreeId, url, port });
+        console.log("Detected dev server URL", { worktreeId, processId, url, port });
 
-        this.updateState(worktreeId, {
-          status: "running",
-          url,
-          port,
-          errorMessage: undefined,
-        });
+        this.updateState(worktreeId, processId, { url, port });
+        this.probeSoon(worktreeId, processId);
         return;
       }
     }
@@ -534,16 +905,321 @@ export class DevServerManager {
         const port = parseInt(match[1], 10);
         const url = `http://localhost:${port}`;
 
-        console.log("Detected dev server port", { worktreeId, url, port });
+        console.log("Detected dev server port", { worktreeId, processId, url, port });
 
-        this.updateState(worktreeId, {
-          status: "running",
-          url,
-          port,
-          errorMessage: undefined,
-        });
+        this.updateState(worktreeId, processId, { url, port });
+        this.probeSoon(worktreeId, processId);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Whether a slot's health check was configured, rather than left to the default.
+   */
+  private hasConfiguredHealthCheck(launch: DevProcessLaunch): boolean {
+    return launch.healthCheck?.type !== undefined || launch.healthCheck?.port !== undefined;
+  }
+
+  /**
+   * Probe a process right away once it prints its URL: a starting process may be
+   * ready, and one that wasn't being probed starts liveness probes on the default check.
+   * A probe already in flight reschedules itself, so only a pending one is moved up.
+   */
+  private probeSoon(worktreeId: string, processId: string): void {
+    const key = slotKey(worktreeId, processId);
+    const launch = this.launches.get(key);
+    if (!this.healthChecks.has(key) && launch) {
+      const check = { ...DEFAULT_HEALTH_CHECK, ...launch.healthCheck };
+      if (check.type !== "none") {
+        this.healthChecks.set(key, check);
+        this.scheduleHealthCheck(worktreeId, processId, 0);
+      }
+      return;
+    }
+    if (this.healthTimers.has(key) && this.states.get(key)?.status === "starting") {
+      this.scheduleHealthCheck(worktreeId, processId, 0);
+    }
+  }
+
+  private scheduleHealthCheck(worktreeId: string, processId: string, delayMs: number): void {
+    const key = slotKey(worktreeId, processId);
+    clearTimeout(this.healthTimers.get(key));
+    this.healthTimers.set(
+      key,
+      setTimeout(() => void this.runHealthCheck(worktreeId, processId), delayMs)
+    );
+  }
+
+  private clearHealthCheck(key: string): void {
+    clearTimeout(this.healthTimers.get(key));
+    this.healthTimers.delete(key);
+    this.healthChecks.delete(key);
+    this.startedAt.delete(key);
+  }
+
+  /**
+   * Probe a process and move it between starting, running and error:
+   * - starting: running once a probe succeeds, error if not ready in time
+   * - running: error after `failureThreshold` failed probes in a row
+   * - error (while still alive): running again once a probe succeeds
+   */
+  private async runHealthCheck(worktreeId: string, processId: string): Promise<void> {
+    const key = slotKey(worktreeId, processId);
+    const check = this.healthChecks.get(key);
+    if (!check) {
+      return;
+    }
+    this.healthTimers.delete(key);
+
+    const before = this.getState(worktreeId, processId);
+    // The detected port wins over the assigned one: some servers ignore PORT
+    const port = check.port ?? before.port ?? before.assignedPort;
+    const timeoutMs = check.timeoutMs ?? 2000;
+    let outcome: ProbeOutcome;
+    if (port === undefined) {
+      outcome = { ok: false, latencyMs: 0, error: "No port to probe" };
+    } else if (check.type === "http") {
+      outcome = await probeHttp(port, check.path ?? "/", timeoutMs, check.expectedStatus);
+    } else {
+      outcome = await probeTcp(port, timeoutMs);
+    }
+
+    // Stopped or restarted while probing
+    if (this.healthChecks.get(key) !== check) {
+      return;
+    }
+
+    const current = this.getState(worktreeId, processId);
+    const health: DevServerProbeResult = {
+      ok: outcome.ok,
+      checkedAt: Date.now(),
+      latencyMs: outcome.ok ? outcome.latencyMs : undefined,
+      error: outcome.error,
+      consecutiveFailures: outcome.ok ? 0 : (current.health?.consecutiveFailures ?? 0) + 1,
+    };
+    const url = current.url ?? (port !== undefined ? `http://localhost:${port}` : undefined);
+    const intervalMs = check.intervalMs ?? 10000;
+
+    if (current.status === "starting") {
+      const readinessTimeoutMs = check.readinessTimeoutMs ?? 60000;
+      const elapsed = Date.now() - (this.startedAt.get(key) ?? Date.now());
+
+      if (outcome.ok) {
+        console.log("Dev server ready", { worktreeId, processId, port });
+        this.updateState(worktreeId, processId, { status: "running", url, health });
+      } else if (elapsed >= readinessTimeoutMs) {
+        const errorMessage = `Not ready after ${Math.round(readinessTimeoutMs / 1000)}s (${outcome.error})`;
+        this.updateState(worktreeId, processId, { status: "error", errorMessage, health });
+        this.emitError(worktreeId, processId, errorMessage);
+      } else {
+        this.updateState(worktreeId, processId, { health });
+        this.scheduleHealthCheck(worktreeId, processId, READINESS_POLL_MS);
         return;
       }
+    } else if (outcome.ok && current.status === "error") {
+      console.log("Dev server recovered", { worktreeId, processId, port });
+      this.updateState(worktreeId, processId, {
+        status: "running",
+        url,
+        errorMessage: undefined,
+        health,
+      });
+    } else if (
+      current.status === "running" &&
+      health.consecutiveFailures >= (check.failureThreshold ?? 3)
+    ) {
+      const errorMessage = `Health check failed (${outcome.error})`;
+      this.updateState(worktreeId, processId, { status: "error", errorMessage, health });
+      this.emitError(worktreeId, processId, errorMessage);
+    } else {
+      this.updateState(worktreeId, processId, { health });
+    }
+
+    if (intervalMs > 0) {
+      this.scheduleHealthCheck(worktreeId, processId, intervalMs);
+    }
+  }
+
+  /**
+   * Schedule a restart after an exit, backing off exponentially.
+   * Returns false once maxRetries restarts in a row have been used up.
+   */
+  private restartAfterExit(
+    worktreeId: string,
+    processId: string,
+    launch: DevProcessLaunch,
+    exitCode: number | null
+  ): boolean {
+    const policy = launch.restartPolicy;
+    if (Date.now() - launch.spawnedAt >= RESTART_RESET_MS) {
+      launch.attempts = 0;
+    }
+    if (launch.attempts >= (policy.maxRetries ?? 5)) {
+      console.warn("Dev server keeps exiting, not restarting", {
+        worktreeId,
+        processId,
+        attempts: launch.attempts,
+      });
+      return false;
+    }
+
+    const delayMs = Math.min(
+      (policy.backoffMs ?? 1000) * 2 ** launch.attempts,
+      policy.maxBackoffMs ?? 30000
+    );
+    launch.attempts++;
+    this.scheduleRestart(worktreeId, processId, launch, "exit", delayMs, exitCode);
+    return true;
+  }
+
+  /**
+   * Mark a slot as starting again and respawn it after a delay.
+   */
+  private scheduleRestart(
+    worktreeId: string,
+    processId: string,
+    launch: DevProcessLaunch,
+    reason: DevServerRestartReason,
+    delayMs: number,
+    exitCode?: number | null
+  ): void {
+    const key = slotKey(worktreeId, processId);
+    const restartCount = (this.getState(worktreeId, processId).restartCount ?? 0) + 1;
+
+    console.log("Restarting dev server", { worktreeId, processId, reason, restartCount, delayMs });
+
+    this.updateState(worktreeId, processId, {
+      status: "starting",
+      url: undefined,
+      port: undefined,
+      pid: undefined,
+      errorMessage: undefined,
+      health: undefined,
+      restartCount,
+    });
+    events.emit("server:restart", {
+      worktreeId,
+      processId,
+      reason,
+      restartCount,
+      delayMs,
+      exitCode,
+      timestamp: Date.now(),
+    });
+
+    clearTimeout(launch.restartTimer);
+    launch.restartTimer = setTimeout(() => {
+      launch.restartTimer = undefined;
+      if (this.launches.get(key) === launch) {
+        void this.spawn(worktreeId, processId, launch);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Watch the files matching a launch's watchPatterns (wildcards in the last
+   * segment are matched as files change, earlier ones against existing directories).
+   */
+  private async watchForChanges(
+    worktreeId: string,
+    processId: string,
+    launch: DevProcessLaunch
+  ): Promise<void> {
+    const key = slotKey(worktreeId, processId);
+
+    for (const pattern of launch.restartPolicy.watchPatterns ?? []) {
+      const segments = pattern
+        .trim()
+        .replace(/\\/g, "/")
+        .replace(/^\.\//, "")
+        .split("/")
+        .filter(Boolean);
+      const fileSegment = segments.pop();
+      if (!fileSegment) continue;
+
+      let directories = [""];
+      if (segments.length > 0) {
+        try {
+          directories = await expandSetupPattern(launch.worktreePath, segments.join("/"));
+        } catch (error) {
+          console.warn("Ignoring restart watch pattern", { pattern, error: String(error) });
+          continue;
+        }
+      }
+
+      // Stopped while the directories were being listed
+      if (this.launches.get(key) !== launch) return;
+
+      const fileRegex = segmentToRegExp(fileSegment);
+      for (const directory of directories) {
+        try {
+          const watcher = watch(path.join(launch.worktreePath, directory), (_event, filename) => {
+            if (filename && fileRegex.test(filename.toString())) {
+              this.onWatchedFileChange(worktreeId, processId, launch);
+            }
+          });
+          // Watchers fail when the directory is removed; the pattern just stops applying
+          watcher.on("error", () => watcher.close());
+          launch.watchers.push(watcher);
+        } catch (error) {
+          console.warn("Failed to watch for dev server restarts", {
+            directory,
+            error: String(error),
+          });
+        }
+      }
+    }
+  }
+
+  private onWatchedFileChange(
+    worktreeId: string,
+    processId: string,
+    launch: DevProcessLaunch
+  ): void {
+    clearTimeout(launch.watchTimer);
+    launch.watchTimer = setTimeout(() => {
+      launch.watchTimer = undefined;
+      void this.restartForChange(worktreeId, processId, launch);
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Replace a slot's process after a watched file changed. Processes that
+   * crashed (and weren't stopped by hand) are brought back too.
+   */
+  private async restartForChange(
+    worktreeId: string,
+    processId: string,
+    launch: DevProcessLaunch
+  ): Promise<void> {
+    const key = slotKey(worktreeId, processId);
+    if (this.launches.get(key) !== launch || launch.restartTimer) return;
+    if (!this.servers.has(key) && this.getState(worktreeId, processId).status !== "error") return;
+
+    launch.replacing = true;
+    await this.terminate(worktreeId, processId);
+    launch.replacing = false;
+
+    // Stopped by hand meanwhile
+    if (this.launches.get(key) !== launch) return;
+
+    launch.attempts = 0;
+    this.scheduleRestart(worktreeId, processId, launch, "file-change", 0);
+  }
+
+  /**
+   * Forget a slot's launch: cancel its pending restart and close its watchers.
+   */
+  private endLaunch(key: string): void {
+    const launch = this.launches.get(key);
+    if (!launch) return;
+
+    clearTimeout(launch.restartTimer);
+    clearTimeout(launch.watchTimer);
+    for (const watcher of launch.watchers) {
+      watcher.close();
     }
+    this.launches.delete(key);
   }
 }
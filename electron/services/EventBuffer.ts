@@ -379,6 +379,7 @@ export class EventBuffer {
       file: 0,
       ui: 0,
       watcher: 0,
+      terminal: 0,
       artifact: 0,
     };
 
@@ -1,7 +1,11 @@
 import { simpleGit, SimpleGit, BranchSummary } from "simple-git";
-import { resolve, dirname } from "path";
+import { resolve, dirname, join } from "path";
 import { existsSync } from "fs";
+import { writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
 import { logDebug, logError } from "../utils/logger.js";
+import { getSyncOperation } from "../utils/git.js";
+import type { GitConflictSide, GitSyncResult, WorktreeSyncStrategy } from "../types/index.js";
 
 export interface BranchInfo {
   name: string;
@@ -15,6 +19,66 @@ export interface CreateWorktreeOptions {
   newBranch: string;
   path: string;
   fromRemote?: boolean;
+  /** GitHub issue the worktree is for (attached to its state; not used by git) */
+  issueNumber?: number;
+}
+
+export interface WorktreeRemovalStatus {
+  /** Files with uncommitted (staged, unstaged or untracked) changes */
+  uncommittedFileCount: number;
+  /** Commits on the branch that are not on its upstream (or on any remote, if untracked) */
+  unpushedCommitCount: number;
+  /** Whether the branch tracks an upstream branch */
+  hasUpstream: boolean;
+}
+
+export interface FileDiff {
+  /** Unified diff text (empty when the file is unchanged) */
+  diff: string;
+  /** Ref the file was compared against (HEAD, "index", or the merge base with the base branch) */
+  baseRef: string;
+  /** Whether git reported the file as binary */
+  isBinary: boolean;
+  /** Whether the diff was cut off at MAX_DIFF_LENGTH */
+  truncated: boolean;
+}
+
+export interface FileDiffOptions {
+  /** Working tree vs base ("all"), index vs HEAD ("staged"), or working tree vs index ("unstaged") */
+  scope?: "all" | "staged" | "unstaged";
+  /** For "all": compare against the merge base with this branch instead of HEAD */
+  baseBranch?: string;
+}
+
+export interface RemoveWorktreeOptions {
+  /** Remove even if the worktree has uncommitted changes, and delete unmerged branches */
+  force?: boolean;
+  /** Local branch to delete after the worktree is removed */
+  deleteBranch?: string;
+}
+
+/** Largest diff returned to the renderer, in characters */
+const MAX_DIFF_LENGTH = 500_000;
+
+/**
+ * Build a patch containing only one hunk of a single-file diff.
+ *
+ * @param diff - `git diff` output for one file
+ * @param hunkHeader - Header line of the hunk to keep
+ * @returns Patch text, or null if the hunk isn't in the diff
+ */
+function extractHunkPatch(diff: string, hunkHeader: string): string | null {
+  const lines = diff.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const firstHunk = lines.findIndex((line) => line.startsWith("@@"));
+  const start = lines.indexOf(hunkHeader);
+  if (firstHunk === -1 || start === -1) return null;
+
+  let end = start + 1;
+  while (end < lines.length && !lines[end].startsWith("@@")) end++;
+
+  return [...lines.slice(0, firstHunk), ...lines.slice(start, end)].join("\n") + "\n";
 }
 
 /**
@@ -228,4 +292,596 @@ export class GitService {
       throw new Error(`Failed to list worktrees: ${(error as Error).message}`);
     }
   }
+
+  /**
+   * Get the unified diff of a single file.
+   * Untracked files are diffed against an empty file.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param filePath - File path relative to the worktree root
+   * @param options - Which changes to diff, and an optional base branch for "all"
+   * @returns Diff text and metadata
+   * @throws Error if git fails or the base branch can't be resolved
+   */
+  async getFileDiff(
+    worktreePath: string,
+    filePath: string,
+    options: FileDiffOptions = {}
+  ): Promise<FileDiff> {
+    const { scope = "all", baseBranch } = options;
+
+    try {
+      const worktreeGit = simpleGit(worktreePath);
+
+      let baseRef = "HEAD";
+      let args: string[];
+      if (scope === "staged") {
+        args = ["diff", "--no-color", "--cached"];
+      } else if (scope === "unstaged") {
+        baseRef = "index";
+        args = ["diff", "--no-color"];
+      } else {
+        if (baseBranch) {
+          baseRef = await this.resolveMergeBase(worktreeGit, baseBranch);
+        }
+        args = ["diff", "--no-color", baseRef];
+      }
+
+      let diff = await worktreeGit.raw([...args, "--", filePath]);
+
+      if (!diff && scope !== "staged" && !(await this.isTracked(worktreeGit, filePath))) {
+        if (existsSync(resolve(worktreePath, filePath))) {
+          // git diff ignores untracked files - show the whole file as added
+          diff = await worktreeGit.raw([
+            "diff",
+            "--no-color",
+            "--no-index",
+            "--",
+            "/dev/null",
+            filePath,
+          ]);
+        }
+      }
+
+      const isBinary = /^Binary files .* differ$/m.test(diff);
+      const truncated = diff.length > MAX_DIFF_LENGTH;
+
+      return {
+        diff: truncated ? diff.slice(0, MAX_DIFF_LENGTH) : diff,
+        baseRef,
+        isBinary,
+        truncated,
+      };
+    } catch (error) {
+      logError("Failed to get file diff", {
+        worktreePath,
+        filePath,
+        scope,
+        baseBranch,
+        error: (error as Error).message,
+      });
+      throw new Error(`Failed to get diff for ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Stage files, including deletions and untracked files.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param filePaths - File paths relative to the worktree root
+   * @throws Error if git add fails
+   */
+  async stageFiles(worktreePath: string, filePaths: string[]): Promise<void> {
+    try {
+      await simpleGit(worktreePath).raw(["add", "-A", "--", ...filePaths]);
+    } catch (error) {
+      logError("Failed to stage files", { worktreePath, error: (error as Error).message });
+      throw new Error(`Failed to stage files: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Remove files from the index, keeping working tree changes.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param filePaths - File paths relative to the worktree root
+   * @throws Error if git restore fails
+   */
+  async unstageFiles(worktreePath: string, filePaths: string[]): Promise<void> {
+    try {
+      await simpleGit(worktreePath).raw(["restore", "--staged", "--", ...filePaths]);
+    } catch (error) {
+      logError("Failed to unstage files", { worktreePath, error: (error as Error).message });
+      throw new Error(`Failed to unstage files: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Stage or unstage a single hunk of a file.
+   * The hunk is looked up by header in a fresh diff, so a stale view fails instead of
+   * staging the wrong lines.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param filePath - File path relative to the worktree root
+   * @param hunkHeader - The hunk's "@@ -a,b +c,d @@" line as shown in the diff
+   * @param unstage - Remove the hunk from the index instead of adding it
+   * @throws Error if the hunk no longer exists or git apply fails
+   */
+  async applyHunk(
+    worktreePath: string,
+    filePath: string,
+    hunkHeader: string,
+    unstage = false
+  ): Promise<void> {
+    const worktreeGit = simpleGit(worktreePath);
+    const patchPath = join(tmpdir(), `canopy-hunk-${process.pid}-${Date.now()}.patch`);
+    let addedIntent = false;
+
+    try {
+      // Untracked files need an index entry before their hunks can be applied to it
+      if (!unstage && !(await this.isTracked(worktreeGit, filePath))) {
+        await worktreeGit.raw(["add", "--intent-to-add", "--", filePath]);
+        addedIntent = true;
+      }
+
+      const diff = await worktreeGit.raw([
+        "diff",
+        "--no-color",
+        ...(unstage ? ["--cached"] : []),
+        "--",
+        filePath,
+      ]);
+      const patch = extractHunkPatch(diff, hunkHeader);
+      if (!patch) {
+        throw new Error("The hunk no longer matches the file. Refresh the diff and try again.");
+      }
+
+      await writeFile(patchPath, patch, "utf-8");
+      await worktreeGit.raw([
+        "apply",
+        "--cached",
+        "--whitespace=nowarn",
+        ...(unstage ? ["--reverse"] : []),
+        patchPath,
+      ]);
+    } catch (error) {
+      // Leave an untracked file untracked rather than showing it as added
+      if (addedIntent) {
+        await worktreeGit.raw(["rm", "--cached", "--quiet", "--", filePath]).catch(() => {});
+      }
+      logError(unstage ? "Failed to unstage hunk" : "Failed to stage hunk", {
+        worktreePath,
+        filePath,
+        hunkHeader,
+        error: (error as Error).message,
+      });
+      throw new Error(
+        `Failed to ${unstage ? "unstage" : "stage"} hunk: ${(error as Error).message}`
+      );
+    } finally {
+      await rm(patchPath, { force: true });
+    }
+  }
+
+  /**
+   * Commit staged changes, or amend the last commit.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param message - Full commit message
+   * @param amend - Replace the last commit instead of creating a new one
+   * @returns Abbreviated hash of the new commit
+   * @throws Error if git commit fails (e.g. nothing staged)
+   */
+  async commit(worktreePath: string, message: string, amend = false): Promise<string> {
+    try {
+      const worktreeGit = simpleGit(worktreePath);
+      await worktreeGit.raw(["commit", ...(amend ? ["--amend"] : []), "-m", message]);
+      const hash = await worktreeGit.raw(["rev-parse", "--short", "HEAD"]);
+      logDebug("Committed changes", { worktreePath, amend, hash: hash.trim() });
+      return hash.trim();
+    } catch (error) {
+      logError("Failed to commit", { worktreePath, amend, error: (error as Error).message });
+      throw new Error(`Failed to commit: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the full message of the last commit.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @returns The message, or null if there are no commits
+   */
+  async getLastCommitMessage(worktreePath: string): Promise<string | null> {
+    try {
+      const message = await simpleGit(worktreePath).raw(["log", "-1", "--format=%B"]);
+      return message.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the diff of everything staged for commit.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @returns Unified diff text (empty when nothing is staged)
+   * @throws Error if git diff fails
+   */
+  async getStagedDiff(worktreePath: string): Promise<string> {
+    try {
+      return await simpleGit(worktreePath).raw(["diff", "--no-color", "--cached"]);
+    } catch (error) {
+      throw new Error(`Failed to read staged changes: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Fast-forward the current branch to its upstream.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @throws Error if the pull fails or the branch has diverged from its upstream
+   */
+  async pull(worktreePath: string): Promise<void> {
+    try {
+      await simpleGit(worktreePath).raw(["pull", "--ff-only"]);
+      logDebug("Pulled from upstream", { worktreePath });
+    } catch (error) {
+      logError("Failed to pull", { worktreePath, error: (error as Error).message });
+      throw new Error(`Failed to pull: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Push a branch to origin and make it the branch's upstream.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param branch - Local branch to push
+   * @throws Error if the push fails
+   */
+  async push(worktreePath: string, branch: string): Promise<void> {
+    try {
+      await simpleGit(worktreePath).raw(["push", "--set-upstream", "origin", branch]);
+      logDebug("Pushed branch", { worktreePath, branch });
+    } catch (error) {
+      logError("Failed to push", { worktreePath, branch, error: (error as Error).message });
+      throw new Error(`Failed to push: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List the subjects of commits made on HEAD since it branched off a base branch.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param baseBranch - Branch HEAD was created from
+   * @returns Commit subjects, newest first (empty if no merge base can be found)
+   */
+  async getCommitSubjectsSince(worktreePath: string, baseBranch: string): Promise<string[]> {
+    const worktreeGit = simpleGit(worktreePath);
+    try {
+      const mergeBase = await this.resolveMergeBase(worktreeGit, baseBranch);
+      const log = await worktreeGit.raw(["log", "--format=%s", `${mergeBase}..HEAD`]);
+      return log
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Bring another ref's commits into the current branch by rebasing onto it or merging it.
+   * If git stops on conflicts, the operation is left in progress for the caller to resolve,
+   * continue or abort; any other failure is rolled back.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param onto - Ref to sync with (e.g. "main" or "origin/main")
+   * @param strategy - Rebase onto the ref, or merge it in
+   * @returns Whether the sync completed or stopped on conflicts
+   * @throws Error if the worktree has uncommitted changes or git fails for another reason
+   */
+  async syncWithBranch(
+    worktreePath: string,
+    onto: string,
+    strategy: WorktreeSyncStrategy
+  ): Promise<GitSyncResult> {
+    const worktreeGit = simpleGit(worktreePath);
+
+    if (await getSyncOperation(worktreePath)) {
+      throw new Error("A rebase or merge is already in progress");
+    }
+    const tracked = await worktreeGit.raw(["status", "--porcelain", "--untracked-files=no"]);
+    if (tracked.trim()) {
+      throw new Error(`Commit or stash uncommitted changes before syncing with ${onto}`);
+    }
+
+    const behind = await worktreeGit.raw(["rev-list", "--count", `HEAD..${onto}`]);
+    if (Number.parseInt(behind.trim(), 10) === 0) {
+      return { status: "up-to-date", strategy, conflictedFiles: [] };
+    }
+
+    return this.runSyncStep(
+      worktreeGit,
+      worktreePath,
+      strategy,
+      strategy === "rebase" ? ["rebase", onto] : ["merge", "--no-edit", onto],
+      true
+    );
+  }
+
+  /**
+   * Resolve a conflicted file by taking one side, then mark it resolved.
+   * Sides are from the branch's point of view for both merges and rebases
+   * (git swaps --ours and --theirs during a rebase).
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @param filePath - File path relative to the worktree root
+   * @param side - "ours" keeps the branch's version, "theirs" the version being synced in
+   * @throws Error if no rebase or merge is in progress or git fails
+   */
+  async resolveConflict(
+    worktreePath: string,
+    filePath: string,
+    side: GitConflictSide
+  ): Promise<void> {
+    const operation = await getSyncOperation(worktreePath);
+    if (!operation) {
+      throw new Error("No rebase or merge is in progress");
+    }
+
+    const worktreeGit = simpleGit(worktreePath);
+    const takeOurs = operation.kind === "rebase" ? side === "theirs" : side === "ours";
+
+    try {
+      try {
+        await worktreeGit.raw(["checkout", takeOurs ? "--ours" : "--theirs", "--", filePath]);
+        await worktreeGit.raw(["add", "--", filePath]);
+      } catch (error) {
+        // The chosen side deleted the file
+        if (!(error as Error).message.includes("does not have")) throw error;
+        await worktreeGit.raw(["rm", "--quiet", "--", filePath]);
+      }
+      logDebug("Resolved conflict", { worktreePath, filePath, side });
+    } catch (error) {
+      logError("Failed to resolve conflict", {
+        worktreePath,
+        filePath,
+        side,
+        error: (error as Error).message,
+      });
+      throw new Error(`Failed to resolve ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Continue a rebase or merge once all conflicts are resolved.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @returns "completed", or "conflicts" if a later commit of a rebase conflicts too
+   * @throws Error if nothing is in progress or conflicts remain
+   */
+  async continueSync(worktreePath: string): Promise<GitSyncResult> {
+    const operation = await getSyncOperation(worktreePath);
+    if (!operation) {
+      throw new Error("No rebase or merge is in progress");
+    }
+    if (operation.conflictedFiles.length > 0) {
+      const count = operation.conflictedFiles.length;
+      throw new Error(`Resolve ${count} conflicted file${count === 1 ? "" : "s"} first`);
+    }
+
+    if (operation.kind === "merge") {
+      return this.runSyncStep(
+        simpleGit(worktreePath),
+        worktreePath,
+        "merge",
+        ["commit", "--no-edit"],
+        false
+      );
+    }
+
+    // core.editor=true accepts each prepared commit message without opening an editor
+    const worktreeGit = simpleGit({ baseDir: worktreePath, unsafe: { allowUnsafeEditor: true } });
+    return this.runSyncStep(
+      worktreeGit,
+      worktreePath,
+      "rebase",
+      ["-c", "core.editor=true", "rebase", "--continue"],
+      false
+    );
+  }
+
+  /**
+   * Abort a rebase or merge, restoring the branch to where it was before.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @throws Error if nothing is in progress or git fails
+   */
+  async abortSync(worktreePath: string): Promise<void> {
+    const operation = await getSyncOperation(worktreePath);
+    if (!operation) {
+      throw new Error("No rebase or merge is in progress");
+    }
+
+    try {
+      await simpleGit(worktreePath).raw([operation.kind, "--abort"]);
+      logDebug("Aborted sync", { worktreePath, kind: operation.kind });
+    } catch (error) {
+      logError("Failed to abort sync", { worktreePath, error: (error as Error).message });
+      throw new Error(`Failed to abort ${operation.kind}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Run one rebase/merge step and report whether it completed or stopped on conflicts.
+   * Any other failure is thrown, after aborting the operation if `rollback` is set
+   * (never once the user has started resolving files).
+   */
+  private async runSyncStep(
+    worktreeGit: SimpleGit,
+    worktreePath: string,
+    strategy: WorktreeSyncStrategy,
+    args: string[],
+    rollback: boolean
+  ): Promise<GitSyncResult> {
+    let failure: Error | null = null;
+    try {
+      await worktreeGit.raw(args);
+    } catch (error) {
+      failure = error as Error;
+    }
+
+    // git exits non-zero on conflicts, but simple-git only rejects if stderr had output,
+    // so the repository state decides the outcome
+    const operation = await getSyncOperation(worktreePath);
+    if (operation && operation.conflictedFiles.length > 0) {
+      logDebug("Sync stopped on conflicts", {
+        worktreePath,
+        strategy,
+        conflictedFiles: operation.conflictedFiles,
+      });
+      return { status: "conflicts", strategy, conflictedFiles: operation.conflictedFiles };
+    }
+    if (!operation && !failure) {
+      logDebug("Sync step completed", { worktreePath, strategy, command: args.join(" ") });
+      return { status: "completed", strategy, conflictedFiles: [] };
+    }
+
+    const message = failure?.message ?? `The ${strategy} stopped without conflicts`;
+    logError("Failed to sync branch", { worktreePath, strategy, error: message });
+    if (operation && rollback) {
+      try {
+        await worktreeGit.raw([operation.kind, "--abort"]);
+      } catch {
+        // Leave it for the user to clean up from a terminal
+      }
+    }
+    throw new Error(`Failed to ${strategy}: ${message}`);
+  }
+
+  private async isTracked(worktreeGit: SimpleGit, filePath: string): Promise<boolean> {
+    const tracked = await worktreeGit.raw(["ls-files", "--", filePath]);
+    return tracked.trim() !== "";
+  }
+
+  /**
+   * Find the commit where HEAD branched off a base branch, falling back to the
+   * remote-tracking branch when the base doesn't exist locally.
+   */
+  private async resolveMergeBase(worktreeGit: SimpleGit, baseBranch: string): Promise<string> {
+    for (const ref of [baseBranch, `origin/${baseBranch}`]) {
+      try {
+        const mergeBase = await worktreeGit.raw(["merge-base", ref, "HEAD"]);
+        if (mergeBase.trim()) {
+          return mergeBase.trim();
+        }
+      } catch {
+        // Try the next candidate
+      }
+    }
+    throw new Error(`Could not find a merge base with ${baseBranch}`);
+  }
+
+  /**
+   * Check what would be lost by removing a worktree.
+   *
+   * @param worktreePath - Absolute path of the worktree
+   * @returns Uncommitted file and unpushed commit counts
+   * @throws Error if git status cannot be read
+   */
+  async getWorktreeRemovalStatus(worktreePath: string): Promise<WorktreeRemovalStatus> {
+    try {
+      const worktreeGit = simpleGit(worktreePath);
+      const status = await worktreeGit.status();
+
+      let hasUpstream = false;
+      let unpushedOutput: string;
+      try {
+        await worktreeGit.raw(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"]);
+        hasUpstream = true;
+        unpushedOutput = await worktreeGit.raw(["rev-list", "--count", "@{u}..HEAD"]);
+      } catch {
+        // No upstream - count commits that aren't on any remote
+        unpushedOutput = await worktreeGit.raw([
+          "rev-list",
+          "--count",
+          "HEAD",
+          "--not",
+          "--remotes",
+        ]);
+      }
+
+      return {
+        uncommittedFileCount: status.files.length,
+        unpushedCommitCount: parseInt(unpushedOutput.trim(), 10) || 0,
+        hasUpstream,
+      };
+    } catch (error) {
+      logError("Failed to check worktree removal status", {
+        worktreePath,
+        error: (error as Error).message,
+      });
+      throw new Error(`Failed to check worktree status: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Remove a worktree, optionally deleting its branch.
+   * Uses git.raw() since simple-git doesn't have a worktree wrapper.
+   *
+   * @param worktreePath - Absolute path of the worktree to remove
+   * @param options - Removal options
+   * @throws Error if the worktree or branch cannot be removed
+   */
+  async removeWorktree(worktreePath: string, options: RemoveWorktreeOptions = {}): Promise<void> {
+    const { force = false, deleteBranch } = options;
+
+    logDebug("Removing worktree", { worktreePath, force, deleteBranch });
+
+    try {
+      const args = ["worktree", "remove"];
+      if (force) {
+        args.push("--force");
+      }
+      args.push(worktreePath);
+      await this.git.raw(args);
+    } catch (error) {
+      logError("Failed to remove worktree", {
+        worktreePath,
+        error: (error as Error).message,
+      });
+      throw new Error(`Failed to remove worktree: ${(error as Error).message}`);
+    }
+
+    if (deleteBranch) {
+      try {
+        await this.git.raw(["branch", force ? "-D" : "-d", deleteBranch]);
+      } catch (error) {
+        logError("Failed to delete branch", {
+          branch: deleteBranch,
+          error: (error as Error).message,
+        });
+        throw new Error(
+          `Worktree removed, but failed to delete branch ${deleteBranch}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    logDebug("Worktree removed successfully", { worktreePath, deleteBranch });
+  }
+
+  /**
+   * Prune administrative data for worktrees whose directories no longer exist.
+   *
+   * @throws Error if git worktree prune fails
+   */
+  async pruneWorktrees(): Promise<void> {
+    try {
+      await this.git.raw(["worktree", "prune"]);
+      logDebug("Pruned stale worktree metadata");
+    } catch (error) {
+      logError("Failed to prune worktrees", { error: (error as Error).message });
+      throw new Error(`Failed to prune worktrees: ${(error as Error).message}`);
+    }
+  }
 }
@@ -0,0 +1,177 @@
+import type { GitStatusSchedulerMetrics, WorktreeChanges } from "../types/index.js";
+import { getCachedWorktreeChanges, getWorktreeChangesWithStats } from "../utils/git.js";
+import { logDebug } from "../utils/logger.js";
+
+/** Git status metrics for a single worktree */
+export interface WorktreeGitMetrics {
+  /** Time spent collecting git status for this worktree in ms */
+  totalGitTime: number;
+  /** Status collections run for this worktree */
+  runs: number;
+  /** Duration of the most recent collection in ms */
+  lastDuration: number;
+}
+
+interface StatusRequest {
+  cwd: string;
+  force: boolean;
+  promise: Promise<WorktreeChanges>;
+  resolve: (changes: WorktreeChanges) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * GitStatusScheduler runs git status collection for all worktrees through one queue.
+ *
+ * - Coalesces requests: a worktree has at most one queued and one running collection,
+ *   and non-forced requests are answered from utils/git's cache when it's fresh
+ * - Limits how many `git status` runs happen at once across all worktrees
+ * - Tracks time spent in git, in total and per worktree
+ *
+ * Owned by WorktreeService and shared by every WorktreeMonitor.
+ */
+export class GitStatusScheduler {
+  private queue: StatusRequest[] = [];
+  private running = new Map<string, StatusRequest>();
+  private worktreeMetrics = new Map<string, WorktreeGitMetrics>();
+  private totalGitTime = 0;
+  private runs = 0;
+  private coalesced = 0;
+
+  /**
+   * @param concurrency - Maximum collections running at once
+   */
+  constructor(private concurrency: number = 4) {}
+
+  /**
+   * Set the maximum number of collections running at once.
+   * Takes effect as running collections finish.
+   */
+  public setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, concurrency);
+    this.pump();
+  }
+
+  /**
+   * Get git status for a worktree, sharing work with other requests for it.
+   *
+   * @param cwd - Worktree directory
+   * @param force - Bypass the cache; if a collection is already running, a fresh one is queued after it
+   * @returns Worktree changes (a copy safe to mutate)
+   */
+  public request(cwd: string, force: boolean = false): Promise<WorktreeChanges> {
+    const queued = this.queue.find((request) => request.cwd === cwd);
+    if (queued) {
+      queued.force ||= force;
+      this.coalesced++;
+      return queued.promise.then(cloneChanges);
+    }
+
+    if (!force) {
+      const running = this.running.get(cwd);
+      if (running) {
+        this.coalesced++;
+        return running.promise.then(cloneChanges);
+      }
+
+      const cached = getCachedWorktreeChanges(cwd);
+      if (cached) {
+        this.coalesced++;
+        return Promise.resolve(cached);
+      }
+    }
+
+    let resolve!: (changes: WorktreeChanges) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<WorktreeChanges>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const request: StatusRequest = { cwd, force, promise, resolve, reject };
+    this.queue.push(request);
+    this.pump();
+    return promise.then(cloneChanges);
+  }
+
+  /**
+   * Get scheduler-wide metrics.
+   */
+  public getMetrics(): GitStatusSchedulerMetrics {
+    return {
+      totalGitTime: this.totalGitTime,
+      runs: this.runs,
+      coalesced: this.coalesced,
+      queued: this.queue.length,
+      inFlight: this.running.size,
+      concurrency: this.concurrency,
+    };
+  }
+
+  /**
+   * Get metrics for a single worktree.
+   * @param cwd - Worktree directory
+   */
+  public getWorktreeMetrics(cwd: string): WorktreeGitMetrics {
+    return { ...(this.worktreeMetrics.get(cwd) ?? { totalGitTime: 0, runs: 0, lastDuration: 0 }) };
+  }
+
+  /**
+   * Forget a worktree's metrics (e.g. when its monitor is removed).
+   * @param cwd - Worktree directory
+   */
+  public forget(cwd: string): void {
+    this.worktreeMetrics.delete(cwd);
+  }
+
+  /**
+   * Start queued collections while slots are free. A worktree whose previous
+   * collection is still running keeps its place in the queue.
+   */
+  private pump(): void {
+    while (this.running.size < this.concurrency) {
+      const index = this.queue.findIndex((request) => !this.running.has(request.cwd));
+      if (index === -1) {
+        return;
+      }
+      const [request] = this.queue.splice(index, 1);
+      this.running.set(request.cwd, request);
+      void this.run(request);
+    }
+  }
+
+  private async run(request: StatusRequest): Promise<void> {
+    const startTime = Date.now();
+    try {
+      request.resolve(await getWorktreeChangesWithStats(request.cwd, request.force));
+    } catch (error) {
+      request.reject(error);
+    } finally {
+      const duration = Date.now() - startTime;
+      this.recordRun(request.cwd, duration);
+      this.running.delete(request.cwd);
+      this.pump();
+    }
+  }
+
+  private recordRun(cwd: string, duration: number): void {
+    this.totalGitTime += duration;
+    this.runs++;
+
+    const metrics = this.worktreeMetrics.get(cwd) ?? { totalGitTime: 0, runs: 0, lastDuration: 0 };
+    metrics.totalGitTime += duration;
+    metrics.runs++;
+    metrics.lastDuration = duration;
+    this.worktreeMetrics.set(cwd, metrics);
+
+    logDebug("Git status collected", {
+      cwd,
+      duration,
+      queued: this.queue.length,
+      inFlight: this.running.size,
+    });
+  }
+}
+
+function cloneChanges(changes: WorktreeChanges): WorktreeChanges {
+  return { ...changes, changes: changes.changes.map((change) => ({ ...change })) };
+}
@@ -0,0 +1,214 @@
+import net from "node:net";
+import { DEFAULT_CONFIG } from "../types/config.js";
+import { logDebug, logWarn } from "../utils/logger.js";
+
+/** Ports reserved for one worktree */
+export interface PortReservation {
+  /** First port of the worktree's range */
+  base: number;
+  /** Ports in the range (missing in reservations saved before ranges were configurable) */
+  size?: number;
+  /** Offset within the range assigned to each process slot */
+  processes: Record<string, number>;
+}
+
+/** Where new worktree ranges are placed */
+export interface PortRangeOptions {
+  /** First port handed out (default: devServer.portRangeStart) */
+  rangeStart?: number;
+  /** Ports reserved per worktree, capping its dev processes (default: devServer.portsPerWorktree) */
+  portsPerWorktree?: number;
+}
+
+export interface PortAllocatorOptions extends PortRangeOptions {
+  /** Reservations restored from a previous session, keyed by worktree ID */
+  reservations?: Record<string, PortReservation>;
+  /** Called with all reservations whenever they change (e.g. to persist them) */
+  onChange?: (reservations: Record<string, PortReservation>) => void;
+}
+
+const MAX_PORT = 65535;
+
+function canListen(port: number, host?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once("error", () => resolve(false));
+    server.once("listening", () => server.close(() => resolve(true)));
+    server.listen(port, host);
+  });
+}
+
+/**
+ * Check whether a port is free. Loopback is checked separately because some
+ * platforms allow binding all interfaces while a server holds 127.0.0.1.
+ */
+async function isPortFree(port: number): Promise<boolean> {
+  return (await canListen(port)) && (await canListen(port, "127.0.0.1"));
+}
+
+/**
+ * PortAllocator hands each worktree its own block of ports so the same app can
+ * run in several worktrees without fighting over one port.
+ *
+ * A worktree's block is picked the first time one of its processes starts: the
+ * first block, above `rangeStart`, whose ports are all free and not reserved by
+ * another worktree. Each process slot then gets a fixed port within the block, so
+ * restarts reuse the same port until the reservation is released.
+ *
+ * The range settings can be overridden per allocation (e.g. by project); they
+ * only apply to blocks reserved by that call, as existing blocks keep their size.
+ */
+export class PortAllocator {
+  private readonly rangeStart: number;
+  private readonly portsPerWorktree: number;
+  private readonly reservations: Map<string, PortReservation>;
+  private readonly onChange?: (reservations: Record<string, PortReservation>) => void;
+  // Allocations run one at a time so concurrent starts can't pick the same block
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: PortAllocatorOptions = {}) {
+    this.rangeStart = options.rangeStart ?? DEFAULT_CONFIG.devServer?.portRangeStart ?? 3100;
+    this.portsPerWorktree = Math.max(
+      1,
+      options.portsPerWorktree ?? DEFAULT_CONFIG.devServer?.portsPerWorktree ?? 10
+    );
+    this.reservations = new Map(Object.entries(options.reservations ?? {}));
+    this.onChange = options.onChange;
+  }
+
+  /**
+   * Get the port for a worktree's process slot, reserving one if needed.
+   *
+   * @param worktreeId - Worktree ID
+   * @param processId - Process slot within the worktree
+   * @param range - Overrides for where a new block is placed and its size
+   * @returns The port, or null if no free block is left or the worktree's block is full
+   */
+  public allocate(
+    worktreeId: string,
+    processId: string,
+    range: PortRangeOptions = {}
+  ): Promise<number | null> {
+    const result = this.queue.then(() => this.allocateNow(worktreeId, processId, range));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Get the port already assigned to a worktree's process slot, if any.
+   */
+  public getPort(worktreeId: string, processId: string): number | null {
+    const reservation = this.reservations.get(worktreeId);
+    const offset = reservation?.processes[processId];
+    return reservation && offset !== undefined ? reservation.base + offset : null;
+  }
+
+  /**
+   * Release a worktree's block (e.g. when the worktree is removed).
+   */
+  public release(worktreeId: string): void {
+    if (this.reservations.delete(worktreeId)) {
+      logDebug("Released dev server ports", { worktreeId });
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Release the blocks of worktrees that are gone (e.g. deleted while the app
+   * wasn't watching).
+   *
+   * @param isKept - Whether a worktree's block is still needed
+   * @returns The worktrees whose blocks were released
+   */
+  public prune(isKept: (worktreeId: string) => boolean): string[] {
+    const pruned = Array.from(this.reservations.keys()).filter((id) => !isKept(id));
+    if (pruned.length === 0) {
+      return [];
+    }
+
+    for (const worktreeId of pruned) {
+      this.reservations.delete(worktreeId);
+    }
+    logDebug("Pruned dev server ports", { worktreeIds: pruned });
+    this.notifyChange();
+    return pruned;
+  }
+
+  private async allocateNow(
+    worktreeId: string,
+    processId: string,
+    range: PortRangeOptions
+  ): Promise<number | null> {
+    const existing = this.getPort(worktreeId, processId);
+    if (existing !== null) {
+      return existing;
+    }
+
+    let reservation = this.reservations.get(worktreeId);
+    if (!reservation) {
+      const size = Math.max(1, range.portsPerWorktree ?? this.portsPerWorktree);
+      const base = await this.findFreeBlock(range.rangeStart ?? this.rangeStart, size);
+      if (base === null) {
+        logWarn("No free port range left for dev servers", { worktreeId });
+        return null;
+      }
+      reservation = { base, size, processes: {} };
+      this.reservations.set(worktreeId, reservation);
+    }
+
+    const used = new Set(Object.values(reservation.processes));
+    let offset = 0;
+    while (used.has(offset)) {
+      offset++;
+    }
+    const size = this.sizeOf(reservation);
+    if (offset >= size) {
+      logWarn("Worktree has more dev processes than reserved ports", {
+        worktreeId,
+        portsPerWorktree: size,
+      });
+      return null;
+    }
+
+    reservation.processes[processId] = offset;
+    this.notifyChange();
+    logDebug("Assigned dev server port", {
+      worktreeId,
+      processId,
+      port: reservation.base + offset,
+    });
+    return reservation.base + offset;
+  }
+
+  private async findFreeBlock(rangeStart: number, size: number): Promise<number | null> {
+    const reserved = Array.from(this.reservations.values(), (reservation) => ({
+      start: reservation.base,
+      end: reservation.base + this.sizeOf(reservation),
+    }));
+
+    for (let base = rangeStart; base + size - 1 <= MAX_PORT; base += size) {
+      // Other blocks may sit off this grid or differ in size, so check for overlap
+      if (reserved.some(({ start, end }) => start < base + size && base < end)) {
+        continue;
+      }
+
+      let free = true;
+      for (let port = base; port < base + size && free; port++) {
+        free = await isPortFree(port);
+      }
+      if (free) {
+        return base;
+      }
+    }
+
+    return null;
+  }
+
+  private sizeOf(reservation: PortReservation): number {
+    return reservation.size ?? this.portsPerWorktree;
+  }
+
+  private notifyChange(): void {
+    this.onChange?.(Object.fromEntries(this.reservations));
+  }
+}
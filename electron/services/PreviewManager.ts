@@ -0,0 +1,290 @@
+/**
+ * PreviewManager
+ *
+ * Shows a worktree's dev server inside the main window, so UI changes made by
+ * an agent can be watched live next to its terminal.
+ *
+ * The page lives in a WebContentsView layered over the renderer's preview pane:
+ * - The renderer reports where the pane is and how to scale it (device presets)
+ * - The view follows one dev process: when it comes back up after a restart,
+ *   its URL is loaded again, and when it is stopped the view is closed
+ * - Navigation stays on the dev server's origin; other links open in the browser
+ * - Console errors and failed loads are written to the logs panel
+ *
+ * Navigation state is emitted as "state" events, which IPC handlers forward to
+ * the renderer.
+ */
+
+import { EventEmitter } from "events";
+import { shell, WebContentsView, type BrowserWindow } from "electron";
+import type {
+  DevServerState,
+  DevServerStatus,
+  PreviewLayout,
+  PreviewOpenPayload,
+  PreviewState,
+} from "../types/index.js";
+import { logError, logWarn } from "../utils/logger.js";
+import type { DevServerManager } from "./DevServerManager.js";
+import { events } from "./events.js";
+
+// "console-message" levels run from 0 (verbose) to 3 (error)
+const CONSOLE_LEVEL_ERROR = 3;
+
+// Chromium's net::ERR_ABORTED, reported when a load is replaced by a newer one
+const ERR_ABORTED = -3;
+
+interface PreviewTarget {
+  worktreeId: string;
+  processId: string;
+  url: string;
+  /** Last known status of the dev process, to spot it coming back up */
+  serverStatus: DevServerStatus;
+}
+
+function openInBrowser(url: string): void {
+  if (/^https?:\/\//i.test(url)) {
+    void shell.openExternal(url);
+  }
+}
+
+export class PreviewManager extends EventEmitter {
+  private view: WebContentsView | null = null;
+  private target: PreviewTarget | null = null;
+  private state: PreviewState = { url: null, isLoading: false };
+  private zoomFactor = 1;
+  private unsubscribeServerUpdates: () => void;
+
+  /**
+   * @param window - Window the preview is shown in
+   * @param devServerManager - Source of the previewed process's current status
+   */
+  constructor(
+    private readonly window: BrowserWindow,
+    private readonly devServerManager?: DevServerManager
+  ) {
+    super();
+    this.unsubscribeServerUpdates = events.on("server:update", (state) =>
+      this.handleServerUpdate(state)
+    );
+  }
+
+  /**
+   * Show a dev process's page. Reopening the same page only updates the layout.
+   */
+  public open(payload: PreviewOpenPayload): void {
+    const { worktreeId, processId, url, layout } = payload;
+    const isSamePage =
+      this.target?.worktreeId === worktreeId &&
+      this.target.processId === processId &&
+      this.target.url === url;
+
+    this.target = {
+      worktreeId,
+      processId,
+      url,
+      serverStatus: this.devServerManager?.getState(worktreeId, processId).status ?? "running",
+    };
+    this.setLayout(layout);
+
+    if (!isSamePage) {
+      this.load(url);
+    }
+  }
+
+  /**
+   * Move, resize, scale or hide the preview.
+   */
+  public setLayout(layout: PreviewLayout): void {
+    // Closed from this side (server stopped, worktree removed) - wait for a new open
+    if (!this.target) return;
+
+    const view = this.ensureView();
+    const { bounds } = layout;
+
+    view.setBounds({
+      x: Math.round(bounds.x),
+      y: Math.round(bounds.y),
+      width: Math.round(bounds.width),
+      height: Math.round(bounds.height),
+    });
+    view.setVisible(layout.visible && bounds.width > 0 && bounds.height > 0);
+
+    if (layout.zoomFactor !== this.zoomFactor) {
+      this.zoomFactor = layout.zoomFactor;
+      view.webContents.setZoomFactor(this.zoomFactor);
+    }
+  }
+
+  /**
+   * Reload the page, or retry the dev server's URL after a failed load.
+   */
+  public reload(): void {
+    if (!this.view || !this.target) return;
+
+    if (this.state.error) {
+      this.load(this.target.url);
+    } else {
+      this.view.webContents.reload();
+    }
+  }
+
+  /**
+   * Remove the preview from the window and discard its page.
+   */
+  public close(): void {
+    this.target = null;
+    if (this.view) {
+      if (!this.window.isDestroyed()) {
+        this.window.contentView.removeChildView(this.view);
+      }
+      this.view.webContents.close();
+      this.view = null;
+    }
+    this.zoomFactor = 1;
+    this.setState({ url: null, title: undefined, isLoading: false, error: undefined });
+  }
+
+  /**
+   * Close the preview if it shows one of the worktree's processes (e.g. the
+   * worktree is being removed).
+   */
+  public closeWorktree(worktreeId: string): void {
+    if (this.target?.worktreeId === worktreeId) {
+      this.close();
+    }
+  }
+
+  public getState(): PreviewState {
+    return this.state;
+  }
+
+  /**
+   * Close the preview and stop following dev servers.
+   */
+  public dispose(): void {
+    this.unsubscribeServerUpdates();
+    this.removeAllListeners();
+    this.close();
+  }
+
+  private ensureView(): WebContentsView {
+    if (this.view) {
+      return this.view;
+    }
+
+    const view = new WebContentsView({
+      webPreferences: {
+        contextIsolation: true,
+        nodeIntegration: false,
+        sandbox: true,
+      },
+    });
+    const { webContents } = view;
+
+    webContents.on("did-start-loading", () => this.setState({ isLoading: true }));
+    webContents.on("did-stop-loading", () =>
+      this.setState({ isLoading: false, url: webContents.getURL() || this.state.url })
+    );
+    webContents.on("did-navigate", (_event, url) => this.setState({ url, error: undefined }));
+    webContents.on("did-navigate-in-page", (_event, url, isMainFrame) => {
+      if (isMainFrame) this.setState({ url });
+    });
+    webContents.on("page-title-updated", (_event, title) => this.setState({ title }));
+    // Zoom is reset by some navigations; keep the device preset's scale
+    webContents.on("did-finish-load", () => webContents.setZoomFactor(this.zoomFactor));
+
+    webContents.on(
+      "did-fail-load",
+      (_event, errorCode, errorDescription, validatedURL, isMainFrame) => {
+        if (!isMainFrame || errorCode === ERR_ABORTED) return;
+        const error = `${errorDescription} (${validatedURL})`;
+        logWarn("Preview failed to load", { ...this.getLogContext(), error });
+        this.setState({ isLoading: false, error });
+      }
+    );
+
+    webContents.on("console-message", (_event, level, message, line, sourceId) => {
+      if (level < CONSOLE_LEVEL_ERROR) return;
+      logError(`Preview console: ${message}`, undefined, {
+        ...this.getLogContext(),
+        source: sourceId ? `${sourceId}:${line}` : undefined,
+      });
+    });
+
+    webContents.on("render-process-gone", (_event, details) => {
+      logWarn("Preview page crashed", { ...this.getLogContext(), reason: details.reason });
+      this.setState({ isLoading: false, error: `Page crashed (${details.reason})` });
+    });
+
+    // Links that leave the dev server or open new windows go to the system browser instead
+    webContents.on("will-navigate", (event, url) => {
+      if (this.isDevServerUrl(url)) return;
+      event.preventDefault();
+      openInBrowser(url);
+    });
+    webContents.setWindowOpenHandler(({ url }) => {
+      openInBrowser(url);
+      return { action: "deny" };
+    });
+
+    this.window.contentView.addChildView(view);
+    this.view = view;
+    return view;
+  }
+
+  private isDevServerUrl(url: string): boolean {
+    if (!this.target) return false;
+    try {
+      return new URL(url).origin === new URL(this.target.url).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  private load(url: string): void {
+    if (!this.view) return;
+
+    this.setState({ url, title: undefined, error: undefined });
+    // Failures are reported through did-fail-load
+    this.view.webContents.loadURL(url).catch(() => {});
+  }
+
+  /**
+   * Reload once the previewed process is running again (e.g. after a crash
+   * restart), picking up its URL in case the port changed. A stopped process
+   * closes the preview.
+   */
+  private handleServerUpdate(server: DevServerState): void {
+    const target = this.target;
+    if (
+      !target ||
+      server.worktreeId !== target.worktreeId ||
+      server.processId !== target.processId
+    ) {
+      return;
+    }
+
+    if (server.status === "stopped") {
+      this.close();
+      return;
+    }
+
+    const wasRunning = target.serverStatus === "running";
+    target.serverStatus = server.status;
+
+    if (server.status === "running" && !wasRunning) {
+      target.url = server.url ?? target.url;
+      this.load(target.url);
+    }
+  }
+
+  private getLogContext(): Record<string, unknown> {
+    return { worktreeId: this.target?.worktreeId, processId: this.target?.processId };
+  }
+
+  private setState(updates: Partial<PreviewState>): void {
+    this.state = { ...this.state, ...updates };
+    this.emit("state", this.state);
+  }
+}
@@ -1,5 +1,5 @@
 import { store } from "../store.js";
-import type { Project, ProjectState, ProjectSettings } from "../types/index.js";
+import type { Project, ProjectState, ProjectSettings, TerminalSnapshot } from "../types/index.js";
 import { createHash } from "crypto";
 import path from "path";
 import fs from "fs/promises";
@@ -311,7 +311,13 @@ export class ProjectStore {
         projectId: parsed.projectId || projectId,
         activeWorktreeId: parsed.activeWorktreeId,
         sidebarWidth: typeof parsed.sidebarWidth === "number" ? parsed.sidebarWidth : 350,
-        terminals: Array.isArray(parsed.terminals) ? parsed.terminals : [],
+        terminals: Array.isArray(parsed.terminals)
+          ? parsed.terminals.map((t: TerminalSnapshot) => ({
+              ...t,
+              // Drop malformed scrollback rather than replaying it into xterm
+              scrollback: typeof t.scrollback === "string" ? t.scrollback : undefined,
+            }))
+          : [],
         terminalLayout: parsed.terminalLayout || undefined,
       };
 
@@ -358,6 +364,13 @@ export class ProjectStore {
         runCommands: Array.isArray(parsed.runCommands) ? parsed.runCommands : [],
         environmentVariables: parsed.environmentVariables,
         excludedPaths: parsed.excludedPaths,
+        worktreeSetup: parsed.worktreeSetup,
+        syncStrategy: parsed.syncStrategy,
+        devServerRestartPolicy: parsed.devServerRestartPolicy,
+        devServerPortSettings: parsed.devServerPortSettings,
+        usePolling: parsed.usePolling,
+        refreshDebounce: parsed.refreshDebounce,
+        forgeKind: parsed.forgeKind,
       };
 
       return settings;
@@ -6,9 +6,12 @@
  */
 
 import * as pty from "node-pty";
+import headless from "@xterm/headless";
+import { SerializeAddon } from "@xterm/addon-serialize";
 import { EventEmitter } from "events";
 import { existsSync } from "fs";
 import { events } from "./events.js";
+import { applyShellIntegration, parseOsc7Cwd } from "./shellIntegration.js";
 import {
   nextAgentState,
   getStateChangeTimestamp,
@@ -16,7 +19,8 @@ import {
   detectPrompt,
   type AgentEvent,
 } from "./AgentStateMachine.js";
-import type { AgentState } from "../types/index.js";
+import { getAgentDefinition, resolveAgentType } from "./ai/agentProfiles.js";
+import type { AgentState, TerminalType } from "../types/index.js";
 import {
   AgentSpawnedSchema,
   AgentStateChangedSchema,
@@ -34,20 +38,45 @@ export interface PtySpawnOptions {
   env?: Record<string, string>;
   cols: number;
   rows: number;
-  type?: "shell" | "claude" | "gemini" | "custom";
+  type?: TerminalType;
+  /** Agent registry ID (falls back to the type for built-in agents, then to the command) */
+  agentType?: string;
+  /** Command typed into the shell after it starts */
+  command?: string;
   title?: string;
   worktreeId?: string;
+  /** Serialized output from a previous session, replayed as restored history */
+  restoredScrollback?: string;
+  /** Load the OSC 133/OSC 7 integration script (bash, zsh and fish; default shell args only) */
+  shellIntegration?: boolean;
 }
 
 /** Buffer size for sliding window (characters) - enough to capture busy patterns across split packets */
 const OUTPUT_BUFFER_SIZE = 2000;
 
+const { Terminal: HeadlessTerminal } = headless;
+type HeadlessTerminal = InstanceType<typeof HeadlessTerminal>;
+
+/** Scrollback lines kept by the headless mirror (matches the renderer's xterm) */
+const HEADLESS_SCROLLBACK_LINES = 10000;
+
+/** Scrollback lines included when serializing a terminal for persistence across restarts */
+const PERSISTED_SCROLLBACK_LINES = 1000;
+
+/** Marker framing history replayed from a previous session */
+const RESTORED_HISTORY_HEADER = "\x1b[90m--- Restored history from previous session ---\x1b[0m\r\n";
+/** Resets modes the previous session may have left enabled, then closes the restored block */
+const RESTORED_HISTORY_FOOTER =
+  "\x1b[?1049l\x1b[?25h\x1b[0m\r\n\x1b[90m--- End of restored history ---\x1b[0m\r\n";
+
 interface TerminalInfo {
   id: string;
   ptyProcess: pty.IPty;
   cwd: string;
   shell: string;
-  type?: "shell" | "claude" | "gemini" | "custom";
+  type?: TerminalType;
+  /** Agent registry ID for agent terminals */
+  agentType?: string;
   title?: string;
   worktreeId?: string;
   /** For agent terminals, the agent ID (same as terminal ID for now) */
@@ -84,6 +113,24 @@ interface TerminalInfo {
    * Separate from outputBuffer (char-based) to cleanly separate pattern detection from AI analysis.
    */
   semanticBuffer: string[];
+
+  /**
+   * Headless xterm mirroring the PTY output, so the true screen state survives
+   * renderer remounts and can be serialized for snapshots and persistence.
+   */
+  headless: HeadlessTerminal;
+  serializeAddon: SerializeAddon;
+  /**
+   * Output captured while a snapshot waits for the headless parser to catch up.
+   * Each pending snapshot owns one array, mapped to the function settling it;
+   * see getSerializedSnapshot().
+   */
+  snapshotCaptures: Map<string[], (snapshot: string | null) => void>;
+
+  /** Whether the shell was started with the integration script */
+  shellIntegration: boolean;
+  /** Start time of the command currently executing (shell integration only) */
+  commandStartedAt?: number;
 }
 
 export interface PtyManagerEvents {
@@ -109,7 +156,9 @@ export interface TerminalSnapshot {
   /** Timestamp of last state check (AI/heuristic analysis) */
   lastCheckTime: number;
   /** Terminal type */
-  type?: "shell" | "claude" | "gemini" | "custom";
+  type?: TerminalType;
+  /** Agent registry ID (for agent terminals) */
+  agentType?: string;
   /** Associated worktree ID */
   worktreeId?: string;
   /** Agent ID (for agent terminals) */
@@ -352,17 +401,20 @@ export class PtyManager extends EventEmitter {
    */
   spawn(id: string, options: PtySpawnOptions): void {
     // Check if terminal with this ID already exists
-    if (this.terminals.has(id)) {
+    const existing = this.terminals.get(id);
+    if (existing) {
       console.warn(`Terminal with id ${id} already exists, killing existing instance`);
       this.kill(id);
+      // The old exit handler is ignored once replaced, so release its mirror here
+      this.disposeHeadless(existing);
     }
 
     const shell = options.shell || this.getDefaultShell();
-    const args = options.args || this.getDefaultShellArgs(shell);
+    let args = options.args || this.getDefaultShellArgs(shell);
 
     const spawnedAt = Date.now();
-    const isAgentTerminal =
-      options.type === "claude" || options.type === "gemini" || options.type === "custom";
+    const agentType = resolveAgentType(options.type, options.agentType, options.command);
+    const isAgentTerminal = agentType !== undefined && getAgentDefinition(agentType) !== undefined;
     // For agent terminals, use terminal ID as agent ID
     const agentId = isAgentTerminal ? id : undefined;
 
@@ -372,10 +424,21 @@ export class PtyManager extends EventEmitter {
     const baseEnv = process.env as Record<string, string | undefined>;
     const mergedEnv = { ...baseEnv, ...options.env };
     // Filter out undefined values to prevent node-pty errors
-    const env = Object.fromEntries(
+    let env = Object.fromEntries(
       Object.entries(mergedEnv).filter(([_, value]) => value !== undefined)
     ) as Record<string, string>;
 
+    // Custom args may already control startup files, so only integrate default launches
+    let shellIntegration = false;
+    if (options.shellIntegration && !options.args) {
+      const integrated = applyShellIntegration(shell, args, env);
+      if (integrated) {
+        args = integrated.args;
+        env = integrated.env;
+        shellIntegration = true;
+      }
+    }
+
     try {
       ptyProcess = pty.spawn(shell, args, {
         name: "xterm-256color",
@@ -405,8 +468,14 @@ export class PtyManager extends EventEmitter {
 
       this.emit("data", id, data);
 
+      // Mirror into the headless terminal (and any in-flight snapshots)
+      terminal.headless.write(data);
+      for (const captured of terminal.snapshotCaptures.keys()) {
+        captured.push(data);
+      }
+
       // For agent terminals, track state based on output
-      if (isAgentTerminal) {
+      if (isAgentTerminal && agentType) {
         // Update sliding window buffer to handle split packets
         terminal.outputBuffer += data;
         if (terminal.outputBuffer.length > OUTPUT_BUFFER_SIZE) {
@@ -420,7 +489,7 @@ export class PtyManager extends EventEmitter {
         // Priority: busy > prompt > output (busy patterns override prompt detection)
         // Use only recent slice (last 200 chars) to avoid indefinite matching of stale busy tokens
         const recentSlice = terminal.outputBuffer.slice(-200);
-        const isBusy = options.type && detectBusyState(recentSlice, options.type);
+        const isBusy = detectBusyState(recentSlice, agentType);
 
         if (isBusy) {
           // Busy pattern detected - signal busy state (prevents transition to 'waiting')
@@ -428,7 +497,7 @@ export class PtyManager extends EventEmitter {
         } else {
           // No busy pattern - check if recent output looks like a prompt (waiting for input)
           // Use the buffer (not just current chunk) to handle colored/split prompts
-          const isPrompt = detectPrompt(recentSlice, { type: options.type });
+          const isPrompt = detectPrompt(recentSlice, { agentType });
           if (isPrompt) {
             this.updateAgentState(id, { type: "prompt" });
           } else {
@@ -509,15 +578,36 @@ export class PtyManager extends EventEmitter {
         }
       }
 
+      this.disposeHeadless(terminal);
       this.terminals.delete(id);
     });
 
+    const headlessTerminal = new HeadlessTerminal({
+      cols: options.cols,
+      rows: options.rows,
+      scrollback: HEADLESS_SCROLLBACK_LINES,
+      allowProposedApi: true, // Required by the serialize addon
+    });
+    const serializeAddon = new SerializeAddon();
+    headlessTerminal.loadAddon(serializeAddon);
+
+    if (options.restoredScrollback) {
+      headlessTerminal.write(
+        RESTORED_HISTORY_HEADER + options.restoredScrollback + RESTORED_HISTORY_FOOTER
+      );
+    }
+
+    if (shellIntegration) {
+      this.registerShellIntegrationHandlers(id, headlessTerminal);
+    }
+
     this.terminals.set(id, {
       id,
       ptyProcess,
       cwd: options.cwd,
       shell,
       type: options.type,
+      agentType: isAgentTerminal ? agentType : undefined,
       title: options.title,
       worktreeId: options.worktreeId,
       agentId,
@@ -531,6 +621,10 @@ export class PtyManager extends EventEmitter {
       lastCheckTime: spawnedAt,
       // Initialize empty semantic buffer for AI analysis
       semanticBuffer: [],
+      headless: headlessTerminal,
+      serializeAddon,
+      snapshotCaptures: new Map(),
+      shellIntegration,
     });
 
     // Emit agent:spawned event for agent terminals (Claude, Gemini)
@@ -539,6 +633,7 @@ export class PtyManager extends EventEmitter {
         agentId,
         terminalId: id,
         type: options.type,
+        agentType,
         worktreeId: options.worktreeId,
         timestamp: spawnedAt,
       };
@@ -620,6 +715,7 @@ export class PtyManager extends EventEmitter {
         }
 
         terminal.ptyProcess.resize(cols, rows);
+        terminal.headless.resize(cols, rows);
 
         // Optional: Log resize events when verbose logging enabled
         if (process.env.CANOPY_VERBOSE) {
@@ -735,6 +831,7 @@ export class PtyManager extends EventEmitter {
       lastOutputTime: terminal.lastOutputTime,
       lastCheckTime: terminal.lastCheckTime,
       type: terminal.type,
+      agentType: terminal.agentType,
       worktreeId: terminal.worktreeId,
       agentId: terminal.agentId,
       agentState: terminal.agentState,
@@ -754,6 +851,58 @@ export class PtyManager extends EventEmitter {
       .filter((snapshot): snapshot is TerminalSnapshot => snapshot !== null);
   }
 
+  /**
+   * Serialize a terminal's screen and scrollback for replay in a fresh xterm.
+   *
+   * Waits for the headless mirror to parse everything already emitted, and appends
+   * any output that arrived meanwhile, so the result covers every "data" event
+   * emitted before this promise resolves.
+   * @param id - Terminal identifier
+   * @returns Serialized terminal state, or null if the terminal is not found or is
+   *   disposed before the snapshot is ready
+   */
+  getSerializedSnapshot(id: string): Promise<string | null> {
+    const terminal = this.terminals.get(id);
+    if (!terminal) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      const captured: string[] = [];
+      terminal.snapshotCaptures.set(captured, resolve);
+      // Write callbacks fire in order, once all prior output has been parsed
+      terminal.headless.write("", () => {
+        // Already settled if the manager was disposed meanwhile
+        if (!terminal.snapshotCaptures.delete(captured)) return;
+        resolve(terminal.serializeAddon.serialize() + captured.join(""));
+      });
+    });
+  }
+
+  /**
+   * Get the serialized scrollback for a terminal, suitable for persisting and
+   * replaying in a later session (bounded to PERSISTED_SCROLLBACK_LINES).
+   * @param id - Terminal identifier
+   * @returns Serialized output or undefined if terminal not found
+   */
+  getSerializedScrollback(id: string): string | undefined {
+    const terminal = this.terminals.get(id);
+    if (!terminal) return undefined;
+
+    return terminal.serializeAddon.serialize({ scrollback: PERSISTED_SCROLLBACK_LINES });
+  }
+
+  /**
+   * Re-associate a terminal with a worktree (e.g. after its shell changed directory
+   * into another worktree). Subsequent agent and terminal events carry the new ID.
+   * @param id - Terminal identifier
+   * @param worktreeId - New worktree ID, or undefined if outside any worktree
+   */
+  setWorktreeId(id: string, worktreeId: string | undefined): void {
+    const terminal = this.terminals.get(id);
+    if (terminal) {
+      terminal.worktreeId = worktreeId;
+    }
+  }
+
   /**
    * Mark a terminal's check time (for AI/heuristic analysis throttling).
    * External services call this after running state detection to prevent
@@ -767,6 +916,24 @@ export class PtyManager extends EventEmitter {
     }
   }
 
+  /**
+   * Apply an agent state change detected outside the output stream (e.g. by
+   * AgentObserver's silence timeouts or AI classification). The event still goes
+   * through the state machine, so invalid transitions are ignored.
+   * @param id - Terminal identifier
+   * @param event - Agent event to apply
+   * @param trigger - What detected the change
+   * @param confidence - Confidence in the detection (0.0-1.0)
+   */
+  applyObservedState(
+    id: string,
+    event: AgentEvent,
+    trigger: AgentStateChangeTrigger,
+    confidence: number
+  ): void {
+    this.updateAgentState(id, event, trigger, confidence);
+  }
+
   /**
    * Clean up all terminals (called on app quit)
    */
@@ -792,6 +959,12 @@ export class PtyManager extends EventEmitter {
           // Skip error logging during cleanup to avoid noise
         }
         terminal.ptyProcess.kill();
+        // The mirror won't call back pending snapshots once disposed
+        for (const resolve of terminal.snapshotCaptures.values()) {
+          resolve(null);
+        }
+        terminal.snapshotCaptures.clear();
+        terminal.headless.dispose();
       } catch (error) {
         // Ignore errors during cleanup - process may already be dead
         console.warn(`Error killing terminal ${id}:`, error);
@@ -801,6 +974,70 @@ export class PtyManager extends EventEmitter {
     this.removeAllListeners();
   }
 
+  /**
+   * Parse shell integration sequences from the headless mirror into terminal events.
+   * OSC 133 marks command boundaries (C = executed, D;<code> = finished) and
+   * OSC 7 reports the working directory.
+   */
+  private registerShellIntegrationHandlers(id: string, headlessTerminal: HeadlessTerminal): void {
+    headlessTerminal.parser.registerOscHandler(133, (data) => {
+      const terminal = this.terminals.get(id);
+      if (!terminal || terminal.headless !== headlessTerminal) return true;
+
+      const [kind, code] = data.split(";");
+      const timestamp = Date.now();
+
+      if (kind === "C") {
+        terminal.commandStartedAt = timestamp;
+        events.emit("terminal:command-started", {
+          terminalId: id,
+          worktreeId: terminal.worktreeId,
+          cwd: terminal.cwd,
+          timestamp,
+        });
+      } else if (kind === "D" && terminal.commandStartedAt !== undefined) {
+        // Shells report D before every prompt; only a started command finishes
+        const exitCode = Number.parseInt(code ?? "", 10);
+        events.emit("terminal:command-finished", {
+          terminalId: id,
+          worktreeId: terminal.worktreeId,
+          exitCode: Number.isNaN(exitCode) ? 0 : exitCode,
+          duration: timestamp - terminal.commandStartedAt,
+          timestamp,
+        });
+        terminal.commandStartedAt = undefined;
+      }
+      return true;
+    });
+
+    headlessTerminal.parser.registerOscHandler(7, (data) => {
+      const terminal = this.terminals.get(id);
+      if (!terminal || terminal.headless !== headlessTerminal) return true;
+
+      const cwd = parseOsc7Cwd(data);
+      if (!cwd || cwd === terminal.cwd) return true;
+
+      const previousCwd = terminal.cwd;
+      terminal.cwd = cwd;
+      events.emit("terminal:cwd-changed", {
+        terminalId: id,
+        worktreeId: terminal.worktreeId,
+        cwd,
+        previousCwd,
+        timestamp: Date.now(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Dispose a terminal's headless mirror once queued writes (and the callbacks of
+   * any pending snapshots) have been processed.
+   */
+  private disposeHeadless(terminal: TerminalInfo): void {
+    terminal.headless.write("", () => terminal.headless.dispose());
+  }
+
   /**
    * Get the default shell for the current platform
    * Tries multiple fallbacks to ensure a valid shell is found
@@ -4,9 +4,10 @@
  * Architecture:
  * - Singleton service that subscribes to sys:worktree:update events
  * - Detects context changes (branch/issue) and emits sys:pr:cleared immediately
- * - Batches all worktree checks into a single GraphQL query
- * - Stops checking worktrees once a PR is found (resolved state)
+ * - Batches all worktree checks into a single forge query (GraphQL on GitHub)
+ * - Keeps checking open PRs, stops once a PR is merged or closed (resolved state)
  * - Emits sys:pr:detected and sys:pr:cleared events for UI updates
+ * - Emits sys:pr:checks-failed and sys:pr:changes-requested when an open PR breaks
  *
  * Rate Limit Safety:
  * - Default 60s polling = 60 requests/hour = 1.2% of 5000 point budget
@@ -17,9 +18,11 @@
  */
 
 import { events } from "./events.js";
-import { batchCheckLinkedPRs, type PRCheckCandidate, type LinkedPR } from "../utils/github.js";
+import type { PRCheckCandidate, LinkedPR } from "../utils/github.js";
+import { getForgeProvider } from "./forge/index.js";
 import { logInfo, logWarn, logDebug } from "../utils/logger.js";
 import type { WorktreeState } from "./WorktreeMonitor.js";
+import type { PullRequestStatus } from "../types/index.js";
 
 // Default polling interval: 60 seconds (safe for rate limits - uses ~1.2% of hourly budget)
 const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
@@ -45,6 +48,21 @@ interface WorktreeContext {
   branchName?: string;
 }
 
+/**
+ * Whether two PR status snapshots would render the same.
+ */
+function isSameStatus(a?: PullRequestStatus, b?: PullRequestStatus): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.reviewDecision === b.reviewDecision &&
+    a.checkStatus === b.checkStatus &&
+    a.unresolvedThreadCount === b.unresolvedThreadCount &&
+    a.requestedReviewers.join(",") === b.requestedReviewers.join(",")
+  );
+}
+
 /**
  * PR detection result for a single worktree.
  */
@@ -96,7 +114,7 @@ class PullRequestService {
   // Key: worktreeId, Value: { issueNumber, branchName }
   private candidates = new Map<string, WorktreeContext>();
 
-  // Track resolved worktrees (already have a PR detected)
+  // Track resolved worktrees (PR detected and merged or closed)
   // These are excluded from future polling
   private resolvedWorktrees = new Set<string>();
 
@@ -151,8 +169,8 @@ class PullRequestService {
     }
 
     // Update or register the candidate
-    if (newIssueNumber) {
-      // Has an issue number - track as candidate
+    if (newIssueNumber || this.detectedPRs.has(state.worktreeId)) {
+      // Has an issue number or a known PR - track as candidate
       this.candidates.set(state.worktreeId, {
         issueNumber: newIssueNumber,
         branchName: newBranchName,
@@ -163,10 +181,10 @@ class PullRequestService {
         this.scheduleDebounceCheck();
       }
     } else {
-      // No issue number - stop tracking this worktree
+      // No issue number or PR - stop tracking this worktree
       if (currentContext) {
         this.candidates.delete(state.worktreeId);
-        logDebug("Worktree no longer has issue number - removed from candidates", {
+        logDebug("Worktree no longer has issue number or PR - removed from candidates", {
           worktreeId: state.worktreeId,
         });
       }
@@ -296,6 +314,35 @@ class PullRequestService {
     }
   }
 
+  /**
+   * Register a pull request that was just created for a worktree, so the UI updates
+   * without waiting for the next poll. The worktree stays a candidate (matched by
+   * branch when it has no issue) so later merges and closes are still picked up.
+   * @param worktreeId - Worktree the PR was opened from
+   * @param pr - The created pull request
+   * @param context - Issue and branch the worktree is tracked by
+   */
+  public registerPullRequest(worktreeId: string, pr: LinkedPR, context: WorktreeContext): void {
+    this.candidates.set(worktreeId, context);
+    this.resolvedWorktrees.delete(worktreeId);
+    this.detectedPRs.set(worktreeId, pr);
+
+    logInfo("PR registered for worktree", { worktreeId, prNumber: pr.number });
+
+    events.emit("sys:pr:detected", {
+      worktreeId,
+      prNumber: pr.number,
+      prUrl: pr.url,
+      prState: pr.state,
+      prStatus: pr.status,
+      issueNumber: context.issueNumber,
+    });
+
+    if (this.isPolling && !this.pollTimer) {
+      this.scheduleNextPoll();
+    }
+  }
+
   /**
    * Clear all state and stop polling.
    */
@@ -385,7 +432,8 @@ class PullRequestService {
     logDebug("Checking PRs for candidates", { count: activeCandidates.length });
 
     try {
-      const result = await batchCheckLinkedPRs(this.cwd, activeCandidates);
+      const forge = await getForgeProvider(this.cwd);
+      const result = await forge.batchCheckLinkedPRs(activeCandidates);
 
       if (result.error) {
         this.handleError(result.error);
@@ -398,24 +446,41 @@ class PullRequestService {
       // Process results
       for (const [worktreeId, checkResult] of result.results) {
         if (checkResult.pr) {
-          // PR found! Mark as resolved and emit event
-          this.resolvedWorktrees.add(worktreeId);
-          this.detectedPRs.set(worktreeId, checkResult.pr);
+          // Open PRs stay candidates so merges and closes are picked up later
+          if (checkResult.pr.state !== "open") {
+            this.resolvedWorktrees.add(worktreeId);
+          }
+
+          const pr = checkResult.pr;
+          const previous = this.detectedPRs.get(worktreeId);
+          this.detectedPRs.set(worktreeId, pr);
+          const samePR = previous?.number === pr.number;
+          if (samePR && previous.state === pr.state && isSameStatus(previous.status, pr.status)) {
+            continue;
+          }
 
           logInfo("PR detected for worktree", {
             worktreeId,
-            prNumber: checkResult.pr.number,
-            prState: checkResult.pr.state,
+            prNumber: pr.number,
+            prState: pr.state,
+            checkStatus: pr.status?.checkStatus,
+            reviewDecision: pr.status?.reviewDecision,
           });
 
           // Emit event for UI update
           events.emit("sys:pr:detected", {
             worktreeId,
-            prNumber: checkResult.pr.number,
-            prUrl: checkResult.pr.url,
-            prState: checkResult.pr.state,
-            issueNumber: checkResult.issueNumber!,
+            prNumber: pr.number,
+            prUrl: pr.url,
+            prState: pr.state,
+            prStatus: pr.status,
+            issueNumber: checkResult.issueNumber,
           });
+
+          // Only report transitions on a PR we already knew, not state found at startup
+          if (samePR && pr.state === "open") {
+            this.emitStatusTransitions(worktreeId, pr, previous.status);
+          }
         }
       }
     } catch (error) {
@@ -423,6 +488,32 @@ class PullRequestService {
     }
   }
 
+  /**
+   * Emit events when a PR's CI starts failing or a reviewer requests changes.
+   */
+  private emitStatusTransitions(
+    worktreeId: string,
+    pr: LinkedPR,
+    previous: PullRequestStatus | undefined
+  ): void {
+    const payload = { worktreeId, prNumber: pr.number, prUrl: pr.url, timestamp: Date.now() };
+
+    if (pr.status?.checkStatus === "failure" && previous?.checkStatus !== "failure") {
+      logInfo("PR checks failed", { worktreeId, prNumber: pr.number });
+      events.emit("sys:pr:checks-failed", payload);
+    }
+    if (
+      pr.status?.reviewDecision === "changes_requested" &&
+      previous?.reviewDecision !== "changes_requested"
+    ) {
+      logInfo("PR changes requested", { worktreeId, prNumber: pr.number });
+      events.emit("sys:pr:changes-requested", {
+        ...payload,
+        unresolvedThreadCount: pr.status.unresolvedThreadCount,
+      });
+    }
+  }
+
   /**
    * Handle errors with backoff logic and circuit breaker.
    */
@@ -1,22 +1,39 @@
 import { createHash } from "crypto";
 import { readFile, stat } from "fs/promises";
-import { join as pathJoin } from "path";
+import { dirname, join as pathJoin } from "path";
 import { execSync } from "child_process";
 import { simpleGit } from "simple-git";
-import type { Worktree, WorktreeChanges, AISummaryStatus } from "../types/index.js";
+import type {
+  AdaptiveBackoffMetrics,
+  Worktree,
+  WorktreeChanges,
+  WorktreeSyncOperation,
+  WorktreeSyncStatus,
+  AISummaryStatus,
+} from "../types/index.js";
 import { DEFAULT_CONFIG } from "../types/config.js";
-import { getWorktreeChangesWithStats, invalidateGitStatusCache } from "../utils/git.js";
+import {
+  getBranchSyncStatus,
+  getSyncOperation,
+  getWorktreeChangesWithStats,
+  invalidateGitStatusCache,
+} from "../utils/git.js";
 import { WorktreeRemovedError } from "../utils/errorTypes.js";
 import { generateWorktreeSummary } from "./ai/worktree.js";
 import { getAIClient } from "./ai/client.js";
 import { categorizeWorktree } from "../utils/worktreeMood.js";
 import { logWarn, logError, logInfo, logDebug } from "../utils/logger.js";
 import { events } from "./events.js";
+import { WorktreeWatcher, type WorktreeWatchChange } from "./WorktreeWatcher.js";
+import type { GitStatusScheduler } from "./GitStatusScheduler.js";
 import { extractIssueNumberSync, extractIssueNumber } from "./ai/issueExtractor.js";
 
 // Default AI debounce (used when config is not provided)
 const DEFAULT_AI_DEBOUNCE_MS = DEFAULT_CONFIG.ai?.summaryDebounceMs ?? 10000;
 
+// Ahead/behind counts are recomputed at most this often (refs move far less often than files)
+const SYNC_STATUS_INTERVAL_MS = 10000;
+
 /**
  * Represents the complete state of a monitored worktree.
  * This is what gets emitted on every update.
@@ -46,7 +63,7 @@ export interface WorktreeState extends Worktree {
  * WorktreeMonitor is responsible for monitoring a single git worktree.
  *
  * It encapsulates all the logic for:
- * - Git status polling
+ * - Git status updates, driven by native file watching (WorktreeWatcher) or polling
  * - AI summary generation
  * - Mood categorization
  * - Activity tracking (traffic light)
@@ -68,6 +85,7 @@ export class WorktreeMonitor {
   // Hash-based change detection
   private previousStateHash: string = "";
   private lastSummarizedHash: string | null = null;
+  private lastSyncStatusCheck: number = 0;
 
   // Timers
   private pollingTimer: NodeJS.Timeout | null = null;
@@ -81,12 +99,24 @@ export class WorktreeMonitor {
   private aiBufferDelay: number = DEFAULT_AI_DEBOUNCE_MS; // Configurable AI debounce
   private noteEnabled: boolean = DEFAULT_CONFIG.note?.enabled ?? true;
   private noteFilename: string = DEFAULT_CONFIG.note?.filename ?? "canopy/note";
+  private usePolling: boolean = DEFAULT_CONFIG.usePolling;
+  private watchDebounce: number = DEFAULT_CONFIG.refreshDebounce;
 
   // Adaptive backoff state
   private lastOperationDuration: number = 0; // Duration of last git operation in ms
   private consecutiveFailures: number = 0; // Count of consecutive git operation failures
   private circuitBreakerTripped: boolean = false; // Whether circuit breaker has stopped polling
 
+  // Native file watcher; null while polling (configured, or after the watcher failed)
+  private watcher: WorktreeWatcher | null = null;
+  private pendingWatchedChange: boolean = false; // A watched change arrived mid-update
+  private statusStale: boolean = false; // Next status must bypass the cache and running collections
+
+  // Shared git status queue (set by WorktreeService); without it status is collected directly
+  private statusScheduler: GitStatusScheduler | null = null;
+  private directGitTime: number = 0;
+  private directGitRuns: number = 0;
+
   // Git directory cache (resolved once on first use)
   private gitDir: string | null = null;
 
@@ -96,6 +126,7 @@ export class WorktreeMonitor {
   private isGeneratingSummary: boolean = false;
   private hasGeneratedInitialSummary: boolean = false;
   private pollingEnabled: boolean = false; // Tracks if polling should be active
+  private isPaused: boolean = false; // Polling suspended by pause()
   private pendingAISummary: boolean = false; // Tracks if AI summary should run after current generation completes
 
   // PR event unsubscribe functions
@@ -124,6 +155,7 @@ export class WorktreeMonitor {
       name: worktree.name,
       branch: worktree.branch,
       isCurrent: worktree.isCurrent,
+      isMainWorktree: worktree.isMainWorktree,
       worktreeId: worktree.id,
       worktreeChanges: null,
       mood: "stable",
@@ -150,6 +182,7 @@ export class WorktreeMonitor {
           this.state.prNumber = data.prNumber;
           this.state.prUrl = data.prUrl;
           this.state.prState = data.prState;
+          this.state.prStatus = data.prStatus;
           this.emitUpdate();
         }
       })
@@ -161,6 +194,7 @@ export class WorktreeMonitor {
           this.state.prNumber = undefined;
           this.state.prUrl = undefined;
           this.state.prState = undefined;
+          this.state.prStatus = undefined;
           this.emitUpdate();
         }
       })
@@ -192,14 +226,17 @@ export class WorktreeMonitor {
   }
 
   /**
-   * Start monitoring this worktree via Git polling.
+   * Start monitoring this worktree, watching for file changes unless polling is configured.
    */
   public async start(): Promise<void> {
     if (this.isRunning) {
       return;
     }
 
-    logInfo("Starting WorktreeMonitor (polling)", { id: this.id, path: this.path });
+    logInfo(`Starting WorktreeMonitor (${this.usePolling ? "polling" : "watching"})`, {
+      id: this.id,
+      path: this.path,
+    });
 
     this.isRunning = true;
     this.pollingEnabled = true;
@@ -208,8 +245,11 @@ export class WorktreeMonitor {
     // This will trigger summary generation via updateGitStatus
     await this.updateGitStatus(true);
 
-    // 2. Start the polling loop
+    // 2. Start watching, or the polling loop if watching is off or unavailable
     // Check isRunning in case stop() was called during the await above
+    if (this.isRunning && !this.usePolling) {
+      await this.startWatching();
+    }
     if (this.isRunning) {
       this.scheduleNextPoll();
     }
@@ -240,8 +280,9 @@ export class WorktreeMonitor {
     this.isRunning = false;
     logInfo("Stopping WorktreeMonitor", { id: this.id });
 
-    // Clear timers
+    // Clear timers and watchers
     this.stopPolling();
+    this.stopWatching();
 
     if (this.aiUpdateTimer) {
       clearTimeout(this.aiUpdateTimer);
@@ -255,6 +296,41 @@ export class WorktreeMonitor {
     this.prEventUnsubscribers = [];
   }
 
+  /**
+   * Suspend polling and file watching without stopping the monitor, e.g. while
+   * its directory may be removed. Call resume() if it stays.
+   */
+  public pause(): void {
+    if (!this.isRunning || !this.pollingEnabled) {
+      return;
+    }
+
+    this.isPaused = true;
+    this.pollingEnabled = false;
+    this.stopPolling();
+    this.stopWatching();
+  }
+
+  /**
+   * Resume polling or file watching after pause().
+   */
+  public resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    if (!this.isRunning) {
+      return;
+    }
+    this.pollingEnabled = true;
+    if (this.usePolling) {
+      this.scheduleNextPoll();
+    } else {
+      void this.startWatching();
+    }
+  }
+
   /**
    * Get the current state of this worktree.
    */
@@ -316,6 +392,63 @@ export class WorktreeMonitor {
     }
   }
 
+  /**
+   * Attach a known issue number (e.g., a worktree started from an issue).
+   * Overrides whatever was inferred from the branch name until the branch changes.
+   * @param issueNumber - GitHub issue number
+   */
+  public setIssueNumber(issueNumber: number): void {
+    if (this.state.issueNumber === issueNumber) {
+      return;
+    }
+    this.state.issueNumber = issueNumber;
+    this.emitUpdate();
+  }
+
+  /**
+   * Collect git status through a shared scheduler instead of running git directly.
+   * @param scheduler - Scheduler shared by all monitors of a project
+   */
+  public setStatusScheduler(scheduler: GitStatusScheduler): void {
+    this.statusScheduler = scheduler;
+  }
+
+  /**
+   * Configure native file watching.
+   * Switches between watching and polling immediately when the monitor is running.
+   * @param usePolling - Poll on an interval instead of watching for file changes
+   * @param debounceMs - Quiet period after file changes before git status runs
+   */
+  public setWatchConfig(usePolling: boolean, debounceMs?: number): void {
+    const changed =
+      usePolling !== this.usePolling ||
+      (debounceMs !== undefined && debounceMs !== this.watchDebounce);
+    this.usePolling = usePolling;
+    if (debounceMs !== undefined) {
+      this.watchDebounce = debounceMs;
+    }
+
+    if (!changed || !this.isRunning || !this.pollingEnabled) {
+      return;
+    }
+
+    this.stopWatching();
+    if (usePolling) {
+      this.scheduleNextPoll();
+    } else {
+      this.stopPolling();
+      void this.startWatching();
+    }
+  }
+
+  /**
+   * Check if git status updates are currently driven by the file watcher.
+   * @returns false while polling, including after the watcher fell back to polling
+   */
+  public isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
   /**
    * Configure adaptive backoff settings.
    * @param enabled - Enable/disable adaptive backoff based on operation duration
@@ -348,17 +481,19 @@ export class WorktreeMonitor {
    * Get the current adaptive backoff metrics for debugging/monitoring.
    * @returns Object containing current backoff state
    */
-  public getAdaptiveBackoffMetrics(): {
-    lastOperationDuration: number;
-    consecutiveFailures: number;
-    circuitBreakerTripped: boolean;
-    currentInterval: number;
-  } {
+  public getAdaptiveBackoffMetrics(): AdaptiveBackoffMetrics {
+    const gitMetrics = this.statusScheduler?.getWorktreeMetrics(this.path) ?? {
+      totalGitTime: this.directGitTime,
+      runs: this.directGitRuns,
+    };
     return {
       lastOperationDuration: this.lastOperationDuration,
       consecutiveFailures: this.consecutiveFailures,
       circuitBreakerTripped: this.circuitBreakerTripped,
       currentInterval: this.calculateNextInterval(),
+      totalGitTime: gitMetrics.totalGitTime,
+      gitStatusRuns: gitMetrics.runs,
+      scheduler: this.statusScheduler?.getMetrics(),
     };
   }
 
@@ -395,6 +530,11 @@ export class WorktreeMonitor {
         newName: worktree.name,
       });
 
+      // Divergence is relative to the branch, so recompute it on the next poll
+      if (branchChanged) {
+        this.lastSyncStatusCheck = 0;
+      }
+
       // Re-extract issue number when branch changes
       if (branchChanged && worktree.branch) {
         // Try sync extraction first for immediate UI update
@@ -439,11 +579,13 @@ export class WorktreeMonitor {
    * @returns MD5 hash of the changes
    */
   private calculateStateHash(changes: WorktreeChanges): string {
-    // Create a lightweight signature: Path + Status + Insertions + Deletions
+    // Create a lightweight signature: Path + Status + Insertions + Deletions + Staged
     // Sort by path to ensure order doesn't affect hash
     const signature = changes.changes
       .sort((a, b) => a.path.localeCompare(b.path))
-      .map((f) => `${f.path}:${f.status}:${f.insertions || 0}:${f.deletions || 0}`)
+      .map(
+        (f) => `${f.path}:${f.status}:${f.insertions || 0}:${f.deletions || 0}:${f.staged ?? ""}`
+      )
       .join("|");
 
     return createHash("md5").update(signature).digest("hex");
@@ -465,11 +607,14 @@ export class WorktreeMonitor {
       // ============================================
       // PHASE 1: FETCH GIT STATUS
       // ============================================
-      if (forceRefresh) {
+      // Watched changes also bypass the cache: a cached or in-flight status may predate them
+      const bypassCache = forceRefresh || this.statusStale;
+      this.statusStale = false;
+      if (bypassCache) {
         invalidateGitStatusCache(this.path);
       }
 
-      const newChanges = await getWorktreeChangesWithStats(this.path, forceRefresh);
+      const newChanges = await this.collectGitStatus(bypassCache);
 
       // Check if monitor was stopped while waiting for git status
       if (!this.isRunning) {
@@ -482,8 +627,24 @@ export class WorktreeMonitor {
       const currentHash = this.calculateStateHash(newChanges);
       const stateChanged = currentHash !== this.previousStateHash;
 
+      // Main or the upstream can move (and a rebase/merge can start or finish)
+      // without any local file changes, so these are compared separately from the file hash
+      const nextSyncStatus = await this.fetchSyncStatus(forceRefresh);
+      const nextSyncOperation = await this.fetchSyncOperation();
+      const syncChanged =
+        JSON.stringify(nextSyncStatus) !== JSON.stringify(this.state.syncStatus) ||
+        JSON.stringify(nextSyncOperation) !== JSON.stringify(this.state.syncOperation);
+
       // Optimization: Skip if nothing changed and not forced
       if (!stateChanged && !forceRefresh) {
+        if (syncChanged && this.isRunning) {
+          this.state = {
+            ...this.state,
+            syncStatus: nextSyncStatus,
+            syncOperation: nextSyncOperation,
+          };
+          this.emitUpdate();
+        }
         return;
       }
 
@@ -609,6 +770,8 @@ export class WorktreeMonitor {
         mood: nextMood,
         aiNote: nextAiNote,
         aiNoteTimestamp: nextAiNoteTimestamp,
+        syncStatus: nextSyncStatus,
+        syncOperation: nextSyncOperation,
       };
 
       // ============================================
@@ -661,6 +824,74 @@ export class WorktreeMonitor {
       throw error;
     } finally {
       this.isUpdating = false;
+
+      // A file change landed while git status was running; its result may predate the change
+      if (this.pendingWatchedChange) {
+        this.pendingWatchedChange = false;
+        void this.poll();
+      }
+    }
+  }
+
+  /**
+   * Collect git status via the shared scheduler, or directly when there is none.
+   */
+  private async collectGitStatus(bypassCache: boolean): Promise<WorktreeChanges> {
+    if (this.statusScheduler) {
+      return this.statusScheduler.request(this.path, bypassCache);
+    }
+
+    const startTime = Date.now();
+    try {
+      return await getWorktreeChangesWithStats(this.path, bypassCache);
+    } finally {
+      this.directGitTime += Date.now() - startTime;
+      this.directGitRuns++;
+    }
+  }
+
+  /**
+   * Compute ahead/behind counts against the upstream and main branch.
+   * Throttled to SYNC_STATUS_INTERVAL_MS unless forced; returns the current value when skipped.
+   * Does not modify state.
+   */
+  private async fetchSyncStatus(force: boolean): Promise<WorktreeSyncStatus | undefined> {
+    const now = Date.now();
+    if (!force && now - this.lastSyncStatusCheck < SYNC_STATUS_INTERVAL_MS) {
+      return this.state.syncStatus;
+    }
+    this.lastSyncStatusCheck = now;
+
+    try {
+      return await getBranchSyncStatus(this.path, this.mainBranch, this.branch);
+    } catch (error) {
+      logWarn("Failed to compute branch sync status", {
+        id: this.id,
+        message: (error as Error).message,
+      });
+      return this.state.syncStatus;
+    }
+  }
+
+  /**
+   * Detect a rebase or merge in progress (e.g. stopped on conflicts).
+   * Cheap when nothing is in progress: only checks for marker files in the git directory.
+   * Does not modify state.
+   */
+  private async fetchSyncOperation(): Promise<WorktreeSyncOperation | undefined> {
+    const gitDir = this.getGitDir();
+    if (!gitDir) {
+      return undefined;
+    }
+
+    try {
+      return await getSyncOperation(this.path, gitDir);
+    } catch (error) {
+      logWarn("Failed to detect rebase/merge in progress", {
+        id: this.id,
+        message: (error as Error).message,
+      });
+      return this.state.syncOperation;
     }
   }
 
@@ -938,7 +1169,7 @@ export class WorktreeMonitor {
    * This is the core of the self-scheduling pattern that prevents overlapping git processes.
    */
   private scheduleNextPoll(): void {
-    if (!this.isRunning || !this.pollingEnabled || this.circuitBreakerTripped) {
+    if (!this.isRunning || !this.pollingEnabled || this.circuitBreakerTripped || this.watcher) {
       return;
     }
 
@@ -1053,6 +1284,88 @@ export class WorktreeMonitor {
     }
   }
 
+  /**
+   * Start the file watcher. Falls back to polling if it can't be started.
+   */
+  private async startWatching(): Promise<void> {
+    const gitDir = this.getGitDir();
+    const watcher = new WorktreeWatcher(this.path, {
+      debounceMs: this.watchDebounce,
+      // The note file lives in the git directory, outside the worktree
+      extraDirectories:
+        gitDir && this.noteEnabled ? [dirname(pathJoin(gitDir, this.noteFilename))] : [],
+      onChange: (change) => this.handleWatchedChange(change),
+      onError: (error) => this.fallBackToPolling(error),
+    });
+
+    try {
+      await watcher.start();
+    } catch (error) {
+      this.fallBackToPolling(error as Error);
+      return;
+    }
+
+    // Stopped or switched to polling while the watchers were being set up
+    if (!this.isRunning || this.usePolling || this.watcher) {
+      watcher.close();
+      return;
+    }
+
+    this.watcher = watcher;
+    this.stopPolling();
+  }
+
+  /**
+   * Run a git status update for a debounced batch of watched file changes.
+   * Goes through poll() so failures count toward the circuit breaker.
+   */
+  private handleWatchedChange(change: WorktreeWatchChange): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    logDebug("Watched change detected", {
+      id: this.id,
+      gitMetadataChanged: change.gitMetadataChanged,
+      paths: change.paths.length,
+    });
+
+    // Refs moved (commit, fetch, checkout): recompute ahead/behind now instead of on the throttle
+    if (change.gitMetadataChanged) {
+      this.lastSyncStatusCheck = 0;
+    }
+    this.statusStale = true;
+
+    if (this.isUpdating) {
+      this.pendingWatchedChange = true;
+      return;
+    }
+    void this.poll();
+  }
+
+  /**
+   * Switch to polling after the watcher failed (e.g. inotify limit reached).
+   */
+  private fallBackToPolling(error: Error): void {
+    logWarn("File watching unavailable, falling back to polling", {
+      id: this.id,
+      error: error.message,
+    });
+    this.watcher = null;
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * Close the file watcher, if any.
+   */
+  private stopWatching(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+    this.pendingWatchedChange = false;
+  }
+
   /**
    * Stop polling for git status updates.
    */
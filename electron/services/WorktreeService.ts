@@ -1,15 +1,41 @@
 import { BrowserWindow } from "electron";
 import { WorktreeMonitor, type WorktreeState } from "./WorktreeMonitor.js";
-import type { Worktree, MonitorConfig, AIConfig } from "../types/index.js";
+import type {
+  Worktree,
+  MonitorConfig,
+  AIConfig,
+  WorktreeCleanupCandidate,
+  WorktreeCleanupResult,
+  GitDiffBase,
+  GitFileDiff,
+  GitSyncResult,
+  GitConflictSide,
+  WorktreeSyncStrategy,
+  GitHubPullRequestDraft,
+  GitHubCreatePRPayload,
+  GitHubCreatedPR,
+} from "../types/index.js";
 import { DEFAULT_CONFIG } from "../types/config.js";
 import { logInfo, logWarn, logDebug, logError } from "../utils/logger.js";
 import { events } from "./events.js";
 import { execSync } from "child_process";
 import { mkdir, writeFile, stat } from "fs/promises";
-import { join as pathJoin, dirname } from "path";
+import { join as pathJoin, dirname, isAbsolute, relative } from "path";
 import { CHANNELS } from "../ipc/channels.js";
-import { GitService, type CreateWorktreeOptions, type BranchInfo } from "./GitService.js";
+import {
+  GitService,
+  type CreateWorktreeOptions,
+  type BranchInfo,
+  type WorktreeRemovalStatus,
+} from "./GitService.js";
 import { pullRequestService } from "./PullRequestService.js";
+import { conflictService } from "./ConflictService.js";
+import { categorizeWorktree, getLastCommitTimestamp } from "../utils/worktreeMood.js";
+import { getDirectorySize } from "../utils/diskUsage.js";
+import { buildPullRequestDraft } from "../utils/github.js";
+import { forgetGitRoot } from "../utils/git.js";
+import { getForgeProvider } from "./forge/index.js";
+import { GitStatusScheduler } from "./GitStatusScheduler.js";
 
 // Default polling intervals (used when config is not provided)
 const DEFAULT_ACTIVE_WORKTREE_INTERVAL_MS = DEFAULT_CONFIG.monitor?.pollIntervalActive ?? 2000;
@@ -96,6 +122,12 @@ async function ensureNoteFile(worktreePath: string): Promise<void> {
  *
  * This service is a singleton and should be accessed via the exported instance.
  */
+/** File watching settings from a project's config (unset values use the app defaults) */
+export interface WorktreeWatchConfig {
+  usePolling?: boolean;
+  refreshDebounce?: number;
+}
+
 interface PendingSyncRequest {
   worktrees: Worktree[];
   activeWorktreeId: string | null;
@@ -116,6 +148,12 @@ export class WorktreeService {
   private adaptiveBackoff: boolean = DEFAULT_CONFIG.monitor?.adaptiveBackoff ?? true;
   private pollIntervalMax: number = DEFAULT_CONFIG.monitor?.pollIntervalMax ?? 30000;
   private circuitBreakerThreshold: number = DEFAULT_CONFIG.monitor?.circuitBreakerThreshold ?? 3;
+  private usePolling: boolean = DEFAULT_CONFIG.usePolling;
+  private refreshDebounce: number = DEFAULT_CONFIG.refreshDebounce;
+  // Shared by all monitors so polls are coalesced and git runs are capped project-wide
+  private statusScheduler = new GitStatusScheduler(
+    DEFAULT_CONFIG.monitor?.gitStatusConcurrency ?? 4
+  );
   private gitService: GitService | null = null;
   private rootPath: string | null = null;
   private prServiceInitialized: boolean = false;
@@ -125,10 +163,16 @@ export class WorktreeService {
    * This is the primary entry point when opening a project.
    *
    * @param rootPath - Repository root path
+   * @param watchConfig - The project's file watching settings; omitted on reloads
+   *   of the same project, which keep the current ones
    */
-  public async loadProject(rootPath: string): Promise<void> {
+  public async loadProject(rootPath: string, watchConfig?: WorktreeWatchConfig): Promise<void> {
     logInfo("Loading project worktrees", { rootPath });
 
+    if (watchConfig) {
+      this.setWatchConfig(watchConfig);
+    }
+
     try {
       this.ensureGitService(rootPath);
 
@@ -226,13 +270,16 @@ export class WorktreeService {
       if (monitorConfig?.circuitBreakerThreshold !== undefined) {
         this.circuitBreakerThreshold = monitorConfig.circuitBreakerThreshold;
       }
+      if (monitorConfig?.gitStatusConcurrency !== undefined) {
+        this.statusScheduler.setConcurrency(monitorConfig.gitStatusConcurrency);
+      }
 
       // Update AI debounce from config
       if (aiConfig?.summaryDebounceMs !== undefined) {
         this.aiDebounceMs = aiConfig.summaryDebounceMs;
       }
 
-      // Initialize PR service if we have worktrees and it hasn't been initialized yet
+      // Initialize PR and conflict services if we have worktrees and they haven't been initialized yet
       if (!this.prServiceInitialized && worktrees.length > 0) {
         try {
           // Get the repository root from the first worktree
@@ -246,6 +293,8 @@ export class WorktreeService {
 
           pullRequestService.initialize(repoRoot);
           pullRequestService.start();
+          conflictService.initialize(repoRoot);
+          conflictService.start();
           this.prServiceInitialized = true;
           logInfo("PullRequestService initialized and started", { repoRoot });
         } catch (error) {
@@ -258,19 +307,10 @@ export class WorktreeService {
       const currentIds = new Set(worktrees.map((wt) => wt.id));
 
       // 1. Remove stale monitors (worktrees that no longer exist)
-      for (const [id, monitor] of this.monitors) {
+      for (const id of Array.from(this.monitors.keys())) {
         if (!currentIds.has(id)) {
           logInfo("Removing stale WorktreeMonitor", { id });
-          // Clean up event bus subscription to prevent memory leak
-          const unsubscribe = (monitor as any)._eventBusUnsubscribe;
-          if (unsubscribe) {
-            unsubscribe();
-            delete (monitor as any)._eventBusUnsubscribe;
-          }
-          await monitor.stop();
-          this.monitors.delete(id);
-          // Emit removal event via IPC so renderer can clean up cached state
-          this.sendToRenderer(CHANNELS.WORKTREE_REMOVE, { worktreeId: id });
+          await this.removeMonitor(id);
         }
       }
 
@@ -297,6 +337,9 @@ export class WorktreeService {
             this.pollIntervalMax,
             this.circuitBreakerThreshold
           );
+
+          // Update file watching settings
+          existingMonitor.setWatchConfig(this.usePolling, this.refreshDebounce);
         } else {
           // Create new monitor
           logInfo("Creating new WorktreeMonitor", { id: wt.id, path: wt.path });
@@ -305,6 +348,7 @@ export class WorktreeService {
           await ensureNoteFile(wt.path);
 
           const monitor = new WorktreeMonitor(wt, this.mainBranch);
+          monitor.setStatusScheduler(this.statusScheduler);
 
           // Set initial polling interval
           const interval = isActive ? this.pollIntervalActive : this.pollIntervalBackground;
@@ -321,6 +365,9 @@ export class WorktreeService {
             this.circuitBreakerThreshold
           );
 
+          // Watch for file changes (falls back to polling if watchers fail)
+          monitor.setWatchConfig(this.usePolling, this.refreshDebounce);
+
           // Subscribe to global event bus for updates (single subscription pattern)
           // WorktreeMonitor emits to the global TypedEventBus, which provides:
           // - Centralized event tracking via EventBuffer
@@ -370,6 +417,19 @@ export class WorktreeService {
     }
   }
 
+  /**
+   * Apply a project's file watching settings to current and future monitors.
+   *
+   * @param watchConfig - Poll instead of watching, and the debounce for file changes
+   */
+  public setWatchConfig(watchConfig: WorktreeWatchConfig): void {
+    this.usePolling = watchConfig.usePolling ?? DEFAULT_CONFIG.usePolling;
+    this.refreshDebounce = watchConfig.refreshDebounce ?? DEFAULT_CONFIG.refreshDebounce;
+    for (const monitor of this.monitors.values()) {
+      monitor.setWatchConfig(this.usePolling, this.refreshDebounce);
+    }
+  }
+
   /**
    * Get the monitor for a specific worktree.
    *
@@ -393,6 +453,15 @@ export class WorktreeService {
     return states;
   }
 
+  /**
+   * Get the active worktree of the loaded project.
+   *
+   * @returns Worktree ID, or null if none was made active
+   */
+  public getActiveWorktreeId(): string | null {
+    return this.activeWorktreeId;
+  }
+
   /**
    * Set the active worktree.
    * Adjusts polling intervals for active vs background worktrees.
@@ -472,9 +541,10 @@ export class WorktreeService {
     await Promise.all(promises);
     this.monitors.clear();
 
-    // Stop PR service
+    // Stop PR and conflict services
     if (this.prServiceInitialized) {
       pullRequestService.destroy();
+      conflictService.stop();
       this.prServiceInitialized = false;
       logInfo("PullRequestService stopped and cleaned up");
     }
@@ -570,6 +640,13 @@ export class WorktreeService {
         await this.sync(worktreeList, this.activeWorktreeId, this.mainBranch);
       }
 
+      if (options.issueNumber) {
+        const created = worktreeList.find((wt) => wt.branch === options.newBranch);
+        if (created) {
+          this.monitors.get(created.id)?.setIssueNumber(options.issueNumber);
+        }
+      }
+
       logInfo("Worktree created successfully", {
         path: options.path,
         branch: options.newBranch,
@@ -583,6 +660,561 @@ export class WorktreeService {
     }
   }
 
+  /**
+   * Get the unified diff of a file in a worktree.
+   *
+   * @param worktreeId - Worktree ID
+   * @param filePath - File path, absolute or relative to the worktree root
+   * @param base - All changes since HEAD or since the branch left main, or only the
+   *   staged or unstaged part
+   * @returns The file's diff
+   * @throws Error if the worktree is unknown, the path is outside it, or git fails
+   */
+  public async getFileDiff(
+    worktreeId: string,
+    filePath: string,
+    base: GitDiffBase
+  ): Promise<GitFileDiff> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const worktreePath = monitor.getState().path;
+    const relativePath = this.toWorktreeRelativePath(worktreePath, filePath);
+
+    const result = await gitService.getFileDiff(worktreePath, relativePath, {
+      scope: base === "staged" || base === "unstaged" ? base : "all",
+      baseBranch: base === "main" ? this.mainBranch : undefined,
+    });
+
+    return { filePath: relativePath, base, ...result };
+  }
+
+  /**
+   * Stage or unstage whole files, then refresh the worktree's status.
+   *
+   * @param worktreeId - Worktree ID
+   * @param filePaths - File paths, absolute or relative to the worktree root
+   * @param unstage - Remove the files from the index instead of adding them
+   * @throws Error if the worktree is unknown, a path is outside it, or git fails
+   */
+  public async setFilesStaged(
+    worktreeId: string,
+    filePaths: string[],
+    unstage = false
+  ): Promise<void> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const worktreePath = monitor.getState().path;
+    const relativePaths = filePaths.map((filePath) =>
+      this.toWorktreeRelativePath(worktreePath, filePath)
+    );
+
+    if (unstage) {
+      await gitService.unstageFiles(worktreePath, relativePaths);
+    } else {
+      await gitService.stageFiles(worktreePath, relativePaths);
+    }
+    await monitor.refresh();
+  }
+
+  /**
+   * Stage or unstage one hunk of a file, then refresh the worktree's status.
+   *
+   * @param worktreeId - Worktree ID
+   * @param filePath - File path, absolute or relative to the worktree root
+   * @param hunkHeader - The hunk's "@@ ... @@" header line
+   * @param unstage - Remove the hunk from the index instead of adding it
+   * @throws Error if the worktree is unknown, the hunk is gone, or git fails
+   */
+  public async setHunkStaged(
+    worktreeId: string,
+    filePath: string,
+    hunkHeader: string,
+    unstage = false
+  ): Promise<void> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const worktreePath = monitor.getState().path;
+    const relativePath = this.toWorktreeRelativePath(worktreePath, filePath);
+
+    await gitService.applyHunk(worktreePath, relativePath, hunkHeader, unstage);
+    await monitor.refresh();
+  }
+
+  /**
+   * Commit staged changes in a worktree, then refresh its status.
+   *
+   * @param worktreeId - Worktree ID
+   * @param message - Full commit message
+   * @param amend - Replace the last commit instead of creating a new one
+   * @returns Short hash of the new commit
+   * @throws Error if the worktree is unknown or git commit fails
+   */
+  public async commit(worktreeId: string, message: string, amend = false): Promise<string> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const hash = await gitService.commit(monitor.getState().path, message, amend);
+    logInfo("Committed changes", { worktreeId, hash, amend });
+    await monitor.refresh();
+    return hash;
+  }
+
+  /**
+   * Get the full message of a worktree's last commit, for amending.
+   *
+   * @param worktreeId - Worktree ID
+   * @returns The message, or null if the branch has no commits
+   * @throws Error if the worktree is unknown
+   */
+  public async getLastCommitMessage(worktreeId: string): Promise<string | null> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    return gitService.getLastCommitMessage(monitor.getState().path);
+  }
+
+  /**
+   * Get the diff of everything staged in a worktree.
+   *
+   * @param worktreeId - Worktree ID
+   * @returns Unified diff text (empty when nothing is staged)
+   * @throws Error if the worktree is unknown or git fails
+   */
+  public async getStagedDiff(worktreeId: string): Promise<string> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    return gitService.getStagedDiff(monitor.getState().path);
+  }
+
+  /**
+   * Fast-forward a worktree's branch to its upstream, then refresh its status.
+   *
+   * @param worktreeId - Worktree ID
+   * @throws Error if the worktree is unknown or the pull fails
+   */
+  public async pull(worktreeId: string): Promise<void> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    await gitService.pull(monitor.getState().path);
+    logInfo("Pulled worktree branch", { worktreeId });
+    await monitor.refresh();
+  }
+
+  /**
+   * Rebase a worktree's branch onto the main branch or merge main in, then refresh its status.
+   * Uses the main ref the monitor last compared against (local main, else origin/main).
+   *
+   * @param worktreeId - Worktree ID
+   * @param strategy - Rebase or merge (the project's preference)
+   * @returns The outcome; on "conflicts" the operation is left in progress
+   * @throws Error if the worktree is unknown, dirty, or git fails
+   */
+  public async syncWithMain(
+    worktreeId: string,
+    strategy: WorktreeSyncStrategy
+  ): Promise<GitSyncResult> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const state = monitor.getState();
+    const onto = state.syncStatus?.mainRef ?? this.mainBranch;
+    try {
+      const result = await gitService.syncWithBranch(state.path, onto, strategy);
+      logInfo("Synced worktree with main", { worktreeId, onto, strategy, status: result.status });
+      return result;
+    } finally {
+      await monitor.refresh();
+    }
+  }
+
+  /**
+   * Resolve a conflicted file in a worktree by taking one side, then refresh its status.
+   *
+   * @param worktreeId - Worktree ID
+   * @param filePath - File path, absolute or relative to the worktree root
+   * @param side - "ours" keeps the branch's version, "theirs" the main branch's
+   * @throws Error if the worktree is unknown, nothing is in progress, or git fails
+   */
+  public async resolveConflict(
+    worktreeId: string,
+    filePath: string,
+    side: GitConflictSide
+  ): Promise<void> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const worktreePath = monitor.getState().path;
+    await gitService.resolveConflict(
+      worktreePath,
+      this.toWorktreeRelativePath(worktreePath, filePath),
+      side
+    );
+    await monitor.refresh();
+  }
+
+  /**
+   * Continue a worktree's stopped rebase or merge, then refresh its status.
+   *
+   * @param worktreeId - Worktree ID
+   * @returns The outcome; a rebase can stop on conflicts again at a later commit
+   * @throws Error if the worktree is unknown, nothing is in progress, or conflicts remain
+   */
+  public async continueSync(worktreeId: string): Promise<GitSyncResult> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    try {
+      return await gitService.continueSync(monitor.getState().path);
+    } finally {
+      await monitor.refresh();
+    }
+  }
+
+  /**
+   * Abort a worktree's rebase or merge, then refresh its status.
+   *
+   * @param worktreeId - Worktree ID
+   * @throws Error if the worktree is unknown, nothing is in progress, or git fails
+   */
+  public async abortSync(worktreeId: string): Promise<void> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    await gitService.abortSync(monitor.getState().path);
+    logInfo("Aborted worktree sync", { worktreeId });
+    await monitor.refresh();
+  }
+
+  /**
+   * Prefill a pull request for a worktree's branch from its linked issue,
+   * summary and the commits made since it branched off main.
+   *
+   * @param worktreeId - Worktree ID
+   * @returns Suggested title and body, the base branch and the commit subjects
+   * @throws Error if the worktree is unknown or has no branch
+   */
+  public async getPullRequestDraft(worktreeId: string): Promise<GitHubPullRequestDraft> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const state = monitor.getState();
+    if (!state.branch) {
+      throw new Error("Worktree has no branch (detached HEAD)");
+    }
+
+    const forge = await getForgeProvider(state.path);
+    const [commits, issueTitle] = await Promise.all([
+      gitService.getCommitSubjectsSince(state.path, this.mainBranch),
+      state.issueNumber ? forge.getIssueTitle(state.issueNumber) : Promise.resolve(null),
+    ]);
+    const { title, body } = buildPullRequestDraft({
+      branch: state.branch,
+      issue: state.issueNumber ? { number: state.issueNumber, title: issueTitle } : undefined,
+      summary: state.summary,
+      commits,
+    });
+
+    return { title, body, baseBranch: this.mainBranch, commits };
+  }
+
+  /**
+   * Push a worktree's branch and open a pull request for it. The PR is registered
+   * with the PR service right away so the card shows it before the next poll.
+   *
+   * @param worktreeId - Worktree ID
+   * @param options - Title, body, base branch, draft flag and reviewers
+   * @returns The created PR
+   * @throws Error if the worktree is unknown, the push fails, or gh fails
+   */
+  public async createPullRequest(
+    worktreeId: string,
+    options: Omit<GitHubCreatePRPayload, "worktreeId">
+  ): Promise<GitHubCreatedPR> {
+    const { monitor, gitService } = this.getGitContext(worktreeId);
+    const state = monitor.getState();
+    if (!state.branch) {
+      throw new Error("Worktree has no branch (detached HEAD)");
+    }
+
+    await gitService.push(state.path, state.branch);
+    const forge = await getForgeProvider(state.path);
+    const pr = await forge.createPullRequest({
+      title: options.title,
+      body: options.body,
+      base: options.baseBranch,
+      head: state.branch,
+      draft: options.draft,
+      reviewers: options.reviewers,
+    });
+    logInfo("Created pull request", { worktreeId, prNumber: pr.number, draft: pr.isDraft });
+
+    pullRequestService.registerPullRequest(worktreeId, pr, {
+      issueNumber: state.issueNumber,
+      branchName: state.branch,
+    });
+    await monitor.refresh();
+
+    return { number: pr.number, url: pr.url, isDraft: pr.isDraft };
+  }
+
+  private getGitContext(worktreeId: string): {
+    monitor: WorktreeMonitor;
+    gitService: GitService;
+  } {
+    const monitor = this.monitors.get(worktreeId);
+    if (!monitor || !this.gitService) {
+      throw new Error(`Unknown worktree: ${worktreeId}`);
+    }
+    return { monitor, gitService: this.gitService };
+  }
+
+  private toWorktreeRelativePath(worktreePath: string, filePath: string): string {
+    const relativePath = isAbsolute(filePath) ? relative(worktreePath, filePath) : filePath;
+    if (!relativePath || relativePath.startsWith("..") || isAbsolute(relativePath)) {
+      throw new Error(`File is outside the worktree: ${filePath}`);
+    }
+    return relativePath;
+  }
+
+  /**
+   * Check what would be lost by removing a worktree from disk.
+   *
+   * @param worktreeId - Worktree ID
+   * @returns Uncommitted file and unpushed commit counts
+   * @throws Error if the worktree is unknown or git status cannot be read
+   */
+  public async getRemovalStatus(worktreeId: string): Promise<WorktreeRemovalStatus> {
+    const monitor = this.monitors.get(worktreeId);
+    if (!monitor || !this.gitService) {
+      throw new Error(`Unknown worktree: ${worktreeId}`);
+    }
+    return this.gitService.getWorktreeRemovalStatus(monitor.getState().path);
+  }
+
+  /**
+   * Remove a worktree from disk (git worktree remove) and stop monitoring it.
+   * The main worktree can't be removed, nor one with uncommitted changes unless forced.
+   *
+   * @param worktreeId - Worktree ID
+   * @param options - Whether to force removal and delete the worktree's branch, and a hook
+   *   that runs only once the removal is going ahead (e.g. to stop processes using it)
+   * @throws Error if the worktree is unknown, is the main worktree, is dirty, or git fails
+   */
+  public async removeWorktree(
+    worktreeId: string,
+    options: {
+      deleteBranch?: boolean;
+      force?: boolean;
+      beforeRemove?: () => Promise<void>;
+    } = {}
+  ): Promise<void> {
+    const state = this.monitors.get(worktreeId)?.getState();
+
+    logInfo("Removing worktree", {
+      worktreeId,
+      path: state?.path,
+      branch: state?.branch,
+      deleteBranch: options.deleteBranch,
+      force: options.force,
+    });
+
+    try {
+      await this.removeWorktreeDirectory(worktreeId, options);
+    } finally {
+      await this.reloadAfterRemoval();
+    }
+
+    logInfo("Worktree removed successfully", { worktreeId, path: state?.path });
+  }
+
+  /**
+   * Find worktrees that are likely dead: their PR was merged or closed, or they have
+   * no uncommitted changes and no commits for longer than the stale threshold.
+   * The main worktree is never a candidate.
+   *
+   * @param staleDays - Days without commits after which a clean worktree is stale
+   * @returns Candidates with disk size and last activity, oldest activity first
+   */
+  public async getCleanupCandidates(staleDays: number): Promise<WorktreeCleanupCandidate[]> {
+    const candidates: WorktreeCleanupCandidate[] = [];
+
+    // Measured one at a time - disk walks of agent worktrees (node_modules) are heavy
+    for (const monitor of this.monitors.values()) {
+      const state = monitor.getState();
+      if (state.isMainWorktree) continue;
+
+      let reason: WorktreeCleanupCandidate["reason"] | null = null;
+      if (state.prState === "merged" || state.prState === "closed") {
+        reason = state.prState;
+      } else {
+        const mood = await categorizeWorktree(
+          state,
+          state.worktreeChanges ?? undefined,
+          this.mainBranch,
+          staleDays
+        );
+        if (mood === "stale") reason = "stale";
+      }
+      if (!reason) continue;
+
+      const lastCommitAt = await getLastCommitTimestamp(state.path);
+      const lastActivityAt = Math.max(lastCommitAt ?? 0, state.lastActivityTimestamp ?? 0) || null;
+
+      let diskSizeBytes: number | null = null;
+      try {
+        diskSizeBytes = await getDirectorySize(state.path);
+      } catch (error) {
+        logWarn("Failed to measure worktree size", {
+          path: state.path,
+          error: (error as Error).message,
+        });
+      }
+
+      candidates.push({
+        worktreeId: state.worktreeId,
+        name: state.name,
+        path: state.path,
+        branch: state.branch,
+        reason,
+        prNumber: state.prNumber,
+        lastActivityAt,
+        diskSizeBytes,
+        uncommittedFileCount: state.worktreeChanges?.changedFileCount ?? 0,
+      });
+    }
+
+    return candidates.sort((a, b) => (a.lastActivityAt ?? 0) - (b.lastActivityAt ?? 0));
+  }
+
+  /**
+   * Remove several worktrees, then prune leftover worktree metadata.
+   * Failures are collected per worktree so one bad worktree doesn't block the rest.
+   *
+   * @param worktreeIds - Worktrees to remove (an empty list only prunes)
+   * @param options - Whether to force removal and delete each worktree's branch, and a hook
+   *   that runs right before each removal that goes ahead
+   * @returns Removed and failed worktrees, and whether pruning succeeded
+   */
+  public async cleanupWorktrees(
+    worktreeIds: string[],
+    options: {
+      deleteBranches?: boolean;
+      force?: boolean;
+      beforeRemove?: (worktreeId: string) => Promise<void>;
+    } = {}
+  ): Promise<WorktreeCleanupResult> {
+    if (!this.gitService) {
+      throw new Error("WorktreeService not initialized");
+    }
+
+    const result: WorktreeCleanupResult = { removed: [], failed: [], pruned: false };
+    const { beforeRemove } = options;
+
+    try {
+      for (const worktreeId of worktreeIds) {
+        try {
+          await this.removeWorktreeDirectory(worktreeId, {
+            force: options.force,
+            deleteBranch: options.deleteBranches,
+            beforeRemove: beforeRemove && (() => beforeRemove(worktreeId)),
+          });
+          result.removed.push(worktreeId);
+        } catch (error) {
+          result.failed.push({ worktreeId, error: (error as Error).message });
+        }
+      }
+
+      try {
+        await this.gitService.pruneWorktrees();
+        result.pruned = true;
+      } catch (error) {
+        logWarn("Worktree prune failed during cleanup", { error: (error as Error).message });
+      }
+    } finally {
+      await this.reloadAfterRemoval();
+    }
+
+    logInfo("Worktree cleanup finished", {
+      removed: result.removed.length,
+      failed: result.failed.length,
+      pruned: result.pruned,
+    });
+
+    return result;
+  }
+
+  /**
+   * Remove one worktree's directory with git. Refusals (unknown or main worktree,
+   * uncommitted changes without force) come before beforeRemove runs, and the
+   * monitor is only dropped once git has removed the worktree.
+   */
+  private async removeWorktreeDirectory(
+    worktreeId: string,
+    options: { deleteBranch?: boolean; force?: boolean; beforeRemove?: () => Promise<void> }
+  ): Promise<void> {
+    const monitor = this.monitors.get(worktreeId);
+    if (!monitor || !this.gitService) {
+      throw new Error(`Unknown worktree: ${worktreeId}`);
+    }
+
+    const state = monitor.getState();
+    if (state.isMainWorktree) {
+      throw new Error("The main worktree cannot be removed");
+    }
+
+    if (!options.force) {
+      const { uncommittedFileCount } = await this.gitService.getWorktreeRemovalStatus(state.path);
+      if (uncommittedFileCount > 0) {
+        throw new Error(
+          `The worktree has ${uncommittedFileCount} uncommitted ${uncommittedFileCount === 1 ? "change" : "changes"}; force removal to discard them`
+        );
+      }
+    }
+
+    await options.beforeRemove?.();
+
+    // Pause polling so the monitor doesn't report errors for the vanishing directory
+    monitor.pause();
+    try {
+      await this.gitService.removeWorktree(state.path, {
+        force: options.force,
+        deleteBranch: options.deleteBranch ? state.branch : undefined,
+      });
+    } catch (error) {
+      // Branch deletion can fail after the directory is already gone
+      const stillExists = await stat(state.path).then(
+        () => true,
+        () => false
+      );
+      if (stillExists) {
+        monitor.resume();
+      } else {
+        await this.removeMonitor(worktreeId);
+      }
+      throw error;
+    }
+
+    await this.removeMonitor(worktreeId);
+  }
+
+  /**
+   * Resync monitors from git after removals, so failed removals bring their worktree back.
+   */
+  private async reloadAfterRemoval(): Promise<void> {
+    if (!this.rootPath) return;
+    await this.loadProject(this.rootPath).catch((error) => {
+      logWarn("Failed to reload worktrees after removal", {
+        error: (error as Error).message,
+      });
+    });
+  }
+
+  /**
+   * Stop and forget a worktree's monitor, notifying the renderer and event bus.
+   *
+   * @param worktreeId - Worktree ID
+   */
+  private async removeMonitor(worktreeId: string): Promise<void> {
+    const monitor = this.monitors.get(worktreeId);
+    if (!monitor) return;
+
+    // Clean up event bus subscription to prevent memory leak
+    const unsubscribe = (monitor as any)._eventBusUnsubscribe;
+    if (unsubscribe) {
+      unsubscribe();
+      delete (monitor as any)._eventBusUnsubscribe;
+    }
+    await monitor.stop();
+    this.monitors.delete(worktreeId);
+    this.statusScheduler.forget(monitor.path);
+    forgetGitRoot(monitor.path);
+
+    // Emit removal event via IPC so renderer can clean up cached state
+    this.sendToRenderer(CHANNELS.WORKTREE_REMOVE, { worktreeId });
+    events.emit("sys:worktree:remove", { worktreeId, timestamp: Date.now() });
+  }
+
   /**
    * Helper method to send IPC events to all renderer windows.
    *
@@ -0,0 +1,256 @@
+/**
+ * WorktreeSetupRunner - Prepares a freshly created worktree for work.
+ *
+ * Runs a project's WorktreeSetupConfig against a new worktree:
+ * - Copies or symlinks untracked files (e.g. .env, local config) from the main worktree
+ * - Runs setup commands (e.g. npm install) in sequence, streaming their output
+ *
+ * Stops at the first failure and reports it in the result rather than throwing,
+ * since the worktree itself was created successfully.
+ */
+
+import { execa } from "execa";
+import type { Dirent } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { logInfo, logWarn } from "../utils/logger.js";
+import type {
+  WorktreeSetupConfig,
+  WorktreeSetupFile,
+  WorktreeSetupProgress,
+  WorktreeSetupResult,
+} from "../types/index.js";
+
+// Generous limit so a cold `npm install` can finish, but a hung command can't block forever
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Options for a setup run.
+ */
+export interface WorktreeSetupRunOptions {
+  /** Main worktree to copy files from */
+  sourcePath: string;
+  /** Newly created worktree */
+  targetPath: string;
+  /** Receives each progress line (worktreeId is filled in by the caller) */
+  onProgress?: (progress: Omit<WorktreeSetupProgress, "worktreeId">) => void;
+}
+
+/**
+ * Whether a setup config has anything to do.
+ */
+export function hasSetupSteps(config: WorktreeSetupConfig | undefined): boolean {
+  return !!config && (config.files.length > 0 || config.commands.some((cmd) => cmd.trim()));
+}
+
+/**
+ * Match a single path segment of a pattern: `*` and `?` don't cross `/`.
+ */
+export function segmentToRegExp(segment: string): RegExp {
+  const source = segment
+    .split("")
+    .map((char) => {
+      if (char === "*") return "[^/]*";
+      if (char === "?") return "[^/]";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand a setup file pattern against a directory.
+ * `*` and `?` match within a single path segment; `.git` is never matched.
+ *
+ * @param rootPath - Directory the pattern is relative to
+ * @param pattern - Relative path, optionally with wildcards (e.g. ".env*", "config/*.local.json")
+ * @returns Matching paths relative to rootPath, sorted
+ */
+export async function expandSetupPattern(rootPath: string, pattern: string): Promise<string[]> {
+  const segments = pattern
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^\.\//, "")
+    .split("/")
+    .filter(Boolean);
+
+  if (segments.length === 0 || path.isAbsolute(pattern) || segments.includes("..")) {
+    throw new Error(`Setup file patterns must be relative to the repository: ${pattern}`);
+  }
+
+  let matches = [""];
+
+  for (const [index, segment] of segments.entries()) {
+    const isLast = index === segments.length - 1;
+    const next: string[] = [];
+
+    for (const match of matches) {
+      if (!/[*?]/.test(segment)) {
+        const candidate = path.join(match, segment);
+        try {
+          const stats = await fs.stat(path.join(rootPath, candidate));
+          if (isLast || stats.isDirectory()) next.push(candidate);
+        } catch {
+          // Doesn't exist in this branch of the walk
+        }
+        continue;
+      }
+
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(path.join(rootPath, match), { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      const regex = segmentToRegExp(segment);
+      for (const entry of entries) {
+        if (entry.name === ".git" || !regex.test(entry.name)) continue;
+        if (!isLast && !entry.isDirectory()) continue;
+        next.push(path.join(match, entry.name));
+      }
+    }
+
+    matches = next;
+  }
+
+  return matches.sort();
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function bringFile(
+  file: WorktreeSetupFile,
+  relativePath: string,
+  sourcePath: string,
+  targetPath: string
+): Promise<void> {
+  const from = path.join(sourcePath, relativePath);
+  const to = path.join(targetPath, relativePath);
+  await fs.mkdir(path.dirname(to), { recursive: true });
+
+  if (file.mode === "symlink") {
+    const isDirectory = (await fs.stat(from)).isDirectory();
+    // Junctions don't need elevated privileges on Windows
+    await fs.symlink(
+      from,
+      to,
+      isDirectory && process.platform === "win32" ? "junction" : undefined
+    );
+  } else {
+    await fs.cp(from, to, { recursive: true });
+  }
+}
+
+async function runCommand(
+  command: string,
+  cwd: string,
+  onProgress: WorktreeSetupRunOptions["onProgress"]
+): Promise<string | null> {
+  const proc = execa(command, {
+    shell: true,
+    cwd,
+    buffer: false,
+    cleanup: true,
+    reject: false,
+    timeout: COMMAND_TIMEOUT_MS,
+  });
+
+  const forward = (isError: boolean) => (data: Buffer) => {
+    for (const line of data.toString().split(/\r?\n/)) {
+      if (line.trim()) {
+        onProgress?.({ step: "command", command, message: line, isError });
+      }
+    }
+  };
+  proc.stdout?.on("data", forward(false));
+  proc.stderr?.on("data", forward(true));
+
+  const result = await proc;
+  if (result.timedOut) {
+    return `Timed out after ${COMMAND_TIMEOUT_MS / 60000} minutes`;
+  }
+  if (result.exitCode !== 0) {
+    return result.exitCode === undefined
+      ? `Failed to start: ${result.message ?? "unknown error"}`
+      : `Exited with code ${result.exitCode}`;
+  }
+  return null;
+}
+
+/**
+ * Run a setup config against a new worktree.
+ *
+ * @param config - The project's worktree setup
+ * @param options - Source/target paths and progress callback
+ * @returns What was done, and the first failure if any
+ */
+export async function runWorktreeSetup(
+  config: WorktreeSetupConfig,
+  options: WorktreeSetupRunOptions
+): Promise<WorktreeSetupResult> {
+  const { sourcePath, targetPath, onProgress } = options;
+  const result: WorktreeSetupResult = { success: true, files: [], completedCommands: [] };
+
+  logInfo("Running worktree setup", {
+    targetPath,
+    fileCount: config.files.length,
+    commandCount: config.commands.length,
+  });
+
+  for (const file of config.files) {
+    if (!file.pattern.trim()) continue;
+
+    try {
+      const matches = await expandSetupPattern(sourcePath, file.pattern);
+      if (matches.length === 0) {
+        onProgress?.({ step: "files", message: `No files match ${file.pattern}` });
+        continue;
+      }
+
+      for (const relativePath of matches) {
+        // Tracked files are already checked out; never overwrite them
+        if (await pathExists(path.join(targetPath, relativePath))) {
+          onProgress?.({ step: "files", message: `Skipped ${relativePath} (already exists)` });
+          continue;
+        }
+        await bringFile(file, relativePath, sourcePath, targetPath);
+        result.files.push(relativePath);
+        onProgress?.({
+          step: "files",
+          message: `${file.mode === "symlink" ? "Linked" : "Copied"} ${relativePath}`,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logWarn("Worktree setup file step failed", { pattern: file.pattern, error: message });
+      return { ...result, success: false, error: message, failedPattern: file.pattern };
+    }
+  }
+
+  for (const command of config.commands.map((cmd) => cmd.trim()).filter(Boolean)) {
+    onProgress?.({ step: "command", command, message: `$ ${command}` });
+
+    const failure = await runCommand(command, targetPath, onProgress);
+    if (failure) {
+      logWarn("Worktree setup command failed", { command, failure });
+      return {
+        ...result,
+        success: false,
+        error: `${command}: ${failure}`,
+        failedCommand: command,
+      };
+    }
+    result.completedCommands.push(command);
+  }
+
+  logInfo("Worktree setup complete", { targetPath });
+  return result;
+}
@@ -0,0 +1,404 @@
+import { watch, type FSWatcher } from "fs";
+import { readdir, stat } from "fs/promises";
+import { isAbsolute, join as pathJoin, relative, sep } from "path";
+import { simpleGit } from "simple-git";
+import { logDebug, logWarn } from "../utils/logger.js";
+
+// Linux has no recursive native watcher, so each directory gets its own inotify watch.
+// Past this many directories we give up and let the monitor poll instead.
+const MAX_WATCHED_DIRECTORIES = 4000;
+
+// Changed paths checked against .gitignore per flush; larger bursts are assumed relevant
+const MAX_IGNORE_CHECK_PATHS = 500;
+
+// Lock files and temp files git writes while updating refs/index
+const GIT_TRANSIENT_FILE = /\.lock$|^tmp_|\.tmp$/;
+
+/** What changed in a debounced batch of file system events */
+export interface WorktreeWatchChange {
+  /** HEAD, index, refs or rebase/merge state changed (not just working tree files) */
+  gitMetadataChanged: boolean;
+  /** Working tree paths (relative to the worktree) that aren't gitignored */
+  paths: string[];
+}
+
+export interface WorktreeWatcherOptions {
+  /** Quiet period before a batch of events is reported */
+  debounceMs: number;
+  /** Extra directories to watch non-recursively, reported as metadata changes (e.g. the note directory) */
+  extraDirectories?: string[];
+  /** Called once per debounced batch that contains a relevant change */
+  onChange: (change: WorktreeWatchChange) => void;
+  /** Called when a watcher fails after start; the watcher is closed by then */
+  onError: (error: Error) => void;
+}
+
+/**
+ * WorktreeWatcher watches a single worktree's files and git metadata with native
+ * file system watchers so WorktreeMonitor only runs `git status` after real changes.
+ *
+ * - Working tree: one recursive watcher on macOS/Windows; on Linux one watcher per
+ *   directory that isn't gitignored (from `git ls-files`), adding new directories as they appear
+ * - Git metadata: the worktree's git directory (HEAD, index, rebase/merge markers),
+ *   the common directory (packed-refs, FETCH_HEAD) and refs
+ * - Changed paths are batched for `debounceMs`, then filtered with `git check-ignore`
+ *
+ * start() rejects when watchers can't be created (e.g. inotify limits), so the
+ * caller can fall back to polling.
+ */
+export class WorktreeWatcher {
+  private watchers = new Map<string, FSWatcher>();
+  private pendingPaths = new Set<string>();
+  private pendingMetadata = false;
+  private pendingDirectories = new Set<string>();
+  private pendingRefDirectories = new Set<string>();
+  private refsDir: string | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+  private closed = false;
+
+  constructor(
+    private readonly worktreePath: string,
+    private readonly options: WorktreeWatcherOptions
+  ) {}
+
+  /**
+   * Create all watchers.
+   * @throws If the git directories can't be resolved, a watcher can't be created or
+   * the directory limit is exceeded. Watchers created so far are closed.
+   */
+  public async start(): Promise<void> {
+    try {
+      const { gitDir, commonDir } = await this.resolveGitDirs();
+
+      // Git metadata
+      this.watchDirectory(gitDir, "metadata");
+      if (commonDir !== gitDir) {
+        this.watchDirectory(commonDir, "metadata");
+      }
+      this.refsDir = pathJoin(commonDir, "refs");
+      for (const dir of await listDirectories(this.refsDir)) {
+        this.watchDirectory(dir, "metadata");
+      }
+      for (const dir of this.options.extraDirectories ?? []) {
+        if (await isDirectory(dir)) {
+          this.watchDirectory(dir, "metadata");
+        }
+      }
+
+      // Working tree
+      if (this.isRecursive()) {
+        this.watchDirectory(this.worktreePath, "tree", true);
+      } else {
+        const directories = await this.listTrackedDirectories();
+        if (directories.length + this.watchers.size > MAX_WATCHED_DIRECTORIES) {
+          throw new Error(
+            `Worktree has ${directories.length} directories, more than the ${MAX_WATCHED_DIRECTORIES} watch limit`
+          );
+        }
+        for (const dir of directories) {
+          this.watchDirectory(pathJoin(this.worktreePath, dir), "tree");
+        }
+      }
+
+      logDebug("WorktreeWatcher started", {
+        path: this.worktreePath,
+        watchers: this.watchers.size,
+      });
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Close all watchers and drop pending events.
+   */
+  public close(): void {
+    this.closed = true;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pendingPaths.clear();
+    this.pendingDirectories.clear();
+    this.pendingRefDirectories.clear();
+  }
+
+  /**
+   * Number of native watchers currently open.
+   */
+  public get watcherCount(): number {
+    return this.watchers.size;
+  }
+
+  private async resolveGitDirs(): Promise<{ gitDir: string; commonDir: string }> {
+    const output = await simpleGit(this.worktreePath).raw([
+      "rev-parse",
+      "--git-dir",
+      "--git-common-dir",
+    ]);
+    const [gitDir, commonDir] = output
+      .trim()
+      .split("\n")
+      .map((dir) => (isAbsolute(dir) ? dir : pathJoin(this.worktreePath, dir)));
+    return { gitDir, commonDir: commonDir ?? gitDir };
+  }
+
+  /**
+   * Directories containing tracked or untracked-but-not-ignored files, relative to the
+   * worktree ("" is the root).
+   */
+  private async listTrackedDirectories(): Promise<string[]> {
+    const output = await simpleGit(this.worktreePath).raw([
+      "ls-files",
+      "-z",
+      "--cached",
+      "--others",
+      "--exclude-standard",
+    ]);
+
+    const directories = new Set<string>([""]);
+    for (const file of output.split("\0")) {
+      let end = file.lastIndexOf("/");
+      while (end > 0) {
+        const dir = file.slice(0, end);
+        if (directories.has(dir)) break;
+        directories.add(dir);
+        end = dir.lastIndexOf("/");
+      }
+    }
+    return Array.from(directories);
+  }
+
+  private watchDirectory(dir: string, kind: "metadata" | "tree", recursive = false): void {
+    if (this.closed || this.watchers.has(dir)) {
+      return;
+    }
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(dir, { recursive, persistent: false }, (_eventType, filename) => {
+        this.handleEvent(dir, kind, filename ? filename.toString() : null);
+      });
+    } catch (error) {
+      // Deleted between listing and watching; anything else (ENOSPC, EMFILE) is fatal
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    watcher.on("error", (error) => this.fail(error));
+
+    this.watchers.set(dir, watcher);
+  }
+
+  private handleEvent(dir: string, kind: "metadata" | "tree", filename: string | null): void {
+    if (this.closed) {
+      return;
+    }
+
+    if (kind === "metadata") {
+      if (filename && GIT_TRANSIENT_FILE.test(filename)) {
+        return;
+      }
+      this.pendingMetadata = true;
+      // New ref namespaces (e.g. refs/heads/feature/) need their own watcher
+      if (filename && this.refsDir && dir.startsWith(this.refsDir)) {
+        this.pendingRefDirectories.add(pathJoin(dir, filename));
+      }
+    } else {
+      const absolute = filename ? pathJoin(dir, filename) : dir;
+      const relativePath = relative(this.worktreePath, absolute).split(sep).join("/");
+
+      // The main worktree's .git directory is covered by the metadata watchers
+      if (relativePath === ".git" || relativePath.startsWith(".git/")) {
+        return;
+      }
+      this.pendingPaths.add(relativePath);
+      if (!this.isRecursive()) {
+        this.pendingDirectories.add(absolute);
+      }
+    }
+
+    this.scheduleFlush();
+  }
+
+  private isRecursive(): boolean {
+    return process.platform === "darwin" || process.platform === "win32";
+  }
+
+  private scheduleFlush(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.flush();
+    }, this.options.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    // Events arriving mid-flush are picked up by the next scheduled flush
+    if (this.isFlushing) {
+      this.scheduleFlush();
+      return;
+    }
+
+    const gitMetadataChanged = this.pendingMetadata;
+    const paths = Array.from(this.pendingPaths);
+    const candidates = Array.from(this.pendingDirectories);
+    const refCandidates = Array.from(this.pendingRefDirectories);
+    this.pendingMetadata = false;
+    this.pendingPaths.clear();
+    this.pendingDirectories.clear();
+    this.pendingRefDirectories.clear();
+
+    this.isFlushing = true;
+    try {
+      const relevantPaths = await this.filterIgnored(paths);
+      if (this.closed) {
+        return;
+      }
+
+      await this.watchNewDirectories(candidates, relevantPaths);
+      for (const candidate of refCandidates) {
+        for (const dir of await listDirectories(candidate)) {
+          this.watchDirectory(dir, "metadata");
+        }
+      }
+      if (this.closed) {
+        return;
+      }
+
+      if (gitMetadataChanged || relevantPaths.length > 0) {
+        this.options.onChange({ gitMetadataChanged, paths: relevantPaths });
+      }
+    } catch (error) {
+      this.fail(error as Error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private async filterIgnored(paths: string[]): Promise<string[]> {
+    if (paths.length === 0 || paths.length > MAX_IGNORE_CHECK_PATHS) {
+      return paths;
+    }
+
+    try {
+      const ignored = new Set(await simpleGit(this.worktreePath).checkIgnore(paths));
+      return paths.filter((path) => !ignored.has(path));
+    } catch (error) {
+      // Better a spurious status refresh than a missed change
+      logDebug("git check-ignore failed, treating paths as relevant", {
+        path: this.worktreePath,
+        error: (error as Error).message,
+      });
+      return paths;
+    }
+  }
+
+  /**
+   * Per-directory mode only: watch directories created since start (and whatever was
+   * created inside them before this flush), and drop watchers for deleted ones.
+   * Ignored directories were already dropped by filterIgnored.
+   */
+  private async watchNewDirectories(candidates: string[], relevantPaths: string[]): Promise<void> {
+    const relevant = new Set(relevantPaths);
+    for (const absolute of candidates) {
+      if (!(await isDirectory(absolute))) {
+        this.watchers.get(absolute)?.close();
+        this.watchers.delete(absolute);
+        continue;
+      }
+
+      const relativePath = relative(this.worktreePath, absolute).split(sep).join("/");
+      if (!relevant.has(relativePath) || this.watchers.has(absolute)) {
+        continue;
+      }
+
+      for (const dir of await this.listUnignoredDirectories(absolute)) {
+        if (this.watchers.size >= MAX_WATCHED_DIRECTORIES) {
+          throw new Error(`More than ${MAX_WATCHED_DIRECTORIES} directories to watch`);
+        }
+        this.watchDirectory(dir, "tree");
+      }
+    }
+  }
+
+  /**
+   * A directory and its subdirectories, skipping gitignored ones (checked level by level
+   * so an ignored directory's contents are never walked).
+   */
+  private async listUnignoredDirectories(root: string): Promise<string[]> {
+    const git = simpleGit(this.worktreePath);
+    const result: string[] = [];
+    let level = [root];
+    while (level.length > 0 && result.length < MAX_WATCHED_DIRECTORIES) {
+      result.push(...level);
+      const children: string[] = [];
+      for (const dir of level) {
+        children.push(...(await listSubdirectories(dir)));
+      }
+      if (children.length === 0) {
+        break;
+      }
+      // Trailing slash so directory-only patterns like "node_modules/" match
+      const relativeChildren = children.map(
+        (dir) => relative(this.worktreePath, dir).split(sep).join("/") + "/"
+      );
+      const ignored = new Set(await git.checkIgnore(relativeChildren));
+      level = children.filter((_dir, index) => !ignored.has(relativeChildren[index]));
+    }
+    return result;
+  }
+
+  private fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    logWarn("WorktreeWatcher failed", { path: this.worktreePath, error: error.message });
+    this.close();
+    this.options.onError(error);
+  }
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function listSubdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => pathJoin(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A directory and all of its subdirectories (a missing directory yields nothing).
+ */
+async function listDirectories(root: string): Promise<string[]> {
+  if (!(await isDirectory(root))) {
+    return [];
+  }
+  const result: string[] = [];
+  const queue = [root];
+  while (queue.length > 0) {
+    const dir = queue.shift() as string;
+    result.push(dir);
+    queue.push(...(await listSubdirectories(dir)));
+  }
+  return result;
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from "vitest";
+import type { PtyManager, TerminalSnapshot } from "../PtyManager.js";
+import type { AgentStateClassificationResponse } from "../../schemas/external.js";
+
+// The real classifier reads AI settings from electron-store
+vi.mock("../ai/stateClassifier.js", () => ({
+  classifyAgentState: vi.fn(async () => null),
+}));
+
+const { AgentObserver } = await import("../AgentObserver.js");
+
+const NOW = 100_000;
+
+function createSnapshot(overrides: Partial<TerminalSnapshot> = {}): TerminalSnapshot {
+  return {
+    id: "term-1",
+    lines: ["Refactored the parser.", "All tests pass."],
+    lastInputTime: NOW - 60_000,
+    lastOutputTime: NOW - 10_000,
+    lastCheckTime: NOW - 60_000,
+    type: "claude",
+    agentType: "claude",
+    agentId: "term-1",
+    agentState: "working",
+    ...overrides,
+  };
+}
+
+function createPtyManager(snapshot: TerminalSnapshot) {
+  const manager = {
+    snapshot,
+    getAllTerminalSnapshots: vi.fn(() => [manager.snapshot]),
+    getTerminalSnapshot: vi.fn(() => manager.snapshot),
+    markChecked: vi.fn((_id: string) => {
+      manager.snapshot = { ...manager.snapshot, lastCheckTime: NOW };
+    }),
+    applyObservedState: vi.fn(),
+  };
+  return manager;
+}
+
+describe("AgentObserver", () => {
+  let classify: Mock<
+    (lines: string[], agentName?: string) => Promise<AgentStateClassificationResponse | null>
+  >;
+
+  beforeEach(() => {
+    classify = vi.fn(async () => null);
+  });
+
+  function observe(manager: ReturnType<typeof createPtyManager>) {
+    return new AgentObserver(manager as unknown as PtyManager, {
+      classify,
+      now: () => NOW,
+    });
+  }
+
+  it("should ignore agents that produced output recently", () => {
+    const manager = createPtyManager(createSnapshot({ lastOutputTime: NOW - 1000 }));
+    observe(manager).poll();
+
+    expect(manager.markChecked).not.toHaveBeenCalled();
+    expect(manager.applyObservedState).not.toHaveBeenCalled();
+  });
+
+  it("should ignore agents that are not working", () => {
+    const manager = createPtyManager(createSnapshot({ agentState: "waiting" }));
+    observe(manager).poll();
+
+    expect(manager.applyObservedState).not.toHaveBeenCalled();
+    expect(classify).not.toHaveBeenCalled();
+  });
+
+  it("should keep working while a busy indicator is on screen", () => {
+    const manager = createPtyManager(
+      createSnapshot({ lines: ["Running tests...", "✻ Thinking… (esc to interrupt)"] })
+    );
+    observe(manager).poll();
+
+    expect(manager.markChecked).toHaveBeenCalledWith("term-1");
+    expect(manager.applyObservedState).not.toHaveBeenCalled();
+    expect(classify).not.toHaveBeenCalled();
+  });
+
+  it("should move to waiting with a timeout trigger when a prompt is on screen", () => {
+    const manager = createPtyManager(createSnapshot({ lines: ["Apply these changes? (y/n)"] }));
+    observe(manager).poll();
+
+    expect(manager.applyObservedState).toHaveBeenCalledWith(
+      "term-1",
+      { type: "prompt" },
+      "timeout",
+      0.7
+    );
+  });
+
+  it("should apply confident AI classifications", async () => {
+    classify.mockResolvedValue({ state: "waiting", confidence: 0.9 });
+    const manager = createPtyManager(createSnapshot());
+    observe(manager).poll();
+
+    await vi.waitFor(() =>
+      expect(manager.applyObservedState).toHaveBeenCalledWith(
+        "term-1",
+        { type: "prompt" },
+        "ai-classification",
+        0.9
+      )
+    );
+    expect(classify).toHaveBeenCalledWith(manager.snapshot.lines, "Claude");
+  });
+
+  it("should discard AI classifications made stale by new output", async () => {
+    let resolve: (value: AgentStateClassificationResponse) => void = () => {};
+    classify.mockReturnValue(new Promise((r) => (resolve = r)));
+    const manager = createPtyManager(createSnapshot());
+    observe(manager).poll();
+
+    manager.snapshot = { ...manager.snapshot, lastOutputTime: NOW };
+    resolve({ state: "waiting", confidence: 0.95 });
+    await vi.waitFor(() => expect(manager.getTerminalSnapshot).toHaveBeenCalled());
+
+    expect(manager.applyObservedState).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to a low-confidence timeout after long silence without AI", async () => {
+    const manager = createPtyManager(createSnapshot({ lastOutputTime: NOW - 40_000 }));
+    const observer = observe(manager);
+
+    observer.poll();
+    await vi.waitFor(() => expect(classify).toHaveBeenCalledOnce());
+    expect(manager.applyObservedState).not.toHaveBeenCalled();
+
+    observer.poll();
+    expect(manager.applyObservedState).toHaveBeenCalledWith(
+      "term-1",
+      { type: "prompt" },
+      "timeout",
+      0.4
+    );
+  });
+
+  it("should not time out an agent the AI believes is still working", async () => {
+    classify.mockResolvedValue({ state: "working", confidence: 0.8 });
+    const manager = createPtyManager(createSnapshot({ lastOutputTime: NOW - 40_000 }));
+    const observer = observe(manager);
+
+    observer.poll();
+    await vi.waitFor(() => expect(manager.getTerminalSnapshot).toHaveBeenCalled());
+    observer.poll();
+
+    expect(manager.applyObservedState).not.toHaveBeenCalled();
+  });
+
+  it("should only ask the AI again once the screen has changed", async () => {
+    classify.mockResolvedValue({ state: "working", confidence: 0.8 });
+    const manager = createPtyManager(createSnapshot());
+    let now = NOW;
+    const observer = new AgentObserver(manager as unknown as PtyManager, {
+      classify,
+      now: () => now,
+    });
+
+    observer.poll();
+    await vi.waitFor(() => expect(manager.getTerminalSnapshot).toHaveBeenCalled());
+
+    // Still silent on the same screen long after the check interval
+    now += 60_000;
+    observer.poll();
+    expect(classify).toHaveBeenCalledOnce();
+
+    manager.snapshot = {
+      ...manager.snapshot,
+      lines: [...manager.snapshot.lines, "Running tests..."],
+      lastOutputTime: now - 10_000,
+    };
+    observer.poll();
+    expect(classify).toHaveBeenCalledTimes(2);
+  });
+});
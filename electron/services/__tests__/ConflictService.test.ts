@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { simpleGit } from "simple-git";
+import {
+  conflictService,
+  findOverlappingFiles,
+  parseMergeTreeConflicts,
+} from "../ConflictService.js";
+import { events } from "../events.js";
+import type { WorktreeState } from "../WorktreeMonitor.js";
+
+function makeState(worktreeId: string, path: string, branch: string, files: string[]) {
+  const state: WorktreeState = {
+    id: worktreeId,
+    worktreeId,
+    path,
+    name: branch,
+    branch,
+    isCurrent: false,
+    worktreeChanges: {
+      worktreeId,
+      rootPath: path,
+      changes: files.map((file) => ({
+        path: join(path, file),
+        status: "modified",
+        insertions: 1,
+        deletions: 0,
+      })),
+      changedFileCount: files.length,
+    },
+    lastActivityTimestamp: null,
+    aiStatus: "disabled",
+  };
+  return state;
+}
+
+describe("findOverlappingFiles", () => {
+  it("should return shared paths sorted", () => {
+    expect(
+      findOverlappingFiles(
+        new Set(["src/b.ts", "src/a.ts", "README.md"]),
+        new Set(["src/a.ts", "src/b.ts"])
+      )
+    ).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(findOverlappingFiles(new Set(["a"]), new Set())).toEqual([]);
+  });
+});
+
+describe("parseMergeTreeConflicts", () => {
+  it("should skip the tree id line and deduplicate paths", () => {
+    expect(parseMergeTreeConflicts("4b825dc642cb6eb9a060e54bf8d69288fbee4904\n")).toEqual([]);
+    expect(parseMergeTreeConflicts("4b825dc\nsrc/a.ts\nsrc/a.ts\nsrc/b.ts\n")).toEqual([
+      "src/a.ts",
+      "src/b.ts",
+    ]);
+  });
+});
+
+describe("ConflictService", () => {
+  let repoPath: string;
+  let featureAPath: string;
+  let featureBPath: string;
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "canopy-conflict-test-"));
+    featureAPath = `${repoPath}-a`;
+    featureBPath = `${repoPath}-b`;
+
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addConfig("user.email", "test@example.com");
+    await git.addConfig("user.name", "Test");
+    await writeFile(join(repoPath, "shared.txt"), "one\ntwo\nthree\n");
+    await git.add("shared.txt");
+    await git.commit("Initial commit");
+
+    for (const [path, branch, firstLine] of [
+      [featureAPath, "feature-a", "ONE"],
+      [featureBPath, "feature-b", "uno"],
+    ]) {
+      await git.raw(["worktree", "add", "-b", branch, path]);
+      await writeFile(join(path, "shared.txt"), `${firstLine}\ntwo\nthree\n`);
+      await simpleGit(path).commit(`Edit on ${branch}`, ["shared.txt"]);
+    }
+
+    conflictService.initialize(repoPath);
+    conflictService.start();
+  });
+
+  afterEach(async () => {
+    conflictService.stop();
+    for (const path of [repoPath, featureAPath, featureBPath]) {
+      await rm(path, { recursive: true, force: true });
+    }
+  });
+
+  it("should report overlapping uncommitted files and branch merge conflicts", async () => {
+    events.emit("sys:worktree:update", makeState("a", featureAPath, "feature-a", ["src/app.ts"]));
+    events.emit(
+      "sys:worktree:update",
+      makeState("b", featureBPath, "feature-b", ["src/app.ts", "docs/notes.md"])
+    );
+    events.emit("sys:worktree:update", makeState("main", repoPath, "main", []));
+
+    const report = await conflictService.refresh();
+
+    expect(report.mergeChecked).toBe(true);
+    const pair = report.pairs.find(
+      (p) => p.worktreeIds.includes("a") && p.worktreeIds.includes("b")
+    );
+    expect(pair?.overlappingFiles).toEqual(["src/app.ts"]);
+    expect(pair?.conflictingFiles).toEqual(["shared.txt"]);
+
+    // Each feature merges cleanly into main and shares no uncommitted files with it
+    expect(report.pairs.some((p) => p.worktreeIds.includes("main"))).toBe(false);
+  });
+
+  it("should drop removed worktrees from the report", async () => {
+    events.emit("sys:worktree:update", makeState("a", featureAPath, "feature-a", []));
+    events.emit("sys:worktree:update", makeState("b", featureBPath, "feature-b", []));
+    expect((await conflictService.refresh()).pairs).toHaveLength(1);
+
+    events.emit("sys:worktree:remove", { worktreeId: "b", timestamp: Date.now() });
+
+    expect((await conflictService.refresh()).pairs).toEqual([]);
+  });
+});
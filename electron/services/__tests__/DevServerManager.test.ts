@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DevServerManager, DEFAULT_DEV_PROCESS_ID } from "../DevServerManager.js";
+import { PortAllocator } from "../PortAllocator.js";
+import { events } from "../events.js";
+import type { RunCommand } from "../../types/index.js";
+
+const WORKTREE_ID = "/repo/feature";
+const PORT_RANGE_START = 47100;
+
+// Run a node script in place of the shell (`exec`) so stopping the slot signals node itself
+function nodeCommand(script: string): string {
+  return `exec "${process.execPath}" -e '${script}'`;
+}
+
+// An HTTP server on the PORT it was given that prints its URL
+const SERVER_COMMAND = nodeCommand(
+  `const port = process.env.PORT; require("http").createServer((req, res) => res.end("ok")).listen(port, () => console.log("Local: http://localhost:" + port + "/"));`
+);
+
+// Stays alive without listening anywhere, like a queue worker
+const WORKER_COMMAND = nodeCommand(`setInterval(() => {}, 1000);`);
+
+// Fails right after starting
+const CRASH_COMMAND = nodeCommand(`console.log("boom"); process.exit(1);`);
+
+describe("DevServerManager", () => {
+  let manager: DevServerManager;
+  let worktreePath: string;
+
+  beforeEach(async () => {
+    manager = new DevServerManager(
+      new PortAllocator({ rangeStart: PORT_RANGE_START, portsPerWorktree: 5 })
+    );
+    worktreePath = await mkdtemp(join(tmpdir(), "canopy-devserver-test-"));
+  });
+
+  afterEach(async () => {
+    await manager.stopAll();
+    await rm(worktreePath, { recursive: true, force: true });
+  });
+
+  it("should run named processes side by side with their own ports, state and logs", async () => {
+    await manager.startWorktree(WORKTREE_ID, worktreePath, [
+      { id: "web", name: "Frontend", command: SERVER_COMMAND },
+      { id: "api", name: "API", command: SERVER_COMMAND },
+    ]);
+
+    // Probed with the default check once they print their URLs
+    await vi.waitFor(
+      () => {
+        expect(manager.getState(WORKTREE_ID, "web").health?.ok).toBe(true);
+        expect(manager.getState(WORKTREE_ID, "api").health?.ok).toBe(true);
+      },
+      { timeout: 5000 }
+    );
+    expect(manager.getState(WORKTREE_ID, "web").status).toBe("running");
+    const web = manager.getState(WORKTREE_ID, "web");
+    const api = manager.getState(WORKTREE_ID, "api");
+    expect(web.assignedPort).toBeGreaterThanOrEqual(PORT_RANGE_START);
+    expect(api.assignedPort).not.toBe(web.assignedPort);
+    expect(api.url).toBe(`http://localhost:${api.assignedPort}/`);
+    expect(api.health).toMatchObject({ ok: true, consecutiveFailures: 0 });
+    expect(manager.getLogs(WORKTREE_ID, "api")).toEqual([`Local: ${api.url}`]);
+    expect(manager.getStates(WORKTREE_ID)).toHaveLength(2);
+
+    await manager.stop(WORKTREE_ID, "web");
+    expect(manager.getState(WORKTREE_ID, "web").status).toBe("stopped");
+    expect(manager.isRunning(WORKTREE_ID, "api")).toBe(true);
+    expect(manager.isRunning(WORKTREE_ID)).toBe(true);
+
+    await manager.start(WORKTREE_ID, worktreePath, SERVER_COMMAND, "web");
+    await vi.waitFor(() =>
+      expect(manager.getState(WORKTREE_ID, "web").port).toBe(web.assignedPort)
+    );
+
+    await manager.stopWorktree(WORKTREE_ID);
+    expect(manager.isRunning(WORKTREE_ID)).toBe(false);
+    expect(manager.getStates(WORKTREE_ID).map((state) => state.status)).toEqual([
+      "stopped",
+      "stopped",
+    ]);
+  });
+
+  it("should keep other worktrees' processes out of a worktree's states", async () => {
+    await manager.start("/repo/other", worktreePath, SERVER_COMMAND, "web");
+    await vi.waitFor(() => expect(manager.isRunning("/repo/other", "web")).toBe(true));
+
+    expect(manager.getStates(WORKTREE_ID)).toEqual([]);
+    expect(manager.isRunning(WORKTREE_ID)).toBe(false);
+  });
+
+  it("should assign ports by the project's port settings and drop them once the worktree is gone", async () => {
+    const command = nodeCommand(`console.log(process.env.API_PORT); setInterval(() => {}, 1000);`);
+    await manager.start(WORKTREE_ID, worktreePath, command, "api", { type: "none" }, undefined, {
+      rangeStart: PORT_RANGE_START + 50,
+      portsPerWorktree: 2,
+      envVars: ["API_PORT"],
+    });
+
+    expect(manager.getState(WORKTREE_ID, "api").assignedPort).toBe(PORT_RANGE_START + 50);
+    await vi.waitFor(() =>
+      expect(manager.getLogs(WORKTREE_ID, "api")).toEqual([String(PORT_RANGE_START + 50)])
+    );
+
+    // A running worktree keeps its ports even when it isn't among the known ones
+    manager.pruneReservedPorts([]);
+    await manager.stop(WORKTREE_ID, "api");
+    await manager.start(WORKTREE_ID, worktreePath, command, "api", { type: "none" });
+    expect(manager.getState(WORKTREE_ID, "api").assignedPort).toBe(PORT_RANGE_START + 50);
+
+    await manager.stop(WORKTREE_ID, "api");
+    manager.pruneReservedPorts([]);
+    await manager.start(WORKTREE_ID, worktreePath, command, "api", { type: "none" });
+    expect(manager.getState(WORKTREE_ID, "api").assignedPort).toBe(PORT_RANGE_START);
+  });
+
+  it("should mark a process that never becomes ready as errored", async () => {
+    await manager.start(WORKTREE_ID, worktreePath, WORKER_COMMAND, "web", {
+      type: "tcp",
+      readinessTimeoutMs: 300,
+    });
+    expect(manager.getState(WORKTREE_ID, "web").status).toBe("starting");
+
+    await vi.waitFor(() => expect(manager.getState(WORKTREE_ID, "web").status).toBe("error"), {
+      timeout: 3000,
+    });
+    expect(manager.getState(WORKTREE_ID, "web").errorMessage).toMatch(/^Not ready after 0s/);
+  });
+
+  it("should not probe a process without a configured check until it prints a URL", async () => {
+    await manager.start(WORKTREE_ID, worktreePath, WORKER_COMMAND, "worker", {
+      readinessTimeoutMs: 100,
+      intervalMs: 100,
+    });
+
+    expect(manager.getState(WORKTREE_ID, "worker").status).toBe("running");
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(manager.getState(WORKTREE_ID, "worker")).toMatchObject({
+      status: "running",
+      health: undefined,
+    });
+  });
+
+  it("should treat a process without a health check as running once spawned", async () => {
+    await manager.start(WORKTREE_ID, worktreePath, WORKER_COMMAND, "worker", { type: "none" });
+
+    expect(manager.getState(WORKTREE_ID, "worker").status).toBe("running");
+    expect(manager.getState(WORKTREE_ID, "worker").health).toBeUndefined();
+  });
+
+  it("should flag a running server that stops answering", async () => {
+    // Closes its listener shortly after starting but stays alive
+    const command = nodeCommand(
+      `const server = require("net").createServer().listen(process.env.PORT, () => { console.log("Listening on port " + process.env.PORT); setTimeout(() => server.close(), 300); }); setInterval(() => {}, 1000);`
+    );
+    await manager.start(WORKTREE_ID, worktreePath, command, "api", {
+      type: "tcp",
+      intervalMs: 100,
+      failureThreshold: 2,
+    });
+
+    await vi.waitFor(() => expect(manager.getState(WORKTREE_ID, "api").status).toBe("running"), {
+      timeout: 3000,
+    });
+    await vi.waitFor(() => expect(manager.getState(WORKTREE_ID, "api").status).toBe("error"), {
+      timeout: 3000,
+    });
+    const state = manager.getState(WORKTREE_ID, "api");
+    expect(state.errorMessage).toBe("Health check failed (ECONNREFUSED)");
+    expect(state.health?.consecutiveFailures).toBeGreaterThanOrEqual(2);
+  });
+
+  it("should restart a failing process with backoff until it runs out of retries", async () => {
+    const restarts: Array<{ restartCount: number; delayMs: number }> = [];
+    const unsubscribe = events.on("server:restart", ({ restartCount, delayMs }) => {
+      restarts.push({ restartCount, delayMs });
+    });
+
+    try {
+      await manager.start(
+        WORKTREE_ID,
+        worktreePath,
+        CRASH_COMMAND,
+        "api",
+        { type: "none" },
+        { mode: "on-failure", maxRetries: 2, backoffMs: 50 }
+      );
+
+      await vi.waitFor(
+        () =>
+          expect(manager.getState(WORKTREE_ID, "api").errorMessage).toBe(
+            "Process exited with code 1 (gave up after 2 restarts)"
+          ),
+        { timeout: 5000 }
+      );
+    } finally {
+      unsubscribe();
+    }
+
+    const state = manager.getState(WORKTREE_ID, "api");
+    expect(state.status).toBe("error");
+    expect(state.restartCount).toBe(2);
+    expect(state.lastCrash).toMatchObject({ exitCode: 1, logTail: ["boom"] });
+    expect(restarts).toEqual([
+      { restartCount: 1, delayMs: 50 },
+      { restartCount: 2, delayMs: 100 },
+    ]);
+  });
+
+  it("should treat a process killed by a signal it wasn't sent as a crash", async () => {
+    await manager.start(
+      WORKTREE_ID,
+      worktreePath,
+      nodeCommand(`process.kill(process.pid, "SIGKILL");`),
+      "api",
+      { type: "none" },
+      { mode: "on-failure", maxRetries: 1, backoffMs: 50 }
+    );
+
+    await vi.waitFor(
+      () =>
+        expect(manager.getState(WORKTREE_ID, "api").errorMessage).toBe(
+          "Process was killed by SIGKILL (gave up after 1 restarts)"
+        ),
+      { timeout: 5000 }
+    );
+    expect(manager.getState(WORKTREE_ID, "api").lastCrash).toMatchObject({
+      exitCode: null,
+      signal: "SIGKILL",
+    });
+
+    // Stopping by hand is not a crash
+    await manager.start(
+      WORKTREE_ID,
+      worktreePath,
+      WORKER_COMMAND,
+      "worker",
+      { type: "none" },
+      {
+        mode: "on-failure",
+      }
+    );
+    await manager.stop(WORKTREE_ID, "worker");
+    expect(manager.getState(WORKTREE_ID, "worker")).toMatchObject({
+      status: "stopped",
+      lastCrash: undefined,
+      restartCount: undefined,
+    });
+  });
+
+  it("should retry a process with the settings it was started with", async () => {
+    await manager.start(
+      WORKTREE_ID,
+      worktreePath,
+      CRASH_COMMAND,
+      "api",
+      { type: "none" },
+      { mode: "on-failure", maxRetries: 1, backoffMs: 50 }
+    );
+    await vi.waitFor(() => expect(manager.getState(WORKTREE_ID, "api").status).toBe("error"), {
+      timeout: 5000,
+    });
+
+    await manager.retry(WORKTREE_ID, worktreePath, CRASH_COMMAND, "api");
+
+    // Restarted by the same policy again
+    await vi.waitFor(
+      () =>
+        expect(manager.getState(WORKTREE_ID, "api").errorMessage).toBe(
+          "Process exited with code 1 (gave up after 1 restarts)"
+        ),
+      { timeout: 5000 }
+    );
+    expect(manager.getState(WORKTREE_ID, "api").restartCount).toBe(1);
+  });
+
+  it("should cancel a pending restart when stopped", async () => {
+    await manager.start(
+      WORKTREE_ID,
+      worktreePath,
+      CRASH_COMMAND,
+      "api",
+      { type: "none" },
+      { mode: "always", backoffMs: 60000 }
+    );
+    await vi.waitFor(() => expect(manager.getState(WORKTREE_ID, "api").restartCount).toBe(1), {
+      timeout: 3000,
+    });
+    expect(manager.getState(WORKTREE_ID, "api").status).toBe("starting");
+
+    await manager.stop(WORKTREE_ID, "api");
+    expect(manager.getState(WORKTREE_ID, "api").status).toBe("stopped");
+    expect(manager.getState(WORKTREE_ID, "api").lastCrash?.exitCode).toBe(1);
+  });
+
+  it("should restart a process when a watched file changes", async () => {
+    await manager.start(
+      WORKTREE_ID,
+      worktreePath,
+      WORKER_COMMAND,
+      "worker",
+      { type: "none" },
+      { mode: "never", watchPatterns: [".env*"] }
+    );
+    const { pid } = manager.getState(WORKTREE_ID, "worker");
+
+    await writeFile(join(worktreePath, "notes.txt"), "ignored");
+    await writeFile(join(worktreePath, ".env.local"), "API_URL=http://localhost");
+
+    await vi.waitFor(
+      () => {
+        const state = manager.getState(WORKTREE_ID, "worker");
+        expect(state.status).toBe("running");
+        expect(state.restartCount).toBe(1);
+        expect(state.pid).not.toBe(pid);
+      },
+      { timeout: 5000 }
+    );
+    expect(manager.getState(WORKTREE_ID, "worker").lastCrash).toBeUndefined();
+  });
+
+  it("should resolve configured dev processes before the detected dev script", async () => {
+    await writeFile(
+      join(worktreePath, "package.json"),
+      JSON.stringify({ scripts: { dev: "vite" } })
+    );
+    const runCommands: RunCommand[] = [
+      { id: "web", name: "Frontend", command: "npm run dev", devProcess: true },
+      { id: "test", name: "Tests", command: "npm test" },
+      { id: "worker", name: "Queue", command: "npm run worker", devProcess: true },
+    ];
+
+    const configured = await manager.resolveProcesses(worktreePath, runCommands);
+    expect(configured.map((runCommand) => runCommand.id)).toEqual(["web", "worker"]);
+
+    const detected = await manager.resolveProcesses(worktreePath, runCommands.slice(1, 2));
+    expect(detected).toEqual([
+      { id: DEFAULT_DEV_PROCESS_ID, name: "Dev Server", command: "npm run dev" },
+    ]);
+  });
+
+  it("should resolve no processes without configuration or a dev script", async () => {
+    expect(await manager.resolveProcesses(worktreePath, [])).toEqual([]);
+  });
+});
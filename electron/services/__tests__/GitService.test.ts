@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { simpleGit } from "simple-git";
+import { GitService } from "../GitService.js";
+import { getBranchSyncStatus, getSyncOperation } from "../../utils/git.js";
+
+const ORIGINAL = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("GitService staging", () => {
+  let repoPath: string;
+  let service: GitService;
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "canopy-git-test-"));
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addConfig("user.email", "test@example.com");
+    await git.addConfig("user.name", "Test");
+    await writeFile(join(repoPath, "file.txt"), ORIGINAL);
+    await git.add("file.txt");
+    await git.commit("Initial commit");
+    service = new GitService(repoPath);
+  });
+
+  afterEach(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  async function editBothEnds() {
+    const lines = ORIGINAL.trimEnd().split("\n");
+    lines[0] = "first changed";
+    lines[19] = "last changed";
+    await writeFile(join(repoPath, "file.txt"), lines.join("\n") + "\n");
+  }
+
+  function hunkHeaders(diff: string): string[] {
+    return diff.split("\n").filter((line) => line.startsWith("@@"));
+  }
+
+  it("should stage and unstage a single hunk", async () => {
+    await editBothEnds();
+    const { diff } = await service.getFileDiff(repoPath, "file.txt", { scope: "unstaged" });
+    const [firstHunk, secondHunk] = hunkHeaders(diff);
+    expect(secondHunk).toBeDefined();
+
+    await service.applyHunk(repoPath, "file.txt", firstHunk);
+
+    const staged = await service.getFileDiff(repoPath, "file.txt", { scope: "staged" });
+    expect(staged.diff).toContain("+first changed");
+    expect(staged.diff).not.toContain("+last changed");
+
+    await service.applyHunk(repoPath, "file.txt", hunkHeaders(staged.diff)[0], true);
+    expect(await service.getStagedDiff(repoPath)).toBe("");
+  });
+
+  it("should reject a hunk that is no longer in the diff", async () => {
+    await editBothEnds();
+    await expect(service.applyHunk(repoPath, "file.txt", "@@ -100,3 +100,3 @@")).rejects.toThrow(
+      "no longer matches"
+    );
+  });
+
+  it("should stage hunks of untracked files", async () => {
+    await writeFile(join(repoPath, "new.txt"), "hello\n");
+    const { diff } = await service.getFileDiff(repoPath, "new.txt", { scope: "unstaged" });
+
+    await service.applyHunk(repoPath, "new.txt", hunkHeaders(diff)[0]);
+
+    expect(await service.getStagedDiff(repoPath)).toContain("+hello");
+  });
+
+  it("should leave an untracked file untracked when its hunk fails to stage", async () => {
+    await writeFile(join(repoPath, "new.txt"), "hello\n");
+
+    await expect(service.applyHunk(repoPath, "new.txt", "@@ -0,0 +1,5 @@")).rejects.toThrow(
+      "no longer matches"
+    );
+
+    expect(await simpleGit(repoPath).raw(["status", "--porcelain"])).toBe("?? new.txt\n");
+  });
+
+  it("should commit staged files and amend the last commit", async () => {
+    await editBothEnds();
+    await service.stageFiles(repoPath, ["file.txt"]);
+    const hash = await service.commit(repoPath, "Change both ends");
+
+    expect(hash).toMatch(/^[0-9a-f]+$/);
+    expect(await service.getLastCommitMessage(repoPath)).toBe("Change both ends");
+
+    await service.commit(repoPath, "Change first and last lines", true);
+    expect(await service.getLastCommitMessage(repoPath)).toBe("Change first and last lines");
+    const log = await simpleGit(repoPath).log();
+    expect(log.total).toBe(2);
+  });
+});
+
+describe("GitService branch sync", () => {
+  let repoPath: string;
+  let featurePath: string;
+  let service: GitService;
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "canopy-sync-test-"));
+    featurePath = `${repoPath}-feature`;
+    const git = simpleGit(repoPath);
+    await git.init(["--initial-branch=main"]);
+    await git.addConfig("user.email", "test@example.com");
+    await git.addConfig("user.name", "Test");
+    await writeFile(join(repoPath, "file.txt"), ORIGINAL);
+    await git.add("file.txt");
+    await git.commit("Initial commit");
+    await git.raw(["worktree", "add", "-b", "feature", featurePath]);
+    service = new GitService(repoPath);
+  });
+
+  afterEach(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+    await rm(featurePath, { recursive: true, force: true });
+  });
+
+  async function commitFile(cwd: string, name: string, content: string) {
+    await writeFile(join(cwd, name), content);
+    await simpleGit(cwd).add(name);
+    await simpleGit(cwd).commit(`Edit ${name}`);
+  }
+
+  it("should count commits ahead of and behind main", async () => {
+    await commitFile(featurePath, "feature.txt", "feature\n");
+    await commitFile(repoPath, "main-1.txt", "one\n");
+    await commitFile(repoPath, "main-2.txt", "two\n");
+
+    expect(await getBranchSyncStatus(featurePath, "main", "feature")).toEqual({
+      mainRef: "main",
+      mainDivergence: { ahead: 1, behind: 2 },
+    });
+    // No upstream, and main isn't compared with itself
+    expect(await getBranchSyncStatus(repoPath, "main", "main")).toEqual({});
+  });
+
+  it("should rebase onto main, stop on conflicts and continue once resolved", async () => {
+    await commitFile(featurePath, "feature.txt", "feature\n");
+    await commitFile(repoPath, "main.txt", "main\n");
+
+    expect(await service.syncWithBranch(featurePath, "main", "rebase")).toEqual({
+      status: "completed",
+      strategy: "rebase",
+      conflictedFiles: [],
+    });
+    expect((await getBranchSyncStatus(featurePath, "main", "feature")).mainDivergence).toEqual({
+      ahead: 1,
+      behind: 0,
+    });
+    expect((await service.syncWithBranch(featurePath, "main", "rebase")).status).toBe("up-to-date");
+
+    await commitFile(featurePath, "file.txt", "feature version\n");
+    await commitFile(repoPath, "file.txt", "main version\n");
+
+    const result = await service.syncWithBranch(featurePath, "main", "rebase");
+    expect(result).toEqual({
+      status: "conflicts",
+      strategy: "rebase",
+      conflictedFiles: ["file.txt"],
+    });
+    await expect(service.continueSync(featurePath)).rejects.toThrow("Resolve 1 conflicted file");
+
+    // "ours" is the branch's version even though git calls it "theirs" during a rebase
+    await service.resolveConflict(featurePath, "file.txt", "ours");
+    expect((await service.continueSync(featurePath)).status).toBe("completed");
+    expect(await getSyncOperation(featurePath)).toBeUndefined();
+    expect(await readFile(join(featurePath, "file.txt"), "utf-8")).toBe("feature version\n");
+    expect((await getBranchSyncStatus(featurePath, "main", "feature")).mainDivergence).toEqual({
+      ahead: 2,
+      behind: 0,
+    });
+  });
+
+  it("should leave a conflicted merge in progress until it is aborted", async () => {
+    await commitFile(featurePath, "file.txt", "feature version\n");
+    await commitFile(repoPath, "file.txt", "main version\n");
+    const headBefore = await simpleGit(featurePath).revparse(["HEAD"]);
+
+    expect((await service.syncWithBranch(featurePath, "main", "merge")).status).toBe("conflicts");
+    expect(await getSyncOperation(featurePath)).toEqual({
+      kind: "merge",
+      conflictedFiles: ["file.txt"],
+    });
+
+    await service.abortSync(featurePath);
+    expect(await getSyncOperation(featurePath)).toBeUndefined();
+    expect(await simpleGit(featurePath).revparse(["HEAD"])).toBe(headBefore);
+  });
+});
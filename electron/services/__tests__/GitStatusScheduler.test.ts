@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { WorktreeChanges } from "../../types/index.js";
+
+type Collect = (cwd: string, force: boolean) => Promise<WorktreeChanges>;
+
+const gitMock = vi.hoisted(() => ({
+  collect: null as Collect | null,
+  cached: new Map<string, WorktreeChanges>(),
+}));
+
+vi.mock("../../utils/git.js", () => ({
+  getWorktreeChangesWithStats: (cwd: string, force: boolean) => gitMock.collect!(cwd, force),
+  getCachedWorktreeChanges: (cwd: string) => gitMock.cached.get(cwd),
+}));
+
+const { GitStatusScheduler } = await import("../GitStatusScheduler.js");
+
+function makeChanges(cwd: string): WorktreeChanges {
+  return {
+    worktreeId: cwd,
+    rootPath: cwd,
+    changes: [{ path: `${cwd}/a.ts`, status: "modified", insertions: 1, deletions: 0 }],
+    changedFileCount: 1,
+  };
+}
+
+/** Collector whose runs finish only when released, in start order */
+function deferredCollector() {
+  const started: Array<{ cwd: string; force: boolean; release: () => void }> = [];
+  const collect: Collect = (cwd, force) =>
+    new Promise((resolve) => {
+      started.push({ cwd, force, release: () => resolve(makeChanges(cwd)) });
+    });
+  return { started, collect };
+}
+
+describe("GitStatusScheduler", () => {
+  beforeEach(() => {
+    gitMock.cached.clear();
+  });
+
+  it("should share one collection between concurrent requests for a worktree", async () => {
+    const { started, collect } = deferredCollector();
+    gitMock.collect = collect;
+    const scheduler = new GitStatusScheduler(4);
+
+    const first = scheduler.request("/wt/a");
+    const second = scheduler.request("/wt/a");
+    expect(started).toHaveLength(1);
+
+    started[0].release();
+    const [a, b] = await Promise.all([first, second]);
+    expect(a).toEqual(b);
+    expect(a).not.toBe(b);
+    expect(scheduler.getMetrics()).toMatchObject({ runs: 1, coalesced: 1 });
+  });
+
+  it("should answer non-forced requests from the cache", async () => {
+    gitMock.collect = vi.fn();
+    gitMock.cached.set("/wt/a", makeChanges("/wt/a"));
+    const scheduler = new GitStatusScheduler(4);
+
+    await expect(scheduler.request("/wt/a")).resolves.toEqual(makeChanges("/wt/a"));
+    expect(gitMock.collect).not.toHaveBeenCalled();
+
+    const { started, collect } = deferredCollector();
+    gitMock.collect = collect;
+    const forced = scheduler.request("/wt/a", true);
+    expect(started).toEqual([expect.objectContaining({ cwd: "/wt/a", force: true })]);
+    started[0].release();
+    await forced;
+  });
+
+  it("should queue a forced request behind a running collection for the same worktree", async () => {
+    const { started, collect } = deferredCollector();
+    gitMock.collect = collect;
+    const scheduler = new GitStatusScheduler(4);
+
+    const first = scheduler.request("/wt/a");
+    const forced = scheduler.request("/wt/a", true);
+    const joined = scheduler.request("/wt/a");
+    expect(started).toHaveLength(1);
+    expect(scheduler.getMetrics()).toMatchObject({ queued: 1, inFlight: 1, coalesced: 1 });
+
+    started[0].release();
+    await first;
+    await vi.waitFor(() => expect(started).toHaveLength(2));
+    expect(started[1].force).toBe(true);
+
+    started[1].release();
+    await Promise.all([forced, joined]);
+    expect(scheduler.getMetrics()).toMatchObject({ runs: 2, queued: 0, inFlight: 0 });
+  });
+
+  it("should cap collections running at once across worktrees", async () => {
+    const { started, collect } = deferredCollector();
+    gitMock.collect = collect;
+    const scheduler = new GitStatusScheduler(2);
+
+    const requests = ["/wt/a", "/wt/b", "/wt/c"].map((cwd) => scheduler.request(cwd));
+    expect(started.map((run) => run.cwd)).toEqual(["/wt/a", "/wt/b"]);
+    expect(scheduler.getMetrics()).toMatchObject({ queued: 1, inFlight: 2, concurrency: 2 });
+
+    started[1].release();
+    await vi.waitFor(() => expect(started).toHaveLength(3));
+    started[0].release();
+    started[2].release();
+    await Promise.all(requests);
+
+    expect(scheduler.getWorktreeMetrics("/wt/c").runs).toBe(1);
+    expect(scheduler.getMetrics()).toMatchObject({ runs: 3, inFlight: 0 });
+  });
+
+  it("should reject waiting requests when collection fails and keep going", async () => {
+    gitMock.collect = async (cwd) => {
+      if (cwd === "/wt/bad") throw new Error("not a git repository");
+      return makeChanges(cwd);
+    };
+    const scheduler = new GitStatusScheduler(1);
+
+    const bad = scheduler.request("/wt/bad");
+    const good = scheduler.request("/wt/good");
+    await expect(bad).rejects.toThrow("not a git repository");
+    await expect(good).resolves.toEqual(makeChanges("/wt/good"));
+  });
+});
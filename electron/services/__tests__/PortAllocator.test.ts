@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from "vitest";
+import net from "net";
+import { PortAllocator, type PortReservation } from "../PortAllocator.js";
+
+const RANGE_START = 47200;
+
+function occupy(port: number): Promise<net.Server> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve(server));
+  });
+}
+
+describe("PortAllocator", () => {
+  const servers: net.Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      servers
+        .splice(0)
+        .map((server) => new Promise<void>((resolve) => server.close(() => resolve())))
+    );
+  });
+
+  it("should give each worktree its own range and each process its own port", async () => {
+    const allocator = new PortAllocator({ rangeStart: RANGE_START, portsPerWorktree: 3 });
+
+    expect(await allocator.allocate("/repo/a", "web")).toBe(RANGE_START);
+    expect(await allocator.allocate("/repo/a", "api")).toBe(RANGE_START + 1);
+    expect(await allocator.allocate("/repo/b", "web")).toBe(RANGE_START + 3);
+    expect(await allocator.allocate("/repo/a", "web")).toBe(RANGE_START);
+  });
+
+  it("should not hand out the same range to concurrent allocations", async () => {
+    const allocator = new PortAllocator({ rangeStart: RANGE_START, portsPerWorktree: 3 });
+
+    const ports = await Promise.all([
+      allocator.allocate("/repo/a", "web"),
+      allocator.allocate("/repo/b", "web"),
+      allocator.allocate("/repo/a", "api"),
+    ]);
+    expect(ports).toEqual([RANGE_START, RANGE_START + 3, RANGE_START + 1]);
+  });
+
+  it("should skip ranges with a port already in use", async () => {
+    servers.push(await occupy(RANGE_START + 1));
+    const allocator = new PortAllocator({ rangeStart: RANGE_START, portsPerWorktree: 3 });
+
+    expect(await allocator.allocate("/repo/a", "web")).toBe(RANGE_START + 3);
+  });
+
+  it("should return null once a worktree's range is full", async () => {
+    const allocator = new PortAllocator({ rangeStart: RANGE_START, portsPerWorktree: 1 });
+
+    expect(await allocator.allocate("/repo/a", "web")).toBe(RANGE_START);
+    expect(await allocator.allocate("/repo/a", "api")).toBeNull();
+  });
+
+  it("should restore, report and release reservations", async () => {
+    let saved: Record<string, PortReservation> = {};
+    const allocator = new PortAllocator({
+      rangeStart: RANGE_START,
+      portsPerWorktree: 3,
+      reservations: { "/repo/a": { base: RANGE_START + 6, processes: { web: 0 } } },
+      onChange: (reservations) => {
+        saved = reservations;
+      },
+    });
+
+    expect(allocator.getPort("/repo/a", "web")).toBe(RANGE_START + 6);
+    expect(await allocator.allocate("/repo/b", "web")).toBe(RANGE_START);
+    expect(saved["/repo/b"]).toEqual({ base: RANGE_START, size: 3, processes: { web: 0 } });
+
+    allocator.release("/repo/a");
+    expect(allocator.getPort("/repo/a", "web")).toBeNull();
+    expect(Object.keys(saved)).toEqual(["/repo/b"]);
+  });
+
+  it("should place new ranges by the settings of the allocation", async () => {
+    const allocator = new PortAllocator({ rangeStart: RANGE_START, portsPerWorktree: 3 });
+
+    expect(await allocator.allocate("/repo/a", "web")).toBe(RANGE_START);
+    expect(
+      await allocator.allocate("/repo/b", "web", {
+        rangeStart: RANGE_START + 1,
+        portsPerWorktree: 2,
+      })
+    ).toBe(RANGE_START + 3);
+    expect(await allocator.allocate("/repo/b", "api")).toBe(RANGE_START + 4);
+    // The block keeps the size it was reserved with
+    expect(await allocator.allocate("/repo/b", "worker")).toBeNull();
+    expect(await allocator.allocate("/repo/c", "web")).toBe(RANGE_START + 6);
+  });
+
+  it("should not overlap restored ranges of another size", async () => {
+    const allocator = new PortAllocator({
+      rangeStart: RANGE_START,
+      portsPerWorktree: 3,
+      reservations: { "/repo/a": { base: RANGE_START + 2, size: 5, processes: { web: 0 } } },
+    });
+
+    expect(await allocator.allocate("/repo/b", "web")).toBe(RANGE_START + 9);
+  });
+
+  it("should prune reservations of worktrees that are gone", async () => {
+    let saved: Record<string, PortReservation> = {};
+    const allocator = new PortAllocator({
+      rangeStart: RANGE_START,
+      portsPerWorktree: 3,
+      reservations: {
+        "/repo/a": { base: RANGE_START, processes: { web: 0 } },
+        "/repo/b": { base: RANGE_START + 3, processes: { web: 0 } },
+      },
+      onChange: (reservations) => {
+        saved = reservations;
+      },
+    });
+
+    expect(allocator.prune((worktreeId) => worktreeId === "/repo/a")).toEqual(["/repo/b"]);
+    expect(allocator.getPort("/repo/b", "web")).toBeNull();
+    expect(Object.keys(saved)).toEqual(["/repo/a"]);
+    expect(allocator.prune(() => true)).toEqual([]);
+  });
+});
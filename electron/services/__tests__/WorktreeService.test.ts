@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, realpath, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { simpleGit } from "simple-git";
+
+vi.mock("electron", () => ({
+  BrowserWindow: { getAllWindows: () => [] },
+}));
+
+vi.mock("../../store.js", () => ({
+  store: { get: () => undefined, set: vi.fn() },
+}));
+
+// Keep the tests off GitHub
+vi.mock("../PullRequestService.js", () => ({
+  pullRequestService: {
+    initialize: vi.fn(),
+    start: vi.fn(),
+    destroy: vi.fn(),
+    refresh: vi.fn(),
+    registerPullRequest: vi.fn(),
+  },
+}));
+vi.mock("../ConflictService.js", () => ({
+  conflictService: { initialize: vi.fn(), start: vi.fn(), stop: vi.fn() },
+}));
+
+const { WorktreeService } = await import("../WorktreeService.js");
+const { events } = await import("../events.js");
+
+describe("WorktreeService", () => {
+  let tempDir: string;
+  let mainPath: string;
+  let featurePath: string;
+  let service: InstanceType<typeof WorktreeService>;
+
+  beforeEach(async () => {
+    tempDir = await realpath(await mkdtemp(join(tmpdir(), "canopy-worktree-test-")));
+    mainPath = join(tempDir, "repo");
+    featurePath = join(tempDir, "feature");
+
+    const git = simpleGit();
+    await git.raw(["init", "-b", "main", mainPath]);
+    const repo = simpleGit(mainPath);
+    await repo.addConfig("user.email", "test@example.com");
+    await repo.addConfig("user.name", "Test");
+    await writeFile(join(mainPath, "README.md"), "# Test\n");
+    await repo.add("README.md");
+    await repo.commit("Initial commit");
+    await repo.raw(["worktree", "add", "-b", "feature", featurePath]);
+
+    service = new WorktreeService();
+    await service.loadProject(mainPath);
+  });
+
+  afterEach(async () => {
+    await service.stopAll();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should poll instead of watching files when the project config asks for it", async () => {
+    await vi.waitFor(() => expect(service.getMonitor(featurePath)?.isWatching()).toBe(true));
+
+    const pollingService = new WorktreeService();
+    try {
+      await pollingService.loadProject(mainPath, { usePolling: true });
+      expect(pollingService.getMonitor(mainPath)?.isWatching()).toBe(false);
+      expect(pollingService.getMonitor(featurePath)?.isWatching()).toBe(false);
+    } finally {
+      await pollingService.stopAll();
+    }
+
+    // Reloading with the setting switches existing monitors over
+    await service.loadProject(mainPath, { usePolling: true });
+    expect(service.getMonitor(featurePath)?.isWatching()).toBe(false);
+  });
+
+  it("should release a worktree's processes and forget it once git removes it", async () => {
+    const removed: string[] = [];
+    const unsubscribe = events.on("sys:worktree:remove", ({ worktreeId }) => {
+      removed.push(worktreeId);
+    });
+    const beforeRemove = vi.fn(async () => {
+      // Processes are stopped while the worktree is still on disk
+      expect(existsSync(featurePath)).toBe(true);
+    });
+
+    try {
+      await service.removeWorktree(featurePath, { beforeRemove });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(beforeRemove).toHaveBeenCalledOnce();
+    expect(existsSync(featurePath)).toBe(false);
+    expect(service.getAllStates().has(featurePath)).toBe(false);
+    expect(removed).toEqual([featurePath]);
+  });
+
+  it("should leave a worktree's processes running when its removal is refused", async () => {
+    const removed: string[] = [];
+    const unsubscribe = events.on("sys:worktree:remove", ({ worktreeId }) => {
+      removed.push(worktreeId);
+    });
+    const beforeRemove = vi.fn(async () => {});
+
+    try {
+      await expect(service.removeWorktree(mainPath, { beforeRemove })).rejects.toThrow(
+        "The main worktree cannot be removed"
+      );
+      await expect(service.removeWorktree("/not/a/worktree", { beforeRemove })).rejects.toThrow(
+        "Unknown worktree"
+      );
+
+      await writeFile(join(featurePath, "draft.txt"), "work in progress\n");
+      await expect(service.removeWorktree(featurePath, { beforeRemove })).rejects.toThrow(
+        "1 uncommitted change"
+      );
+    } finally {
+      unsubscribe();
+    }
+
+    expect(beforeRemove).not.toHaveBeenCalled();
+    expect(existsSync(join(featurePath, "draft.txt"))).toBe(true);
+    expect(service.getAllStates().has(featurePath)).toBe(true);
+    expect(removed).toEqual([]);
+  });
+
+  it("should keep monitoring a worktree when git fails to remove it", async () => {
+    // A locked worktree is refused by `git worktree remove` without a double force
+    await simpleGit(mainPath).raw(["worktree", "lock", featurePath]);
+    const removed: string[] = [];
+    const unsubscribe = events.on("sys:worktree:remove", ({ worktreeId }) => {
+      removed.push(worktreeId);
+    });
+
+    try {
+      await expect(service.removeWorktree(featurePath)).rejects.toThrow(
+        "Failed to remove worktree"
+      );
+    } finally {
+      unsubscribe();
+    }
+
+    expect(existsSync(featurePath)).toBe(true);
+    expect(service.getAllStates().has(featurePath)).toBe(true);
+    expect(removed).toEqual([]);
+  });
+
+  // A clean worktree whose only commit of its own is a month old
+  async function addStaleWorktree(): Promise<string> {
+    const stalePath = join(tempDir, "stale");
+    await simpleGit(mainPath).raw(["worktree", "add", "-b", "stale", stalePath]);
+    await writeFile(join(stalePath, "data.bin"), Buffer.alloc(4096));
+    const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const git = simpleGit(stalePath).env({
+      PATH: process.env.PATH,
+      GIT_AUTHOR_DATE: monthAgo,
+      GIT_COMMITTER_DATE: monthAgo,
+    });
+    await git.add("data.bin");
+    await git.commit("Old work");
+    await service.loadProject(mainPath);
+    return stalePath;
+  }
+
+  it("should find merged and stale worktrees with their disk usage", async () => {
+    const stalePath = await addStaleWorktree();
+    events.emit("sys:pr:detected", {
+      worktreeId: featurePath,
+      prNumber: 7,
+      prUrl: "https://github.com/acme/repo/pull/7",
+      prState: "merged",
+    });
+
+    const candidates = await service.getCleanupCandidates(7);
+
+    expect(candidates.map((candidate) => [candidate.worktreeId, candidate.reason])).toEqual([
+      [stalePath, "stale"],
+      [featurePath, "merged"],
+    ]);
+    const [stale, merged] = candidates;
+    expect(stale.diskSizeBytes).toBeGreaterThanOrEqual(4096);
+    expect(stale.uncommittedFileCount).toBe(0);
+    expect(merged.prNumber).toBe(7);
+
+    // Younger than the threshold: not stale
+    expect((await service.getCleanupCandidates(60)).map((c) => c.worktreeId)).toEqual([
+      featurePath,
+    ]);
+  });
+
+  it("should release processes only for the worktrees cleanup actually removes", async () => {
+    const stalePath = await addStaleWorktree();
+    await writeFile(join(featurePath, "draft.txt"), "work in progress\n");
+    const beforeRemove = vi.fn(async (_worktreeId: string) => {});
+
+    const result = await service.cleanupWorktrees(
+      [mainPath, "/not/a/worktree", featurePath, stalePath],
+      { beforeRemove }
+    );
+
+    expect(result.removed).toEqual([stalePath]);
+    expect(result.failed.map((failure) => failure.worktreeId)).toEqual([
+      mainPath,
+      "/not/a/worktree",
+      featurePath,
+    ]);
+    expect(result.pruned).toBe(true);
+    expect(beforeRemove.mock.calls).toEqual([[stalePath]]);
+    expect(service.getAllStates().has(featurePath)).toBe(true);
+  });
+});
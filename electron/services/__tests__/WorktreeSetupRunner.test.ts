@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile, readFile, lstat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { expandSetupPattern, runWorktreeSetup } from "../WorktreeSetupRunner.js";
+import type { WorktreeSetupProgress } from "../../types/index.js";
+
+describe("WorktreeSetupRunner", () => {
+  let sourcePath: string;
+  let targetPath: string;
+
+  beforeEach(async () => {
+    sourcePath = await mkdtemp(join(tmpdir(), "canopy-setup-source-"));
+    targetPath = await mkdtemp(join(tmpdir(), "canopy-setup-target-"));
+
+    await writeFile(join(sourcePath, ".env"), "SECRET=1\n");
+    await writeFile(join(sourcePath, ".env.local"), "LOCAL=1\n");
+    await mkdir(join(sourcePath, "config"));
+    await writeFile(join(sourcePath, "config", "app.local.json"), "{}");
+    await writeFile(join(sourcePath, "config", "app.json"), "{}");
+    await mkdir(join(sourcePath, ".git"));
+  });
+
+  afterEach(async () => {
+    await rm(sourcePath, { recursive: true, force: true });
+    await rm(targetPath, { recursive: true, force: true });
+  });
+
+  it("should expand wildcards within a path segment", async () => {
+    expect(await expandSetupPattern(sourcePath, ".env*")).toEqual([".env", ".env.local"]);
+    expect(await expandSetupPattern(sourcePath, "./config/*.local.json")).toEqual([
+      join("config", "app.local.json"),
+    ]);
+    expect(await expandSetupPattern(sourcePath, ".gi?")).toEqual([]);
+    expect(await expandSetupPattern(sourcePath, "missing.txt")).toEqual([]);
+    await expect(expandSetupPattern(sourcePath, "../outside")).rejects.toThrow(/relative/);
+  });
+
+  it("should copy and link files, skip existing ones and run commands in order", async () => {
+    await writeFile(join(targetPath, ".env.local"), "KEEP=1\n");
+    const progress: Omit<WorktreeSetupProgress, "worktreeId">[] = [];
+
+    const result = await runWorktreeSetup(
+      {
+        files: [
+          { pattern: ".env*", mode: "copy" },
+          { pattern: "config", mode: "symlink" },
+        ],
+        commands: ["echo first > order.txt", "echo second >> order.txt"],
+      },
+      { sourcePath, targetPath, onProgress: (line) => progress.push(line) }
+    );
+
+    expect(result).toEqual({
+      success: true,
+      files: [".env", "config"],
+      completedCommands: ["echo first > order.txt", "echo second >> order.txt"],
+    });
+    expect(await readFile(join(targetPath, ".env"), "utf-8")).toBe("SECRET=1\n");
+    expect(await readFile(join(targetPath, ".env.local"), "utf-8")).toBe("KEEP=1\n");
+    expect((await lstat(join(targetPath, "config"))).isSymbolicLink()).toBe(true);
+    expect((await readFile(join(targetPath, "order.txt"), "utf-8")).split(/\s+/)).toEqual([
+      "first",
+      "second",
+      "",
+    ]);
+    expect(progress.map((line) => line.message)).toContain("Skipped .env.local (already exists)");
+  });
+
+  it("should stop at the first failing command", async () => {
+    const result = await runWorktreeSetup(
+      { files: [], commands: ["exit 3", "echo never > never.txt"] },
+      { sourcePath, targetPath }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.failedCommand).toBe("exit 3");
+    expect(result.error).toBe("exit 3: Exited with code 3");
+    await expect(lstat(join(targetPath, "never.txt"))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { simpleGit } from "simple-git";
+import { WorktreeWatcher, type WorktreeWatchChange } from "../WorktreeWatcher.js";
+
+const DEBOUNCE_MS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("WorktreeWatcher", () => {
+  let repoPath: string;
+  let watcher: WorktreeWatcher | null = null;
+  let changes: WorktreeWatchChange[];
+  let errors: Error[];
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "canopy-watch-test-"));
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addConfig("user.email", "test@example.com");
+    await git.addConfig("user.name", "Test");
+    await mkdir(join(repoPath, "src"));
+    await mkdir(join(repoPath, "build"));
+    await writeFile(join(repoPath, ".gitignore"), "build/\n*.log\n");
+    await writeFile(join(repoPath, "src", "index.ts"), "export {};\n");
+    await git.add(".");
+    await git.commit("Initial commit");
+
+    changes = [];
+    errors = [];
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = null;
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  async function startWatcher(): Promise<WorktreeWatcher> {
+    watcher = new WorktreeWatcher(repoPath, {
+      debounceMs: DEBOUNCE_MS,
+      onChange: (change) => changes.push(change),
+      onError: (error) => errors.push(error),
+    });
+    await watcher.start();
+    return watcher;
+  }
+
+  function changedPaths(): string[] {
+    return changes.flatMap((change) => change.paths);
+  }
+
+  it("should report working tree changes after the debounce", async () => {
+    await startWatcher();
+
+    await writeFile(join(repoPath, "src", "index.ts"), "export const a = 1;\n");
+    await writeFile(join(repoPath, "README.md"), "# Test\n");
+
+    await vi.waitFor(() => expect(changedPaths()).toContain("README.md"), { timeout: 3000 });
+    expect(changedPaths()).toContain("src/index.ts");
+    expect(changes.every((change) => !change.gitMetadataChanged)).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  it("should not report gitignored files", async () => {
+    await startWatcher();
+
+    await writeFile(join(repoPath, "debug.log"), "noise\n");
+    await writeFile(join(repoPath, "build", "out.js"), "noise\n");
+    await sleep(DEBOUNCE_MS * 6);
+    expect(changes).toEqual([]);
+
+    await writeFile(join(repoPath, "src", "index.ts"), "export const b = 2;\n");
+    await vi.waitFor(() => expect(changedPaths()).toEqual(["src/index.ts"]), { timeout: 3000 });
+  });
+
+  it("should report git metadata changes such as commits", async () => {
+    await startWatcher();
+
+    const git = simpleGit(repoPath);
+    await git.checkoutLocalBranch("feature/watch");
+    await vi.waitFor(() => expect(changes.some((change) => change.gitMetadataChanged)).toBe(true), {
+      timeout: 3000,
+    });
+    changes = [];
+
+    // A ref in the new refs/heads/feature/ namespace
+    await git.commit("Empty commit", { "--allow-empty": null });
+    await vi.waitFor(() => expect(changes.some((change) => change.gitMetadataChanged)).toBe(true), {
+      timeout: 3000,
+    });
+  });
+
+  it("should pick up directories created after start", async () => {
+    await startWatcher();
+
+    await mkdir(join(repoPath, "lib", "nested"), { recursive: true });
+    await writeFile(join(repoPath, "lib", "nested", "a.ts"), "export {};\n");
+    await vi.waitFor(() => expect(changedPaths()).toContain("lib"), { timeout: 3000 });
+    await sleep(DEBOUNCE_MS * 2);
+    changes = [];
+
+    await writeFile(join(repoPath, "lib", "nested", "b.ts"), "export {};\n");
+    await vi.waitFor(() => expect(changedPaths()).toContain("lib/nested/b.ts"), {
+      timeout: 3000,
+    });
+  });
+
+  it("should reject when the directory isn't a git repository", async () => {
+    const plainDir = await mkdtemp(join(tmpdir(), "canopy-watch-plain-"));
+    try {
+      watcher = new WorktreeWatcher(plainDir, {
+        debounceMs: DEBOUNCE_MS,
+        onChange: () => {},
+        onError: () => {},
+      });
+      await expect(watcher.start()).rejects.toThrow();
+      expect(watcher.watcherCount).toBe(0);
+    } finally {
+      await rm(plainDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  DEFAULT_AGENTS,
+  buildAgentCommand,
+  getAgentProfile,
+  resolveAgentType,
+  setAgentRegistry,
+} from "../ai/agentProfiles.js";
+import type { AgentDefinition } from "../../types/index.js";
+
+const aider: AgentDefinition = {
+  id: "aider",
+  name: "Aider",
+  command: "aider",
+  args: ["--model", "sonnet", "--message", "it's fine"],
+  icon: "bot",
+  copyTreeFormat: "markdown",
+  busyPatterns: ["Waiting for .*"],
+  promptPatterns: ["> $", "(unclosed"],
+  enabled: true,
+};
+
+describe("agentProfiles", () => {
+  afterEach(() => {
+    setAgentRegistry(DEFAULT_AGENTS);
+    vi.restoreAllMocks();
+  });
+
+  describe("resolveAgentType", () => {
+    it("should prefer the explicit agent type", () => {
+      expect(resolveAgentType("custom", "aider")).toBe("aider");
+    });
+
+    it("should fall back to built-in terminal types", () => {
+      expect(resolveAgentType("claude")).toBe("claude");
+      expect(resolveAgentType("codex")).toBe("codex");
+    });
+
+    it("should return undefined for shell and untagged custom terminals", () => {
+      expect(resolveAgentType("shell")).toBeUndefined();
+      expect(resolveAgentType("custom")).toBeUndefined();
+      expect(resolveAgentType("custom", undefined, "npm run dev")).toBeUndefined();
+    });
+
+    it("should match custom terminals to an agent by the command they run", () => {
+      expect(resolveAgentType("custom", undefined, "codex --full-auto")).toBe("codex");
+      expect(resolveAgentType("custom", undefined, "/usr/local/bin/claude")).toBe("claude");
+    });
+  });
+
+  describe("getAgentProfile", () => {
+    it("should compile built-in patterns case-insensitively", () => {
+      const profile = getAgentProfile("claude");
+      expect(profile?.busyPatterns.some((p) => p.test("(ESC TO INTERRUPT)"))).toBe(true);
+    });
+
+    it("should keep prompt patterns case-sensitive unless the agent opts in", () => {
+      setAgentRegistry([
+        ...DEFAULT_AGENTS,
+        { ...aider, promptPatterns: ["aider> $"] },
+        {
+          ...aider,
+          id: "aider-any-case",
+          promptPatterns: ["aider> $"],
+          promptPatternsIgnoreCase: true,
+        },
+      ]);
+
+      expect(getAgentProfile("aider")?.promptPatterns[0].test("AIDER> ")).toBe(false);
+      expect(getAgentProfile("aider-any-case")?.promptPatterns[0].test("AIDER> ")).toBe(true);
+    });
+
+    it("should return undefined for unknown agents", () => {
+      expect(getAgentProfile("aider")).toBeUndefined();
+    });
+
+    it("should skip invalid patterns", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      setAgentRegistry([...DEFAULT_AGENTS, aider]);
+
+      const profile = getAgentProfile("aider");
+      expect(profile?.busyPatterns).toHaveLength(1);
+      expect(profile?.promptPatterns).toHaveLength(1);
+      expect(console.warn).toHaveBeenCalledOnce();
+    });
+
+    it("should rebuild profiles when the registry changes", () => {
+      const before = getAgentProfile("gemini");
+      setAgentRegistry(
+        DEFAULT_AGENTS.map((agent) =>
+          agent.id === "gemini" ? { ...agent, promptPatterns: ["gemini> $"] } : agent
+        )
+      );
+
+      const after = getAgentProfile("gemini");
+      expect(after).not.toBe(before);
+      expect(after?.promptPatterns[0].source).toBe("gemini> $");
+    });
+  });
+
+  describe("buildAgentCommand", () => {
+    it("should return the bare command without args", () => {
+      expect(buildAgentCommand(DEFAULT_AGENTS[0])).toBe("claude");
+    });
+
+    it("should shell-quote args that need it", () => {
+      expect(buildAgentCommand(aider)).toBe("aider --model sonnet --message 'it'\\''s fine'");
+    });
+
+    it("should append an initial prompt as the last argument", () => {
+      expect(buildAgentCommand(DEFAULT_AGENTS[0], "Fix #12:\nlogin fails")).toBe(
+        "claude 'Fix #12:\nlogin fails'"
+      );
+      expect(buildAgentCommand(DEFAULT_AGENTS[0], "  ")).toBe("claude");
+    });
+  });
+});
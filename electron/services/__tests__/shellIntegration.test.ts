@@ -0,0 +1,121 @@
+/**
+ * Tests for shell integration - shell detection, spawn rewriting and OSC 7 parsing.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// A quote in the path, as in a home directory like /home/O'Brien
+const userDataDir = mkdtempSync(path.join(tmpdir(), "canopy-shell-integration-o'brien-"));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => userDataDir },
+}));
+
+const { applyShellIntegration, getIntegratedShell, parseOsc7Cwd } =
+  await import("../shellIntegration.js");
+
+describe("shellIntegration", () => {
+  afterAll(() => {
+    rmSync(userDataDir, { recursive: true, force: true });
+  });
+
+  describe("getIntegratedShell", () => {
+    it("detects supported shells by executable name", () => {
+      expect(getIntegratedShell("/bin/bash")).toBe("bash");
+      expect(getIntegratedShell("/usr/local/bin/zsh")).toBe("zsh");
+      expect(getIntegratedShell("/opt/homebrew/bin/fish")).toBe("fish");
+    });
+
+    it("returns null for unsupported shells", () => {
+      expect(getIntegratedShell("/bin/sh")).toBeNull();
+      expect(getIntegratedShell("powershell.exe")).toBeNull();
+    });
+  });
+
+  describe("applyShellIntegration", () => {
+    const env = { HOME: "/home/user", PATH: "/usr/bin" };
+    const scriptsDir = path.join(userDataDir, "shell-integration");
+
+    beforeAll(() => {
+      // Ensure scripts are written before asserting on their paths
+      applyShellIntegration("/bin/bash", [], env);
+    });
+
+    it("writes scripts to the user data directory", () => {
+      expect(existsSync(path.join(scriptsDir, "bash.sh"))).toBe(true);
+      expect(existsSync(path.join(scriptsDir, "zsh", ".zshrc"))).toBe(true);
+      expect(existsSync(path.join(scriptsDir, "fish.fish"))).toBe(true);
+    });
+
+    it("replaces bash login args with an init file and flags login mode", () => {
+      const result = applyShellIntegration("/bin/bash", ["-l"], env);
+      expect(result?.args).toEqual(["--init-file", path.join(scriptsDir, "bash.sh")]);
+      expect(result?.env.CANOPY_SHELL_LOGIN).toBe("1");
+    });
+
+    it("does not flag login mode for non-login bash", () => {
+      const result = applyShellIntegration("/bin/bash", [], env);
+      expect(result?.env.CANOPY_SHELL_LOGIN).toBeUndefined();
+    });
+
+    it("points zsh at the integration ZDOTDIR and remembers the user's", () => {
+      const result = applyShellIntegration("/bin/zsh", ["-l"], { ...env, ZDOTDIR: "/cfg/zsh" });
+      expect(result?.args).toEqual(["-l"]);
+      expect(result?.env.ZDOTDIR).toBe(path.join(scriptsDir, "zsh"));
+      expect(result?.env.CANOPY_USER_ZDOTDIR).toBe("/cfg/zsh");
+    });
+
+    it("falls back to HOME as the user's zsh config directory", () => {
+      const result = applyShellIntegration("/bin/zsh", [], env);
+      expect(result?.env.CANOPY_USER_ZDOTDIR).toBe("/home/user");
+    });
+
+    it("sources the fish script via --init-command", () => {
+      const result = applyShellIntegration("/usr/bin/fish", [], env);
+      expect(result?.args).toEqual([
+        "--init-command",
+        `source '${path.join(scriptsDir, "fish.fish").replace("'", "\\'")}'`,
+      ]);
+    });
+
+    it("returns null for unsupported shells", () => {
+      expect(applyShellIntegration("/bin/sh", [], env)).toBeNull();
+    });
+  });
+
+  describe("parseOsc7Cwd", () => {
+    it("extracts the path from a file URL", () => {
+      expect(parseOsc7Cwd("file://my-host/Users/foo/repo")).toBe("/Users/foo/repo");
+    });
+
+    it("handles an empty host", () => {
+      expect(parseOsc7Cwd("file:///tmp/work")).toBe("/tmp/work");
+    });
+
+    it("decodes percent-encoded paths", () => {
+      expect(parseOsc7Cwd("file://host/Users/foo/my%20repo")).toBe("/Users/foo/my repo");
+    });
+
+    it("keeps raw paths that are not valid percent-encoding", () => {
+      expect(parseOsc7Cwd("file://host/tmp/100%done")).toBe("/tmp/100%done");
+    });
+
+    it("keeps a lone percent sign", () => {
+      expect(parseOsc7Cwd("file://host/tmp/100%")).toBe("/tmp/100%");
+    });
+
+    it("keeps unencoded paths that contain a literal escape sequence", () => {
+      const literalDir = path.join(userDataDir, "build%41");
+      mkdirSync(literalDir);
+      expect(parseOsc7Cwd(`file://host${literalDir}`)).toBe(literalDir);
+    });
+
+    it("rejects non-file payloads", () => {
+      expect(parseOsc7Cwd("https://example.com/path")).toBeNull();
+      expect(parseOsc7Cwd("")).toBeNull();
+    });
+  });
+});
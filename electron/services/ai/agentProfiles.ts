@@ -1,19 +1,23 @@
 /**
  * Agent Profile Configuration
  *
- * Centralized configuration for detecting agent-specific patterns.
- * Each agent (Claude, Gemini, Codex) has unique busy/prompt patterns
- * that we use to track their working state.
+ * Registry of CLI agents that can be launched in terminals. Each agent defines
+ * its launch command and the busy/prompt patterns we use to track its working
+ * state. Claude, Gemini and Codex ship as built-ins; users can edit them and
+ * add their own agents (aider, opencode, ...) from Settings.
+ *
+ * The registry lives in memory so state detection stays free of Electron
+ * dependencies. The main process loads the persisted registry at startup.
  */
 
-import type { TerminalType } from "@shared/types/index.js";
+import type { AgentDefinition, TerminalType } from "@shared/types/index.js";
 
 /**
  * Agent profile configuration for pattern-based state detection.
  */
 export interface AgentProfile {
-  /** The terminal type this profile applies to */
-  type: TerminalType;
+  /** Registry ID of the agent this profile was compiled from */
+  id: string;
   /** Patterns that indicate the agent is actively processing (busy/working state) */
   busyPatterns: RegExp[];
   /** Patterns that indicate the agent is waiting for input (prompt state) */
@@ -21,45 +25,180 @@ export interface AgentProfile {
 }
 
 /**
- * Agent profiles keyed by terminal type.
+ * Built-in agents, used until the user saves their own registry.
  *
  * Busy patterns detect status strings like "(esc to interrupt)" that indicate
- * the agent is actively processing a request. These patterns are matched against
- * ANSI-stripped terminal output using a sliding window buffer.
+ * the agent is actively processing a request. These patterns are matched
+ * (case-insensitively) against ANSI-stripped terminal output using a sliding
+ * window buffer.
  *
- * Prompt patterns detect when the agent is waiting for user input.
+ * Prompt patterns detect when the agent is waiting for user input. They are
+ * case-sensitive unless the agent sets promptPatternsIgnoreCase.
  */
-export const AGENT_PROFILES: Record<string, AgentProfile> = {
-  claude: {
-    type: "claude",
+export const DEFAULT_AGENTS: AgentDefinition[] = [
+  {
+    id: "claude",
+    name: "Claude",
+    command: "claude",
+    icon: "claude",
+    copyTreeFormat: "xml",
     // Claude shows "(esc to interrupt)" while processing
-    busyPatterns: [/\(esc to interrupt\)/i],
+    busyPatterns: ["\\(esc to interrupt\\)"],
     // Claude ends prompts with "? " or "> "
-    promptPatterns: [/\? $/, /> $/],
+    promptPatterns: ["\\? $", "> $"],
+    shortcut: "Ctrl+Shift+C",
+    enabled: true,
+    builtIn: true,
   },
-  gemini: {
-    type: "gemini",
+  {
+    id: "gemini",
+    name: "Gemini",
+    command: "gemini",
+    icon: "gemini",
+    copyTreeFormat: "markdown",
     // Gemini shows "(esc to cancel, 1.2s)" with variable elapsed time
-    busyPatterns: [/\(esc to cancel,.*?\)/i],
+    busyPatterns: ["\\(esc to cancel,.*?\\)"],
     // Gemini uses "> " as prompt
-    promptPatterns: [/> $/],
+    promptPatterns: ["> $"],
+    shortcut: "Ctrl+Shift+G",
+    enabled: true,
+    builtIn: true,
   },
-  custom: {
-    type: "custom",
+  {
+    id: "codex",
+    name: "Codex",
+    command: "codex",
+    icon: "codex",
+    copyTreeFormat: "xml",
     // Codex shows "({elapsed time} • esc to interrupt)" format
-    busyPatterns: [/\(\d+\.?\d*s?\s*[•·]\s*esc to interrupt\)/i],
+    busyPatterns: ["\\(\\d+\\.?\\d*s?\\s*[•·]\\s*esc to interrupt\\)"],
     // Codex uses "> " or "? " as prompts
-    promptPatterns: [/> $/, /\? $/],
+    promptPatterns: ["> $", "\\? $"],
+    shortcut: "Ctrl+Shift+X",
+    enabled: true,
+    builtIn: true,
   },
-};
+];
+
+/** Terminal types that correspond directly to a built-in agent */
+const AGENT_TERMINAL_TYPES: TerminalType[] = ["claude", "gemini", "codex"];
+
+let registry: AgentDefinition[] = DEFAULT_AGENTS;
+const profileCache = new Map<string, AgentProfile>();
 
 /**
- * Get the agent profile for a given terminal type.
- * Returns undefined for non-agent terminals (shell).
+ * Replace the in-memory agent registry.
+ * Compiled profiles are rebuilt lazily on next lookup.
+ *
+ * @param agents - Validated agent definitions
+ */
+export function setAgentRegistry(agents: AgentDefinition[]): void {
+  registry = agents;
+  profileCache.clear();
+}
+
+/**
+ * Get all agent definitions, including disabled ones.
+ */
+export function getAgentRegistry(): AgentDefinition[] {
+  return registry;
+}
+
+/**
+ * Look up an agent definition by registry ID.
+ *
+ * @param agentType - Agent registry ID
+ * @returns Agent definition or undefined if not registered
+ */
+export function getAgentDefinition(agentType: string): AgentDefinition | undefined {
+  return registry.find((agent) => agent.id === agentType);
+}
+
+/**
+ * Resolve the agent registry ID for a terminal.
+ * Terminals persisted before the registry existed only carry their type.
  *
  * @param type - Terminal type
+ * @param agentType - Explicit agent registry ID, if any
+ * @returns Agent registry ID, or undefined for non-agent terminals
+ */
+export function resolveAgentType(
+  type?: TerminalType,
+  agentType?: string,
+  command?: string
+): string | undefined {
+  if (agentType) return agentType;
+  if (type && AGENT_TERMINAL_TYPES.includes(type)) return type;
+  return command ? findAgentByCommand(command)?.id : undefined;
+}
+
+/**
+ * Find the agent a command line launches, by its executable (e.g. a "custom"
+ * recipe terminal running "codex --full-auto").
+ *
+ * @param command - Command line typed into the terminal
+ * @returns Agent definition, or undefined if no agent uses that executable
+ */
+export function findAgentByCommand(command: string): AgentDefinition | undefined {
+  const executable = command.trim().split(/\s+/)[0]?.split("/").pop();
+  if (!executable) return undefined;
+  return registry.find((agent) => agent.command === executable);
+}
+
+function compilePatterns(sources: string[], agentId: string, flags = ""): RegExp[] {
+  const patterns: RegExp[] = [];
+  for (const source of sources) {
+    try {
+      patterns.push(new RegExp(source, flags));
+    } catch (error) {
+      console.warn(`[AgentProfiles] Skipping invalid pattern for ${agentId}: ${source}`, error);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Get the compiled agent profile for an agent registry ID.
+ * Returns undefined for non-agent terminals (shell) and unknown agents.
+ *
+ * @param agentType - Agent registry ID
  * @returns Agent profile or undefined
  */
-export function getAgentProfile(type: string): AgentProfile | undefined {
-  return AGENT_PROFILES[type];
+export function getAgentProfile(agentType: string): AgentProfile | undefined {
+  const cached = profileCache.get(agentType);
+  if (cached) return cached;
+
+  const agent = getAgentDefinition(agentType);
+  if (!agent) return undefined;
+
+  const profile: AgentProfile = {
+    id: agent.id,
+    busyPatterns: compilePatterns(agent.busyPatterns, agent.id, "i"),
+    promptPatterns: compilePatterns(
+      agent.promptPatterns,
+      agent.id,
+      agent.promptPatternsIgnoreCase ? "i" : ""
+    ),
+  };
+  profileCache.set(agentType, profile);
+  return profile;
+}
+
+function quoteShellArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Build the command line typed into the terminal's shell to start an agent.
+ *
+ * @param agent - Agent definition
+ * @param initialPrompt - Optional first message, appended as the final argument
+ * @returns Command followed by its shell-quoted arguments
+ */
+export function buildAgentCommand(agent: AgentDefinition, initialPrompt?: string): string {
+  const args = [...(agent.args ?? [])];
+  if (initialPrompt?.trim()) {
+    args.push(initialPrompt.trim());
+  }
+  return [agent.command, ...args.map(quoteShellArg)].join(" ");
 }
@@ -0,0 +1,89 @@
+/**
+ * AI-powered commit message generation
+ *
+ * Drafts a commit message from the staged diff for the commit dialog.
+ */
+
+import { getAIClient, getAIModel } from "./client.js";
+import { extractOutputText, formatErrorSnippet, withRetry } from "./utils.js";
+import { CommitMessageResponseSchema, type CommitMessageResponse } from "../../schemas/external.js";
+
+/** Characters of staged diff sent to the model */
+const MAX_DIFF_CHARS = 12_000;
+
+/**
+ * Ask the configured AI model for a commit message describing staged changes.
+ *
+ * @param diff - Output of `git diff --cached`
+ * @returns Subject line, plus a blank line and body when the model gave one, or null if AI
+ *   is unavailable, nothing is staged, or the call failed
+ */
+export async function generateCommitMessage(diff: string): Promise<string | null> {
+  const client = getAIClient();
+  if (!client) return null;
+
+  const trimmed = diff.trim();
+  if (!trimmed) return null;
+
+  const excerpt =
+    trimmed.length > MAX_DIFF_CHARS
+      ? `${trimmed.slice(0, MAX_DIFF_CHARS)}\n... (diff truncated)`
+      : trimmed;
+  const model = getAIModel();
+
+  const callModel = async (): Promise<CommitMessageResponse> => {
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: "system",
+          content: `You write git commit messages for staged changes.
+- subject: imperative mood, at most 72 characters, no trailing period (e.g. "Add retry to upload client")
+- body: optional; a few short lines explaining what changed and why when the subject isn't enough. Omit it for small changes.
+
+Respond with JSON: {"subject":"...","body":"..."}`,
+        },
+        {
+          role: "user",
+          content: `Staged diff:\n${excerpt}`,
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 300,
+    });
+
+    const text = extractOutputText(response);
+    if (!text) {
+      throw new Error(
+        `Commit message: empty response from model. Raw: ${formatErrorSnippet(response)}`
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`Commit message: invalid JSON. Raw: ${formatErrorSnippet(text)}`);
+    }
+
+    const validated = CommitMessageResponseSchema.safeParse(parsed);
+    if (!validated.success) {
+      throw new Error(
+        `Commit message: unexpected response. ${JSON.stringify(validated.error.format())}`
+      );
+    }
+    return validated.data;
+  };
+
+  try {
+    const { subject, body } = await withRetry(callModel, {
+      maxRetries: 1,
+      baseDelay: 300,
+      shouldRetry: () => true,
+    });
+    return body?.trim() ? `${subject.trim()}\n\n${body.trim()}` : subject.trim();
+  } catch (error) {
+    console.error("[AI] generateCommitMessage failed:", error);
+    return null;
+  }
+}
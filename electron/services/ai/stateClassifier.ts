@@ -0,0 +1,94 @@
+/**
+ * AI-powered agent state classification
+ *
+ * Classifies an agent terminal's screen as working or waiting for input when
+ * pattern matching can't tell (e.g. the agent went quiet without a known prompt).
+ */
+
+import { getAIClient, getAIModel } from "./client.js";
+import { extractOutputText, formatErrorSnippet, withRetry } from "./utils.js";
+import {
+  AgentStateClassificationResponseSchema,
+  type AgentStateClassificationResponse,
+} from "../../schemas/external.js";
+
+/** Lines of terminal output sent to the model (the tail of the screen) */
+const MAX_CONTEXT_LINES = 30;
+
+/**
+ * Ask the configured AI model whether an agent is still working or waiting for input.
+ *
+ * @param lines - Recent terminal output lines (ANSI codes are tolerated)
+ * @param agentName - Display name of the agent, for context
+ * @returns Classified state with confidence, or null if AI is unavailable or the call failed
+ */
+export async function classifyAgentState(
+  lines: string[],
+  agentName?: string
+): Promise<AgentStateClassificationResponse | null> {
+  const client = getAIClient();
+  if (!client) return null;
+
+  const screen = lines.slice(-MAX_CONTEXT_LINES).join("\n").trim();
+  if (!screen) return null;
+
+  const model = getAIModel();
+
+  const callModel = async (): Promise<AgentStateClassificationResponse> => {
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: "system",
+          content: `You watch the terminal of an AI coding agent CLI and decide what it is doing.
+The agent has stopped producing output for a while. Based on the last lines of its screen, decide:
+- "waiting": the agent finished its turn or is asking the user something (a prompt, a question, a confirmation, an input box)
+- "working": the agent is still busy (thinking, running a tool, a spinner or progress indicator, streaming a long task)
+
+Give a confidence between 0 and 1. Use lower confidence when the screen is ambiguous.
+
+Respond with JSON: {"state":"working"|"waiting","confidence":0.0-1.0}`,
+        },
+        {
+          role: "user",
+          content: `Agent: ${agentName ?? "unknown"}\nLast lines of the terminal:\n${screen}`,
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 64,
+    });
+
+    const text = extractOutputText(response);
+    if (!text) {
+      throw new Error(
+        `State classification: empty response from model. Raw: ${formatErrorSnippet(response)}`
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`State classification: invalid JSON. Raw: ${formatErrorSnippet(text)}`);
+    }
+
+    const validated = AgentStateClassificationResponseSchema.safeParse(parsed);
+    if (!validated.success) {
+      throw new Error(
+        `State classification: unexpected response. ${JSON.stringify(validated.error.format())}`
+      );
+    }
+    return validated.data;
+  };
+
+  try {
+    return await withRetry(callModel, {
+      maxRetries: 1,
+      baseDelay: 300,
+      shouldRetry: () => true,
+    });
+  } catch (error) {
+    console.error("[AI] classifyAgentState failed:", error);
+    return null;
+  }
+}
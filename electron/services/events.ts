@@ -2,6 +2,7 @@ import { EventEmitter } from "events";
 import type {
   NotificationPayload,
   DevServerState,
+  DevServerRestartReason,
   AgentState,
   TaskState,
   TerminalType,
@@ -13,6 +14,8 @@ import type {
   RunPausedPayload,
   RunResumedPayload,
   EventCategory,
+  WorktreeConflictReport,
+  PullRequestStatus,
 } from "../types/index.js";
 import type { EventContext } from "../../shared/types/events.js";
 import type { WorktreeState } from "./WorktreeMonitor.js";
@@ -105,6 +108,12 @@ export const EVENT_META: Record<keyof CanopyEventMap, EventMetadata> = {
     requiresTimestamp: true,
     description: "Worktree was removed from monitoring",
   },
+  "sys:worktree:conflicts": {
+    category: "system",
+    requiresContext: false,
+    requiresTimestamp: false,
+    description: "Predicted conflicts between worktrees changed",
+  },
   "sys:pr:detected": {
     category: "system",
     requiresContext: true,
@@ -117,6 +126,18 @@ export const EVENT_META: Record<keyof CanopyEventMap, EventMetadata> = {
     requiresTimestamp: true,
     description: "Pull request association cleared",
   },
+  "sys:pr:checks-failed": {
+    category: "system",
+    requiresContext: true,
+    requiresTimestamp: true,
+    description: "CI checks failed on a worktree's pull request",
+  },
+  "sys:pr:changes-requested": {
+    category: "system",
+    requiresContext: true,
+    requiresTimestamp: true,
+    description: "Reviewer requested changes on a worktree's pull request",
+  },
 
   // File events
   "file:open": {
@@ -191,6 +212,12 @@ export const EVENT_META: Record<keyof CanopyEventMap, EventMetadata> = {
     requiresTimestamp: true,
     description: "Dev server encountered error",
   },
+  "server:restart": {
+    category: "server",
+    requiresContext: true,
+    requiresTimestamp: true,
+    description: "Dev server restart scheduled",
+  },
 
   // Agent events
   "agent:spawned": {
@@ -230,6 +257,26 @@ export const EVENT_META: Record<keyof CanopyEventMap, EventMetadata> = {
     description: "Agent was killed (user or system action)",
   },
 
+  // Terminal events (shell integration)
+  "terminal:command-started": {
+    category: "terminal",
+    requiresContext: true,
+    requiresTimestamp: true,
+    description: "Shell command started executing (OSC 133)",
+  },
+  "terminal:command-finished": {
+    category: "terminal",
+    requiresContext: true,
+    requiresTimestamp: true,
+    description: "Shell command finished with exit code (OSC 133)",
+  },
+  "terminal:cwd-changed": {
+    category: "terminal",
+    requiresContext: true,
+    requiresTimestamp: true,
+    description: "Shell working directory changed (OSC 7)",
+  },
+
   // Artifact events
   "artifact:detected": {
     category: "artifact",
@@ -472,12 +519,23 @@ export type CanopyEventMap = {
   "sys:worktree:selectByName": WorktreeSelectByNamePayload;
   "sys:worktree:update": WorktreeState;
   "sys:worktree:remove": { worktreeId: string; timestamp: number };
+  "sys:worktree:conflicts": WorktreeConflictReport;
 
   "watcher:change": WatcherChangePayload;
 
   // Dev Server Events - now require timestamp and context for observability
   "server:update": WithContext<DevServerState>;
-  "server:error": WithContext<{ error: string; errorMessage?: string }>;
+  "server:error": WithContext<{ processId?: string; error: string; errorMessage?: string }>;
+  "server:restart": WithContext<{
+    processId: string;
+    reason: DevServerRestartReason;
+    /** Automatic restarts so far, including this one */
+    restartCount: number;
+    /** Delay before the process is started again */
+    delayMs: number;
+    /** Exit code of the process being replaced (exit restarts only) */
+    exitCode?: number | null;
+  }>;
 
   // Pull Request Events
   "sys:pr:detected": {
@@ -485,8 +543,25 @@ export type CanopyEventMap = {
     prNumber: number;
     prUrl: string;
     prState: "open" | "merged" | "closed";
-    /** The issue number this PR was detected for */
-    issueNumber: number;
+    /** Review and CI state (absent for a just-created PR until the next poll) */
+    prStatus?: PullRequestStatus;
+    /** The issue number this PR was detected for (absent for branch-only matches) */
+    issueNumber?: number;
+  };
+  /** Emitted when an open PR's combined CI status turns to failure */
+  "sys:pr:checks-failed": {
+    worktreeId: string;
+    prNumber: number;
+    prUrl: string;
+    timestamp: number;
+  };
+  /** Emitted when a reviewer requests changes on an open PR */
+  "sys:pr:changes-requested": {
+    worktreeId: string;
+    prNumber: number;
+    prUrl: string;
+    unresolvedThreadCount: number;
+    timestamp: number;
   };
   /** Emitted when PR data should be cleared (branch/issue changed or worktree removed) */
   "sys:pr:cleared": {
@@ -508,6 +583,8 @@ export type CanopyEventMap = {
     terminalId: string;
     /** Type of agent spawned */
     type: TerminalType;
+    /** Agent registry ID (e.g., "claude", "aider") */
+    agentType?: string;
     /** Optional worktree this agent is associated with */
     worktreeId?: string;
   }>;
@@ -581,6 +658,46 @@ export type CanopyEventMap = {
     worktreeId?: string;
   }>;
 
+  // ============================================================================
+  // Terminal Shell Integration Events
+  // ============================================================================
+
+  /**
+   * Emitted when a shell with integration enabled starts executing a command.
+   */
+  "terminal:command-started": WithContext<{
+    terminalId: string;
+    worktreeId?: string;
+    /** Working directory the command was started in */
+    cwd: string;
+    timestamp: number;
+  }>;
+
+  /**
+   * Emitted when a command started in an integrated shell finishes.
+   */
+  "terminal:command-finished": WithContext<{
+    terminalId: string;
+    worktreeId?: string;
+    exitCode: number;
+    /** Milliseconds between command start and finish */
+    duration: number;
+    timestamp: number;
+  }>;
+
+  /**
+   * Emitted when an integrated shell reports a new working directory.
+   * worktreeId reflects the association before the change; consumers resolve
+   * the new worktree from cwd.
+   */
+  "terminal:cwd-changed": WithContext<{
+    terminalId: string;
+    worktreeId?: string;
+    cwd: string;
+    previousCwd: string;
+    timestamp: number;
+  }>;
+
   /**
    * Emitted when artifacts (code blocks or patches) are extracted from agent output.
    */
@@ -726,17 +843,24 @@ export const ALL_EVENT_TYPES: Array<keyof CanopyEventMap> = [
   "sys:worktree:selectByName",
   "sys:worktree:update",
   "sys:worktree:remove",
+  "sys:worktree:conflicts",
   "watcher:change",
   "server:update",
   "server:error",
+  "server:restart",
   "sys:pr:detected",
   "sys:pr:cleared",
+  "sys:pr:checks-failed",
+  "sys:pr:changes-requested",
   "agent:spawned",
   "agent:state-changed",
   "agent:output",
   "agent:completed",
   "agent:failed",
   "agent:killed",
+  "terminal:command-started",
+  "terminal:command-finished",
+  "terminal:cwd-changed",
   "artifact:detected",
   "task:created",
   "task:assigned",
@@ -0,0 +1,62 @@
+/**
+ * GitHub forge provider, backed by the `gh` CLI helpers in utils/github.
+ */
+
+import {
+  batchCheckLinkedPRs,
+  createPullRequest,
+  getIssueTitle,
+  getRepoInfo,
+  listOpenIssues,
+  listUnresolvedReviewThreads,
+  type CreatePullRequestOptions,
+  type LinkedPR,
+  type PRCheckCandidate,
+  type BatchPRCheckResult,
+} from "../../utils/github.js";
+import type { GitHubIssueListResult, GitHubReviewThreadListResult } from "../../types/index.js";
+import type { ParsedRemote } from "./remote.js";
+import type { ForgeProvider, ForgeRepoInfo } from "./types.js";
+
+export class GitHubForge implements ForgeProvider {
+  readonly kind = "github" as const;
+  readonly name = "GitHub";
+
+  /**
+   * @param cwd - Working directory `gh` runs in (it resolves the repo from the remotes)
+   * @param remote - Parsed origin remote, used for the web URL on GitHub Enterprise
+   */
+  constructor(
+    private readonly cwd: string,
+    private readonly remote?: ParsedRemote
+  ) {}
+
+  async getRepoInfo(): Promise<ForgeRepoInfo | null> {
+    const info = await getRepoInfo(this.cwd);
+    if (!info) {
+      return null;
+    }
+    const origin = this.remote?.origin ?? "https://github.com";
+    return { ...info, webUrl: `${origin}/${info.owner}/${info.repo}` };
+  }
+
+  listOpenIssues(options?: { search?: string; limit?: number }): Promise<GitHubIssueListResult> {
+    return listOpenIssues(this.cwd, options);
+  }
+
+  getIssueTitle(issueNumber: number): Promise<string | null> {
+    return getIssueTitle(this.cwd, issueNumber);
+  }
+
+  batchCheckLinkedPRs(candidates: PRCheckCandidate[]): Promise<BatchPRCheckResult> {
+    return batchCheckLinkedPRs(this.cwd, candidates);
+  }
+
+  createPullRequest(options: CreatePullRequestOptions): Promise<LinkedPR> {
+    return createPullRequest(this.cwd, options);
+  }
+
+  listUnresolvedReviewThreads(prNumber: number): Promise<GitHubReviewThreadListResult> {
+    return listUnresolvedReviewThreads(this.cwd, prNumber);
+  }
+}
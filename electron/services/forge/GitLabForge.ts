@@ -0,0 +1,207 @@
+/**
+ * GitLab forge provider, using the REST API (v4).
+ *
+ * Works anonymously for public projects; set GITLAB_TOKEN to a personal access
+ * token with `api` scope for private projects and for creating merge requests.
+ * Merge requests are reported as LinkedPRs numbered by their IID.
+ */
+
+import type { GitHubIssue, GitHubIssueListResult } from "../../types/index.js";
+import type {
+  BatchPRCheckResult,
+  CreatePullRequestOptions,
+  LinkedPR,
+  PRCheckCandidate,
+  PRCheckResult,
+} from "../../utils/github.js";
+import {
+  forgeRequest,
+  describeForgeError,
+  type ForgeHttpContext,
+  type ForgeRequestOptions,
+} from "./http.js";
+import { pickLinkedPR, type ForgeProvider, type ForgeRepoInfo } from "./types.js";
+
+const GITLAB: ForgeHttpContext = { name: "GitLab", tokenEnv: "GITLAB_TOKEN" };
+
+const DEFAULT_ISSUE_LIMIT = 50;
+
+/** Subset of the GitLab issue resource */
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  description?: string | null;
+  web_url?: string;
+  labels?: string[];
+  author?: { username?: string } | null;
+  updated_at?: string;
+}
+
+/** Subset of the GitLab merge request resource */
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: "opened" | "closed" | "locked" | "merged";
+  draft?: boolean;
+  work_in_progress?: boolean;
+  created_at?: string;
+}
+
+function toLinkedPR(mr: GitLabMergeRequest): LinkedPR {
+  return {
+    number: mr.iid,
+    url: mr.web_url,
+    state: mr.state === "opened" ? "open" : mr.state === "merged" ? "merged" : "closed",
+    isDraft: mr.draft ?? mr.work_in_progress ?? false,
+  };
+}
+
+export class GitLabForge implements ForgeProvider {
+  readonly kind = "gitlab" as const;
+  readonly name = GITLAB.name;
+
+  private readonly apiUrl: string;
+  private readonly projectUrl: string;
+
+  /**
+   * @param origin - Instance origin (e.g. https://gitlab.com)
+   * @param projectPath - Full project path including nested groups (e.g. "group/sub/repo")
+   * @param token - Personal access token (defaults to GITLAB_TOKEN)
+   */
+  constructor(
+    private readonly origin: string,
+    private readonly projectPath: string,
+    private readonly token: string | undefined = process.env.GITLAB_TOKEN
+  ) {
+    this.apiUrl = `${origin}/api/v4`;
+    this.projectUrl = `${this.apiUrl}/projects/${encodeURIComponent(projectPath)}`;
+  }
+
+  private request<T>(url: string, options: ForgeRequestOptions = {}): Promise<T> {
+    return forgeRequest<T>(GITLAB, url, {
+      ...options,
+      headers: this.token ? { "PRIVATE-TOKEN": this.token } : undefined,
+    });
+  }
+
+  async getRepoInfo(): Promise<ForgeRepoInfo | null> {
+    const slash = this.projectPath.lastIndexOf("/");
+    return {
+      owner: this.projectPath.slice(0, slash),
+      repo: this.projectPath.slice(slash + 1),
+      webUrl: `${this.origin}/${this.projectPath}`,
+    };
+  }
+
+  async listOpenIssues(
+    options: { search?: string; limit?: number } = {}
+  ): Promise<GitHubIssueListResult> {
+    const params = new URLSearchParams({
+      state: "opened",
+      order_by: "updated_at",
+      sort: "desc",
+      per_page: String(options.limit ?? DEFAULT_ISSUE_LIMIT),
+    });
+    if (options.search?.trim()) {
+      params.set("search", options.search.trim());
+    }
+
+    try {
+      const issues = await this.request<GitLabIssue[]>(`${this.projectUrl}/issues?${params}`);
+      return {
+        issues: issues.map(
+          (issue): GitHubIssue => ({
+            number: issue.iid,
+            title: issue.title,
+            body: issue.description ?? "",
+            url: issue.web_url ?? "",
+            labels: issue.labels ?? [],
+            author: issue.author?.username,
+            updatedAt: issue.updated_at ?? "",
+          })
+        ),
+      };
+    } catch (error) {
+      return { issues: [], error: describeForgeError(GITLAB, error) };
+    }
+  }
+
+  async getIssueTitle(issueNumber: number): Promise<string | null> {
+    try {
+      const issue = await this.request<GitLabIssue>(`${this.projectUrl}/issues/${issueNumber}`);
+      return issue.title || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async batchCheckLinkedPRs(candidates: PRCheckCandidate[]): Promise<BatchPRCheckResult> {
+    const results = new Map<string, PRCheckResult>();
+
+    try {
+      for (const candidate of candidates) {
+        let pr: LinkedPR | null = null;
+
+        if (candidate.issueNumber) {
+          const related = await this.request<GitLabMergeRequest[]>(
+            `${this.projectUrl}/issues/${candidate.issueNumber}/related_merge_requests`
+          );
+          const oldestFirst = [...related].sort((a, b) =>
+            (a.created_at ?? "").localeCompare(b.created_at ?? "")
+          );
+          pr = pickLinkedPR(oldestFirst.map(toLinkedPR));
+        }
+
+        if (!pr && candidate.branchName) {
+          const params = new URLSearchParams({
+            source_branch: candidate.branchName,
+            state: "all",
+            order_by: "updated_at",
+            sort: "desc",
+            per_page: "1",
+          });
+          const [latest] = await this.request<GitLabMergeRequest[]>(
+            `${this.projectUrl}/merge_requests?${params}`
+          );
+          pr = latest ? toLinkedPR(latest) : null;
+        }
+
+        results.set(candidate.worktreeId, {
+          issueNumber: candidate.issueNumber,
+          branchName: candidate.branchName,
+          pr,
+        });
+      }
+    } catch (error) {
+      return { results: new Map(), error: describeForgeError(GITLAB, error) };
+    }
+
+    return { results };
+  }
+
+  async createPullRequest(options: CreatePullRequestOptions): Promise<LinkedPR> {
+    const reviewerIds: number[] = [];
+    for (const username of options.reviewers ?? []) {
+      const users = await this.request<Array<{ id: number }>>(
+        `${this.apiUrl}/users?username=${encodeURIComponent(username)}`
+      );
+      if (users.length === 0) {
+        throw new Error(`Unknown GitLab user: ${username}`);
+      }
+      reviewerIds.push(users[0].id);
+    }
+
+    const mr = await this.request<GitLabMergeRequest>(`${this.projectUrl}/merge_requests`, {
+      method: "POST",
+      body: {
+        source_branch: options.head,
+        target_branch: options.base,
+        // GitLab marks merge requests as drafts by title prefix
+        title: options.draft ? `Draft: ${options.title}` : options.title,
+        description: options.body,
+        ...(reviewerIds.length > 0 ? { reviewer_ids: reviewerIds } : {}),
+      },
+    });
+    return toLinkedPR(mr);
+  }
+}
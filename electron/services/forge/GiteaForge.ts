@@ -0,0 +1,223 @@
+/**
+ * Gitea (and Forgejo) forge provider, using the REST API (v1).
+ *
+ * Works anonymously for public repositories; set GITEA_TOKEN to an access token
+ * for private repositories and for creating pull requests. Gitea doesn't expose
+ * issue cross-references, so a PR is linked to an issue when its body closes the
+ * issue ("Closes #12"), falling back to a PR from the worktree's branch.
+ */
+
+import type { GitHubIssue, GitHubIssueListResult } from "../../types/index.js";
+import type {
+  BatchPRCheckResult,
+  CreatePullRequestOptions,
+  LinkedPR,
+  PRCheckCandidate,
+  PRCheckResult,
+} from "../../utils/github.js";
+import {
+  forgeRequest,
+  describeForgeError,
+  type ForgeHttpContext,
+  type ForgeRequestOptions,
+} from "./http.js";
+import { pickLinkedPR, type ForgeProvider, type ForgeRepoInfo } from "./types.js";
+
+const GITEA: ForgeHttpContext = { name: "Gitea", tokenEnv: "GITEA_TOKEN" };
+
+const DEFAULT_ISSUE_LIMIT = 50;
+
+// Recent PRs scanned for issue/branch links per poll
+const PR_SCAN_LIMIT = 50;
+
+// Title prefixes Gitea treats as work in progress (its drafts)
+const WIP_PREFIXES = ["WIP:", "[WIP]"];
+
+/** Subset of the Gitea issue resource */
+interface GiteaIssue {
+  number: number;
+  title: string;
+  body?: string | null;
+  html_url?: string;
+  labels?: Array<{ name?: string }> | null;
+  user?: { login?: string } | null;
+  updated_at?: string;
+}
+
+/** Subset of the Gitea pull request resource */
+interface GiteaPullRequest {
+  number: number;
+  html_url: string;
+  title: string;
+  body?: string | null;
+  state: "open" | "closed";
+  merged?: boolean;
+  head?: { ref?: string } | null;
+}
+
+function toLinkedPR(pr: GiteaPullRequest): LinkedPR {
+  return {
+    number: pr.number,
+    url: pr.html_url,
+    state: pr.merged ? "merged" : pr.state,
+    isDraft: WIP_PREFIXES.some((prefix) => pr.title.toUpperCase().startsWith(prefix)),
+  };
+}
+
+function closesIssue(pr: GiteaPullRequest, issueNumber: number): boolean {
+  const pattern = new RegExp(
+    `\\b(close[sd]?|fix(e[sd])?|resolve[sd]?)\\s*:?\\s+#${issueNumber}\\b`,
+    "i"
+  );
+  return pattern.test(pr.body ?? "");
+}
+
+export class GiteaForge implements ForgeProvider {
+  readonly kind = "gitea" as const;
+  readonly name = GITEA.name;
+
+  private readonly repoUrl: string;
+
+  /**
+   * @param origin - Instance origin (e.g. https://codeberg.org)
+   * @param owner - Repository owner (user or organization)
+   * @param repo - Repository name
+   * @param token - Access token (defaults to GITEA_TOKEN)
+   */
+  constructor(
+    private readonly origin: string,
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly token: string | undefined = process.env.GITEA_TOKEN
+  ) {
+    this.repoUrl = `${origin}/api/v1/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  private request<T>(url: string, options: ForgeRequestOptions = {}): Promise<T> {
+    return forgeRequest<T>(GITEA, url, {
+      ...options,
+      headers: this.token ? { Authorization: `token ${this.token}` } : undefined,
+    });
+  }
+
+  async getRepoInfo(): Promise<ForgeRepoInfo | null> {
+    return {
+      owner: this.owner,
+      repo: this.repo,
+      webUrl: `${this.origin}/${this.owner}/${this.repo}`,
+    };
+  }
+
+  async listOpenIssues(
+    options: { search?: string; limit?: number } = {}
+  ): Promise<GitHubIssueListResult> {
+    const params = new URLSearchParams({
+      state: "open",
+      type: "issues",
+      limit: String(options.limit ?? DEFAULT_ISSUE_LIMIT),
+    });
+    if (options.search?.trim()) {
+      params.set("q", options.search.trim());
+    }
+
+    try {
+      const issues = await this.request<GiteaIssue[]>(`${this.repoUrl}/issues?${params}`);
+      return {
+        issues: issues
+          .map(
+            (issue): GitHubIssue => ({
+              number: issue.number,
+              title: issue.title,
+              body: issue.body ?? "",
+              url: issue.html_url ?? "",
+              labels: (issue.labels ?? [])
+                .map((label) => label?.name)
+                .filter((name): name is string => !!name),
+              author: issue.user?.login,
+              updatedAt: issue.updated_at ?? "",
+            })
+          )
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+      };
+    } catch (error) {
+      return { issues: [], error: describeForgeError(GITEA, error) };
+    }
+  }
+
+  async getIssueTitle(issueNumber: number): Promise<string | null> {
+    try {
+      const issue = await this.request<GiteaIssue>(`${this.repoUrl}/issues/${issueNumber}`);
+      return issue.title || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async batchCheckLinkedPRs(candidates: PRCheckCandidate[]): Promise<BatchPRCheckResult> {
+    if (candidates.length === 0) {
+      return { results: new Map() };
+    }
+
+    let pulls: GiteaPullRequest[];
+    try {
+      const params = new URLSearchParams({
+        state: "all",
+        sort: "recentupdate",
+        limit: String(PR_SCAN_LIMIT),
+      });
+      pulls = await this.request<GiteaPullRequest[]>(`${this.repoUrl}/pulls?${params}`);
+    } catch (error) {
+      return { results: new Map(), error: describeForgeError(GITEA, error) };
+    }
+
+    // Most recently updated first from the API; pickLinkedPR wants oldest first
+    const oldestFirst = [...pulls].reverse();
+    const results = new Map<string, PRCheckResult>();
+    for (const candidate of candidates) {
+      const issueNumber = candidate.issueNumber;
+      let pr = issueNumber
+        ? pickLinkedPR(oldestFirst.filter((pull) => closesIssue(pull, issueNumber)).map(toLinkedPR))
+        : null;
+
+      if (!pr && candidate.branchName) {
+        const fromBranch = pulls.find((pull) => pull.head?.ref === candidate.branchName);
+        pr = fromBranch ? toLinkedPR(fromBranch) : null;
+      }
+
+      results.set(candidate.worktreeId, {
+        issueNumber,
+        branchName: candidate.branchName,
+        pr,
+      });
+    }
+
+    return { results };
+  }
+
+  async createPullRequest(options: CreatePullRequestOptions): Promise<LinkedPR> {
+    const pr = await this.request<GiteaPullRequest>(`${this.repoUrl}/pulls`, {
+      method: "POST",
+      body: {
+        head: options.head,
+        base: options.base,
+        title: options.draft ? `${WIP_PREFIXES[0]} ${options.title}` : options.title,
+        body: options.body,
+      },
+    });
+
+    // "org/team" entries are team reviewers, identified by team name
+    const reviewers = options.reviewers ?? [];
+    const users = reviewers.filter((reviewer) => !reviewer.includes("/"));
+    const teams = reviewers
+      .filter((reviewer) => reviewer.includes("/"))
+      .map((reviewer) => reviewer.slice(reviewer.indexOf("/") + 1));
+    if (reviewers.length > 0) {
+      await this.request(`${this.repoUrl}/pulls/${pr.number}/requested_reviewers`, {
+        method: "POST",
+        body: { reviewers: users, team_reviewers: teams },
+      });
+    }
+
+    return toLinkedPR(pr);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Stand-in provider for repositories whose forge can't be determined (no origin
+ * remote, or a host that doesn't identify its product). Every operation reports
+ * why, so the UI can point at the project's forge setting.
+ */
+
+import type { GitHubIssueListResult } from "../../types/index.js";
+import type { BatchPRCheckResult, LinkedPR } from "../../utils/github.js";
+import type { ForgeProvider, ForgeRepoInfo } from "./types.js";
+
+export class UnsupportedForge implements ForgeProvider {
+  readonly kind = "unsupported" as const;
+  readonly name = "Unknown forge";
+
+  /**
+   * @param reason - User-facing explanation returned by every operation
+   */
+  constructor(readonly reason: string) {}
+
+  async getRepoInfo(): Promise<ForgeRepoInfo | null> {
+    return null;
+  }
+
+  async listOpenIssues(): Promise<GitHubIssueListResult> {
+    return { issues: [], error: this.reason };
+  }
+
+  async getIssueTitle(): Promise<string | null> {
+    return null;
+  }
+
+  async batchCheckLinkedPRs(): Promise<BatchPRCheckResult> {
+    return { results: new Map(), error: this.reason };
+  }
+
+  async createPullRequest(): Promise<LinkedPR> {
+    throw new Error(this.reason);
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { GitLabForge } from "../GitLabForge.js";
+import { startForgeStandIn, type ForgeStandIn } from "./standIn.js";
+
+const PROJECT = "/api/v4/projects/group%2Fsub%2Frepo";
+
+describe("GitLabForge", () => {
+  let standIn: ForgeStandIn | undefined;
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = undefined;
+  });
+
+  it("should map issues and send the private token", async () => {
+    standIn = await startForgeStandIn(({ url }) => {
+      if (url.startsWith(`${PROJECT}/issues?`)) {
+        return {
+          json: [
+            {
+              iid: 12,
+              title: "Fix login",
+              description: null,
+              web_url: "https://gitlab.example.com/group/sub/repo/-/issues/12",
+              labels: ["bug"],
+              author: { username: "sam" },
+              updated_at: "2024-02-01T00:00:00Z",
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const forge = new GitLabForge(standIn.origin, "group/sub/repo", "secret");
+    const result = await forge.listOpenIssues({ search: "login", limit: 5 });
+
+    expect(result.error).toBeUndefined();
+    expect(result.issues).toEqual([
+      {
+        number: 12,
+        title: "Fix login",
+        body: "",
+        url: "https://gitlab.example.com/group/sub/repo/-/issues/12",
+        labels: ["bug"],
+        author: "sam",
+        updatedAt: "2024-02-01T00:00:00Z",
+      },
+    ]);
+
+    const [request] = standIn.requests;
+    expect(request.headers["private-token"]).toBe("secret");
+    const params = new URL(request.url, standIn.origin).searchParams;
+    expect(params.get("state")).toBe("opened");
+    expect(params.get("search")).toBe("login");
+    expect(params.get("per_page")).toBe("5");
+  });
+
+  it("should report auth errors with the token variable to set", async () => {
+    standIn = await startForgeStandIn(() => ({
+      status: 401,
+      json: { message: "401 Unauthorized" },
+    }));
+
+    const forge = new GitLabForge(standIn.origin, "group/sub/repo", undefined);
+    const result = await forge.listOpenIssues();
+
+    expect(result).toEqual({ issues: [], error: "GitLab auth required - set GITLAB_TOKEN" });
+    expect(standIn.requests[0].headers["private-token"]).toBeUndefined();
+  });
+
+  it("should link merge requests by issue, falling back to the source branch", async () => {
+    standIn = await startForgeStandIn(({ url }) => {
+      if (url === `${PROJECT}/issues/12/related_merge_requests`) {
+        return {
+          json: [
+            { iid: 5, web_url: "u5", state: "opened", created_at: "2024-03-01T00:00:00Z" },
+            { iid: 3, web_url: "u3", state: "closed", created_at: "2024-01-01T00:00:00Z" },
+          ],
+        };
+      }
+      if (url === `${PROJECT}/issues/40/related_merge_requests`) {
+        return { json: [] };
+      }
+      if (url.startsWith(`${PROJECT}/merge_requests?`)) {
+        const branch = new URL(url, "http://x").searchParams.get("source_branch");
+        return {
+          json:
+            branch === "feature/docs"
+              ? [{ iid: 9, web_url: "u9", state: "merged", draft: false }]
+              : [],
+        };
+      }
+      return undefined;
+    });
+
+    const forge = new GitLabForge(standIn.origin, "group/sub/repo", "secret");
+    const { results, error } = await forge.batchCheckLinkedPRs([
+      { worktreeId: "wt-1", issueNumber: 12, branchName: "feature/issue-12" },
+      { worktreeId: "wt-2", issueNumber: 40, branchName: "feature/docs" },
+      { worktreeId: "wt-3", branchName: "feature/none" },
+    ]);
+
+    expect(error).toBeUndefined();
+    expect(results.get("wt-1")?.pr).toEqual({
+      number: 5,
+      url: "u5",
+      state: "open",
+      isDraft: false,
+    });
+    expect(results.get("wt-2")?.pr).toEqual({
+      number: 9,
+      url: "u9",
+      state: "merged",
+      isDraft: false,
+    });
+    expect(results.get("wt-3")?.pr).toBeNull();
+  });
+
+  it("should create draft merge requests with reviewers resolved to user IDs", async () => {
+    standIn = await startForgeStandIn(({ method, url }) => {
+      if (url === "/api/v4/users?username=alex") {
+        return { json: [{ id: 42 }] };
+      }
+      if (method === "POST" && url === `${PROJECT}/merge_requests`) {
+        return {
+          status: 201,
+          json: { iid: 17, web_url: "u17", state: "opened", draft: true },
+        };
+      }
+      return undefined;
+    });
+
+    const forge = new GitLabForge(standIn.origin, "group/sub/repo", "secret");
+    const pr = await forge.createPullRequest({
+      title: "Add docs",
+      body: "Closes #12",
+      base: "main",
+      head: "feature/docs",
+      draft: true,
+      reviewers: ["alex"],
+    });
+
+    expect(pr).toEqual({ number: 17, url: "u17", state: "open", isDraft: true });
+    expect(standIn.requests.at(-1)?.body).toEqual({
+      source_branch: "feature/docs",
+      target_branch: "main",
+      title: "Draft: Add docs",
+      description: "Closes #12",
+      reviewer_ids: [42],
+    });
+  });
+
+  it("should reject unknown reviewers before creating the merge request", async () => {
+    standIn = await startForgeStandIn(({ url }) =>
+      url.startsWith("/api/v4/users?") ? { json: [] } : undefined
+    );
+
+    const forge = new GitLabForge(standIn.origin, "group/sub/repo", "secret");
+    await expect(
+      forge.createPullRequest({
+        title: "Add docs",
+        body: "",
+        base: "main",
+        head: "feature/docs",
+        reviewers: ["ghost"],
+      })
+    ).rejects.toThrow("Unknown GitLab user: ghost");
+    expect(standIn.requests.some((request) => request.method === "POST")).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { GiteaForge } from "../GiteaForge.js";
+import { startForgeStandIn, type ForgeStandIn } from "./standIn.js";
+
+const REPO = "/api/v1/repos/owner/repo";
+
+describe("GiteaForge", () => {
+  let standIn: ForgeStandIn | undefined;
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = undefined;
+  });
+
+  it("should map issues newest first and send the access token", async () => {
+    standIn = await startForgeStandIn(({ url }) => {
+      if (url.startsWith(`${REPO}/issues?`)) {
+        return {
+          json: [
+            {
+              number: 2,
+              title: "Older",
+              body: "details",
+              html_url: "h2",
+              labels: [{ name: "bug" }],
+              user: { login: "sam" },
+              updated_at: "2024-01-01T00:00:00Z",
+            },
+            {
+              number: 4,
+              title: "Newer",
+              html_url: "h4",
+              labels: null,
+              user: null,
+              updated_at: "2024-02-01T00:00:00Z",
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const forge = new GiteaForge(standIn.origin, "owner", "repo", "secret");
+    const result = await forge.listOpenIssues({ search: "crash" });
+
+    expect(result.issues.map((issue) => issue.number)).toEqual([4, 2]);
+    expect(result.issues[1]).toEqual({
+      number: 2,
+      title: "Older",
+      body: "details",
+      url: "h2",
+      labels: ["bug"],
+      author: "sam",
+      updatedAt: "2024-01-01T00:00:00Z",
+    });
+
+    const [request] = standIn.requests;
+    expect(request.headers.authorization).toBe("token secret");
+    const params = new URL(request.url, standIn.origin).searchParams;
+    expect(params.get("type")).toBe("issues");
+    expect(params.get("q")).toBe("crash");
+  });
+
+  it("should report a missing repository", async () => {
+    standIn = await startForgeStandIn(() => undefined);
+
+    const forge = new GiteaForge(standIn.origin, "owner", "repo", undefined);
+    const result = await forge.listOpenIssues();
+
+    expect(result).toEqual({ issues: [], error: "not a Gitea repository (or no access)" });
+  });
+
+  it("should link pull requests that close the issue, falling back to the head branch", async () => {
+    standIn = await startForgeStandIn(({ url }) => {
+      if (url.startsWith(`${REPO}/pulls?`)) {
+        // Most recently updated first, as the API returns them
+        return {
+          json: [
+            {
+              number: 8,
+              html_url: "p8",
+              title: "WIP: Docs",
+              body: "",
+              state: "open",
+              head: { ref: "feature/docs" },
+            },
+            {
+              number: 6,
+              html_url: "p6",
+              title: "Fix login again",
+              body: "Fixes #12",
+              state: "open",
+              head: { ref: "feature/issue-12" },
+            },
+            {
+              number: 5,
+              html_url: "p5",
+              title: "Fix login",
+              body: "Closes #12",
+              state: "closed",
+              merged: true,
+              head: { ref: "feature/issue-12" },
+            },
+            {
+              number: 3,
+              html_url: "p3",
+              title: "Unrelated",
+              body: "Mentions #120",
+              state: "closed",
+              head: { ref: "feature/other" },
+            },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const forge = new GiteaForge(standIn.origin, "owner", "repo", "secret");
+    const { results, error } = await forge.batchCheckLinkedPRs([
+      { worktreeId: "wt-1", issueNumber: 12, branchName: "feature/issue-12" },
+      { worktreeId: "wt-2", issueNumber: 120, branchName: "feature/docs" },
+      { worktreeId: "wt-3", branchName: "feature/none" },
+    ]);
+
+    expect(error).toBeUndefined();
+    expect(standIn.requests).toHaveLength(1);
+    expect(results.get("wt-1")?.pr).toEqual({
+      number: 6,
+      url: "p6",
+      state: "open",
+      isDraft: false,
+    });
+    expect(results.get("wt-2")?.pr).toEqual({ number: 8, url: "p8", state: "open", isDraft: true });
+    expect(results.get("wt-3")?.pr).toBeNull();
+  });
+
+  it("should create pull requests and request user and team reviewers", async () => {
+    standIn = await startForgeStandIn(({ method, url }) => {
+      if (method === "POST" && url === `${REPO}/pulls`) {
+        return {
+          status: 201,
+          json: { number: 11, html_url: "p11", title: "WIP: Add docs", state: "open" },
+        };
+      }
+      if (method === "POST" && url === `${REPO}/pulls/11/requested_reviewers`) {
+        return { status: 201, json: [] };
+      }
+      return undefined;
+    });
+
+    const forge = new GiteaForge(standIn.origin, "owner", "repo", "secret");
+    const pr = await forge.createPullRequest({
+      title: "Add docs",
+      body: "Closes #4",
+      base: "main",
+      head: "feature/docs",
+      draft: true,
+      reviewers: ["alex", "owner/core"],
+    });
+
+    expect(pr).toEqual({ number: 11, url: "p11", state: "open", isDraft: true });
+    expect(standIn.requests.map((request) => request.body)).toEqual([
+      { head: "feature/docs", base: "main", title: "WIP: Add docs", body: "Closes #4" },
+      { reviewers: ["alex"], team_reviewers: ["core"] },
+    ]);
+  });
+});
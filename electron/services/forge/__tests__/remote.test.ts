@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { simpleGit } from "simple-git";
+import {
+  createForgeProvider,
+  detectForgeKind,
+  getForgeProvider,
+  parseRemoteUrl,
+  setProjectForgeKind,
+} from "../index.js";
+
+describe("parseRemoteUrl", () => {
+  it("should parse scp-like, ssh and http remotes", () => {
+    expect(parseRemoteUrl("git@gitlab.com:group/sub/repo.git")).toEqual({
+      host: "gitlab.com",
+      origin: "https://gitlab.com",
+      path: "group/sub/repo",
+    });
+    expect(parseRemoteUrl("ssh://git@codeberg.org:2222/owner/repo.git")).toEqual({
+      host: "codeberg.org",
+      origin: "https://codeberg.org",
+      path: "owner/repo",
+    });
+    expect(parseRemoteUrl("http://gitea.local:3000/owner/repo/")).toEqual({
+      host: "gitea.local",
+      origin: "http://gitea.local:3000",
+      path: "owner/repo",
+    });
+  });
+
+  it("should reject URLs without an owner and repository", () => {
+    expect(parseRemoteUrl("/srv/git/repo.git")).toBeNull();
+    expect(parseRemoteUrl("https://example.com/repo.git")).toBeNull();
+    expect(parseRemoteUrl("not a url")).toBeNull();
+  });
+});
+
+describe("createForgeProvider", () => {
+  it("should select the provider from the remote host", () => {
+    expect(detectForgeKind("gitlab.example.com")).toBe("gitlab");
+    expect(detectForgeKind("git.forgejo.dev")).toBe("gitea");
+    expect(detectForgeKind("example.com")).toBeNull();
+
+    expect(createForgeProvider("/repo", "git@gitlab.com:group/repo.git").kind).toBe("gitlab");
+    expect(createForgeProvider("/repo", "https://codeberg.org/owner/repo.git").kind).toBe("gitea");
+    expect(createForgeProvider("/repo", "git@github.com:owner/repo.git").kind).toBe("github");
+  });
+
+  it("should report hosts it can't identify instead of assuming GitHub", () => {
+    expect(createForgeProvider("/repo", "https://example.com/owner/repo").kind).toBe("unsupported");
+    expect(createForgeProvider("/repo", null).kind).toBe("unsupported");
+  });
+
+  it("should use the project's forge over detection", () => {
+    expect(createForgeProvider("/repo", "https://git.example.com/owner/repo", "gitlab").kind).toBe(
+      "gitlab"
+    );
+    expect(createForgeProvider("/repo", "https://gitlab.com/owner/repo", "github").kind).toBe(
+      "github"
+    );
+  });
+});
+
+describe("getForgeProvider", () => {
+  let repoPath: string | undefined;
+
+  afterEach(async () => {
+    setProjectForgeKind(undefined);
+    if (repoPath) {
+      await rm(repoPath, { recursive: true, force: true });
+      repoPath = undefined;
+    }
+  });
+
+  it("should follow changes to the origin remote and the project's forge", async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "canopy-forge-test-"));
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addRemote("origin", "git@github.com:owner/repo.git");
+    expect((await getForgeProvider(repoPath)).kind).toBe("github");
+
+    await git.remote(["set-url", "origin", "git@gitlab.com:owner/repo.git"]);
+    expect((await getForgeProvider(repoPath)).kind).toBe("gitlab");
+
+    setProjectForgeKind("gitea");
+    expect((await getForgeProvider(repoPath)).kind).toBe("gitea");
+  });
+});
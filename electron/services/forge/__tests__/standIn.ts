@@ -0,0 +1,55 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query, as received */
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+export type StandInHandler = (
+  request: RecordedRequest
+) => { status?: number; json: unknown } | undefined;
+
+export interface ForgeStandIn {
+  origin: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local HTTP server that answers forge API requests from a handler and
+ * records them. Unhandled requests get a 404.
+ */
+export async function startForgeStandIn(handler: StandInHandler): Promise<ForgeStandIn> {
+  const requests: RecordedRequest[] = [];
+
+  const server: Server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const request: RecordedRequest = {
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+
+      const response = handler(request) ?? { status: 404, json: { message: "404 Not Found" } };
+      res.writeHead(response.status ?? 200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response.json));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * JSON-over-HTTP helper shared by the REST forge providers.
+ */
+
+import { ForgeError } from "../../utils/errorTypes.js";
+
+/** Identifies the forge in error messages */
+export interface ForgeHttpContext {
+  /** Display name (e.g. "GitLab") */
+  name: string;
+  /** Environment variable that holds the access token */
+  tokenEnv: string;
+}
+
+export interface ForgeRequestOptions {
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  /** Serialized as JSON */
+  body?: unknown;
+}
+
+/**
+ * Extract the error message from a forge's JSON error response. GitLab returns
+ * `message` as a string, list or field map; Gitea returns a string.
+ */
+function readErrorMessage(payload: unknown): string {
+  const message = (payload as { message?: unknown } | null)?.message;
+  if (typeof message === "string") return message;
+  if (Array.isArray(message)) return message.join(", ");
+  if (message && typeof message === "object") {
+    return Object.entries(message)
+      .map(([field, value]) => `${field} ${Array.isArray(value) ? value.join(", ") : value}`)
+      .join("; ");
+  }
+  const error = (payload as { error?: unknown } | null)?.error;
+  return typeof error === "string" ? error : "";
+}
+
+/**
+ * Send a request and parse the JSON response.
+ * @throws ForgeError with a short, user-facing message on network or HTTP errors
+ */
+export async function forgeRequest<T>(
+  forge: ForgeHttpContext,
+  url: string,
+  options: ForgeRequestOptions = {}
+): Promise<T> {
+  const headers: Record<string, string> = { Accept: "application/json", ...options.headers };
+  if (options.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: options.method ?? "GET",
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+  } catch (error) {
+    throw new ForgeError(`${forge.name} API unavailable`, { url }, error as Error);
+  }
+
+  if (!response.ok) {
+    const detail = readErrorMessage(await response.json().catch(() => null));
+    const context = { url, status: response.status, detail };
+    switch (response.status) {
+      case 401:
+        throw new ForgeError(`${forge.name} auth required - set ${forge.tokenEnv}`, context);
+      case 403:
+        throw new ForgeError(detail || `${forge.name} access denied`, context);
+      case 404:
+        throw new ForgeError(`not a ${forge.name} repository (or no access)`, context);
+      case 429:
+        throw new ForgeError(`${forge.name} rate limit exceeded`, context);
+      default:
+        if (response.status < 500 && detail) {
+          throw new ForgeError(detail, context);
+        }
+        throw new ForgeError(`${forge.name} API unavailable`, context);
+    }
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Map any error from a forge request to a short message for result-with-error APIs.
+ */
+export function describeForgeError(forge: ForgeHttpContext, error: unknown): string {
+  return error instanceof ForgeError ? error.message : `${forge.name} API unavailable`;
+}
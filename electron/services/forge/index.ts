@@ -0,0 +1,102 @@
+/**
+ * Forge provider selection.
+ *
+ * Picks the provider for a repository from the open project's forge setting, or
+ * else from its origin remote URL: GitLab and Gitea/Forgejo hosts use their REST
+ * APIs and GitHub hosts go through the `gh` CLI. Repositories without an origin
+ * remote, or on a host that doesn't name its product (e.g. GitHub Enterprise or
+ * GitLab on a custom domain), get an "unsupported" provider until the project
+ * names its forge.
+ */
+
+import { simpleGit } from "simple-git";
+import { logDebug } from "../../utils/logger.js";
+import { GitHubForge } from "./GitHubForge.js";
+import { GitLabForge } from "./GitLabForge.js";
+import { GiteaForge } from "./GiteaForge.js";
+import { UnsupportedForge } from "./UnsupportedForge.js";
+import { detectForgeKind, parseRemoteUrl } from "./remote.js";
+import type { ForgeKind, ForgeProvider } from "./types.js";
+
+export type { ForgeKind, ForgeProvider, ForgeRepoInfo } from "./types.js";
+export { parseRemoteUrl, detectForgeKind } from "./remote.js";
+
+// Keyed by working directory, along with the remote URL and forge setting it was created for
+const providerCache = new Map<
+  string,
+  { remoteUrl: string | null; forgeKind?: ForgeKind; provider: ForgeProvider }
+>();
+
+// Forge setting of the open project
+let projectForgeKind: ForgeKind | undefined;
+
+/**
+ * Set the open project's forge, overriding detection from the remote host.
+ * @param forgeKind - The project's forge, or undefined to detect it
+ */
+export function setProjectForgeKind(forgeKind: ForgeKind | undefined): void {
+  projectForgeKind = forgeKind;
+}
+
+/**
+ * Create the provider for a working directory with a known origin remote URL.
+ * @param cwd - Working directory (used by the GitHub provider's `gh` calls)
+ * @param remoteUrl - The origin remote URL, if any
+ * @param forgeKind - Forge to use instead of detecting it from the remote host
+ */
+export function createForgeProvider(
+  cwd: string,
+  remoteUrl?: string | null,
+  forgeKind?: ForgeKind
+): ForgeProvider {
+  const remote = remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+  const kind = forgeKind ?? (remote ? detectForgeKind(remote.host) : null);
+
+  // gh resolves the repository itself; the REST providers need the remote
+  if (kind === "github") {
+    return new GitHubForge(cwd, remote ?? undefined);
+  }
+  if (!remote) {
+    return new UnsupportedForge(
+      remoteUrl ? `Unrecognized origin remote: ${remoteUrl}` : "The repository has no origin remote"
+    );
+  }
+
+  switch (kind) {
+    case "gitlab":
+      return new GitLabForge(remote.origin, remote.path);
+    case "gitea": {
+      const [owner, repo] = remote.path.split("/").slice(-2);
+      return new GiteaForge(remote.origin, owner, repo);
+    }
+    default:
+      return new UnsupportedForge(
+        `Can't tell which forge hosts ${remote.host}. Choose one in the project settings.`
+      );
+  }
+}
+
+/**
+ * Get the provider for a working directory, detecting the forge from its origin
+ * remote unless the open project sets one. A changed remote or setting gets a new provider.
+ * @param cwd - Working directory inside the repository
+ */
+export async function getForgeProvider(cwd: string): Promise<ForgeProvider> {
+  let remoteUrl: string | null = null;
+  try {
+    remoteUrl = (await simpleGit(cwd).raw(["remote", "get-url", "origin"])).trim() || null;
+  } catch {
+    // No origin remote - the provider reports it
+  }
+
+  const forgeKind = projectForgeKind;
+  const cached = providerCache.get(cwd);
+  if (cached && cached.remoteUrl === remoteUrl && cached.forgeKind === forgeKind) {
+    return cached.provider;
+  }
+
+  const provider = createForgeProvider(cwd, remoteUrl, forgeKind);
+  logDebug("Resolved forge provider", { cwd, remoteUrl, forge: provider.kind });
+  providerCache.set(cwd, { remoteUrl, forgeKind, provider });
+  return provider;
+}
@@ -0,0 +1,70 @@
+/**
+ * Git remote URL parsing and forge detection.
+ */
+
+import type { ForgeKind } from "./types.js";
+
+export interface ParsedRemote {
+  /** Host name without port */
+  host: string;
+  /** Web/API origin: the remote's own origin for http(s), https://host for SSH */
+  origin: string;
+  /** Repository path without leading slash or .git suffix (e.g. "group/sub/repo") */
+  path: string;
+}
+
+/**
+ * Parse an origin remote URL in any of git's common forms:
+ * `https://host[:port]/path.git`, `ssh://git@host[:port]/path.git` and `git@host:path.git`.
+ * @returns The parsed remote, or null if the URL isn't recognized
+ */
+export function parseRemoteUrl(remoteUrl: string): ParsedRemote | null {
+  const url = remoteUrl.trim();
+  let host: string;
+  let origin: string;
+  let rawPath: string;
+
+  const scpLike = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (!url.includes("://") && scpLike) {
+    host = scpLike[1];
+    origin = `https://${host}`;
+    rawPath = scpLike[2];
+  } else {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    host = parsed.hostname;
+    origin =
+      parsed.protocol === "http:" || parsed.protocol === "https:"
+        ? `${parsed.protocol}//${parsed.host}`
+        : `https://${host}`;
+    rawPath = decodeURIComponent(parsed.pathname);
+  }
+
+  const path = rawPath
+    .replace(/^\/+/, "")
+    .replace(/\/+$/, "")
+    .replace(/\.git$/, "");
+  if (!host || !path.includes("/")) {
+    return null;
+  }
+  return { host, origin, path };
+}
+
+/**
+ * Guess the forge from the remote host name. Self-hosted instances are recognized
+ * when their host name contains the product name (e.g. gitlab.example.com).
+ * @returns The forge kind, or null for hosts that don't identify one
+ */
+export function detectForgeKind(host: string): ForgeKind | null {
+  const name = host.toLowerCase();
+  if (name.includes("github")) return "github";
+  if (name.includes("gitlab")) return "gitlab";
+  if (name.includes("gitea") || name.includes("forgejo") || name === "codeberg.org") {
+    return "gitea";
+  }
+  return null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Forge provider contract.
+ *
+ * A forge is the code host behind a repository's origin remote (GitHub, GitLab,
+ * Gitea). Each provider is bound to one working directory and exposes the
+ * repository, issue and pull request operations Canopy needs. Issues and PRs use
+ * the GitHub-named shapes shared with the renderer; GitLab merge requests map to
+ * LinkedPR with their project-scoped IID as the number.
+ */
+
+import type {
+  ForgeKind,
+  GitHubIssueListResult,
+  GitHubReviewThreadListResult,
+} from "../../types/index.js";
+import type {
+  BatchPRCheckResult,
+  CreatePullRequestOptions,
+  LinkedPR,
+  PRCheckCandidate,
+} from "../../utils/github.js";
+
+export type { ForgeKind };
+
+/**
+ * Repository identity on a forge.
+ */
+export interface ForgeRepoInfo {
+  /** Owner or namespace (GitLab groups may be nested, e.g. "group/subgroup") */
+  owner: string;
+  repo: string;
+  /** Repository home page */
+  webUrl: string;
+}
+
+export interface ForgeProvider {
+  /** "unsupported" when the forge couldn't be determined */
+  readonly kind: ForgeKind | "unsupported";
+  /** Display name for messages (e.g. "GitLab") */
+  readonly name: string;
+
+  /** Resolve the repository's owner and name, or null if the remote isn't on this forge */
+  getRepoInfo(): Promise<ForgeRepoInfo | null>;
+
+  /** Open issues, most recently updated first; failures are reported in `error` */
+  listOpenIssues(options?: { search?: string; limit?: number }): Promise<GitHubIssueListResult>;
+
+  /** An issue's title, or null if it can't be fetched */
+  getIssueTitle(issueNumber: number): Promise<string | null>;
+
+  /** Find the PR linked to each candidate's issue, falling back to its branch */
+  batchCheckLinkedPRs(candidates: PRCheckCandidate[]): Promise<BatchPRCheckResult>;
+
+  /**
+   * Open a pull (merge) request for a pushed branch.
+   * @throws Error with a user-facing message if the forge rejects it
+   */
+  createPullRequest(options: CreatePullRequestOptions): Promise<LinkedPR>;
+
+  /** Unresolved review threads on a PR; only implemented where the forge exposes them */
+  listUnresolvedReviewThreads?(prNumber: number): Promise<GitHubReviewThreadListResult>;
+}
+
+/**
+ * Pick the most relevant of several PRs linked to one issue: the latest open one,
+ * else the latest merged, else the latest closed. Expects oldest-first input.
+ */
+export function pickLinkedPR(prs: LinkedPR[]): LinkedPR | null {
+  for (const state of ["open", "merged", "closed"] as const) {
+    const matching = prs.filter((pr) => pr.state === state);
+    if (matching.length > 0) {
+      return matching[matching.length - 1];
+    }
+  }
+  return null;
+}
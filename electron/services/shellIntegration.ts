@@ -0,0 +1,217 @@
+/**
+ * Shell Integration
+ *
+ * Opt-in startup scripts for bash, zsh and fish that report prompt/command
+ * boundaries (OSC 133) and the working directory (OSC 7) to the terminal.
+ * PtyManager parses these sequences into terminal:* events.
+ *
+ * Sequences emitted:
+ * - OSC 133;A  prompt start
+ * - OSC 133;B  prompt end (command input begins)
+ * - OSC 133;C  command executed
+ * - OSC 133;D;<exit code>  command finished
+ * - OSC 7;file://<host><path>  current working directory
+ */
+
+import { app } from "electron";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import path from "path";
+
+export type IntegratedShell = "bash" | "zsh" | "fish";
+
+const BASH_SCRIPT = `# Canopy shell integration for bash
+if [ -n "$CANOPY_SHELL_LOGIN" ]; then
+  unset CANOPY_SHELL_LOGIN
+  [ -r /etc/profile ] && . /etc/profile
+  if [ -r "$HOME/.bash_profile" ]; then
+    . "$HOME/.bash_profile"
+  elif [ -r "$HOME/.bash_login" ]; then
+    . "$HOME/.bash_login"
+  elif [ -r "$HOME/.profile" ]; then
+    . "$HOME/.profile"
+  fi
+else
+  [ -r "$HOME/.bashrc" ] && . "$HOME/.bashrc"
+fi
+
+__canopy_precmd() {
+  local ec=$?
+  printf '\\033]133;D;%s\\007' "$ec"
+  printf '\\033]7;file://%s%s\\007' "$HOSTNAME" "$PWD"
+  printf '\\033]133;A\\007'
+  return $ec
+}
+
+if [[ "$PROMPT_COMMAND" != *__canopy_precmd* ]]; then
+  PROMPT_COMMAND="__canopy_precmd\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi
+PS1="$PS1\\[\\033]133;B\\007\\]"
+PS0="\\033]133;C\\007$PS0"
+`;
+
+const ZSH_ENV = `# Canopy shell integration for zsh (.zshenv)
+CANOPY_ZDOTDIR="$ZDOTDIR"
+ZDOTDIR="\${CANOPY_USER_ZDOTDIR:-$HOME}"
+[[ -r "$ZDOTDIR/.zshenv" ]] && . "$ZDOTDIR/.zshenv"
+ZDOTDIR="$CANOPY_ZDOTDIR"
+`;
+
+const ZSH_PROFILE = `# Canopy shell integration for zsh (.zprofile)
+ZDOTDIR="\${CANOPY_USER_ZDOTDIR:-$HOME}"
+[[ -r "$ZDOTDIR/.zprofile" ]] && . "$ZDOTDIR/.zprofile"
+ZDOTDIR="$CANOPY_ZDOTDIR"
+`;
+
+const ZSH_RC = `# Canopy shell integration for zsh (.zshrc)
+ZDOTDIR="\${CANOPY_USER_ZDOTDIR:-$HOME}"
+[[ -r "$ZDOTDIR/.zshrc" ]] && . "$ZDOTDIR/.zshrc"
+# Leave ZDOTDIR pointing at the user's config (.zlogin and child shells use it)
+unset CANOPY_ZDOTDIR CANOPY_USER_ZDOTDIR
+
+__canopy_precmd() {
+  local ec=$?
+  if [[ -n "$__canopy_running" ]]; then
+    printf '\\033]133;D;%s\\007' "$ec"
+    unset __canopy_running
+  fi
+  printf '\\033]7;file://%s%s\\007' "$HOST" "$PWD"
+  printf '\\033]133;A\\007'
+}
+
+__canopy_preexec() {
+  __canopy_running=1
+  printf '\\033]133;C\\007'
+}
+
+autoload -Uz add-zsh-hook
+add-zsh-hook precmd __canopy_precmd
+add-zsh-hook preexec __canopy_preexec
+PS1="$PS1%{"$'\\e]133;B\\a'"%}"
+`;
+
+const FISH_SCRIPT = `# Canopy shell integration for fish
+function __canopy_preexec --on-event fish_preexec
+  printf '\\033]133;C\\007'
+end
+
+function __canopy_postexec --on-event fish_postexec
+  printf '\\033]133;D;%s\\007' $status
+end
+
+function __canopy_prompt --on-event fish_prompt
+  printf '\\033]7;file://%s%s\\007' (hostname) "$PWD"
+  printf '\\033]133;A\\007'
+end
+`;
+
+let scriptsDir: string | null = null;
+
+/**
+ * Write the integration scripts to the user data directory (once per app run)
+ * and return their location.
+ */
+function ensureScripts(): string {
+  if (scriptsDir) return scriptsDir;
+
+  const dir = path.join(app.getPath("userData"), "shell-integration");
+  mkdirSync(path.join(dir, "zsh"), { recursive: true });
+  writeFileSync(path.join(dir, "bash.sh"), BASH_SCRIPT, "utf-8");
+  writeFileSync(path.join(dir, "zsh", ".zshenv"), ZSH_ENV, "utf-8");
+  writeFileSync(path.join(dir, "zsh", ".zprofile"), ZSH_PROFILE, "utf-8");
+  writeFileSync(path.join(dir, "zsh", ".zshrc"), ZSH_RC, "utf-8");
+  writeFileSync(path.join(dir, "fish.fish"), FISH_SCRIPT, "utf-8");
+
+  scriptsDir = dir;
+  return dir;
+}
+
+/**
+ * Quote a value for a fish command line (e.g. a user data path like /home/O'Brien).
+ */
+function quoteFish(value: string): string {
+  return `'${value.replace(/[\\']/g, "\\$&")}'`;
+}
+
+/**
+ * Identify a shell supported by the integration scripts from its executable path.
+ */
+export function getIntegratedShell(shell: string): IntegratedShell | null {
+  const name = path.basename(shell).replace(/\.exe$/i, "");
+  if (name === "bash" || name === "zsh" || name === "fish") {
+    return name;
+  }
+  return null;
+}
+
+/**
+ * Rewrite spawn arguments and environment so the shell loads the integration
+ * script alongside the user's own startup files.
+ *
+ * @param shell - Shell executable path
+ * @param args - Arguments the shell would otherwise be started with
+ * @param env - Environment for the shell process
+ * @returns Updated args/env, or null if the shell is unsupported or setup failed
+ */
+export function applyShellIntegration(
+  shell: string,
+  args: string[],
+  env: Record<string, string>
+): { args: string[]; env: Record<string, string> } | null {
+  const kind = getIntegratedShell(shell);
+  if (!kind) return null;
+
+  let dir: string;
+  try {
+    dir = ensureScripts();
+  } catch (error) {
+    console.warn("[ShellIntegration] Failed to write integration scripts:", error);
+    return null;
+  }
+
+  switch (kind) {
+    case "bash": {
+      // --init-file replaces the login/rc startup sequence, so the script sources
+      // the user's files itself and needs to know which mode was requested
+      const isLogin = args.includes("-l") || args.includes("--login");
+      const remaining = args.filter((arg) => arg !== "-l" && arg !== "--login");
+      return {
+        args: ["--init-file", path.join(dir, "bash.sh"), ...remaining],
+        env: { ...env, ...(isLogin ? { CANOPY_SHELL_LOGIN: "1" } : {}) },
+      };
+    }
+    case "zsh":
+      return {
+        args,
+        env: {
+          ...env,
+          CANOPY_USER_ZDOTDIR: env.ZDOTDIR || env.HOME || "",
+          ZDOTDIR: path.join(dir, "zsh"),
+        },
+      };
+    case "fish":
+      return {
+        args: [...args, "--init-command", `source ${quoteFish(path.join(dir, "fish.fish"))}`],
+        env,
+      };
+  }
+}
+
+/**
+ * Extract a filesystem path from an OSC 7 payload (file://host/path).
+ * @returns The decoded path, or null if the payload isn't a file URL
+ */
+export function parseOsc7Cwd(data: string): string | null {
+  const match = /^file:\/\/[^/]*(\/.*)$/.exec(data);
+  if (!match) return null;
+
+  // Shells don't always percent-encode (our own scripts send $PWD as-is), so a
+  // path that exists verbatim is taken literally rather than decoded
+  const rawPath = match[1];
+  if (!rawPath.includes("%") || existsSync(rawPath)) return rawPath;
+
+  try {
+    return decodeURIComponent(rawPath);
+  } catch {
+    return rawPath;
+  }
+}
@@ -1,6 +1,7 @@
 import Store from "electron-store";
 import type { RecentDirectory } from "./types/index.js";
-import type { Project } from "./types/index.js";
+import type { Project, AgentDefinition, TerminalType } from "./types/index.js";
+import type { PortReservation } from "./services/PortAllocator.js";
 
 export type { RecentDirectory };
 
@@ -26,7 +27,8 @@ export interface StoreSchema {
     };
     terminals: Array<{
       id: string;
-      type: "shell" | "claude" | "gemini" | "custom";
+      type: TerminalType;
+      agentType?: string;
       title: string;
       cwd: string;
       worktreeId?: string;
@@ -55,7 +57,15 @@ export interface StoreSchema {
     aiModel?: string;
     /** Whether AI features are enabled */
     aiEnabled?: boolean;
+    /** Whether new terminals load the OSC 133/OSC 7 shell integration script */
+    shellIntegrationEnabled?: boolean;
+    /** Days without commits after which a clean worktree is offered for cleanup */
+    worktreeStaleDays?: number;
   };
+  /** User-editable agent registry (unset until first saved; built-in defaults apply) */
+  agentRegistry?: AgentDefinition[];
+  /** Dev server port ranges reserved per worktree, keyed by worktree ID */
+  devServerPorts?: Record<string, PortReservation>;
 }
 
 export const store = new Store<StoreSchema>({
@@ -82,6 +92,8 @@ export const store = new Store<StoreSchema>({
       openaiApiKey: undefined,
       aiModel: "gpt-5-nano",
       aiEnabled: true,
+      shellIntegrationEnabled: false,
+      worktreeStaleDays: 7,
     },
   },
 });
@@ -57,7 +57,7 @@ export const DEFAULT_CONFIG: CanopyConfig = {
   },
   autoRefresh: true,
   refreshDebounce: 100,
-  usePolling: true,
+  usePolling: false,
   treeIndent: 2,
   maxDepth: null,
   sortBy: "name",
@@ -84,6 +84,24 @@ export const DEFAULT_CONFIG: CanopyConfig = {
   devServer: {
     enabled: false,
     autoStart: false,
+    portRangeStart: 3100,
+    portsPerWorktree: 10,
+    portEnvVars: [],
+    healthCheck: {
+      type: "tcp",
+      path: "/",
+      timeoutMs: 2000,
+      readinessTimeoutMs: 60000,
+      intervalMs: 10000,
+      failureThreshold: 3,
+    },
+    restartPolicy: {
+      mode: "never",
+      maxRetries: 5,
+      backoffMs: 1000,
+      maxBackoffMs: 30000,
+      watchPatterns: [],
+    },
   },
   monitor: {
     pollIntervalActive: 2000,
@@ -91,6 +109,7 @@ export const DEFAULT_CONFIG: CanopyConfig = {
     pollIntervalMax: 30000,
     adaptiveBackoff: true,
     circuitBreakerThreshold: 3,
+    gitStatusConcurrency: 4,
   },
   ai: {
     summaryDebounceMs: 10000,
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getDirectorySize } from "../diskUsage.js";
+
+describe("getDirectorySize", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "canopy-disk-usage-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should add up files in nested directories", async () => {
+    await writeFile(join(dir, "a.txt"), "x".repeat(100));
+    await mkdir(join(dir, "node_modules", "pkg"), { recursive: true });
+    await writeFile(join(dir, "node_modules", "pkg", "index.js"), "y".repeat(250));
+
+    expect(await getDirectorySize(dir)).toBe(350);
+  });
+
+  it("should not follow symlinks", async () => {
+    const outside = await mkdtemp(join(tmpdir(), "canopy-disk-usage-outside-"));
+    try {
+      await writeFile(join(outside, "big.bin"), Buffer.alloc(10000));
+      await writeFile(join(dir, "a.txt"), "x".repeat(10));
+      await symlink(outside, join(dir, "linked"));
+
+      expect(await getDirectorySize(dir)).toBe(10);
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("should count a missing directory as empty", async () => {
+    expect(await getDirectorySize(join(dir, "missing"))).toBe(0);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile, realpath } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { simpleGit } from "simple-git";
+import {
+  clearWorktreeCache,
+  forgetGitRoot,
+  getWorktreeChangesWithStats,
+  parsePorcelainV2Status,
+} from "../git.js";
+
+describe("parsePorcelainV2Status", () => {
+  it("should parse ordinary, renamed, unmerged and untracked entries", () => {
+    const output = [
+      "# branch.oid 1234",
+      "1 .M N... 100644 100644 100644 aaa bbb src/file with spaces.ts",
+      "1 A. N... 000000 100644 100644 000 ccc added.ts",
+      "2 R. N... 100644 100644 100644 ddd ddd R100 new name.ts",
+      "old name.ts",
+      "u UU N... 100644 100644 100644 100644 e1 e2 e3 conflict.ts",
+      "? notes/todo.md",
+      "! ignored.log",
+      "",
+    ].join("\0");
+
+    expect(parsePorcelainV2Status(output)).toEqual([
+      { path: "src/file with spaces.ts", index: ".", workingTree: "M", kind: "ordinary" },
+      { path: "added.ts", index: "A", workingTree: ".", kind: "ordinary" },
+      {
+        path: "new name.ts",
+        originalPath: "old name.ts",
+        index: "R",
+        workingTree: ".",
+        kind: "renamed",
+      },
+      { path: "conflict.ts", index: "U", workingTree: "U", kind: "unmerged" },
+      { path: "notes/todo.md", index: "?", workingTree: "?", kind: "untracked" },
+    ]);
+  });
+});
+
+describe("getWorktreeChangesWithStats", () => {
+  let repoPath: string;
+
+  beforeEach(async () => {
+    repoPath = await realpath(await mkdtemp(join(tmpdir(), "canopy-status-test-")));
+    const git = simpleGit(repoPath);
+    await git.init();
+    await git.addConfig("user.email", "test@example.com");
+    await git.addConfig("user.name", "Test");
+    await writeFile(join(repoPath, "keep.txt"), "one\ntwo\n");
+    await writeFile(join(repoPath, "old.txt"), "rename me\n");
+    await writeFile(join(repoPath, "gone.txt"), "bye\n");
+    await git.add(".");
+    await git.commit("Initial commit");
+  });
+
+  afterEach(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("should report statuses, line counts and staged state from one status call", async () => {
+    const git = simpleGit(repoPath);
+    await writeFile(join(repoPath, "keep.txt"), "one\ntwo\nthree\n");
+    await git.mv("old.txt", "renamed file.txt");
+    await git.rm("gone.txt");
+    await writeFile(join(repoPath, "new file.md"), "a\nb\n");
+
+    const result = await getWorktreeChangesWithStats(repoPath, true);
+    const byPath = Object.fromEntries(
+      result.changes.map((change) => [change.path.slice(repoPath.length + 1), change])
+    );
+
+    expect(result.changedFileCount).toBe(4);
+    expect(byPath["keep.txt"]).toMatchObject({
+      status: "modified",
+      insertions: 1,
+      deletions: 0,
+      staged: "none",
+    });
+    expect(byPath["renamed file.txt"]).toMatchObject({ status: "renamed", staged: "all" });
+    expect(byPath["gone.txt"]).toMatchObject({ status: "deleted", deletions: 1, staged: "all" });
+    expect(byPath["new file.md"]).toMatchObject({ status: "untracked", insertions: 2 });
+  });
+
+  it("should list an untracked directory once rather than every file in it", async () => {
+    await mkdir(join(repoPath, "build"));
+    await writeFile(join(repoPath, "build", "a.js"), "a\n");
+    await writeFile(join(repoPath, "build", "b.js"), "b\n");
+
+    const result = await getWorktreeChangesWithStats(repoPath, true);
+
+    expect(result.changes.map((change) => change.path)).toEqual([join(repoPath, "build")]);
+    expect(result.changes[0]).toMatchObject({ status: "untracked", insertions: null });
+  });
+
+  it("should refresh line stats when a modified file is edited again", async () => {
+    await writeFile(join(repoPath, "keep.txt"), "one\ntwo\nthree\n");
+    const first = await getWorktreeChangesWithStats(repoPath, true);
+    expect(first.changes[0]).toMatchObject({ status: "modified", insertions: 1 });
+
+    // Same status line as before; only the file's content moved on
+    await writeFile(join(repoPath, "keep.txt"), "one\ntwo\nthree\nfour\n");
+    const second = await getWorktreeChangesWithStats(repoPath, true);
+    expect(second.changes[0]).toMatchObject({ status: "modified", insertions: 2 });
+  });
+
+  it("should look up the repository root again once a path is forgotten", async () => {
+    const subPath = join(repoPath, "sub");
+    await mkdir(subPath);
+    expect((await getWorktreeChangesWithStats(subPath, true)).rootPath).toBe(repoPath);
+
+    // The same path now holds a repository of its own
+    await simpleGit(subPath).init();
+    expect((await getWorktreeChangesWithStats(subPath, true)).rootPath).toBe(repoPath);
+
+    forgetGitRoot(subPath);
+    expect((await getWorktreeChangesWithStats(subPath, true)).rootPath).toBe(subPath);
+
+    await rm(join(subPath, ".git"), { recursive: true, force: true });
+    clearWorktreeCache();
+    expect((await getWorktreeChangesWithStats(subPath, true)).rootPath).toBe(repoPath);
+  });
+});
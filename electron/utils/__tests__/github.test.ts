@@ -0,0 +1,227 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  batchCheckLinkedPRs,
+  buildPullRequestDraft,
+  createPullRequest,
+  listOpenIssues,
+  setGhCommandRunner,
+} from "../github.js";
+
+describe("listOpenIssues", () => {
+  afterEach(() => {
+    setGhCommandRunner();
+  });
+
+  it("should map gh output, newest first, and pass the search query", async () => {
+    const calls: string[][] = [];
+    setGhCommandRunner(async (args) => {
+      calls.push(args);
+      return JSON.stringify([
+        {
+          number: 3,
+          title: "Older",
+          body: null,
+          url: "https://github.com/o/r/issues/3",
+          labels: [],
+          author: null,
+          updatedAt: "2024-01-01T00:00:00Z",
+        },
+        {
+          number: 7,
+          title: "Newer",
+          body: "Details",
+          url: "https://github.com/o/r/issues/7",
+          labels: [{ name: "bug" }],
+          author: { login: "octocat" },
+          updatedAt: "2024-02-01T00:00:00Z",
+        },
+      ]);
+    });
+
+    const result = await listOpenIssues("/repo", { search: " label:bug ", limit: 10 });
+
+    expect(calls[0]).toEqual([
+      "issue",
+      "list",
+      "--state",
+      "open",
+      "--json",
+      "number,title,body,url,labels,author,updatedAt",
+      "--limit",
+      "10",
+      "--search",
+      "label:bug",
+    ]);
+    expect(result.error).toBeUndefined();
+    expect(result.issues.map((issue) => issue.number)).toEqual([7, 3]);
+    expect(result.issues[0]).toMatchObject({ labels: ["bug"], author: "octocat" });
+    expect(result.issues[1]).toMatchObject({ body: "", author: undefined });
+  });
+
+  it("should report gh failures instead of throwing", async () => {
+    setGhCommandRunner(async () => {
+      throw Object.assign(new Error("spawn gh ENOENT"), { code: "ENOENT" });
+    });
+    expect(await listOpenIssues("/repo")).toEqual({ issues: [], error: "gh CLI not installed" });
+
+    setGhCommandRunner(async () => {
+      throw Object.assign(new Error("failed"), { stderr: "To get started, run: gh auth login" });
+    });
+    expect((await listOpenIssues("/repo")).error).toBe("gh auth required - run: gh auth login");
+  });
+});
+
+describe("createPullRequest", () => {
+  afterEach(() => {
+    setGhCommandRunner();
+  });
+
+  it("should pass draft and reviewers and parse the PR from gh output", async () => {
+    const calls: string[][] = [];
+    setGhCommandRunner(async (args) => {
+      calls.push(args);
+      return "Creating pull request for feature/x into main\n\nhttps://github.com/o/r/pull/42\n";
+    });
+
+    const pr = await createPullRequest("/repo", {
+      title: "Add x",
+      body: "Closes #7",
+      base: "main",
+      head: "feature/x",
+      draft: true,
+      reviewers: ["octocat", "o/team"],
+    });
+
+    expect(calls[0]).toEqual([
+      "pr",
+      "create",
+      "--title",
+      "Add x",
+      "--body",
+      "Closes #7",
+      "--base",
+      "main",
+      "--head",
+      "feature/x",
+      "--draft",
+      "--reviewer",
+      "octocat",
+      "--reviewer",
+      "o/team",
+    ]);
+    expect(pr).toEqual({
+      number: 42,
+      url: "https://github.com/o/r/pull/42",
+      state: "open",
+      isDraft: true,
+    });
+  });
+
+  it("should surface gh's error message", async () => {
+    setGhCommandRunner(async () => {
+      throw Object.assign(new Error("exit 1"), {
+        stderr: 'a pull request for branch "feature/x" into branch "main" already exists\n',
+      });
+    });
+
+    await expect(
+      createPullRequest("/repo", { title: "t", body: "", base: "main", head: "feature/x" })
+    ).rejects.toThrow('a pull request for branch "feature/x" into branch "main" already exists');
+  });
+});
+
+describe("buildPullRequestDraft", () => {
+  it("should prefer the issue title and link the issue", () => {
+    const draft = buildPullRequestDraft({
+      branch: "feature/issue-7-add-x",
+      issue: { number: 7, title: "Add x" },
+      summary: "✨ Adding the x widget",
+      commits: ["Wire up x", "Scaffold x"],
+    });
+
+    expect(draft.title).toBe("Add x");
+    expect(draft.body).toBe(
+      "Closes #7\n\n## Summary\n\n✨ Adding the x widget\n\n## Commits\n\n- Wire up x\n- Scaffold x"
+    );
+  });
+
+  it("should fall back to the summary, then the latest commit, then the branch name", () => {
+    expect(
+      buildPullRequestDraft({ branch: "feature/x", summary: "✨ Adding the x widget", commits: [] })
+        .title
+    ).toBe("Adding the x widget");
+
+    const fromCommit = buildPullRequestDraft({
+      branch: "feature/x",
+      summary: "✅ Wire up x",
+      commits: ["Wire up x"],
+    });
+    expect(fromCommit.title).toBe("Wire up x");
+    expect(fromCommit.body).toBe("## Commits\n\n- Wire up x");
+
+    expect(
+      buildPullRequestDraft({ branch: "feature/issue-7-fix-login_flow", commits: [] }).title
+    ).toBe("Fix login flow");
+  });
+});
+
+describe("batchCheckLinkedPRs", () => {
+  afterEach(() => {
+    setGhCommandRunner();
+  });
+
+  it("should parse review decision, requested reviewers, threads and CI rollup", async () => {
+    const queries: string[] = [];
+    setGhCommandRunner(async (args) => {
+      if (args[0] === "repo") return "o/r";
+      queries.push(args[3]);
+      return JSON.stringify({
+        data: {
+          wt_0_branch: {
+            pullRequests: {
+              nodes: [
+                {
+                  number: 9,
+                  url: "https://github.com/o/r/pull/9",
+                  state: "OPEN",
+                  isDraft: false,
+                  merged: false,
+                  reviewDecision: "CHANGES_REQUESTED",
+                  reviewRequests: {
+                    nodes: [
+                      { requestedReviewer: { login: "octocat" } },
+                      { requestedReviewer: { slug: "core" } },
+                    ],
+                  },
+                  reviewThreads: {
+                    nodes: [{ isResolved: false }, { isResolved: true }, { isResolved: false }],
+                  },
+                  commits: { nodes: [{ commit: { statusCheckRollup: { state: "ERROR" } } }] },
+                },
+              ],
+            },
+          },
+        },
+      });
+    });
+
+    const result = await batchCheckLinkedPRs("/repo-status", [
+      { worktreeId: "wt", branchName: "feature/x" },
+    ]);
+
+    expect(queries[0]).toContain("statusCheckRollup");
+    expect(result.error).toBeUndefined();
+    expect(result.results.get("wt")?.pr).toEqual({
+      number: 9,
+      url: "https://github.com/o/r/pull/9",
+      state: "open",
+      isDraft: false,
+      status: {
+        reviewDecision: "changes_requested",
+        requestedReviewers: ["octocat", "core"],
+        unresolvedThreadCount: 2,
+        checkStatus: "failure",
+      },
+    });
+  });
+});
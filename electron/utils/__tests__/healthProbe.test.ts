@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { probeHttp, probeTcp } from "../healthProbe.js";
+
+describe("healthProbe", () => {
+  let server: http.Server;
+  let port: number;
+  let closedPort: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url === "/health" ? 204 : 500;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "localhost", resolve));
+    port = (server.address() as AddressInfo).port;
+
+    // A port that was free a moment ago
+    const probe = http.createServer();
+    await new Promise<void>((resolve) => probe.listen(0, "localhost", resolve));
+    closedPort = (probe.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => probe.close(() => resolve()));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should connect over TCP", async () => {
+    expect(await probeTcp(port, 1000)).toMatchObject({ ok: true });
+    expect(await probeTcp(closedPort, 1000)).toMatchObject({ ok: false, error: "ECONNREFUSED" });
+  });
+
+  it("should check the HTTP status", async () => {
+    expect(await probeHttp(port, "/health", 1000)).toMatchObject({ ok: true });
+    expect(await probeHttp(port, "/health", 1000, 200)).toMatchObject({
+      ok: false,
+      error: "HTTP 204",
+    });
+    expect(await probeHttp(port, "/", 1000)).toMatchObject({ ok: false, error: "HTTP 500" });
+    expect(await probeHttp(closedPort, "/", 1000)).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+const { userDataDir, storeValues, ptyProcesses } = vi.hoisted(() => ({
+  userDataDir: { path: "" },
+  storeValues: new Map<string, unknown>(),
+  ptyProcesses: [] as Array<{ emit: (data: string) => void }>,
+}));
+userDataDir.path = mkdtempSync(path.join(tmpdir(), "canopy-terminal-state-"));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => userDataDir.path },
+}));
+
+vi.mock("../../store.js", () => ({
+  store: {
+    get: (key: string, fallback?: unknown) =>
+      storeValues.has(key) ? storeValues.get(key) : fallback,
+    set: (key: string, value: unknown) => storeValues.set(key, value),
+  },
+}));
+
+// A PTY that only echoes what the test feeds it
+vi.mock("node-pty", () => ({
+  spawn: () => {
+    const listeners: Array<(data: string) => void> = [];
+    ptyProcesses.push({ emit: (data) => listeners.forEach((listener) => listener(data)) });
+    return {
+      pid: 1234,
+      onData: (listener: (data: string) => void) => listeners.push(listener),
+      onExit: () => {},
+      write: () => {},
+      resize: () => {},
+      kill: () => {},
+    };
+  },
+}));
+
+const { PtyManager } = await import("../../services/PtyManager.js");
+const { projectStore } = await import("../../services/ProjectStore.js");
+const { persistTerminalState, getPersistedScrollback } = await import("../terminalState.js");
+
+const PROJECT_ID = "a".repeat(64);
+const OTHER_PROJECT_ID = "b".repeat(64);
+
+function spawnTerminal(manager: InstanceType<typeof PtyManager>, id: string, scrollback?: string) {
+  manager.spawn(id, {
+    cwd: userDataDir.path,
+    shell: "/bin/sh",
+    cols: 80,
+    rows: 24,
+    restoredScrollback: scrollback,
+  });
+  return ptyProcesses[ptyProcesses.length - 1];
+}
+
+// Serialized output only settles once the headless mirror has parsed it
+async function flush(manager: InstanceType<typeof PtyManager>, id: string): Promise<void> {
+  await manager.getSerializedSnapshot(id);
+}
+
+describe("terminalState", () => {
+  let manager: InstanceType<typeof PtyManager>;
+
+  beforeEach(() => {
+    storeValues.clear();
+    storeValues.set("projects.currentProjectId", PROJECT_ID);
+    ptyProcesses.length = 0;
+    manager = new PtyManager();
+  });
+
+  afterAll(() => {
+    rmSync(userDataDir.path, { recursive: true, force: true });
+  });
+
+  it("should save scrollback and replay it as restored history", async () => {
+    spawnTerminal(manager, "term-1").emit("echo hello\r\nhello\r\n");
+    await flush(manager, "term-1");
+
+    await persistTerminalState(manager);
+
+    expect(storeValues.get("appState.terminals")).toEqual([
+      expect.objectContaining({ id: "term-1", type: "shell" }),
+    ]);
+    const scrollback = await getPersistedScrollback("term-1");
+    expect(scrollback).toContain("hello");
+
+    manager.dispose();
+    const restored = new PtyManager();
+    spawnTerminal(restored, "term-1", scrollback);
+    const snapshot = await restored.getSerializedSnapshot("term-1");
+    expect(snapshot).toContain("Restored history from previous session");
+    expect(snapshot).toContain("hello");
+    expect(snapshot).toContain("End of restored history");
+    restored.dispose();
+  });
+
+  it("should keep only the last 1000 lines of scrollback", async () => {
+    const pty = spawnTerminal(manager, "term-1");
+    pty.emit(Array.from({ length: 1500 }, (_, i) => `line ${i + 1}`).join("\r\n"));
+    await flush(manager, "term-1");
+
+    await persistTerminalState(manager);
+
+    const lines = (await getPersistedScrollback("term-1"))!.split(/\r?\n/);
+    expect(lines.length).toBeLessThanOrEqual(1000 + 24);
+    expect(lines).not.toContain("line 1");
+    expect(lines[lines.length - 1]).toBe("line 1500");
+    manager.dispose();
+  });
+
+  it("should save the given project's own active worktree", async () => {
+    spawnTerminal(manager, "term-1");
+    storeValues.set("appState.activeWorktreeId", "/incoming/worktree");
+
+    await persistTerminalState(manager, OTHER_PROJECT_ID, "/outgoing/worktree");
+    expect((await projectStore.getProjectState(OTHER_PROJECT_ID))?.activeWorktreeId).toBe(
+      "/outgoing/worktree"
+    );
+
+    // Without one, the project keeps the worktree it saved last
+    await persistTerminalState(manager, OTHER_PROJECT_ID);
+    expect((await projectStore.getProjectState(OTHER_PROJECT_ID))?.activeWorktreeId).toBe(
+      "/outgoing/worktree"
+    );
+    manager.dispose();
+  });
+});
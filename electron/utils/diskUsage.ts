@@ -0,0 +1,48 @@
+/**
+ * Disk Usage Utility
+ *
+ * Measures how much space a directory tree occupies on disk.
+ */
+
+import type { Dirent } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * Get the total size of all files under a directory, in bytes.
+ * Symlinks are not followed and unreadable entries are skipped.
+ *
+ * @param dirPath - Absolute path to the directory
+ * @returns Total size in bytes
+ */
+export async function getDirectorySize(dirPath: string): Promise<number> {
+  let total = 0;
+  const pending = [dirPath];
+
+  // Iterative walk keeps deep trees (node_modules) off the call stack
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile()) {
+        try {
+          total += (await fs.lstat(entryPath)).size;
+        } catch {
+          // File vanished or is unreadable
+        }
+      }
+    }
+  }
+
+  return total;
+}
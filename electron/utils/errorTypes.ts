@@ -75,6 +75,15 @@ export class WatcherError extends CanopyError {
   }
 }
 
+/**
+ * Forge API request failed (GitLab/Gitea REST: auth, not found, rejected, unreachable)
+ */
+export class ForgeError extends CanopyError {
+  constructor(message: string, context?: Record<string, unknown>, cause?: Error) {
+    super(message, context, cause);
+  }
+}
+
 /**
  * Check if error is a specific Canopy error type
  */
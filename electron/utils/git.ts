@@ -1,7 +1,15 @@
 import { dirname, resolve } from "path";
 import { realpathSync, promises as fs } from "fs";
-import { simpleGit, SimpleGit, StatusResult } from "simple-git";
-import type { FileChangeDetail, GitStatus, WorktreeChanges } from "../types/index.js";
+import { simpleGit, SimpleGit } from "simple-git";
+import type {
+  BranchDivergence,
+  FileChangeDetail,
+  GitStagedState,
+  GitStatus,
+  WorktreeChanges,
+  WorktreeSyncOperation,
+  WorktreeSyncStatus,
+} from "../types/index.js";
 import { GitError, WorktreeRemovedError } from "./errorTypes.js";
 import { logWarn, logError } from "./logger.js";
 import { Cache } from "./cache.js";
@@ -12,6 +20,12 @@ const GIT_WORKTREE_CHANGES_CACHE = new Cache<string, WorktreeChanges>({
   defaultTTL: 5000,
 });
 
+// Repository top-level per worktree directory (never changes for a given directory)
+const GIT_ROOT_CACHE = new Map<string, string>();
+
+// Last numstat output per worktree directory, keyed by the status and file stats it was read for
+const NUMSTAT_CACHE = new Map<string, { signature: string; output: string }>();
+
 let cleanupInterval: NodeJS.Timeout | null = null;
 
 function runCacheCleanup(): void {
@@ -52,11 +66,139 @@ export function invalidateWorktreeCache(cwd: string): void {
 export { invalidateWorktreeCache as invalidateGitStatusCache };
 
 /**
- * Clear all worktree changes caches.
+ * Clear all worktree changes caches, including cached repository roots.
  * Useful when switching worktrees.
  */
 export function clearWorktreeCache(): void {
   GIT_WORKTREE_CHANGES_CACHE.clear();
+  GIT_ROOT_CACHE.clear();
+  NUMSTAT_CACHE.clear();
+}
+
+/**
+ * Forget the cached repository root of a directory (e.g. once its worktree is
+ * removed), so whatever is later checked out at the same path is looked up again.
+ *
+ * @param cwd - Directory to forget
+ */
+export function forgetGitRoot(cwd: string): void {
+  GIT_ROOT_CACHE.delete(cwd);
+}
+
+/**
+ * Get cached worktree changes without running git.
+ *
+ * @param cwd - Worktree directory
+ * @returns A copy of the cached changes, or undefined if missing or expired
+ */
+export function getCachedWorktreeChanges(cwd: string): WorktreeChanges | undefined {
+  const cached = GIT_WORKTREE_CHANGES_CACHE.get(cwd);
+  if (!cached) {
+    return undefined;
+  }
+  return {
+    ...cached,
+    changes: cached.changes.map((change) => ({ ...change })),
+  };
+}
+
+/** Entry from `git status --porcelain=v2 -z` */
+export interface PorcelainStatusEntry {
+  /** Path relative to the repository root */
+  path: string;
+  /** Source path of a rename or copy */
+  originalPath?: string;
+  /** Index (X) status code; "." means unmodified */
+  index: string;
+  /** Working tree (Y) status code; "." means unmodified */
+  workingTree: string;
+  kind: "ordinary" | "renamed" | "unmerged" | "untracked";
+}
+
+// Space-separated fields before the path, by entry type
+const PORCELAIN_V2_FIELD_COUNTS: Record<string, number> = { "1": 8, "2": 9, u: 10 };
+
+/**
+ * Parse `git status --porcelain=v2 -z` output. Header (`#`) and ignored (`!`) entries are skipped.
+ *
+ * @param output - Raw NUL-separated command output
+ * @returns Changed and untracked files
+ */
+export function parsePorcelainV2Status(output: string): PorcelainStatusEntry[] {
+  const entries: PorcelainStatusEntry[] = [];
+  const records = output.split("\0");
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const type = record[0];
+
+    if (type === "?") {
+      entries.push({ path: record.slice(2), index: "?", workingTree: "?", kind: "untracked" });
+      continue;
+    }
+
+    const fieldCount = PORCELAIN_V2_FIELD_COUNTS[type];
+    if (fieldCount === undefined) {
+      continue;
+    }
+
+    // Paths may contain spaces, so split off the fixed fields only
+    let rest = record;
+    const fields: string[] = [];
+    for (let f = 0; f < fieldCount; f++) {
+      const space = rest.indexOf(" ");
+      if (space === -1) break;
+      fields.push(rest.slice(0, space));
+      rest = rest.slice(space + 1);
+    }
+    if (fields.length < fieldCount) {
+      continue;
+    }
+
+    const [index, workingTree] = fields[1];
+    if (type === "2") {
+      // Renames and copies are followed by the original path as its own record
+      entries.push({ path: rest, originalPath: records[++i], index, workingTree, kind: "renamed" });
+    } else {
+      entries.push({
+        path: rest,
+        index,
+        workingTree,
+        kind: type === "u" ? "unmerged" : "ordinary",
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Map a porcelain entry to the single status shown for the file.
+ * Conflicted files show as modified.
+ */
+function getEntryStatus(entry: PorcelainStatusEntry): GitStatus {
+  switch (entry.kind) {
+    case "untracked":
+      return "untracked";
+    case "unmerged":
+      return "modified";
+    case "renamed":
+      return entry.index === "C" ? "added" : "renamed";
+    default:
+      if (entry.index === "A") return "added";
+      if (entry.index === "D" || entry.workingTree === "D") return "deleted";
+      return "modified";
+  }
+}
+
+async function getGitRoot(git: SimpleGit, cwd: string): Promise<string> {
+  const cached = GIT_ROOT_CACHE.get(cwd);
+  if (cached) {
+    return cached;
+  }
+  const gitRoot = realpathSync((await git.revparse(["--show-toplevel"])).trim());
+  GIT_ROOT_CACHE.set(cwd, gitRoot);
+  return gitRoot;
 }
 
 interface DiffStat {
@@ -123,6 +265,130 @@ export async function getCommitCount(cwd: string): Promise<number> {
   }
 }
 
+/**
+ * Parse `git rev-list --left-right --count A...B` output ("<left>\t<right>").
+ * @param output - Raw command output
+ * @returns Divergence where ahead is the left side, or undefined if unparseable
+ */
+export function parseLeftRightCount(output: string): BranchDivergence | undefined {
+  const [ahead, behind] = output.trim().split(/\s+/).map(Number);
+  if (!Number.isInteger(ahead) || !Number.isInteger(behind)) {
+    return undefined;
+  }
+  return { ahead, behind };
+}
+
+async function resolveRef(git: SimpleGit, ref: string): Promise<boolean> {
+  try {
+    await git.raw(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function countDivergence(git: SimpleGit, ref: string): Promise<BranchDivergence | undefined> {
+  const output = await git.raw(["rev-list", "--left-right", "--count", `HEAD...${ref}`]);
+  return parseLeftRightCount(output);
+}
+
+/**
+ * Compute how far HEAD has diverged from its upstream and from the main branch.
+ * Only local refs are compared - nothing is fetched.
+ *
+ * @param cwd - Worktree directory
+ * @param mainBranch - Main branch name; the local branch is used if present, else origin/<mainBranch>
+ * @param branch - Current branch (main divergence is skipped when it is the main branch)
+ * @returns Sync status (fields are omitted when the ref doesn't exist)
+ */
+export async function getBranchSyncStatus(
+  cwd: string,
+  mainBranch: string,
+  branch?: string
+): Promise<WorktreeSyncStatus> {
+  const git = simpleGit(cwd);
+  const status: WorktreeSyncStatus = {};
+
+  if (!branch) {
+    return status;
+  }
+
+  try {
+    const upstream = (
+      await git.raw(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"])
+    ).trim();
+    if (upstream) {
+      status.upstream = upstream;
+      status.upstreamDivergence = await countDivergence(git, upstream);
+    }
+  } catch {
+    // No upstream configured (or it was deleted on the remote)
+  }
+
+  if (branch !== mainBranch) {
+    const candidates = [mainBranch, `origin/${mainBranch}`];
+    for (const ref of candidates) {
+      if (await resolveRef(git, ref)) {
+        try {
+          status.mainRef = ref;
+          status.mainDivergence = await countDivergence(git, ref);
+        } catch (error) {
+          logWarn("Failed to compare branch with main", {
+            cwd,
+            ref,
+            error: (error as Error).message,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return status;
+}
+
+async function gitPathExists(gitDir: string, name: string): Promise<boolean> {
+  try {
+    await fs.access(resolve(gitDir, name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect a rebase or merge in progress and list its unresolved files.
+ *
+ * @param cwd - Worktree directory
+ * @param gitDir - The worktree's git directory, if already known (saves a git call)
+ * @returns The operation, or undefined if none is in progress
+ */
+export async function getSyncOperation(
+  cwd: string,
+  gitDir?: string
+): Promise<WorktreeSyncOperation | undefined> {
+  const git = simpleGit(cwd);
+  const dir = resolve(cwd, gitDir ?? (await git.revparse(["--git-dir"])).trim());
+
+  let kind: WorktreeSyncOperation["kind"];
+  if ((await gitPathExists(dir, "rebase-merge")) || (await gitPathExists(dir, "rebase-apply"))) {
+    kind = "rebase";
+  } else if (await gitPathExists(dir, "MERGE_HEAD")) {
+    kind = "merge";
+  } else {
+    return undefined;
+  }
+
+  const conflicted = await git.raw(["diff", "--name-only", "--diff-filter=U"]);
+  return {
+    kind,
+    conflictedFiles: conflicted
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean),
+  };
+}
+
 /**
  * Fetch worktree changes enriched with insertion/deletion counts.
  * Includes caching with the same TTL as basic status.
@@ -161,23 +427,50 @@ export async function getWorktreeChangesWithStats(
 
   try {
     const git: SimpleGit = simpleGit(cwd);
-    const status: StatusResult = await git.status();
-    const gitRoot = realpathSync((await git.revparse(["--show-toplevel"])).trim());
+    // One status call covers index, working tree and untracked files (-z keeps paths verbatim).
+    // Untracked directories are listed once rather than file by file.
+    const statusOutput = await git.raw([
+      "status",
+      "--porcelain=v2",
+      "-z",
+      "--untracked-files=normal",
+    ]);
+    const entries = parsePorcelainV2Status(statusOutput);
+    const gitRoot = await getGitRoot(git, cwd);
 
     // Collect all tracked changed files for numstat (excludes untracked)
-    const trackedChangedFiles = [
-      ...status.modified,
-      ...status.created,
-      ...status.deleted,
-      ...status.renamed.map((r) => r.to),
-    ];
+    const trackedEntries = entries.filter((entry) => entry.kind !== "untracked");
+    const trackedChangedFiles = trackedEntries.map((entry) => entry.path);
 
     let diffOutput = "";
 
+    // Further edits to an already-modified file don't change its status line, so
+    // the numstat is only reused while the changed files' sizes and mtimes hold too
+    const numstatSignature =
+      trackedChangedFiles.length === 0
+        ? ""
+        : statusOutput +
+          (
+            await Promise.all(
+              trackedChangedFiles.slice(0, MAX_FILES_FOR_NUMSTAT).map(async (file) => {
+                try {
+                  const stat = await fs.stat(resolve(gitRoot, file));
+                  return `${stat.size}:${stat.mtimeMs}`;
+                } catch {
+                  return "-";
+                }
+              })
+            )
+          ).join("\0");
+    const cachedNumstat = NUMSTAT_CACHE.get(cwd);
+
     try {
       if (trackedChangedFiles.length === 0) {
         // No tracked changes - skip numstat entirely
         diffOutput = "";
+      } else if (cachedNumstat?.signature === numstatSignature) {
+        // Nothing changed since the last numstat - reuse it
+        diffOutput = cachedNumstat.output;
       } else if (trackedChangedFiles.length <= MAX_FILES_FOR_NUMSTAT) {
         // Small changeset - run numstat on all files
         diffOutput = await git.diff(["--numstat", "HEAD"]);
@@ -192,6 +485,7 @@ export async function getWorktreeChangesWithStats(
           limitedTo: MAX_FILES_FOR_NUMSTAT,
         });
       }
+      NUMSTAT_CACHE.set(cwd, { signature: numstatSignature, output: diffOutput });
     } catch (error) {
       logWarn("Failed to read numstat diff; continuing without line stats", {
         cwd,
@@ -202,6 +496,17 @@ export async function getWorktreeChangesWithStats(
     const diffStats = parseNumstat(diffOutput, gitRoot);
     const changesMap = new Map<string, FileChangeDetail>();
 
+    // Index (X) and working tree (Y) columns of the porcelain status, by path
+    const stagedStates = new Map<string, GitStagedState>();
+    for (const entry of trackedEntries) {
+      const inIndex = entry.index !== ".";
+      const inWorkingTree = entry.workingTree !== ".";
+      stagedStates.set(
+        resolve(gitRoot, entry.path),
+        inIndex ? (inWorkingTree ? "partial" : "all") : "none"
+      );
+    }
+
     /**
      * Helper to count lines in a file by reading from filesystem.
      * Used for untracked files where git diff doesn't provide stats.
@@ -283,38 +588,21 @@ export async function getWorktreeChangesWithStats(
         status: statusValue,
         insertions,
         deletions,
+        staged: stagedStates.get(absolutePath) ?? "none",
       });
     };
 
     // Process tracked files sequentially (no filesystem reads needed)
-    for (const file of status.modified) {
-      await addChange(file, "modified");
-    }
-
-    for (const file of status.renamed) {
-      if (typeof file !== "string" && file.to) {
-        await addChange(file.to, "renamed");
-      }
-    }
-
-    for (const file of status.created) {
-      await addChange(file, "added");
-    }
-
-    for (const file of status.deleted) {
-      await addChange(file, "deleted");
-    }
-
-    if (status.conflicted) {
-      for (const file of status.conflicted) {
-        await addChange(file, "modified");
-      }
+    for (const entry of trackedEntries) {
+      await addChange(entry.path, getEntryStatus(entry));
     }
 
     // Process untracked files in parallel with bounded concurrency (max 10 at once)
     // to avoid blocking on filesystem reads while preventing memory issues
     // PERF: Also limit total untracked files processed to prevent CPU hang on massive repos
-    const untrackedFiles = status.not_added;
+    const untrackedFiles = entries
+      .filter((entry) => entry.kind === "untracked")
+      .map((entry) => entry.path);
     const MAX_UNTRACKED_FILES = 200; // Limit untracked file processing
     const concurrencyLimit = 10;
 
@@ -6,6 +6,63 @@
  */
 
 import { execa } from "execa";
+import type {
+  GitHubIssue,
+  GitHubIssueListResult,
+  GitHubReviewComment,
+  GitHubReviewThread,
+  GitHubReviewThreadListResult,
+  PullRequestCheckStatus,
+  PullRequestReviewDecision,
+  PullRequestStatus,
+} from "../types/index.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Command Runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Runs `gh` with the given arguments and resolves with its stdout.
+ * Rejects with an execa-style error (`code`, `stderr`) on failure.
+ */
+export type GhCommandRunner = (args: string[], cwd: string) => Promise<string>;
+
+const defaultGhRunner: GhCommandRunner = async (args, cwd) => {
+  const { stdout } = await execa("gh", args, { cwd });
+  return stdout;
+};
+
+let ghRunner: GhCommandRunner = defaultGhRunner;
+
+/**
+ * Replace the `gh` runner (tests). Pass nothing to restore the real CLI.
+ */
+export function setGhCommandRunner(runner?: GhCommandRunner): void {
+  ghRunner = runner ?? defaultGhRunner;
+}
+
+/**
+ * Map a failed `gh` invocation to a short, user-facing reason.
+ */
+function describeGhError(error: unknown): string {
+  const err = error as { code?: string; stderr?: string; message?: string } | null;
+  if (err?.code === "ENOENT") {
+    return "gh CLI not installed";
+  }
+
+  const stderr = err?.stderr || err?.message || "";
+
+  if (stderr.includes("auth") || stderr.includes("login") || stderr.includes("token")) {
+    return "gh auth required - run: gh auth login";
+  }
+  if (stderr.includes("Could not resolve to a Repository") || stderr.includes("no git remotes")) {
+    return "not a GitHub repository";
+  }
+  if (stderr.includes("rate limit")) {
+    return "GitHub rate limit exceeded";
+  }
+  return "GitHub API unavailable";
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Repository Statistics
@@ -96,6 +153,82 @@ export async function getRepoStats(cwd: string): Promise<RepoStatsResult> {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Issues
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ISSUE_LIST_FIELDS = "number,title,body,url,labels,author,updatedAt";
+
+/** Shape of one item in `gh issue list --json` output */
+interface GhIssueJson {
+  number?: unknown;
+  title?: unknown;
+  body?: string | null;
+  url?: string;
+  labels?: Array<{ name?: string }>;
+  author?: { login?: string } | null;
+  updatedAt?: string;
+}
+const DEFAULT_ISSUE_LIMIT = 50;
+
+/**
+ * List open issues, most recently updated first.
+ * @param cwd - Working directory
+ * @param options - Optional GitHub search query and result limit
+ * @returns Issues, or an empty list with an error message
+ */
+export async function listOpenIssues(
+  cwd: string,
+  options: { search?: string; limit?: number } = {}
+): Promise<GitHubIssueListResult> {
+  const args = [
+    "issue",
+    "list",
+    "--state",
+    "open",
+    "--json",
+    ISSUE_LIST_FIELDS,
+    "--limit",
+    String(options.limit ?? DEFAULT_ISSUE_LIMIT),
+  ];
+  if (options.search?.trim()) {
+    args.push("--search", options.search.trim());
+  }
+
+  let stdout: string;
+  try {
+    stdout = await ghRunner(args, cwd);
+  } catch (error) {
+    return { issues: [], error: describeGhError(error) };
+  }
+
+  try {
+    const raw: unknown = JSON.parse(stdout);
+    if (!Array.isArray(raw)) {
+      return { issues: [], error: "unexpected gh output" };
+    }
+
+    const issues: GitHubIssue[] = (raw as GhIssueJson[])
+      .filter((item) => typeof item?.number === "number" && typeof item?.title === "string")
+      .map((item) => ({
+        number: item.number as number,
+        title: item.title as string,
+        body: item.body ?? "",
+        url: item.url ?? "",
+        labels: Array.isArray(item.labels)
+          ? item.labels.map((label) => label?.name).filter((name): name is string => !!name)
+          : [],
+        author: item.author?.login,
+        updatedAt: item.updatedAt ?? "",
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return { issues };
+  } catch {
+    return { issues: [], error: "unexpected gh output" };
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // URL Helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -196,6 +329,8 @@ export interface LinkedPR {
   url: string;
   state: "open" | "merged" | "closed";
   isDraft: boolean;
+  /** Review and CI state (absent until the PR has been fetched from GitHub) */
+  status?: PullRequestStatus;
 }
 
 /**
@@ -237,10 +372,9 @@ export async function getRepoInfo(cwd: string): Promise<{ owner: string; repo: s
   }
 
   try {
-    const { stdout: repoInfo } = await execa(
-      "gh",
+    const repoInfo = await ghRunner(
       ["repo", "view", "--json", "owner,name", "-q", '.owner.login + "/" + .name'],
-      { cwd }
+      cwd
     );
     const [owner, repo] = repoInfo.trim().split("/");
 
@@ -255,6 +389,33 @@ export async function getRepoInfo(cwd: string): Promise<{ owner: string; repo: s
   }
 }
 
+/**
+ * Pull request fields fetched for every candidate PR, including review and CI state.
+ */
+const PR_NODE_FIELDS = `
+  number
+  url
+  state
+  isDraft
+  merged
+  reviewDecision
+  reviewRequests(first: 10) {
+    nodes {
+      requestedReviewer {
+        ... on User { login }
+        ... on Team { slug }
+        ... on Mannequin { login }
+      }
+    }
+  }
+  reviewThreads(first: 100) {
+    nodes { isResolved }
+  }
+  commits(last: 1) {
+    nodes { commit { statusCheckRollup { state } } }
+  }
+`;
+
 /**
  * Build a batched GraphQL query to check multiple issues for linked PRs.
  * Uses aliases to batch multiple issue checks into one API call.
@@ -282,11 +443,7 @@ function buildBatchPRQuery(owner: string, repo: string, candidates: PRCheckCandi
                 ... on CrossReferencedEvent {
                   source {
                     ... on PullRequest {
-                      number
-                      url
-                      state
-                      isDraft
-                      merged
+                      ${PR_NODE_FIELDS}
                     }
                   }
                 }
@@ -306,11 +463,7 @@ function buildBatchPRQuery(owner: string, repo: string, candidates: PRCheckCandi
         ${alias}_branch: repository(owner: "${owner}", name: "${repo}") {
           pullRequests(first: 1, states: [OPEN, MERGED, CLOSED], headRefName: "${escapedBranch}", orderBy: {field: UPDATED_AT, direction: DESC}) {
             nodes {
-              number
-              url
-              state
-              isDraft
-              merged
+              ${PR_NODE_FIELDS}
             }
           }
         }
@@ -321,6 +474,76 @@ function buildBatchPRQuery(owner: string, repo: string, candidates: PRCheckCandi
   return `query { ${issueQueries.join("\n")} ${branchQueries.join("\n")} }`;
 }
 
+/** Shape of a PullRequest node selected with PR_NODE_FIELDS (all fields may be missing) */
+interface GraphQLPullRequestNode {
+  number?: number;
+  url?: string;
+  state?: string;
+  isDraft?: boolean;
+  merged?: boolean;
+  reviewDecision?: string | null;
+  reviewRequests?: {
+    nodes?: Array<{ requestedReviewer?: { login?: string; slug?: string } | null } | null>;
+  };
+  reviewThreads?: { nodes?: Array<{ isResolved?: boolean } | null> };
+  commits?: {
+    nodes?: Array<{ commit?: { statusCheckRollup?: { state?: string } | null } } | null>;
+  };
+}
+
+/**
+ * Map a GraphQL PullRequest node to a LinkedPR, or null if it isn't a PR.
+ */
+function parsePRNode(node: GraphQLPullRequestNode | null | undefined): LinkedPR | null {
+  if (!node?.number || !node?.url) {
+    return null;
+  }
+
+  return {
+    number: node.number,
+    url: node.url,
+    state: node.merged ? "merged" : (node.state?.toLowerCase() as "open" | "closed") || "open",
+    isDraft: node.isDraft ?? false,
+    status: parsePRStatus(node),
+  };
+}
+
+/**
+ * Extract review decision, pending reviewers, unresolved threads and CI rollup from a PR node.
+ */
+function parsePRStatus(node: GraphQLPullRequestNode): PullRequestStatus {
+  const decision = node.reviewDecision ?? "";
+  const reviewDecision = (
+    ["APPROVED", "CHANGES_REQUESTED", "REVIEW_REQUIRED"].includes(decision)
+      ? decision.toLowerCase()
+      : null
+  ) as PullRequestReviewDecision | null;
+
+  const requestedReviewers: string[] = [];
+  for (const request of node.reviewRequests?.nodes ?? []) {
+    const name = request?.requestedReviewer?.login ?? request?.requestedReviewer?.slug;
+    if (typeof name === "string" && name) {
+      requestedReviewers.push(name);
+    }
+  }
+
+  const threads = node.reviewThreads?.nodes ?? [];
+  const unresolvedThreadCount = threads.filter((thread) => thread && !thread.isResolved).length;
+
+  // GitHub rollup states: SUCCESS, PENDING, EXPECTED, FAILURE, ERROR
+  const rollup = node.commits?.nodes?.[0]?.commit?.statusCheckRollup?.state;
+  let checkStatus: PullRequestCheckStatus | null = null;
+  if (rollup === "SUCCESS") {
+    checkStatus = "success";
+  } else if (rollup === "PENDING" || rollup === "EXPECTED") {
+    checkStatus = "pending";
+  } else if (rollup === "FAILURE" || rollup === "ERROR") {
+    checkStatus = "failure";
+  }
+
+  return { reviewDecision, requestedReviewers, unresolvedThreadCount, checkStatus };
+}
+
 /**
  * Parse GraphQL response to extract PR information per worktree.
  */
@@ -341,16 +564,9 @@ function parseBatchPRResponse(
       // Filter for valid PR sources, prefer OPEN > MERGED > CLOSED
       const prs: LinkedPR[] = [];
       for (const node of issueData) {
-        const source = node?.source;
-        if (source?.number && source?.url) {
-          prs.push({
-            number: source.number,
-            url: source.url,
-            state: source.merged
-              ? "merged"
-              : (source.state?.toLowerCase() as "open" | "closed") || "open",
-            isDraft: source.isDraft ?? false,
-          });
+        const pr = parsePRNode(node?.source);
+        if (pr) {
+          prs.push(pr);
         }
       }
 
@@ -372,15 +588,7 @@ function parseBatchPRResponse(
     if (!foundPR) {
       const branchData = data?.[`${alias}_branch`]?.pullRequests?.nodes;
       if (branchData && Array.isArray(branchData) && branchData.length > 0) {
-        const pr = branchData[0];
-        if (pr?.number && pr?.url) {
-          foundPR = {
-            number: pr.number,
-            url: pr.url,
-            state: pr.merged ? "merged" : (pr.state?.toLowerCase() as "open" | "closed") || "open",
-            isDraft: pr.isDraft ?? false,
-          };
-        }
+        foundPR = parsePRNode(branchData[0]);
       }
     }
 
@@ -420,7 +628,7 @@ export async function batchCheckLinkedPRs(
     // Build and execute the batched query
     const query = buildBatchPRQuery(repoInfo.owner, repoInfo.repo, candidates);
 
-    const { stdout } = await execa("gh", ["api", "graphql", "-f", `query=${query}`], { cwd });
+    const stdout = await ghRunner(["api", "graphql", "-f", `query=${query}`], cwd);
 
     const response = JSON.parse(stdout);
 
@@ -451,3 +659,264 @@ export async function batchCheckLinkedPRs(
     return { results: new Map(), error: "GitHub API unavailable" };
   }
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pull Request Creation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Options for opening a pull request with `gh pr create`.
+ */
+export interface CreatePullRequestOptions {
+  title: string;
+  body: string;
+  /** Branch to merge into */
+  base: string;
+  /** Branch with the changes (must already be pushed) */
+  head: string;
+  draft?: boolean;
+  /** GitHub logins or org/team names */
+  reviewers?: string[];
+}
+
+/**
+ * Open a pull request for a pushed branch.
+ * @param cwd - Working directory
+ * @param options - Title, body, branches, draft flag and reviewers
+ * @returns The created PR
+ * @throws Error with gh's message if the PR cannot be created
+ */
+export async function createPullRequest(
+  cwd: string,
+  options: CreatePullRequestOptions
+): Promise<LinkedPR> {
+  const args = [
+    "pr",
+    "create",
+    "--title",
+    options.title,
+    "--body",
+    options.body,
+    "--base",
+    options.base,
+    "--head",
+    options.head,
+  ];
+  if (options.draft) {
+    args.push("--draft");
+  }
+  for (const reviewer of options.reviewers ?? []) {
+    args.push("--reviewer", reviewer);
+  }
+
+  let stdout: string;
+  try {
+    stdout = await ghRunner(args, cwd);
+  } catch (error) {
+    const err = error as { code?: string; stderr?: string; message?: string } | null;
+    if (err?.code === "ENOENT") {
+      throw new Error("GitHub CLI (gh) not found. Please install it.");
+    }
+    throw new Error(err?.stderr?.trim() || err?.message || "Failed to create pull request.");
+  }
+
+  // gh prints the new PR's URL as the last line of output
+  const url = stdout.trim().split("\n").pop()?.trim() ?? "";
+  const match = url.match(/\/pull\/(\d+)/);
+  if (!match) {
+    throw new Error(`Unexpected gh output: ${stdout.trim() || "(empty)"}`);
+  }
+
+  return {
+    number: parseInt(match[1], 10),
+    url,
+    state: "open",
+    isDraft: !!options.draft,
+  };
+}
+
+/**
+ * Look up an issue's title.
+ * @param cwd - Working directory
+ * @param issueNumber - Issue number
+ * @returns The title, or null if gh is unavailable or the issue doesn't exist
+ */
+export async function getIssueTitle(cwd: string, issueNumber: number): Promise<string | null> {
+  try {
+    const stdout = await ghRunner(
+      ["issue", "view", String(issueNumber), "--json", "title", "-q", ".title"],
+      cwd
+    );
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Inputs for prefilling a pull request.
+ */
+export interface PullRequestDraftSource {
+  branch: string;
+  issue?: { number: number; title?: string | null };
+  /** Worktree summary; status placeholders (last commit, idle, errors) are ignored */
+  summary?: string;
+  /** Commit subjects on the branch, newest first */
+  commits: string[];
+}
+
+// Summaries the monitor shows when there is no AI summary
+const PLACEHOLDER_SUMMARY_PREFIXES = ["✅", "🌱", "⚠️"];
+
+/**
+ * Prefill a PR title and body from the linked issue, the worktree summary and the
+ * branch's commits. The title prefers the issue title, then the summary, then the
+ * latest commit, then the branch name.
+ */
+export function buildPullRequestDraft(source: PullRequestDraftSource): {
+  title: string;
+  body: string;
+} {
+  const rawSummary = source.summary?.trim() ?? "";
+  const summary = PLACEHOLDER_SUMMARY_PREFIXES.some((prefix) => rawSummary.startsWith(prefix))
+    ? ""
+    : rawSummary;
+  // AI summaries lead with an emoji, which doesn't belong in a title
+  const summaryTitle = summary.replace(/^[^\p{L}\p{N}]+/u, "").trim();
+  const branchTitle = source.branch
+    .split("/")
+    .pop()!
+    .replace(/^(issue-)?\d+-/, "")
+    .replace(/[-_]+/g, " ")
+    .trim();
+
+  const title =
+    source.issue?.title?.trim() ||
+    summaryTitle ||
+    source.commits[0] ||
+    branchTitle.charAt(0).toUpperCase() + branchTitle.slice(1) ||
+    source.branch;
+
+  const sections: string[] = [];
+  if (source.issue) {
+    sections.push(`Closes #${source.issue.number}`);
+  }
+  if (summary) {
+    sections.push(`## Summary\n\n${summary}`);
+  }
+  if (source.commits.length > 0) {
+    sections.push(`## Commits\n\n${source.commits.map((subject) => `- ${subject}`).join("\n")}`);
+  }
+
+  return { title, body: sections.join("\n\n") };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Review Threads
+// ─────────────────────────────────────────────────────────────────────────────
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100) {
+          nodes {
+            isResolved
+            isOutdated
+            path
+            line
+            comments(first: 50) {
+              nodes {
+                author { login }
+                body
+                url
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/** Shape of one review thread node in the GraphQL response */
+interface GraphQLReviewThreadNode {
+  isResolved?: boolean;
+  isOutdated?: boolean;
+  path?: string;
+  line?: number | null;
+  comments?: {
+    nodes?: Array<{ author?: { login?: string } | null; body?: string; url?: string } | null>;
+  };
+}
+
+/**
+ * List the review threads on a pull request that haven't been resolved.
+ * @param cwd - Working directory
+ * @param prNumber - Pull request number
+ * @returns Threads with their file, line and comments, or an empty list with an error message
+ */
+export async function listUnresolvedReviewThreads(
+  cwd: string,
+  prNumber: number
+): Promise<GitHubReviewThreadListResult> {
+  const repoInfo = await getRepoInfo(cwd);
+  if (!repoInfo) {
+    return { threads: [], error: "not a GitHub repository" };
+  }
+
+  let stdout: string;
+  try {
+    stdout = await ghRunner(
+      [
+        "api",
+        "graphql",
+        "-f",
+        `query=${REVIEW_THREADS_QUERY}`,
+        "-f",
+        `owner=${repoInfo.owner}`,
+        "-f",
+        `repo=${repoInfo.repo}`,
+        "-F",
+        `number=${prNumber}`,
+      ],
+      cwd
+    );
+  } catch (error) {
+    return { threads: [], error: describeGhError(error) };
+  }
+
+  try {
+    const response = JSON.parse(stdout);
+    if (response.errors?.length > 0) {
+      return { threads: [], error: response.errors[0]?.message || "GraphQL query failed" };
+    }
+
+    const nodes: Array<GraphQLReviewThreadNode | null> =
+      response.data?.repository?.pullRequest?.reviewThreads?.nodes ?? [];
+    const threads: GitHubReviewThread[] = [];
+    for (const node of nodes) {
+      if (!node || node.isResolved || typeof node.path !== "string") continue;
+
+      const comments: GitHubReviewComment[] = [];
+      for (const comment of node.comments?.nodes ?? []) {
+        const body = comment?.body?.trim();
+        if (body) {
+          comments.push({ author: comment?.author?.login, body, url: comment?.url ?? "" });
+        }
+      }
+      if (comments.length === 0) continue;
+
+      threads.push({
+        path: node.path,
+        line: typeof node.line === "number" ? node.line : null,
+        isOutdated: node.isOutdated ?? false,
+        comments,
+      });
+    }
+
+    return { threads };
+  } catch {
+    return { threads: [], error: "unexpected gh output" };
+  }
+}
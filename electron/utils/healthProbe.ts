@@ -0,0 +1,80 @@
+/**
+ * Health Probe Utility
+ *
+ * TCP and HTTP probes used to tell whether a dev server is ready and still alive.
+ */
+
+import http from "node:http";
+import net from "node:net";
+
+/** Outcome of a single probe */
+export interface ProbeOutcome {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+const PROBE_HOST = "localhost";
+
+/**
+ * Check that something accepts TCP connections on a port.
+ *
+ * @param port - Port on localhost
+ * @param timeoutMs - Give up after this long
+ */
+export function probeTcp(port: number, timeoutMs: number): Promise<ProbeOutcome> {
+  const startTime = Date.now();
+
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: PROBE_HOST, port });
+    const finish = (error?: string) => {
+      socket.destroy();
+      resolve({ ok: !error, latencyMs: Date.now() - startTime, error });
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => finish());
+    socket.once("timeout", () => finish(`No connection after ${timeoutMs}ms`));
+    socket.once("error", (error: NodeJS.ErrnoException) => finish(error.code ?? error.message));
+  });
+}
+
+/**
+ * Check that an HTTP GET answers with the expected status.
+ *
+ * @param port - Port on localhost
+ * @param path - Request path
+ * @param timeoutMs - Give up after this long
+ * @param expectedStatus - Required status; any status below 400 when omitted
+ */
+export function probeHttp(
+  port: number,
+  path: string,
+  timeoutMs: number,
+  expectedStatus?: number
+): Promise<ProbeOutcome> {
+  const startTime = Date.now();
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (error?: string) => {
+      if (settled) return;
+      settled = true;
+      resolve({ ok: !error, latencyMs: Date.now() - startTime, error });
+    };
+
+    const request = http.get({ host: PROBE_HOST, port, path, timeout: timeoutMs }, (response) => {
+      // Only the status matters; drain the body so the socket is released
+      response.resume();
+      const status = response.statusCode ?? 0;
+      const ok = expectedStatus !== undefined ? status === expectedStatus : status < 400;
+      finish(ok ? undefined : `HTTP ${status}`);
+    });
+
+    request.once("timeout", () => {
+      finish(`No response after ${timeoutMs}ms`);
+      request.destroy();
+    });
+    request.once("error", (error: NodeJS.ErrnoException) => finish(error.code ?? error.message));
+  });
+}
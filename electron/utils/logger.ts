@@ -133,6 +133,7 @@ function getCallerSource(): string | undefined {
   if (fileName?.includes("DevServerManager")) return "DevServerManager";
   if (fileName?.includes("PtyManager")) return "PtyManager";
   if (fileName?.includes("CopyTreeService")) return "CopyTreeService";
+  if (fileName?.includes("PreviewManager")) return "Preview";
   if (fileName?.includes("main")) return "Main";
   if (fileName?.includes("handlers")) return "IPC";
 
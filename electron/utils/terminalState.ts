@@ -0,0 +1,61 @@
+import type { PtyManager } from "../services/PtyManager.js";
+import { projectStore } from "../services/ProjectStore.js";
+import { store } from "../store.js";
+import type { TerminalSnapshot } from "../types/index.js";
+
+/**
+ * Persist the current terminals so they can be restored in a later session
+ *
+ * Terminal metadata goes to app state (used by the renderer to respawn terminals),
+ * while each terminal's serialized scrollback is written to the project's state
+ * file so restored terminals can replay their previous output.
+ *
+ * @param ptyManager - PtyManager owning the terminals (no-op when null)
+ * @param projectId - Project to save scrollback under (defaults to the current project)
+ * @param activeWorktreeId - That project's active worktree (defaults to the one it last saved)
+ */
+export async function persistTerminalState(
+  ptyManager: PtyManager | null,
+  projectId: string | null = projectStore.getCurrentProjectId(),
+  activeWorktreeId?: string
+): Promise<void> {
+  if (!ptyManager) return;
+
+  const terminals: TerminalSnapshot[] = ptyManager.getAll().map((t) => ({
+    id: t.id,
+    type: t.type || "shell",
+    agentType: t.agentType,
+    title: t.title || "Terminal",
+    cwd: t.cwd,
+    worktreeId: t.worktreeId,
+  }));
+  store.set("appState.terminals", terminals);
+
+  if (!projectId) return;
+
+  const existing = await projectStore.getProjectState(projectId);
+  await projectStore.saveProjectState(projectId, {
+    projectId,
+    activeWorktreeId: activeWorktreeId ?? existing?.activeWorktreeId,
+    sidebarWidth: existing?.sidebarWidth ?? store.get("appState.sidebarWidth"),
+    terminals: terminals.map((t) => ({
+      ...t,
+      scrollback: ptyManager.getSerializedScrollback(t.id),
+    })),
+    terminalLayout: existing?.terminalLayout,
+  });
+}
+
+/**
+ * Look up scrollback saved for a terminal in the current project's state
+ *
+ * @param terminalId - ID the terminal had in the previous session
+ * @returns Saved scrollback, or undefined if none was persisted
+ */
+export async function getPersistedScrollback(terminalId: string): Promise<string | undefined> {
+  const projectId = projectStore.getCurrentProjectId();
+  if (!projectId) return undefined;
+
+  const state = await projectStore.getProjectState(projectId);
+  return state?.terminals.find((t) => t.id === terminalId)?.scrollback;
+}
@@ -5,10 +5,10 @@ import { logWarn } from "./logger.js";
 const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
 /**
- * Get the age of the last commit in days for a worktree path.
- * Returns null if the age can't be determined (e.g., no commits or git failure).
+ * Get the timestamp of the last commit for a worktree path (milliseconds since epoch).
+ * Returns null if the timestamp can't be determined (e.g., no commits or git failure).
  */
-export async function getLastCommitAgeInDays(worktreePath: string): Promise<number | null> {
+export async function getLastCommitTimestamp(worktreePath: string): Promise<number | null> {
   try {
     const git = simpleGit(worktreePath);
     const log = await git.log({ maxCount: 1 });
@@ -16,12 +16,9 @@ export async function getLastCommitAgeInDays(worktreePath: string): Promise<numb
     if (!lastDate) return null;
 
     const timestamp = new Date(lastDate).getTime();
-    if (Number.isNaN(timestamp)) return null;
-
-    const ageDays = (Date.now() - timestamp) / MS_PER_DAY;
-    return ageDays < 0 ? 0 : ageDays;
+    return Number.isNaN(timestamp) ? null : timestamp;
   } catch (error) {
-    logWarn("Failed to compute last commit age", {
+    logWarn("Failed to read last commit date", {
       path: worktreePath,
       message: (error as Error).message,
     });
@@ -29,6 +26,18 @@ export async function getLastCommitAgeInDays(worktreePath: string): Promise<numb
   }
 }
 
+/**
+ * Get the age of the last commit in days for a worktree path.
+ * Returns null if the age can't be determined (e.g., no commits or git failure).
+ */
+export async function getLastCommitAgeInDays(worktreePath: string): Promise<number | null> {
+  const timestamp = await getLastCommitTimestamp(worktreePath);
+  if (timestamp === null) return null;
+
+  const ageDays = (Date.now() - timestamp) / MS_PER_DAY;
+  return ageDays < 0 ? 0 : ageDays;
+}
+
 /**
  * Categorize a worktree based on branch, change count, and staleness.
  */
@@ -6,6 +6,7 @@
  */
 
 import type { KeyMapConfig } from "./keymap.js";
+import type { DevServerHealthCheck, DevServerRestartPolicy } from "./domain.js";
 
 // ============================================================================
 // Opener Configuration
@@ -72,6 +73,8 @@ export interface MonitorConfig {
   adaptiveBackoff?: boolean;
   /** Number of consecutive failures before circuit breaker triggers (default: 3) */
   circuitBreakerThreshold?: number;
+  /** Maximum git status runs at once across all worktrees (default: 4) */
+  gitStatusConcurrency?: number;
 }
 
 // ============================================================================
@@ -109,6 +112,16 @@ export interface DevServerConfig {
   enabled?: boolean;
   /** Custom commands for specific projects */
   customCommands?: Record<string, string>;
+  /** First port of the range dev servers are assigned ports from (default: 3100) */
+  portRangeStart?: number;
+  /** Ports reserved for each worktree's dev processes (default: 10) */
+  portsPerWorktree?: number;
+  /** Extra env vars set to the assigned port besides PORT (e.g. ["VITE_PORT"]) */
+  portEnvVars?: string[];
+  /** Health check for dev processes that don't configure their own, once they print a URL */
+  healthCheck?: DevServerHealthCheck;
+  /** Restart policy used by projects that don't configure their own */
+  restartPolicy?: DevServerRestartPolicy;
 }
 
 // ============================================================================
@@ -145,6 +158,50 @@ export interface GitDisplayConfig {
   heatMapIntensity?: "subtle" | "normal" | "intense";
 }
 
+// ============================================================================
+// Agent Registry Configuration
+// ============================================================================
+
+/** Icon shown for an agent in launchers and terminal headers */
+export type AgentIconName =
+  | "claude"
+  | "gemini"
+  | "codex"
+  | "terminal"
+  | "bot"
+  | "sparkles"
+  | "code";
+
+/** A CLI agent that can be launched in a terminal and tracked for busy/waiting state */
+export interface AgentDefinition {
+  /** Stable identifier (e.g., "claude", "aider"); launch shortcuts bind to "agent.<id>" */
+  id: string;
+  /** Display name for launchers and terminal titles */
+  name: string;
+  /** Executable to run in the terminal's shell */
+  command: string;
+  /** Arguments appended to the command */
+  args?: string[];
+  /** Extra environment variables for the terminal */
+  env?: Record<string, string>;
+  /** Launcher/terminal icon */
+  icon: AgentIconName;
+  /** CopyTree format used when injecting context into this agent */
+  copyTreeFormat: "xml" | "json" | "markdown" | "tree" | "ndjson";
+  /** Regex sources matched against ANSI-stripped output while the agent is working */
+  busyPatterns: string[];
+  /** Regex sources matched against ANSI-stripped output when the agent awaits input */
+  promptPatterns: string[];
+  /** Match prompt patterns regardless of case (busy patterns always ignore case) */
+  promptPatternsIgnoreCase?: boolean;
+  /** Optional global launch shortcut (e.g., "Ctrl+Shift+C") */
+  shortcut?: string;
+  /** Disabled agents are hidden from launchers and have no shortcut */
+  enabled: boolean;
+  /** Shipped with Canopy; can be edited or disabled but not removed */
+  builtIn?: boolean;
+}
+
 // ============================================================================
 // Main Configuration Interface
 // ============================================================================
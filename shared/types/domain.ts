@@ -19,6 +19,9 @@ export type GitStatus =
   | "renamed"
   | "copied";
 
+/** How much of a file's change is staged in the index */
+export type GitStagedState = "none" | "partial" | "all";
+
 /** Details about a single file change in a worktree */
 export interface FileChangeDetail {
   /** Relative path to the file from worktree root */
@@ -29,6 +32,8 @@ export interface FileChangeDetail {
   insertions: number | null;
   /** Number of lines deleted (null if not applicable) */
   deletions: number | null;
+  /** Whether the change is staged ("partial" when the working tree has further edits) */
+  staged?: GitStagedState;
   /** File modification time in milliseconds (for recency scoring) */
   mtimeMs?: number;
   /** Alias for mtimeMs (compatibility with some APIs) */
@@ -75,6 +80,58 @@ export type WorktreeMood = "stable" | "active" | "stale" | "error";
  */
 export type AISummaryStatus = "active" | "loading" | "disabled" | "error";
 
+/** Commit counts between a branch and another ref */
+export interface BranchDivergence {
+  /** Commits on the branch that the other ref doesn't have */
+  ahead: number;
+  /** Commits on the other ref that the branch doesn't have */
+  behind: number;
+}
+
+/** How far a worktree's branch has drifted from its upstream and the main branch */
+export interface WorktreeSyncStatus {
+  /** Upstream tracking ref (e.g., origin/feature/foo), undefined if none is configured */
+  upstream?: string;
+  /** Divergence from the upstream tracking ref */
+  upstreamDivergence?: BranchDivergence;
+  /** Main branch ref compared against (e.g., main or origin/main) */
+  mainRef?: string;
+  /** Divergence from the main branch (undefined when on the main branch itself) */
+  mainDivergence?: BranchDivergence;
+}
+
+/** Overall review verdict on a pull request, per the repository's review rules */
+export type PullRequestReviewDecision = "approved" | "changes_requested" | "review_required";
+
+/** Combined result of the CI checks and commit statuses on a pull request's head commit */
+export type PullRequestCheckStatus = "pending" | "success" | "failure";
+
+/** Review and CI state of an open pull request */
+export interface PullRequestStatus {
+  /** Null when the repository doesn't require reviews and none were given */
+  reviewDecision: PullRequestReviewDecision | null;
+  /** Users (login) and teams (slug) asked to review who haven't yet */
+  requestedReviewers: string[];
+  /** Review threads not yet marked resolved */
+  unresolvedThreadCount: number;
+  /** Null when the head commit has no checks */
+  checkStatus: PullRequestCheckStatus | null;
+}
+
+/** How "Sync with main" brings the main branch's commits into a worktree branch */
+export type WorktreeSyncStrategy = "rebase" | "merge";
+
+/** Code host behind a repository's origin remote */
+export type ForgeKind = "github" | "gitlab" | "gitea";
+
+/** A rebase or merge in progress in a worktree (e.g. stopped on conflicts) */
+export interface WorktreeSyncOperation {
+  /** Which operation is in progress */
+  kind: WorktreeSyncStrategy;
+  /** Paths with unresolved conflicts, relative to the worktree root */
+  conflictedFiles: string[];
+}
+
 /**
  * Represents a single git worktree.
  * Git worktrees allow multiple working trees attached to the same repository,
@@ -141,6 +198,15 @@ export interface Worktree {
   /** Pull request state: open, merged, or closed */
   prState?: "open" | "merged" | "closed";
 
+  /** Review decision, requested reviewers, unresolved threads and CI status of the PR */
+  prStatus?: PullRequestStatus;
+
+  /** Ahead/behind counts against the upstream and main branch */
+  syncStatus?: WorktreeSyncStatus;
+
+  /** Rebase or merge in progress, if any */
+  syncOperation?: WorktreeSyncOperation;
+
   /** Worktree changes snapshot */
   worktreeChanges?: WorktreeChanges | null;
 }
@@ -167,22 +233,111 @@ export interface WorktreeState extends Worktree {
 /** Status of a development server process */
 export type DevServerStatus = "stopped" | "starting" | "running" | "error";
 
+/** How a dev process is checked for readiness and liveness */
+export type DevServerHealthCheckType = "tcp" | "http" | "none";
+
+/** Readiness and liveness probe settings for a dev process */
+export interface DevServerHealthCheck {
+  /** TCP connect, HTTP GET, or none (ready as soon as it's spawned) */
+  type: DevServerHealthCheckType;
+  /** Port to probe (defaults to the detected port, then the assigned port) */
+  port?: number;
+  /** Path requested by HTTP probes (default: "/") */
+  path?: string;
+  /** Status HTTP probes expect (default: any status below 400) */
+  expectedStatus?: number;
+  /** Timeout for a single probe in milliseconds */
+  timeoutMs?: number;
+  /** How long a starting process may take to become ready, in milliseconds */
+  readinessTimeoutMs?: number;
+  /** Interval between liveness probes once ready, in milliseconds */
+  intervalMs?: number;
+  /** Consecutive failed liveness probes before the process is marked as errored */
+  failureThreshold?: number;
+}
+
+/** Result of the most recent health probe of a dev process */
+export interface DevServerProbeResult {
+  /** Whether the probe succeeded */
+  ok: boolean;
+  /** When the probe ran (milliseconds since epoch) */
+  checkedAt: number;
+  /** Probe round-trip time in milliseconds */
+  latencyMs?: number;
+  /** Why the probe failed */
+  error?: string;
+  /** Failed probes in a row */
+  consecutiveFailures: number;
+}
+
+/** Which exits of a dev process are followed by an automatic restart */
+export type DevServerRestartMode = "never" | "on-failure" | "always";
+
+/** Automatic restart settings for a project's dev processes */
+export interface DevServerRestartPolicy {
+  /** Restart after a non-zero exit or an unrequested kill, after any exit, or never */
+  mode: DevServerRestartMode;
+  /** Restarts in a row before giving up */
+  maxRetries?: number;
+  /** Delay before the first restart in milliseconds, doubled for each retry */
+  backoffMs?: number;
+  /** Upper bound for the restart delay in milliseconds */
+  maxBackoffMs?: number;
+  /** Restart running processes when a matching file changes (e.g. ".env*"); `*` and `?` match within one path segment */
+  watchPatterns?: string[];
+}
+
+/** How a project's dev processes are assigned ports */
+export interface DevServerPortSettings {
+  /** First port of the range worktrees are assigned blocks from */
+  rangeStart: number;
+  /** Ports reserved for each worktree's dev processes */
+  portsPerWorktree: number;
+  /** Extra env vars set to the assigned port besides PORT (e.g. ["VITE_PORT"]) */
+  envVars: string[];
+}
+
+/** Why a dev process was restarted automatically */
+export type DevServerRestartReason = "exit" | "file-change";
+
+/** The most recent unexpected exit of a dev process */
+export interface DevServerCrash {
+  /** Exit code, or null when killed by a signal */
+  exitCode: number | null;
+  /** Signal that killed the process */
+  signal?: string;
+  /** When the process exited (milliseconds since epoch) */
+  crashedAt: number;
+  /** Last lines of output before the exit */
+  logTail: string[];
+}
+
 /** State of a development server associated with a worktree */
 export interface DevServerState {
   /** ID of the worktree this server belongs to */
   worktreeId: string;
+  /** Process slot within the worktree (a RunCommand id, or "dev" for the detected dev script) */
+  processId: string;
   /** Current server status */
   status: DevServerStatus;
   /** URL where the server is accessible */
   url?: string;
   /** Port number the server is listening on */
   port?: number;
+  /** Port reserved for this process and passed to it in PORT */
+  assignedPort?: number;
   /** Process ID of the server */
   pid?: number;
   /** Error message if status is 'error' */
   errorMessage?: string;
   /** Recent log output from the server */
   logs?: string[];
+  /** Latest health probe, if the process has a health check */
+  health?: DevServerProbeResult;
+  /** Automatic restarts since the process was last started by hand */
+  restartCount?: number;
+  /** The most recent unexpected exit, kept across restarts */
+  lastCrash?: DevServerCrash;
 }
 
 // ============================================================================
@@ -283,6 +438,8 @@ export interface TerminalInstance {
   worktreeId?: string;
   /** Type of terminal */
   type: TerminalType;
+  /** ID of the agent registry entry running in this terminal (agent terminals only) */
+  agentType?: string;
   /** Display title for the terminal tab */
   title: string;
   /** Current working directory of the terminal */
@@ -364,12 +521,16 @@ export interface TerminalSnapshot {
   id: string;
   /** Terminal type */
   type: TerminalType;
+  /** Agent registry ID (agent terminals only) */
+  agentType?: string;
   /** Display title */
   title: string;
   /** Working directory */
   cwd: string;
   /** Associated worktree ID */
   worktreeId?: string;
+  /** Serialized screen/scrollback output captured when the state was saved */
+  scrollback?: string;
 }
 
 /** Terminal layout metadata */
@@ -448,6 +609,31 @@ export interface RunCommand {
   icon?: string;
   /** Optional description (e.g. the script content from package.json) */
   description?: string;
+  /** Run as a long-lived dev process in each worktree (e.g. frontend, API, queue worker) */
+  devProcess?: boolean;
+  /** Health check for the dev process (default: devServer.healthCheck once it prints a URL) */
+  healthCheck?: Partial<DevServerHealthCheck>;
+}
+
+/** How a setup file is brought into a new worktree */
+export type WorktreeSetupFileMode = "copy" | "symlink";
+
+/** A file (or glob) to bring over from the main worktree into each new worktree */
+export interface WorktreeSetupFile {
+  /** Path relative to the repository root; `*` and `?` match within one path segment */
+  pattern: string;
+  /** Copy the file, or symlink it back to the main worktree */
+  mode: WorktreeSetupFileMode;
+}
+
+/** Setup steps run after a worktree is created */
+export interface WorktreeSetupConfig {
+  /** Files to copy or symlink from the main worktree (e.g. ".env*") */
+  files: WorktreeSetupFile[];
+  /** Shell commands run in sequence in the new worktree (e.g. "npm install") */
+  commands: string[];
+  /** Recipe to launch once setup completes */
+  recipeId?: string;
 }
 
 /** Project-level settings that persist per repository */
@@ -458,4 +644,18 @@ export interface ProjectSettings {
   environmentVariables?: Record<string, string>;
   /** Paths to exclude from monitoring (future feature) */
   excludedPaths?: string[];
+  /** Steps run after creating a worktree */
+  worktreeSetup?: WorktreeSetupConfig;
+  /** How "Sync with main" updates worktree branches (default: rebase) */
+  syncStrategy?: WorktreeSyncStrategy;
+  /** Automatic restarts of dev processes (defaults to devServer.restartPolicy) */
+  devServerRestartPolicy?: Partial<DevServerRestartPolicy>;
+  /** Port assignment for dev processes (defaults to the devServer port settings) */
+  devServerPortSettings?: Partial<DevServerPortSettings>;
+  /** Poll worktrees for changes instead of watching files (defaults to usePolling) */
+  usePolling?: boolean;
+  /** Quiet period after file changes before git status runs, in ms (defaults to refreshDebounce) */
+  refreshDebounce?: number;
+  /** Code host for issues and pull requests (detected from the origin remote if unset) */
+  forgeKind?: ForgeKind;
 }
@@ -15,16 +15,33 @@
 export type {
   // Git types
   GitStatus,
+  GitStagedState,
   FileChangeDetail,
   WorktreeChanges,
   // Worktree types
   WorktreeMood,
   AISummaryStatus,
+  BranchDivergence,
+  WorktreeSyncStatus,
+  WorktreeSyncStrategy,
+  ForgeKind,
+  PullRequestReviewDecision,
+  PullRequestCheckStatus,
+  PullRequestStatus,
+  WorktreeSyncOperation,
   Worktree,
   WorktreeState,
   // Dev server types
   DevServerStatus,
   DevServerState,
+  DevServerHealthCheckType,
+  DevServerHealthCheck,
+  DevServerProbeResult,
+  DevServerRestartMode,
+  DevServerRestartPolicy,
+  DevServerPortSettings,
+  DevServerRestartReason,
+  DevServerCrash,
   // Notification types
   NotificationType,
   Notification,
@@ -50,6 +67,9 @@ export type {
   TerminalRecipe,
   // Project settings types
   RunCommand,
+  WorktreeSetupFileMode,
+  WorktreeSetupFile,
+  WorktreeSetupConfig,
   ProjectSettings,
 } from "./domain.js";
 
@@ -59,6 +79,7 @@ export type {
   TerminalSpawnOptions,
   TerminalState,
   TerminalDataPayload,
+  TerminalCwdChangedPayload,
   TerminalResizePayload,
   TerminalKillPayload,
   TerminalExitPayload,
@@ -74,12 +95,38 @@ export type {
   FileTreeNode,
   // Worktree IPC types
   WorktreeRemovePayload,
+  WorktreeRemovalCheck,
+  WorktreeDeletePayload,
+  WorktreeCleanupReason,
+  WorktreeCleanupCandidate,
+  WorktreeCleanupScanPayload,
+  WorktreeCleanupScanResult,
+  WorktreeCleanupPayload,
+  WorktreeCleanupResult,
+  WorktreeConflictPair,
+  WorktreeConflictReport,
+  GitDiffBase,
+  GitFileDiffPayload,
+  GitFileDiff,
+  GitStageFilesPayload,
+  GitStageHunkPayload,
+  GitCommitPayload,
+  GitCommitResult,
+  GitSyncResult,
+  GitConflictSide,
+  GitResolveConflictPayload,
   WorktreeSetActivePayload,
   // Dev server IPC types
   DevServerStartPayload,
   DevServerStopPayload,
   DevServerTogglePayload,
+  DevServerStartAllPayload,
   DevServerErrorPayload,
+  // Preview IPC types
+  PreviewBounds,
+  PreviewLayout,
+  PreviewOpenPayload,
+  PreviewState,
   // System IPC types
   SystemOpenExternalPayload,
   SystemOpenPathPayload,
@@ -89,6 +136,17 @@ export type {
   // PR detection IPC types
   PRDetectedPayload,
   PRClearedPayload,
+  // GitHub types
+  GitHubIssue,
+  GitHubListIssuesPayload,
+  GitHubIssueListResult,
+  GitHubListReviewThreadsPayload,
+  GitHubReviewComment,
+  GitHubReviewThread,
+  GitHubReviewThreadListResult,
+  GitHubPullRequestDraft,
+  GitHubCreatePRPayload,
+  GitHubCreatedPR,
   // App state types
   RecentDirectory,
   SavedRecipeTerminal,
@@ -129,8 +187,13 @@ export type {
   ElectronAPI,
   BranchInfo,
   CreateWorktreeOptions,
+  WorktreeCreatePayload,
+  WorktreeSetupProgress,
+  WorktreeSetupResult,
+  WorktreeCreateResult,
   // Adaptive backoff
   AdaptiveBackoffMetrics,
+  GitStatusSchedulerMetrics,
   // IPC Contract Maps
   IpcInvokeMap,
   IpcEventMap,
@@ -158,6 +221,9 @@ export type {
   UIConfig,
   WorktreesConfig,
   GitDisplayConfig,
+  // Agent registry config
+  AgentIconName,
+  AgentDefinition,
   // Main config
   CanopyConfig,
 } from "./config.js";
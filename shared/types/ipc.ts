@@ -16,8 +16,10 @@ import type {
   Project,
   ProjectSettings,
   RunCommand,
+  WorktreeSyncStrategy,
 } from "./domain.js";
 import type { EventContext, RunMetadata } from "./events.js";
+import type { AgentDefinition } from "./config.js";
 
 // ============================================================================
 // Terminal IPC Types
@@ -39,12 +41,16 @@ export interface TerminalSpawnOptions {
   rows: number;
   /** Type of terminal */
   type?: TerminalType;
+  /** Agent registry ID; supplies the launch command, env and state detection patterns */
+  agentType?: string;
   /** Display title for the terminal */
   title?: string;
   /** Associated worktree ID */
   worktreeId?: string;
   /** Command to execute after shell starts (e.g., 'claude' for AI agents) */
   command?: string;
+  /** First message for the agent, passed as the last argument of its launch command */
+  initialPrompt?: string;
 }
 
 /** Terminal state for app state persistence */
@@ -53,6 +59,8 @@ export interface TerminalState {
   id: string;
   /** Terminal type */
   type: TerminalType;
+  /** Agent registry ID (agent terminals only) */
+  agentType?: string;
   /** Display title */
   title: string;
   /** Current working directory */
@@ -74,6 +82,14 @@ export interface TerminalResizePayload {
   rows: number;
 }
 
+/** Terminal working directory change reported by shell integration */
+export interface TerminalCwdChangedPayload {
+  terminalId: string;
+  cwd: string;
+  /** Worktree containing the new cwd (undefined if outside all worktrees) */
+  worktreeId?: string;
+}
+
 /** Terminal kill payload for IPC */
 export interface TerminalKillPayload {
   id: string;
@@ -205,6 +221,182 @@ export interface WorktreeRemovePayload {
   worktreeId: string;
 }
 
+/** What would be lost by removing a worktree, shown before confirming removal */
+export interface WorktreeRemovalCheck {
+  worktreeId: string;
+  /** Whether this is the main worktree (which can't be removed) */
+  isMainWorktree: boolean;
+  /** Files with uncommitted changes (including untracked files) */
+  uncommittedFileCount: number;
+  /** Commits not pushed to the upstream branch (or to any remote, if untracked) */
+  unpushedCommitCount: number;
+  /** Whether the branch tracks an upstream branch */
+  hasUpstream: boolean;
+  /** Whether a dev server is running or starting for the worktree */
+  devServerRunning: boolean;
+  /** Number of open terminals associated with the worktree */
+  terminalCount: number;
+}
+
+/** Payload for removing a worktree from disk */
+export interface WorktreeDeletePayload {
+  worktreeId: string;
+  /** Also delete the worktree's local branch */
+  deleteBranch?: boolean;
+  /** Discard uncommitted changes and delete the branch even if unmerged */
+  force?: boolean;
+}
+
+/** Why a worktree is suggested for cleanup */
+export type WorktreeCleanupReason = "merged" | "closed" | "stale";
+
+/** A worktree suggested for cleanup, with the details needed to decide */
+export interface WorktreeCleanupCandidate {
+  worktreeId: string;
+  name: string;
+  path: string;
+  branch?: string;
+  reason: WorktreeCleanupReason;
+  /** Linked pull request, if any */
+  prNumber?: number;
+  /** Most recent of the last commit and last observed file activity (ms since epoch) */
+  lastActivityAt: number | null;
+  /** Size of the worktree directory on disk, in bytes (null if it couldn't be measured) */
+  diskSizeBytes: number | null;
+  /** Files with uncommitted changes (removal requires force when non-zero) */
+  uncommittedFileCount: number;
+}
+
+/** Payload for listing worktree cleanup candidates */
+export interface WorktreeCleanupScanPayload {
+  /** Days without commits after which a clean worktree counts as stale (saved for next time) */
+  staleDays?: number;
+}
+
+/** Result of scanning for worktree cleanup candidates */
+export interface WorktreeCleanupScanResult {
+  staleDays: number;
+  candidates: WorktreeCleanupCandidate[];
+}
+
+/** Payload for bulk-removing worktrees */
+export interface WorktreeCleanupPayload {
+  worktreeIds: string[];
+  /** Also delete each worktree's local branch */
+  deleteBranches?: boolean;
+  /** Discard uncommitted changes and delete branches even if unmerged */
+  force?: boolean;
+}
+
+/** Outcome of a bulk worktree removal */
+export interface WorktreeCleanupResult {
+  removed: string[];
+  failed: Array<{ worktreeId: string; error: string }>;
+  /** Whether `git worktree prune` ran successfully afterwards */
+  pruned: boolean;
+}
+
+/** Two worktrees whose changes are likely to collide when merged */
+export interface WorktreeConflictPair {
+  worktreeIds: [string, string];
+  /** Files with uncommitted changes in both worktrees, relative to the worktree root */
+  overlappingFiles: string[];
+  /** Files git reports as conflicting when merging the two branches' committed work */
+  conflictingFiles: string[];
+}
+
+/** Predicted conflicts across all monitored worktrees */
+export interface WorktreeConflictReport {
+  /** Only pairs with overlapping or conflicting files */
+  pairs: WorktreeConflictPair[];
+  /** Whether branches were test-merged with `git merge-tree` (needs git 2.38+) */
+  mergeChecked: boolean;
+  /** When the report was computed (milliseconds since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * What a file diff shows: all changes since the last commit or since the branch left
+ * main, or only the staged (index vs HEAD) or unstaged (working tree vs index) part
+ */
+export type GitDiffBase = "head" | "main" | "staged" | "unstaged";
+
+/** Payload for getting a single file's diff */
+export interface GitFileDiffPayload {
+  worktreeId: string;
+  /** File path, absolute or relative to the worktree root */
+  filePath: string;
+  base: GitDiffBase;
+}
+
+/** Unified diff of a single file */
+export interface GitFileDiff {
+  /** File path relative to the worktree root */
+  filePath: string;
+  base: GitDiffBase;
+  /** Ref the file was compared against (HEAD, "index" or a merge-base commit) */
+  baseRef: string;
+  /** Unified diff text (empty when the file is unchanged) */
+  diff: string;
+  isBinary: boolean;
+  /** Whether the diff was too large and got cut off */
+  truncated: boolean;
+}
+
+/** Payload for staging or unstaging whole files */
+export interface GitStageFilesPayload {
+  worktreeId: string;
+  /** File paths, absolute or relative to the worktree root */
+  filePaths: string[];
+}
+
+/** Payload for staging or unstaging a single hunk */
+export interface GitStageHunkPayload {
+  worktreeId: string;
+  /** File path, absolute or relative to the worktree root */
+  filePath: string;
+  /** The hunk's "@@ ... @@" header line, exactly as it appears in the diff */
+  hunkHeader: string;
+}
+
+/** Payload for committing staged changes */
+export interface GitCommitPayload {
+  worktreeId: string;
+  message: string;
+  /** Replace the last commit instead of creating a new one */
+  amend?: boolean;
+}
+
+/** Outcome of a commit */
+export interface GitCommitResult {
+  /** Short hash of the new commit */
+  hash: string;
+}
+
+/** Outcome of syncing a worktree with main, or continuing a stopped sync */
+export interface GitSyncResult {
+  /** "conflicts" means the rebase/merge is still in progress and needs resolving */
+  status: "up-to-date" | "completed" | "conflicts";
+  strategy: WorktreeSyncStrategy;
+  /** Unresolved paths relative to the worktree root (empty unless status is "conflicts") */
+  conflictedFiles: string[];
+}
+
+/**
+ * Side to keep when resolving a conflicted file.
+ * Always from the worktree branch's point of view, for both merges and rebases:
+ * "ours" is the branch's version, "theirs" is the version being synced in.
+ */
+export type GitConflictSide = "ours" | "theirs";
+
+/** Payload for resolving one conflicted file by taking one side */
+export interface GitResolveConflictPayload {
+  worktreeId: string;
+  /** File path, absolute or relative to the worktree root */
+  filePath: string;
+  side: GitConflictSide;
+}
+
 /** Payload for setting active worktree */
 export interface WorktreeSetActivePayload {
   worktreeId: string;
@@ -219,11 +411,15 @@ export interface DevServerStartPayload {
   worktreeId: string;
   worktreePath: string;
   command?: string;
+  /** Process slot to start (defaults to the detected dev script) */
+  processId?: string;
 }
 
 /** Payload for stopping a dev server */
 export interface DevServerStopPayload {
   worktreeId: string;
+  /** Process slot to stop (defaults to the detected dev script) */
+  processId?: string;
 }
 
 /** Payload for toggling a dev server */
@@ -231,14 +427,62 @@ export interface DevServerTogglePayload {
   worktreeId: string;
   worktreePath: string;
   command?: string;
+  /** Process slot to toggle (defaults to the detected dev script) */
+  processId?: string;
+}
+
+/** Payload for starting every dev process of a worktree */
+export interface DevServerStartAllPayload {
+  worktreeId: string;
+  worktreePath: string;
 }
 
 /** Payload for dev server error notification */
 export interface DevServerErrorPayload {
   worktreeId: string;
+  processId?: string;
   error: string;
 }
 
+// ============================================================================
+// Preview IPC Payload Types
+// ============================================================================
+
+/** Rectangle in the window's content area, in CSS pixels */
+export interface PreviewBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Where the preview is drawn and how it's scaled (device presets zoom out to fit) */
+export interface PreviewLayout {
+  bounds: PreviewBounds;
+  zoomFactor: number;
+  /** False while something (e.g. a dialog) must not be covered by the preview */
+  visible: boolean;
+}
+
+/** Payload for showing a dev server in the preview pane */
+export interface PreviewOpenPayload {
+  worktreeId: string;
+  /** Dev process whose restarts reload the preview */
+  processId: string;
+  url: string;
+  layout: PreviewLayout;
+}
+
+/** Navigation state of the preview pane */
+export interface PreviewState {
+  /** Page currently shown, null when the preview is closed */
+  url: string | null;
+  title?: string;
+  isLoading: boolean;
+  /** Why the last load failed */
+  error?: string;
+}
+
 // ============================================================================
 // System IPC Payload Types
 // ============================================================================
@@ -285,6 +529,97 @@ export interface PRClearedPayload {
   worktreeId: string;
 }
 
+// ============================================================================
+// GitHub IPC Types
+// ============================================================================
+
+/** An open GitHub issue, as listed by `gh issue list` */
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  labels: string[];
+  author?: string;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
+
+/** Payload for listing open issues */
+export interface GitHubListIssuesPayload {
+  /** Any directory inside the repository */
+  cwd: string;
+  /** GitHub search query (e.g. "label:bug login") */
+  search?: string;
+  limit?: number;
+}
+
+/** Result of listing issues; `error` explains an empty list (gh missing, not authed, ...) */
+export interface GitHubIssueListResult {
+  issues: GitHubIssue[];
+  error?: string;
+}
+
+/** Payload for listing a pull request's unresolved review threads */
+export interface GitHubListReviewThreadsPayload {
+  cwd: string;
+  prNumber: number;
+}
+
+/** A comment in a pull request review thread */
+export interface GitHubReviewComment {
+  /** Author login (undefined for deleted accounts) */
+  author?: string;
+  body: string;
+  url: string;
+}
+
+/** An unresolved review thread on a pull request */
+export interface GitHubReviewThread {
+  /** File the thread is on, relative to the repository root */
+  path: string;
+  /** Line in the current diff, or null when the thread is outdated or file-level */
+  line: number | null;
+  /** Whether the code the thread was left on has since changed */
+  isOutdated: boolean;
+  /** Comments in reply order, starting with the original review comment */
+  comments: GitHubReviewComment[];
+}
+
+/** Result of listing review threads; `error` explains an empty list */
+export interface GitHubReviewThreadListResult {
+  threads: GitHubReviewThread[];
+  error?: string;
+}
+
+/** Prefilled pull request fields for a worktree's branch */
+export interface GitHubPullRequestDraft {
+  title: string;
+  body: string;
+  /** Branch the PR will merge into */
+  baseBranch: string;
+  /** Subjects of the commits the PR will contain, newest first */
+  commits: string[];
+}
+
+/** Payload for pushing a worktree's branch and opening a pull request */
+export interface GitHubCreatePRPayload {
+  worktreeId: string;
+  title: string;
+  body: string;
+  baseBranch: string;
+  draft?: boolean;
+  /** GitHub logins or org/team names */
+  reviewers?: string[];
+}
+
+/** A newly created pull request */
+export interface GitHubCreatedPR {
+  number: number;
+  url: string;
+  isDraft: boolean;
+}
+
 // ============================================================================
 // App State IPC Types
 // ============================================================================
@@ -407,6 +742,7 @@ export type EventCategory =
   | "file" // file:* - file operations (copy-tree, open)
   | "ui" // ui:* - UI notifications/state
   | "watcher" // watcher:* - file watching
+  | "terminal" // terminal:* - shell integration (commands, cwd)
   | "artifact"; // artifact:* - detected artifacts
 
 /** Common fields that may be present in event payloads */
@@ -735,18 +1071,85 @@ export interface CreateWorktreeOptions {
   newBranch: string;
   path: string;
   fromRemote?: boolean;
+  /** GitHub issue the worktree is for, when it wasn't inferable from the branch name */
+  issueNumber?: number;
+}
+
+/** Payload for creating a worktree */
+export interface WorktreeCreatePayload {
+  rootPath: string;
+  options: CreateWorktreeOptions;
+  /** Run the project's worktree setup afterwards (default: true) */
+  runSetup?: boolean;
+}
+
+/** One line of worktree setup progress */
+export interface WorktreeSetupProgress {
+  /** ID (resolved path) of the worktree being set up */
+  worktreeId: string;
+  /** Which phase the line belongs to */
+  step: "files" | "command";
+  message: string;
+  /** Command producing the output, for command lines */
+  command?: string;
+  /** Whether the line is command error output */
+  isError?: boolean;
+}
+
+/** Outcome of running a project's worktree setup */
+export interface WorktreeSetupResult {
+  success: boolean;
+  /** Files copied or linked, relative to the worktree root */
+  files: string[];
+  /** Commands that exited successfully, in order */
+  completedCommands: string[];
+  /** Failure description when success is false */
+  error?: string;
+  /** File pattern that failed to copy or link */
+  failedPattern?: string;
+  /** Command that failed */
+  failedCommand?: string;
+}
+
+/** Result of creating a worktree */
+export interface WorktreeCreateResult {
+  worktreeId: string;
+  /** Null when the project has no setup configured or setup was skipped */
+  setup: WorktreeSetupResult | null;
 }
 
 // ============================================================================
 // Adaptive Backoff IPC Types
 // ============================================================================
 
+/** Metrics for the shared git status scheduler */
+export interface GitStatusSchedulerMetrics {
+  /** Time spent collecting git status across all worktrees in ms */
+  totalGitTime: number;
+  /** Status collections run */
+  runs: number;
+  /** Requests answered by a queued or running collection, or the cache */
+  coalesced: number;
+  /** Collections waiting for a slot */
+  queued: number;
+  /** Collections running now */
+  inFlight: number;
+  /** Maximum collections running at once */
+  concurrency: number;
+}
+
 /** Metrics for adaptive backoff and circuit breaker */
 export interface AdaptiveBackoffMetrics {
   lastOperationDuration: number;
   consecutiveFailures: number;
   circuitBreakerTripped: boolean;
   currentInterval: number;
+  /** Time spent collecting git status for this worktree in ms */
+  totalGitTime: number;
+  /** Git status collections run for this worktree */
+  gitStatusRuns: number;
+  /** Shared scheduler metrics (absent when the monitor collects status itself) */
+  scheduler?: GitStatusSchedulerMetrics;
 }
 
 // ============================================================================
@@ -800,13 +1203,29 @@ export interface IpcInvokeMap {
     result: void;
   };
   "worktree:create": {
-    args: [payload: { rootPath: string; options: CreateWorktreeOptions }];
-    result: void;
+    args: [payload: WorktreeCreatePayload];
+    result: WorktreeCreateResult;
   };
   "worktree:list-branches": {
     args: [payload: { rootPath: string }];
     result: BranchInfo[];
   };
+  "worktree:check-removal": {
+    args: [worktreeId: string];
+    result: WorktreeRemovalCheck;
+  };
+  "worktree:delete": {
+    args: [payload: WorktreeDeletePayload];
+    result: void;
+  };
+  "worktree:get-cleanup-candidates": {
+    args: [payload?: WorktreeCleanupScanPayload];
+    result: WorktreeCleanupScanResult;
+  };
+  "worktree:cleanup": {
+    args: [payload: WorktreeCleanupPayload];
+    result: WorktreeCleanupResult;
+  };
   "worktree:set-adaptive-backoff-config": {
     args: [payload: { enabled: boolean; maxInterval?: number; threshold?: number }];
     result: void;
@@ -819,6 +1238,90 @@ export interface IpcInvokeMap {
     args: [worktreeId: string];
     result: AdaptiveBackoffMetrics | null;
   };
+  "worktree:get-conflicts": {
+    args: [];
+    result: WorktreeConflictReport;
+  };
+  "worktree:refresh-conflicts": {
+    args: [];
+    result: WorktreeConflictReport;
+  };
+
+  // ============================================
+  // Git channels
+  // ============================================
+  "git:get-file-diff": {
+    args: [payload: GitFileDiffPayload];
+    result: GitFileDiff;
+  };
+  "git:stage": {
+    args: [payload: GitStageFilesPayload];
+    result: void;
+  };
+  "git:unstage": {
+    args: [payload: GitStageFilesPayload];
+    result: void;
+  };
+  "git:stage-hunk": {
+    args: [payload: GitStageHunkPayload];
+    result: void;
+  };
+  "git:unstage-hunk": {
+    args: [payload: GitStageHunkPayload];
+    result: void;
+  };
+  "git:commit": {
+    args: [payload: GitCommitPayload];
+    result: GitCommitResult;
+  };
+  "git:get-last-commit-message": {
+    args: [worktreeId: string];
+    result: string | null;
+  };
+  "git:generate-commit-message": {
+    args: [worktreeId: string];
+    result: string | null;
+  };
+  "git:pull": {
+    args: [worktreeId: string];
+    result: void;
+  };
+  "git:sync-with-main": {
+    args: [worktreeId: string];
+    result: GitSyncResult;
+  };
+  "git:resolve-conflict": {
+    args: [payload: GitResolveConflictPayload];
+    result: void;
+  };
+  "git:continue-sync": {
+    args: [worktreeId: string];
+    result: GitSyncResult;
+  };
+  "git:abort-sync": {
+    args: [worktreeId: string];
+    result: void;
+  };
+
+  // ============================================
+  // GitHub channels
+  // ============================================
+  "github:list-issues": {
+    args: [payload: GitHubListIssuesPayload];
+    result: GitHubIssueListResult;
+  };
+  "github:list-review-threads": {
+    args: [payload: GitHubListReviewThreadsPayload];
+    result: GitHubReviewThreadListResult;
+  };
+  "github:get-pr-draft": {
+    args: [worktreeId: string];
+    result: GitHubPullRequestDraft;
+  };
+  "github:create-pr": {
+    args: [payload: GitHubCreatePRPayload];
+    result: GitHubCreatedPR;
+  };
 
   // ============================================
   // Dev server channels
@@ -836,11 +1339,27 @@ export interface IpcInvokeMap {
     result: DevServerState;
   };
   "devserver:get-state": {
-    args: [worktreeId: string];
+    args: [worktreeId: string, processId?: string];
     result: DevServerState;
   };
-  "devserver:get-logs": {
+  "devserver:get-states": {
+    args: [worktreeId: string];
+    result: DevServerState[];
+  };
+  "devserver:get-processes": {
+    args: [worktreePath: string];
+    result: RunCommand[];
+  };
+  "devserver:start-all": {
+    args: [payload: DevServerStartAllPayload];
+    result: DevServerState[];
+  };
+  "devserver:stop-all": {
     args: [worktreeId: string];
+    result: DevServerState[];
+  };
+  "devserver:get-logs": {
+    args: [worktreeId: string, processId?: string];
     result: string[];
   };
   "devserver:has-dev-script": {
@@ -848,6 +1367,26 @@ export interface IpcInvokeMap {
     result: boolean;
   };
 
+  // ============================================
+  // Preview channels
+  // ============================================
+  "preview:open": {
+    args: [payload: PreviewOpenPayload];
+    result: void;
+  };
+  "preview:set-layout": {
+    args: [layout: PreviewLayout];
+    result: void;
+  };
+  "preview:reload": {
+    args: [];
+    result: void;
+  };
+  "preview:close": {
+    args: [];
+    result: void;
+  };
+
   // ============================================
   // Terminal channels
   // ============================================
@@ -859,6 +1398,18 @@ export interface IpcInvokeMap {
     args: [id: string];
     result: void;
   };
+  "terminal:get-snapshot": {
+    args: [id: string];
+    result: string | null;
+  };
+  "terminal:get-shell-integration": {
+    args: [];
+    result: boolean;
+  };
+  "terminal:set-shell-integration": {
+    args: [enabled: boolean];
+    result: void;
+  };
 
   // ============================================
   // Agent channels
@@ -867,6 +1418,14 @@ export interface IpcInvokeMap {
     args: [agentId: string];
     result: string | null;
   };
+  "agent:get-registry": {
+    args: [];
+    result: AgentDefinition[];
+  };
+  "agent:set-registry": {
+    args: [agents: AgentDefinition[]];
+    result: void;
+  };
 
   // ============================================
   // Artifact channels
@@ -1196,6 +1755,8 @@ export interface IpcEventMap {
   // ============================================
   "worktree:update": WorktreeState;
   "worktree:remove": { worktreeId: string };
+  "worktree:conflicts": WorktreeConflictReport;
+  "worktree:setup-progress": WorktreeSetupProgress;
 
   // ============================================
   // Dev server events
@@ -1203,12 +1764,18 @@ export interface IpcEventMap {
   "devserver:update": DevServerState;
   "devserver:error": DevServerErrorPayload;
 
+  // ============================================
+  // Preview events
+  // ============================================
+  "preview:state": PreviewState;
+
   // ============================================
   // Terminal events (these have multiple arguments, represented as tuples)
   // ============================================
   "terminal:data": [id: string, data: string];
   "terminal:exit": [id: string, exitCode: number];
   "terminal:error": [id: string, error: string];
+  "terminal:cwd-changed": TerminalCwdChangedPayload;
 
   // ============================================
   // Agent events
@@ -1283,8 +1850,16 @@ export interface ElectronAPI {
     refresh(): Promise<void>;
     refreshPullRequests(): Promise<void>;
     setActive(worktreeId: string): Promise<void>;
-    create(options: CreateWorktreeOptions, rootPath: string): Promise<void>;
+    create(
+      options: CreateWorktreeOptions,
+      rootPath: string,
+      runSetup?: boolean
+    ): Promise<WorktreeCreateResult>;
     listBranches(rootPath: string): Promise<BranchInfo[]>;
+    checkRemoval(worktreeId: string): Promise<WorktreeRemovalCheck>;
+    delete(payload: WorktreeDeletePayload): Promise<void>;
+    getCleanupCandidates(payload?: WorktreeCleanupScanPayload): Promise<WorktreeCleanupScanResult>;
+    cleanup(payload: WorktreeCleanupPayload): Promise<WorktreeCleanupResult>;
     setAdaptiveBackoffConfig(
       enabled: boolean,
       maxInterval?: number,
@@ -1294,25 +1869,92 @@ export interface ElectronAPI {
     getAdaptiveBackoffMetrics(worktreeId: string): Promise<AdaptiveBackoffMetrics | null>;
     onUpdate(callback: (state: WorktreeState) => void): () => void;
     onRemove(callback: (data: { worktreeId: string }) => void): () => void;
+    getConflicts(): Promise<WorktreeConflictReport>;
+    refreshConflicts(): Promise<WorktreeConflictReport>;
+    onConflicts(callback: (report: WorktreeConflictReport) => void): () => void;
+    onSetupProgress(callback: (progress: WorktreeSetupProgress) => void): () => void;
+  };
+  git: {
+    getFileDiff(payload: GitFileDiffPayload): Promise<GitFileDiff>;
+    stage(payload: GitStageFilesPayload): Promise<void>;
+    unstage(payload: GitStageFilesPayload): Promise<void>;
+    stageHunk(payload: GitStageHunkPayload): Promise<void>;
+    unstageHunk(payload: GitStageHunkPayload): Promise<void>;
+    commit(payload: GitCommitPayload): Promise<GitCommitResult>;
+    getLastCommitMessage(worktreeId: string): Promise<string | null>;
+    /** Returns null when AI is unavailable or nothing is staged */
+    generateCommitMessage(worktreeId: string): Promise<string | null>;
+    /** Fast-forward only; rejects if the branch has diverged from its upstream */
+    pull(worktreeId: string): Promise<void>;
+    /**
+     * Rebase onto or merge in the main branch, per the project's sync strategy.
+     * Resolves with status "conflicts" (and the operation left in progress) when it stops on conflicts.
+     */
+    syncWithMain(worktreeId: string): Promise<GitSyncResult>;
+    resolveConflict(payload: GitResolveConflictPayload): Promise<void>;
+    /** Resolves with status "conflicts" again if a later rebased commit also conflicts */
+    continueSync(worktreeId: string): Promise<GitSyncResult>;
+    abortSync(worktreeId: string): Promise<void>;
+  };
+  github: {
+    listIssues(payload: GitHubListIssuesPayload): Promise<GitHubIssueListResult>;
+    listReviewThreads(
+      payload: GitHubListReviewThreadsPayload
+    ): Promise<GitHubReviewThreadListResult>;
+    getPRDraft(worktreeId: string): Promise<GitHubPullRequestDraft>;
+    /** Pushes the branch (setting its upstream) before creating the PR */
+    createPR(payload: GitHubCreatePRPayload): Promise<GitHubCreatedPR>;
   };
   devServer: {
-    start(worktreeId: string, worktreePath: string, command?: string): Promise<DevServerState>;
-    stop(worktreeId: string): Promise<DevServerState>;
-    toggle(worktreeId: string, worktreePath: string, command?: string): Promise<DevServerState>;
-    getState(worktreeId: string): Promise<DevServerState>;
-    getLogs(worktreeId: string): Promise<string[]>;
+    start(
+      worktreeId: string,
+      worktreePath: string,
+      command?: string,
+      processId?: string
+    ): Promise<DevServerState>;
+    stop(worktreeId: string, processId?: string): Promise<DevServerState>;
+    toggle(
+      worktreeId: string,
+      worktreePath: string,
+      command?: string,
+      processId?: string
+    ): Promise<DevServerState>;
+    getState(worktreeId: string, processId?: string): Promise<DevServerState>;
+    /** States of every process slot that has been used in the worktree */
+    getStates(worktreeId: string): Promise<DevServerState[]>;
+    /** Dev processes configured for the current project, or the detected dev script */
+    getProcesses(worktreePath: string): Promise<RunCommand[]>;
+    startAll(worktreeId: string, worktreePath: string): Promise<DevServerState[]>;
+    stopAll(worktreeId: string): Promise<DevServerState[]>;
+    getLogs(worktreeId: string, processId?: string): Promise<string[]>;
     hasDevScript(worktreePath: string): Promise<boolean>;
     onUpdate(callback: (state: DevServerState) => void): () => void;
-    onError(callback: (data: { worktreeId: string; error: string }) => void): () => void;
+    onError(callback: (data: DevServerErrorPayload) => void): () => void;
+  };
+  preview: {
+    /** Show a dev server's URL in the preview pane (replacing any other page) */
+    open(payload: PreviewOpenPayload): Promise<void>;
+    setLayout(layout: PreviewLayout): Promise<void>;
+    reload(): Promise<void>;
+    close(): Promise<void>;
+    onState(callback: (state: PreviewState) => void): () => void;
   };
   terminal: {
     spawn(options: TerminalSpawnOptions): Promise<string>;
     write(id: string, data: string): void;
     resize(id: string, cols: number, rows: number): void;
     kill(id: string): Promise<void>;
+    getSnapshot(id: string): Promise<string | null>;
+    getShellIntegration(): Promise<boolean>;
+    setShellIntegration(enabled: boolean): Promise<void>;
     onData(id: string, callback: (data: string) => void): () => void;
     onExit(callback: (id: string, exitCode: number) => void): () => void;
     onAgentStateChanged(callback: (data: AgentStateChangePayload) => void): () => void;
+    onCwdChanged(callback: (data: TerminalCwdChangedPayload) => void): () => void;
+  };
+  agent: {
+    getRegistry(): Promise<AgentDefinition[]>;
+    setRegistry(agents: AgentDefinition[]): Promise<void>;
   };
   artifact: {
     onDetected(callback: (data: ArtifactDetectedPayload) => void): () => void;
@@ -5,14 +5,17 @@ import {
   isElectronAvailable,
   useAgentLauncher,
   useWorktrees,
+  useWorktreeConflicts,
   useContextInjection,
   useTerminalPalette,
   useKeybinding,
 } from "./hooks";
 import { AppLayout } from "./components/Layout";
 import { TerminalGrid } from "./components/Terminal";
-import { WorktreeCard } from "./components/Worktree";
+import { WorktreeCard, type WorktreeCardConflict } from "./components/Worktree";
 import { NewWorktreeDialog } from "./components/Worktree/NewWorktreeDialog";
+import { WorktreeCleanupDialog } from "./components/Worktree/WorktreeCleanupDialog";
+import { WorktreeConflictsDialog } from "./components/Worktree/WorktreeConflictsDialog";
 import { ProblemsPanel } from "./components/Errors";
 import { TerminalPalette } from "./components/TerminalPalette";
 import { RecipeEditor } from "./components/TerminalRecipe/RecipeEditor";
@@ -26,6 +29,8 @@ import {
   useErrorStore,
   useEventStore,
   useNotificationStore,
+  useAgentRegistryStore,
+  usePreviewStore,
   type RetryAction,
 } from "./store";
 import { useRecipeStore } from "./store/recipeStore";
@@ -47,6 +52,12 @@ function formatBytes(bytes: number, decimals = 2) {
 
 function SidebarContent({ onOpenSettings }: SidebarContentProps) {
   const { worktrees, isLoading, error, refresh } = useWorktrees();
+  const {
+    report: conflictReport,
+    getConflicts,
+    refresh: refreshConflicts,
+    isRefreshing: isRefreshingConflicts,
+  } = useWorktreeConflicts();
   const { inject, isInjecting } = useContextInjection();
   const { activeWorktreeId, focusedWorktreeId, selectWorktree, setActiveWorktree } =
     useWorktreeSelectionStore();
@@ -62,6 +73,8 @@ function SidebarContent({ onOpenSettings }: SidebarContentProps) {
 
   // New worktree dialog state
   const [isNewWorktreeDialogOpen, setIsNewWorktreeDialogOpen] = useState(false);
+  const [isCleanupDialogOpen, setIsCleanupDialogOpen] = useState(false);
+  const [isConflictsDialogOpen, setIsConflictsDialogOpen] = useState(false);
 
   // Home directory for path formatting
   const [homeDir, setHomeDir] = useState<string | undefined>(undefined);
@@ -153,8 +166,24 @@ function SidebarContent({ onOpenSettings }: SidebarContentProps) {
     window.electron?.system?.openPath(worktree.path);
   }, []);
 
+  // Stops every dev process of the worktree if any is up, otherwise starts them all
   const handleToggleServer = useCallback((worktree: WorktreeState) => {
-    window.electron?.devServer?.toggle(worktree.id, worktree.path);
+    const devServer = window.electron?.devServer;
+    if (!devServer) return;
+
+    devServer
+      .getStates(worktree.id)
+      .then((states) => {
+        const active = states.some(
+          (state) => state.status === "running" || state.status === "starting"
+        );
+        return active
+          ? devServer.stopAll(worktree.id)
+          : devServer.startAll(worktree.id, worktree.path);
+      })
+      .catch((error) => {
+        console.error("Failed to toggle dev servers:", error);
+      });
   }, []);
 
   const handleInjectContext = useCallback(
@@ -232,6 +261,18 @@ function SidebarContent({ onOpenSettings }: SidebarContentProps) {
     );
   }
 
+  const getCardConflicts = (worktreeId: string): WorktreeCardConflict[] =>
+    getConflicts(worktreeId).map((pair) => {
+      const otherId =
+        pair.worktreeIds[0] === worktreeId ? pair.worktreeIds[1] : pair.worktreeIds[0];
+      const other = worktrees.find((wt) => wt.id === otherId);
+      return {
+        otherLabel: other?.branch ?? other?.name ?? otherId,
+        overlappingFiles: pair.overlappingFiles,
+        conflictingFiles: pair.conflictingFiles,
+      };
+    });
+
   // Get root path from first worktree (assuming all worktrees are from the same repo)
   const rootPath =
     worktrees.length > 0 && worktrees[0].path ? worktrees[0].path.split("/.git/")[0] : "";
@@ -240,13 +281,33 @@ function SidebarContent({ onOpenSettings }: SidebarContentProps) {
     <div className="p-4">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-canopy-text font-semibold text-sm">Worktrees</h2>
-        <button
-          onClick={() => setIsNewWorktreeDialogOpen(true)}
-          className="text-xs px-2 py-1 bg-canopy-accent/10 hover:bg-canopy-accent/20 text-canopy-accent rounded transition-colors"
-          title="Create new worktree"
-        >
-          + New
-        </button>
+        <div className="flex items-center gap-1">
+          {(conflictReport?.pairs.length ?? 0) > 0 && (
+            <button
+              onClick={() => setIsConflictsDialogOpen(true)}
+              className="text-xs px-2 py-1 text-[var(--color-status-warning)] hover:bg-canopy-border/50 rounded transition-colors"
+              title="Show files changed in more than one worktree"
+            >
+              Conflicts
+            </button>
+          )}
+          {worktrees.length > 1 && (
+            <button
+              onClick={() => setIsCleanupDialogOpen(true)}
+              className="text-xs px-2 py-1 text-gray-400 hover:text-canopy-text hover:bg-canopy-border/50 rounded transition-colors"
+              title="Clean up merged, closed and stale worktrees"
+            >
+              Clean Up
+            </button>
+          )}
+          <button
+            onClick={() => setIsNewWorktreeDialogOpen(true)}
+            className="text-xs px-2 py-1 bg-canopy-accent/10 hover:bg-canopy-accent/20 text-canopy-accent rounded transition-colors"
+            title="Create new worktree"
+          >
+            + New
+          </button>
+        </div>
       </div>
       <div className="space-y-2">
         {worktrees.map((worktree) => (
@@ -264,6 +325,8 @@ function SidebarContent({ onOpenSettings }: SidebarContentProps) {
             onCreateRecipe={() => handleCreateRecipe(worktree.id)}
             onOpenSettings={onOpenSettings}
             homeDir={homeDir}
+            conflicts={getCardConflicts(worktree.id)}
+            onShowConflicts={() => setIsConflictsDialogOpen(true)}
           />
         ))}
       </div>
@@ -284,10 +347,40 @@ function SidebarContent({ onOpenSettings }: SidebarContentProps) {
           onWorktreeCreated={refresh}
         />
       )}
+
+      {/* Worktree Cleanup Dialog */}
+      <WorktreeCleanupDialog
+        isOpen={isCleanupDialogOpen}
+        onClose={() => setIsCleanupDialogOpen(false)}
+      />
+
+      {/* Worktree Conflicts Dialog */}
+      <WorktreeConflictsDialog
+        isOpen={isConflictsDialogOpen}
+        onClose={() => setIsConflictsDialogOpen(false)}
+        worktrees={worktrees}
+        report={conflictReport}
+        onRefresh={() => void refreshConflicts()}
+        isRefreshing={isRefreshingConflicts}
+      />
     </div>
   );
 }
 
+/**
+ * Registers the launch shortcut ("agent.<id>") for a single registry agent
+ */
+function AgentLaunchShortcut({
+  agentId,
+  onLaunch,
+}: {
+  agentId: string;
+  onLaunch: (agentId: string) => void;
+}) {
+  useKeybinding(`agent.${agentId}`, () => onLaunch(agentId));
+  return null;
+}
+
 function App() {
   const { focusNext, focusPrevious, toggleMaximize, focusedId, addTerminal } = useTerminalStore();
   const { launchAgent } = useAgentLauncher();
@@ -295,7 +388,10 @@ function App() {
   const { inject, isInjecting } = useContextInjection();
   const toggleLogsPanel = useLogsStore((state) => state.togglePanel);
   const toggleEventInspector = useEventStore((state) => state.togglePanel);
+  const togglePreviewPanel = usePreviewStore((state) => state.togglePanel);
   const loadRecipes = useRecipeStore((state) => state.loadRecipes);
+  const agents = useAgentRegistryStore((state) => state.agents);
+  const loadAgents = useAgentRegistryStore((state) => state.loadAgents);
 
   // Terminal palette for quick switching (Cmd/Ctrl+T)
   const terminalPalette = useTerminalPalette();
@@ -307,7 +403,9 @@ function App() {
 
   // Settings dialog state
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [settingsTab, setSettingsTab] = useState<"general" | "ai" | "troubleshooting">("general");
+  const [settingsTab, setSettingsTab] = useState<"general" | "agents" | "ai" | "troubleshooting">(
+    "general"
+  );
 
   // Refresh state
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -333,6 +431,9 @@ function App() {
 
     const restoreState = async () => {
       try {
+        // Load agents first so restored agent terminals resolve their icons and patterns
+        await loadAgents();
+
         const appState = await window.electron.app.getState();
 
         // Restore terminals - main process handles CWD validation and falls back
@@ -359,7 +460,9 @@ function App() {
               const cwd = terminal.cwd || projectRoot || "";
 
               await addTerminal({
+                id: terminal.id,
                 type: terminal.type,
+                agentType: terminal.agentType,
                 title: terminal.title,
                 cwd,
                 worktreeId: terminal.worktreeId,
@@ -384,11 +487,11 @@ function App() {
     };
 
     restoreState();
-  }, [addTerminal, setActiveWorktree, loadRecipes]);
+  }, [addTerminal, setActiveWorktree, loadRecipes, loadAgents]);
 
   // Handle agent launcher from toolbar
   const handleLaunchAgent = useCallback(
-    async (type: "claude" | "gemini" | "codex" | "shell") => {
+    async (type: string) => {
       await launchAgent(type);
     },
     [launchAgent]
@@ -484,10 +587,6 @@ function App() {
     { enabled: electronAvailable && !!focusedId }
   );
 
-  // Agent launchers
-  useKeybinding("agent.claude", () => handleLaunchAgent("claude"), { enabled: electronAvailable });
-  useKeybinding("agent.gemini", () => handleLaunchAgent("gemini"), { enabled: electronAvailable });
-
   // Context injection
   useKeybinding("context.inject", () => handleInjectContextShortcut(), {
     enabled: electronAvailable,
@@ -496,6 +595,7 @@ function App() {
   // Panel toggles
   useKeybinding("panel.logs", () => toggleLogsPanel(), { enabled: electronAvailable });
   useKeybinding("panel.events", () => toggleEventInspector(), { enabled: electronAvailable });
+  useKeybinding("panel.preview", () => togglePreviewPanel(), { enabled: electronAvailable });
 
   // Cleanup terminal store listeners on unmount
   useEffect(() => {
@@ -588,6 +688,13 @@ function App() {
         onClose={terminalPalette.close}
       />
 
+      {/* Agent launch shortcuts from the agent registry */}
+      {agents
+        .filter((agent) => agent.enabled && agent.shortcut)
+        .map((agent) => (
+          <AgentLaunchShortcut key={agent.id} agentId={agent.id} onLaunch={handleLaunchAgent} />
+        ))}
+
       {/* Settings dialog */}
       <SettingsDialog
         isOpen={isSettingsOpen}
@@ -19,6 +19,7 @@ const ALL_CATEGORIES: EventCategory[] = [
   "file",
   "ui",
   "watcher",
+  "terminal",
   "artifact",
 ];
 
@@ -32,6 +33,7 @@ const CATEGORY_CONFIG: Record<EventCategory, { label: string; color: string }> =
   file: { label: "File", color: "bg-pink-500/20 text-pink-400 border-pink-500/30" },
   ui: { label: "UI", color: "bg-indigo-500/20 text-indigo-400 border-indigo-500/30" },
   watcher: { label: "Watcher", color: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  terminal: { label: "Terminal", color: "bg-teal-500/20 text-teal-400 border-teal-500/30" },
   artifact: { label: "Artifact", color: "bg-rose-500/20 text-rose-400 border-rose-500/30" },
 };
 
@@ -18,6 +18,7 @@ const CATEGORY_STYLES: Record<EventCategory, { label: string; color: string }> =
   file: { label: "FIL", color: "bg-pink-500/20 text-pink-400 border-pink-500/30" },
   ui: { label: "UI", color: "bg-indigo-500/20 text-indigo-400 border-indigo-500/30" },
   watcher: { label: "WCH", color: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  terminal: { label: "TRM", color: "bg-teal-500/20 text-teal-400 border-teal-500/30" },
   artifact: { label: "ART", color: "bg-rose-500/20 text-rose-400 border-rose-500/30" },
 };
 
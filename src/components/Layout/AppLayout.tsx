@@ -3,13 +3,14 @@ import { Toolbar } from "./Toolbar";
 import { Sidebar } from "./Sidebar";
 import { LogsPanel } from "../Logs";
 import { EventInspectorPanel } from "../EventInspector";
-import { useFocusStore, useLogsStore, useEventStore } from "@/store";
+import { PreviewPanel } from "../Preview";
+import { useFocusStore, useLogsStore, useEventStore, usePreviewStore } from "@/store";
 
 interface AppLayoutProps {
   children?: ReactNode;
   sidebarContent?: ReactNode;
   historyContent?: ReactNode;
-  onLaunchAgent?: (type: "claude" | "gemini" | "codex" | "shell") => void;
+  onLaunchAgent?: (type: string) => void;
   onRefresh?: () => void;
   onSettings?: () => void;
   /** Number of active errors to show in toolbar */
@@ -48,6 +49,8 @@ export function AppLayout({
   const setLogsOpen = useLogsStore((state) => state.setOpen);
   const eventInspectorOpen = useEventStore((state) => state.isOpen);
   const setEventInspectorOpen = useEventStore((state) => state.setOpen);
+  const previewOpen = usePreviewStore((state) => state.isOpen);
+  const togglePreview = usePreviewStore((state) => state.togglePanel);
 
   // Restore sidebar width and focus mode from persisted state
   useEffect(() => {
@@ -170,7 +173,7 @@ export function AppLayout({
   }, []);
 
   const handleLaunchAgent = useCallback(
-    (type: "claude" | "gemini" | "codex" | "shell") => {
+    (type: string) => {
       onLaunchAgent?.(type);
     },
     [onLaunchAgent]
@@ -208,6 +211,8 @@ export function AppLayout({
         isFocusMode={isFocusMode}
         onToggleFocusMode={handleToggleFocusMode}
         isRefreshing={isRefreshing}
+        isPreviewOpen={previewOpen}
+        onTogglePreview={togglePreview}
       />
       <div
         className="flex-1 flex flex-col overflow-hidden"
@@ -232,6 +237,7 @@ export function AppLayout({
           >
             {children}
           </main>
+          <PreviewPanel />
         </div>
         <LogsPanel />
         <EventInspectorPanel />
@@ -16,15 +16,18 @@ import {
   AlertCircle,
   Maximize2,
   Minimize2,
+  AppWindow,
 } from "lucide-react";
-import { ClaudeIcon, GeminiIcon, CodexIcon } from "@/components/icons";
+import { AgentIcon } from "@/components/icons";
 import { cn } from "@/lib/utils";
 import { getProjectGradient } from "@/lib/colorUtils";
 import { BulkActionsMenu } from "@/components/Terminal";
 import { useProjectStore } from "@/store/projectStore";
+import { useAgentRegistryStore } from "@/store/agentRegistryStore";
 
 interface ToolbarProps {
-  onLaunchAgent: (type: "claude" | "gemini" | "codex" | "shell") => void;
+  /** Called with an agent registry ID, or "shell" */
+  onLaunchAgent: (type: string) => void;
   onRefresh: () => void;
   onSettings: () => void;
   /** Number of active errors */
@@ -37,6 +40,10 @@ interface ToolbarProps {
   onToggleFocusMode?: () => void;
   /** Whether worktree refresh is in progress */
   isRefreshing?: boolean;
+  /** Whether the preview panel is open */
+  isPreviewOpen?: boolean;
+  /** Called when preview button is clicked */
+  onTogglePreview?: () => void;
 }
 
 export function Toolbar({
@@ -48,8 +55,12 @@ export function Toolbar({
   isFocusMode = false,
   onToggleFocusMode,
   isRefreshing = false,
+  isPreviewOpen = false,
+  onTogglePreview,
 }: ToolbarProps) {
   const currentProject = useProjectStore((state) => state.currentProject);
+  const agents = useAgentRegistryStore((state) => state.agents);
+  const launchableAgents = agents.filter((agent) => agent.enabled);
 
   return (
     <header className="relative h-12 flex items-center px-4 shrink-0 app-drag-region bg-canopy-sidebar border-b border-canopy-border shadow-sm">
@@ -67,39 +78,20 @@ export function Toolbar({
         Wrapped in app-no-drag so they remain clickable
       */}
       <div className="flex gap-2 app-no-drag">
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => onLaunchAgent("claude")}
-          className="text-canopy-text hover:bg-canopy-border hover:text-canopy-accent"
-          title="Launch Claude (Ctrl+Shift+C)"
-          aria-label="Launch Claude"
-        >
-          <ClaudeIcon className="h-4 w-4" />
-          <span className="hidden lg:inline">Claude</span>
-        </Button>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => onLaunchAgent("gemini")}
-          className="text-canopy-text hover:bg-canopy-border hover:text-canopy-accent"
-          title="Launch Gemini (Ctrl+Shift+G)"
-          aria-label="Launch Gemini"
-        >
-          <GeminiIcon className="h-4 w-4" />
-          <span className="hidden lg:inline">Gemini</span>
-        </Button>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => onLaunchAgent("codex")}
-          className="text-canopy-text hover:bg-canopy-border hover:text-canopy-accent"
-          title="Launch Codex (Ctrl+Shift+X)"
-          aria-label="Launch Codex"
-        >
-          <CodexIcon className="h-4 w-4" />
-          <span className="hidden lg:inline">Codex</span>
-        </Button>
+        {launchableAgents.map((agent) => (
+          <Button
+            key={agent.id}
+            variant="ghost"
+            size="sm"
+            onClick={() => onLaunchAgent(agent.id)}
+            className="text-canopy-text hover:bg-canopy-border hover:text-canopy-accent"
+            title={`Launch ${agent.name}${agent.shortcut ? ` (${agent.shortcut})` : ""}`}
+            aria-label={`Launch ${agent.name}`}
+          >
+            <AgentIcon icon={agent.icon} className="h-4 w-4" />
+            <span className="hidden lg:inline">{agent.name}</span>
+          </Button>
+        ))}
         <Button
           variant="ghost"
           size="sm"
@@ -123,21 +115,13 @@ export function Toolbar({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="start">
-            <DropdownMenuItem onClick={() => onLaunchAgent("claude")}>
-              <ClaudeIcon className="mr-2 h-4 w-4" />
-              <span>Claude</span>
-              <DropdownMenuShortcut>Ctrl+Shift+C</DropdownMenuShortcut>
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => onLaunchAgent("gemini")}>
-              <GeminiIcon className="mr-2 h-4 w-4" />
-              <span>Gemini</span>
-              <DropdownMenuShortcut>Ctrl+Shift+G</DropdownMenuShortcut>
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => onLaunchAgent("codex")}>
-              <CodexIcon className="mr-2 h-4 w-4" />
-              <span>Codex</span>
-              <DropdownMenuShortcut>Ctrl+Shift+X</DropdownMenuShortcut>
-            </DropdownMenuItem>
+            {launchableAgents.map((agent) => (
+              <DropdownMenuItem key={agent.id} onClick={() => onLaunchAgent(agent.id)}>
+                <AgentIcon icon={agent.icon} className="mr-2 h-4 w-4" />
+                <span>{agent.name}</span>
+                {agent.shortcut && <DropdownMenuShortcut>{agent.shortcut}</DropdownMenuShortcut>}
+              </DropdownMenuItem>
+            ))}
             <DropdownMenuItem onClick={() => onLaunchAgent("shell")}>
               <Terminal className="mr-2 h-4 w-4" />
               <span>Shell</span>
@@ -203,6 +187,21 @@ export function Toolbar({
             <Maximize2 className="h-4 w-4" aria-hidden="true" />
           )}
         </Button>
+        {/* Preview panel toggle */}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onTogglePreview}
+          className={cn(
+            "text-canopy-text hover:bg-canopy-border hover:text-canopy-accent h-8 w-8",
+            isPreviewOpen && "bg-canopy-accent/20 text-canopy-accent"
+          )}
+          title={isPreviewOpen ? "Hide Preview (Ctrl+Shift+B)" : "Show Preview (Ctrl+Shift+B)"}
+          aria-label={isPreviewOpen ? "Hide preview" : "Show preview"}
+          aria-pressed={isPreviewOpen}
+        >
+          <AppWindow className="h-4 w-4" aria-hidden="true" />
+        </Button>
         {/* Problems button with error count badge */}
         <Button
           variant="ghost"
@@ -0,0 +1,327 @@
+/**
+ * PreviewPanel Component
+ *
+ * Side panel showing the active worktree's running dev server. The page itself
+ * is drawn by the main process over this panel's body, so the body only
+ * reports its position; it is hidden while dialogs or menus are open on top.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AppWindow, ExternalLink, Loader2, RotateCw, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getPreviewLayout, PREVIEW_DEVICES, type PreviewDevice } from "@/lib/previewLayout";
+import { useDevServer, useWorktree } from "@/hooks";
+import { usePreviewStore, useWorktreeSelectionStore } from "@/store";
+import type { PreviewBounds, PreviewState } from "@/types";
+
+const RESIZE_STEP = 10;
+
+// Elements drawn above the panel that the preview would otherwise cover
+const OVERLAY_SELECTOR = '[aria-modal="true"], [role="menu"]';
+
+export function PreviewPanel() {
+  const isOpen = usePreviewStore((state) => state.isOpen);
+  const activeWorktreeId = useWorktreeSelectionStore((state) => state.activeWorktreeId);
+
+  if (!isOpen) return null;
+
+  return (
+    <PreviewPane key={activeWorktreeId ?? "none"} worktreeId={activeWorktreeId ?? undefined} />
+  );
+}
+
+interface PreviewPaneProps {
+  worktreeId?: string;
+}
+
+function PreviewPane({ worktreeId }: PreviewPaneProps) {
+  const width = usePreviewStore((state) => state.width);
+  const device = usePreviewStore((state) => state.device);
+  const processId = usePreviewStore((state) => state.processId);
+  const { setOpen, setWidth, setDevice, showProcess } = usePreviewStore.getState();
+
+  const worktree = useWorktree(worktreeId ?? "");
+  const { slots } = useDevServer({ worktreeId: worktreeId ?? "", worktreePath: worktree?.path });
+
+  const [pageState, setPageState] = useState<PreviewState>({ url: null, isLoading: false });
+  const [paneBounds, setPaneBounds] = useState<PreviewBounds | null>(null);
+  const [isCovered, setIsCovered] = useState(false);
+  const [isResizing, setIsResizing] = useState(false);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const panelRef = useRef<HTMLElement>(null);
+  const openedKeyRef = useRef<string | null>(null);
+
+  // Processes with a page to show; a restarting process keeps its place
+  const previewable = slots.filter(
+    ({ state }) => state.url && (state.status === "running" || state.status === "starting")
+  );
+  const target =
+    previewable.find((slot) => slot.process.id === processId) ??
+    previewable.find((slot) => slot.state.status === "running");
+  const targetUrl = target?.state.url;
+  const targetProcessId = target?.process.id;
+  const hasTarget = target !== undefined;
+
+  const layout = useMemo(
+    () =>
+      paneBounds &&
+      getPreviewLayout(device, paneBounds, !isCovered && !isResizing && !pageState.error),
+    [device, paneBounds, isCovered, isResizing, pageState.error]
+  );
+
+  // Follow navigation in the preview
+  useEffect(() => {
+    return window.electron.preview.onState(setPageState);
+  }, []);
+
+  // Track where the body is on screen
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+
+    const measure = () => {
+      const rect = body.getBoundingClientRect();
+      setPaneBounds({ x: rect.left, y: rect.top, width: rect.width, height: rect.height });
+    };
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(body);
+    window.addEventListener("resize", measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("resize", measure);
+    };
+  }, [hasTarget]);
+
+  // Step aside for dialogs and menus, checked at most once per frame
+  useEffect(() => {
+    let frame: number | null = null;
+    const check = () => {
+      frame = null;
+      setIsCovered(document.querySelector(OVERLAY_SELECTOR) !== null);
+    };
+    check();
+
+    const observer = new MutationObserver(() => {
+      if (frame === null) frame = requestAnimationFrame(check);
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    return () => {
+      observer.disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  // Load the target page, or just move it when only the layout changed
+  useEffect(() => {
+    if (!worktreeId || !targetProcessId || !targetUrl || !layout) {
+      if (openedKeyRef.current) {
+        openedKeyRef.current = null;
+        window.electron.preview.close().catch((error) => {
+          console.error("Failed to close preview:", error);
+        });
+      }
+      return;
+    }
+
+    const key = `${worktreeId}:${targetProcessId}:${targetUrl}`;
+    const request =
+      openedKeyRef.current === key
+        ? window.electron.preview.setLayout(layout)
+        : window.electron.preview.open({
+            worktreeId,
+            processId: targetProcessId,
+            url: targetUrl,
+            layout,
+          });
+    openedKeyRef.current = key;
+    request.catch((error) => {
+      console.error("Failed to update preview:", error);
+    });
+  }, [worktreeId, targetProcessId, targetUrl, layout]);
+
+  // Discard the page when the panel closes
+  useEffect(() => {
+    return () => {
+      if (openedKeyRef.current) {
+        window.electron.preview.close().catch((error) => {
+          console.error("Failed to close preview:", error);
+        });
+      }
+    };
+  }, []);
+
+  const startResizing = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    setIsResizing(true);
+  }, []);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        setWidth(width + RESIZE_STEP);
+      } else if (e.key === "ArrowRight") {
+        e.preventDefault();
+        setWidth(width - RESIZE_STEP);
+      }
+    },
+    [width, setWidth]
+  );
+
+  useEffect(() => {
+    if (!isResizing) return;
+
+    const resize = (e: MouseEvent) => {
+      if (panelRef.current) {
+        setWidth(panelRef.current.getBoundingClientRect().right - e.clientX);
+      }
+    };
+    const stopResizing = () => setIsResizing(false);
+
+    document.addEventListener("mousemove", resize);
+    document.addEventListener("mouseup", stopResizing);
+    document.body.style.cursor = "col-resize";
+    document.body.style.userSelect = "none";
+    return () => {
+      document.removeEventListener("mousemove", resize);
+      document.removeEventListener("mouseup", stopResizing);
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+    };
+  }, [isResizing, setWidth]);
+
+  const handleReload = () => {
+    window.electron.preview.reload().catch((error) => {
+      console.error("Failed to reload preview:", error);
+    });
+  };
+
+  const handleOpenExternal = () => {
+    const url = pageState.url ?? targetUrl;
+    if (url) {
+      void window.electron.system.openExternal(url);
+    }
+  };
+
+  const displayUrl = (pageState.url ?? targetUrl)?.replace(/^https?:\/\//, "");
+
+  return (
+    <aside
+      ref={panelRef}
+      className="relative border-l border-canopy-border bg-canopy-sidebar shrink-0 flex flex-col"
+      style={{ width }}
+      aria-label="Preview"
+    >
+      {/* Header */}
+      <div className="shrink-0 flex items-center gap-2 px-3 py-2 border-b border-canopy-border">
+        {pageState.isLoading ? (
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin text-gray-400" aria-label="Loading" />
+        ) : (
+          <AppWindow className="h-4 w-4 shrink-0 text-gray-400" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="truncate text-xs font-medium text-canopy-text">
+            {pageState.title || "Preview"}
+          </div>
+          {displayUrl && (
+            <div className="truncate text-xs text-gray-500 font-mono" title={pageState.url ?? ""}>
+              {displayUrl}
+            </div>
+          )}
+        </div>
+        {previewable.length > 1 && (
+          <select
+            value={targetProcessId}
+            onChange={(e) => showProcess(e.target.value)}
+            className="bg-canopy-bg border border-canopy-border rounded px-1 py-0.5 text-xs text-canopy-text"
+            aria-label="Dev process"
+          >
+            {previewable.map(({ process }) => (
+              <option key={process.id} value={process.id}>
+                {process.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={device}
+          onChange={(e) => setDevice(e.target.value as PreviewDevice)}
+          className="bg-canopy-bg border border-canopy-border rounded px-1 py-0.5 text-xs text-canopy-text"
+          aria-label="Device size"
+        >
+          {Object.entries(PREVIEW_DEVICES).map(([id, preset]) => (
+            <option key={id} value={id}>
+              {preset.viewport
+                ? `${preset.label} (${preset.viewport.width}×${preset.viewport.height})`
+                : preset.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleReload}
+          disabled={!hasTarget}
+          className="p-1.5 text-gray-400 hover:text-canopy-text hover:bg-canopy-border/50 rounded transition-colors disabled:opacity-50"
+          title="Reload"
+        >
+          <RotateCw className="h-4 w-4" />
+        </button>
+        <button
+          onClick={handleOpenExternal}
+          disabled={!hasTarget}
+          className="p-1.5 text-gray-400 hover:text-canopy-text hover:bg-canopy-border/50 rounded transition-colors disabled:opacity-50"
+          title="Open in Browser"
+        >
+          <ExternalLink className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          className="p-1.5 text-gray-400 hover:text-canopy-text hover:bg-canopy-border/50 rounded transition-colors"
+          title="Close Preview (Ctrl+Shift+B)"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Body: the page is placed over this area */}
+      {hasTarget ? (
+        <div ref={bodyRef} className="flex-1 min-h-0 bg-canopy-bg">
+          {pageState.error && (
+            <div className="h-full flex flex-col items-center justify-center gap-2 p-4 text-center">
+              <p className="text-sm text-[var(--color-status-error)]">{pageState.error}</p>
+              <button
+                onClick={handleReload}
+                className="px-2 py-1 text-xs text-canopy-text border border-canopy-border rounded hover:bg-canopy-border/50 transition-colors"
+              >
+                Retry
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center p-4 text-center text-sm text-gray-500">
+          {worktreeId
+            ? "Start a dev server for this worktree to preview it here."
+            : "Select a worktree to preview its dev server."}
+        </div>
+      )}
+
+      {/* Resize handle */}
+      <div
+        role="separator"
+        aria-label="Resize preview"
+        aria-orientation="vertical"
+        aria-valuenow={width}
+        tabIndex={0}
+        className={cn(
+          "absolute top-0 left-0 w-1 h-full cursor-col-resize",
+          "hover:bg-canopy-accent/50 transition-colors focus:outline-none focus:bg-canopy-accent",
+          isResizing && "bg-canopy-accent"
+        )}
+        onMouseDown={startResizing}
+        onKeyDown={handleKeyDown}
+      />
+    </aside>
+  );
+}
@@ -0,0 +1 @@
+export { PreviewPanel } from "./PreviewPanel";
@@ -1,9 +1,9 @@
 /**
  * Project Settings Dialog Component
  *
- * Modal UI for editing project-level settings including run commands.
- * Shows auto-detected commands from project configuration files (package.json, Makefile, etc.)
- * with the ability to promote them to saved commands.
+ * Modal UI for editing project-level settings including run commands and
+ * worktree setup. Shows auto-detected commands from project configuration files
+ * (package.json, Makefile, etc.) with the ability to promote them to saved commands.
  */
 
 import { useState, useEffect } from "react";
@@ -11,7 +11,17 @@ import { Plus, Trash2, X, Sparkles, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useProjectSettings } from "@/hooks/useProjectSettings";
 import { useProjectStore } from "@/store/projectStore";
-import type { RunCommand } from "@/types";
+import { useRecipeStore } from "@/store/recipeStore";
+import type {
+  DevServerHealthCheck,
+  DevServerHealthCheckType,
+  DevServerRestartMode,
+  ForgeKind,
+  RunCommand,
+  WorktreeSetupFile,
+  WorktreeSetupFileMode,
+  WorktreeSyncStrategy,
+} from "@/types";
 import { cn } from "@/lib/utils";
 import { getProjectGradient } from "@/lib/colorUtils";
 
@@ -27,7 +37,22 @@ export function ProjectSettingsDialog({ projectId, isOpen, onClose }: ProjectSet
   const { projects, regenerateIdentity } = useProjectStore();
   const currentProject = projects.find((p) => p.id === projectId);
 
+  const recipes = useRecipeStore((state) => state.recipes);
+
   const [commands, setCommands] = useState<RunCommand[]>([]);
+  const [setupFiles, setSetupFiles] = useState<WorktreeSetupFile[]>([]);
+  const [setupCommands, setSetupCommands] = useState<string[]>([]);
+  const [setupRecipeId, setSetupRecipeId] = useState("");
+  const [syncStrategy, setSyncStrategy] = useState<WorktreeSyncStrategy>("rebase");
+  const [forgeKind, setForgeKind] = useState<ForgeKind | "">("");
+  const [usePolling, setUsePolling] = useState(false);
+  const [refreshDebounce, setRefreshDebounce] = useState("");
+  const [restartMode, setRestartMode] = useState<DevServerRestartMode>("never");
+  const [restartMaxRetries, setRestartMaxRetries] = useState("");
+  const [restartWatchPatterns, setRestartWatchPatterns] = useState("");
+  const [portRangeStart, setPortRangeStart] = useState("");
+  const [portsPerWorktree, setPortsPerWorktree] = useState("");
+  const [portEnvVars, setPortEnvVars] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [promotingIds, setPromotingIds] = useState<Set<string>>(new Set());
@@ -37,6 +62,19 @@ export function ProjectSettingsDialog({ projectId, isOpen, onClose }: ProjectSet
   useEffect(() => {
     if (isOpen && settings?.runCommands) {
       setCommands([...settings.runCommands]);
+      setSetupFiles([...(settings.worktreeSetup?.files ?? [])]);
+      setSetupCommands([...(settings.worktreeSetup?.commands ?? [])]);
+      setSetupRecipeId(settings.worktreeSetup?.recipeId ?? "");
+      setSyncStrategy(settings.syncStrategy ?? "rebase");
+      setForgeKind(settings.forgeKind ?? "");
+      setUsePolling(settings.usePolling ?? false);
+      setRefreshDebounce(settings.refreshDebounce?.toString() ?? "");
+      setRestartMode(settings.devServerRestartPolicy?.mode ?? "never");
+      setRestartMaxRetries(settings.devServerRestartPolicy?.maxRetries?.toString() ?? "");
+      setRestartWatchPatterns((settings.devServerRestartPolicy?.watchPatterns ?? []).join(", "));
+      setPortRangeStart(settings.devServerPortSettings?.rangeStart?.toString() ?? "");
+      setPortsPerWorktree(settings.devServerPortSettings?.portsPerWorktree?.toString() ?? "");
+      setPortEnvVars((settings.devServerPortSettings?.envVars ?? []).join(", "));
     }
   }, [settings, isOpen]);
 
@@ -48,6 +86,12 @@ export function ProjectSettingsDialog({ projectId, isOpen, onClose }: ProjectSet
     setCommands((prev) => prev.map((c) => (c.id === id ? { ...c, [field]: value } : c)));
   };
 
+  const handleHealthCheckChange = (id: string, changes: Partial<DevServerHealthCheck>) => {
+    setCommands((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, healthCheck: { ...c.healthCheck, ...changes } } : c))
+    );
+  };
+
   const handleRemove = (id: string) => {
     setCommands((prev) => prev.filter((c) => c.id !== id));
   };
@@ -57,10 +101,45 @@ export function ProjectSettingsDialog({ projectId, isOpen, onClose }: ProjectSet
 
     setIsSaving(true);
     setSaveError(null);
+    // Blank uses the default limit
+    const maxRetries = parseInt(restartMaxRetries, 10);
+    const rangeStart = parseInt(portRangeStart, 10);
+    const perWorktree = parseInt(portsPerWorktree, 10);
+    const debounceMs = parseInt(refreshDebounce, 10);
+    const envVars = portEnvVars
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
     try {
       await saveSettings({
         ...settings,
         runCommands: commands.filter((c) => c.name && c.command), // Only save valid commands
+        worktreeSetup: {
+          files: setupFiles
+            .map((f) => ({ ...f, pattern: f.pattern.trim() }))
+            .filter((f) => f.pattern),
+          commands: setupCommands.map((c) => c.trim()).filter(Boolean),
+          recipeId: setupRecipeId || undefined,
+        },
+        syncStrategy,
+        forgeKind: forgeKind || undefined,
+        usePolling,
+        refreshDebounce: debounceMs >= 0 ? debounceMs : undefined,
+        devServerRestartPolicy: {
+          ...settings.devServerRestartPolicy,
+          mode: restartMode,
+          maxRetries: maxRetries >= 0 ? maxRetries : undefined,
+          watchPatterns: restartWatchPatterns
+            .split(",")
+            .map((pattern) => pattern.trim())
+            .filter(Boolean),
+        },
+        devServerPortSettings: {
+          ...settings.devServerPortSettings,
+          rangeStart: rangeStart > 0 && rangeStart <= 65535 ? rangeStart : undefined,
+          portsPerWorktree: perWorktree > 0 ? perWorktree : undefined,
+          envVars: envVars.length > 0 ? envVars : undefined,
+        },
       });
       onClose();
     } catch (error) {
@@ -200,31 +279,285 @@ export function ProjectSettingsDialog({ projectId, isOpen, onClose }: ProjectSet
                 <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">Run Commands</h3>
                 <p className="text-xs text-gray-500 mb-4">
                   Configure quick commands to run in terminals. These will appear as buttons in the
-                  sidebar.
+                  sidebar. Commands marked as dev processes run together in each worktree and are
+                  started and stopped from its card.
                 </p>
                 <div className="space-y-2">
                   {commands.map((cmd) => (
-                    <div key={cmd.id} className="flex gap-2 items-center">
+                    <div key={cmd.id} className="space-y-1">
+                      <div className="flex gap-2 items-center">
+                        <input
+                          className={cn(
+                            "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text w-1/3",
+                            "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                          )}
+                          value={cmd.name}
+                          onChange={(e) => handleChange(cmd.id, "name", e.target.value)}
+                          placeholder="Name (e.g. Dev Server)"
+                        />
+                        <input
+                          className={cn(
+                            "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text flex-1 font-mono",
+                            "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                          )}
+                          value={cmd.command}
+                          onChange={(e) => handleChange(cmd.id, "command", e.target.value)}
+                          placeholder="Command (e.g. npm run dev)"
+                        />
+                        <label
+                          className="flex items-center gap-1 text-xs text-gray-400 shrink-0"
+                          title="Run as a dev process in each worktree"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={cmd.devProcess ?? false}
+                            onChange={(e) =>
+                              setCommands((prev) =>
+                                prev.map((c) =>
+                                  c.id === cmd.id ? { ...c, devProcess: e.target.checked } : c
+                                )
+                              )
+                            }
+                            className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                          />
+                          Dev
+                        </label>
+                        <Button
+                          onClick={() => handleRemove(cmd.id)}
+                          variant="ghost"
+                          size="icon"
+                          className="text-[var(--color-status-error)] hover:text-red-300 hover:bg-red-900/20 h-8 w-8"
+                          title="Remove command"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {cmd.devProcess && (
+                        <div className="flex gap-2 items-center pl-2 text-xs text-gray-400">
+                          <span>Ready when</span>
+                          <select
+                            className="bg-canopy-bg border border-canopy-border rounded px-2 py-1 text-xs text-canopy-text focus:outline-none focus:border-canopy-accent"
+                            value={cmd.healthCheck?.type ?? ""}
+                            onChange={(e) =>
+                              handleHealthCheckChange(cmd.id, {
+                                type: (e.target.value || undefined) as
+                                  | DevServerHealthCheckType
+                                  | undefined,
+                              })
+                            }
+                          >
+                            <option value="">Automatic (probe a printed URL)</option>
+                            <option value="tcp">Port accepts connections</option>
+                            <option value="http">HTTP path responds</option>
+                            <option value="none">Process starts</option>
+                          </select>
+                          {cmd.healthCheck?.type === "http" && (
+                            <input
+                              className={cn(
+                                "bg-canopy-bg border border-canopy-border rounded px-2 py-1 text-xs text-canopy-text flex-1 font-mono",
+                                "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                              )}
+                              value={cmd.healthCheck.path ?? ""}
+                              onChange={(e) =>
+                                handleHealthCheckChange(cmd.id, {
+                                  path: e.target.value || undefined,
+                                })
+                              }
+                              placeholder="Path (e.g. /health)"
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
+                  {commands.length === 0 && (
+                    <div className="text-sm text-gray-500 text-center py-4 border border-dashed border-canopy-border rounded">
+                      No run commands configured
+                    </div>
+                  )}
+                </div>
+
+                <Button
+                  onClick={handleAddCommand}
+                  variant="outline"
+                  className="mt-3 w-full border-dashed border-canopy-border text-gray-400 hover:text-canopy-text hover:border-canopy-accent/50"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Command
+                </Button>
+              </div>
+
+              {/* Dev Server Restarts Section */}
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">
+                  Dev Server Restarts
+                </h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Restart dev processes that exit on their own, waiting longer after each retry.
+                  Processes are also restarted when a file matching one of the watched patterns
+                  changes.
+                </p>
+                <div className="flex gap-2 items-center">
+                  <select
+                    aria-label="Restart policy"
+                    className="flex-1 bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text focus:outline-none focus:border-canopy-accent"
+                    value={restartMode}
+                    onChange={(e) => setRestartMode(e.target.value as DevServerRestartMode)}
+                  >
+                    <option value="never">Never restart</option>
+                    <option value="on-failure">Restart when a process fails</option>
+                    <option value="always">Restart whenever a process exits</option>
+                  </select>
+                  {restartMode !== "never" && (
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label="Maximum restarts"
+                      className={cn(
+                        "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text w-28",
+                        "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                      )}
+                      value={restartMaxRetries}
+                      onChange={(e) => setRestartMaxRetries(e.target.value)}
+                      placeholder="Max retries"
+                    />
+                  )}
+                </div>
+                <input
+                  aria-label="Restart when these files change"
+                  className={cn(
+                    "mt-2 w-full bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text font-mono",
+                    "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                  )}
+                  value={restartWatchPatterns}
+                  onChange={(e) => setRestartWatchPatterns(e.target.value)}
+                  placeholder="Restart when these change (e.g. .env*, config/*.json)"
+                />
+              </div>
+
+              {/* Dev Server Ports Section */}
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">Dev Server Ports</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Each worktree gets its own block of ports, and each dev process a port from it in{" "}
+                  <code>PORT</code> and any extra variables listed. New settings apply to worktrees
+                  that have no ports yet.
+                </p>
+                <div className="flex gap-2 items-center">
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    aria-label="First port"
+                    className={cn(
+                      "flex-1 bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text",
+                      "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                    )}
+                    value={portRangeStart}
+                    onChange={(e) => setPortRangeStart(e.target.value)}
+                    placeholder="First port (default 3100)"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    aria-label="Ports per worktree"
+                    className={cn(
+                      "flex-1 bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text",
+                      "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                    )}
+                    value={portsPerWorktree}
+                    onChange={(e) => setPortsPerWorktree(e.target.value)}
+                    placeholder="Ports per worktree (default 10)"
+                  />
+                </div>
+                <input
+                  aria-label="Extra port environment variables"
+                  className={cn(
+                    "mt-2 w-full bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text font-mono",
+                    "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                  )}
+                  value={portEnvVars}
+                  onChange={(e) => setPortEnvVars(e.target.value)}
+                  placeholder="Also set these to the port (e.g. VITE_PORT, API_PORT)"
+                />
+              </div>
+
+              {/* Worktree Setup Section */}
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">Worktree Setup</h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  Runs after each new worktree is created. Files are brought over from the main
+                  worktree (<code>*</code> matches within a folder), then commands run in order.
+                </p>
+                <div className="space-y-2">
+                  {setupFiles.map((file, index) => (
+                    <div key={index} className="flex gap-2 items-center">
                       <input
                         className={cn(
-                          "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text w-1/3",
+                          "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text flex-1 font-mono",
                           "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
                         )}
-                        value={cmd.name}
-                        onChange={(e) => handleChange(cmd.id, "name", e.target.value)}
-                        placeholder="Name (e.g. Dev Server)"
+                        value={file.pattern}
+                        onChange={(e) =>
+                          setSetupFiles((prev) =>
+                            prev.map((f, i) =>
+                              i === index ? { ...f, pattern: e.target.value } : f
+                            )
+                          )
+                        }
+                        placeholder="File or pattern (e.g. .env*)"
                       />
+                      <select
+                        className="bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text focus:outline-none focus:border-canopy-accent"
+                        value={file.mode}
+                        onChange={(e) =>
+                          setSetupFiles((prev) =>
+                            prev.map((f, i) =>
+                              i === index
+                                ? { ...f, mode: e.target.value as WorktreeSetupFileMode }
+                                : f
+                            )
+                          )
+                        }
+                      >
+                        <option value="copy">Copy</option>
+                        <option value="symlink">Symlink</option>
+                      </select>
+                      <Button
+                        onClick={() => setSetupFiles((prev) => prev.filter((_, i) => i !== index))}
+                        variant="ghost"
+                        size="icon"
+                        className="text-[var(--color-status-error)] hover:text-red-300 hover:bg-red-900/20 h-8 w-8"
+                        title="Remove file"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  {setupCommands.map((command, index) => (
+                    <div key={index} className="flex gap-2 items-center">
+                      <span className="text-xs text-gray-500 font-mono w-4 text-right">
+                        {index + 1}
+                      </span>
                       <input
                         className={cn(
                           "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text flex-1 font-mono",
                           "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
                         )}
-                        value={cmd.command}
-                        onChange={(e) => handleChange(cmd.id, "command", e.target.value)}
-                        placeholder="Command (e.g. npm run dev)"
+                        value={command}
+                        onChange={(e) =>
+                          setSetupCommands((prev) =>
+                            prev.map((c, i) => (i === index ? e.target.value : c))
+                          )
+                        }
+                        placeholder="Command (e.g. npm install)"
                       />
                       <Button
-                        onClick={() => handleRemove(cmd.id)}
+                        onClick={() =>
+                          setSetupCommands((prev) => prev.filter((_, i) => i !== index))
+                        }
                         variant="ghost"
                         size="icon"
                         className="text-[var(--color-status-error)] hover:text-red-300 hover:bg-red-900/20 h-8 w-8"
@@ -235,21 +568,127 @@ export function ProjectSettingsDialog({ projectId, isOpen, onClose }: ProjectSet
                     </div>
                   ))}
 
-                  {commands.length === 0 && (
+                  {setupFiles.length === 0 && setupCommands.length === 0 && (
                     <div className="text-sm text-gray-500 text-center py-4 border border-dashed border-canopy-border rounded">
-                      No run commands configured
+                      No setup steps configured
                     </div>
                   )}
                 </div>
 
-                <Button
-                  onClick={handleAddCommand}
-                  variant="outline"
-                  className="mt-3 w-full border-dashed border-canopy-border text-gray-400 hover:text-canopy-text hover:border-canopy-accent/50"
+                <div className="flex gap-2 mt-3">
+                  <Button
+                    onClick={() =>
+                      setSetupFiles((prev) => [...prev, { pattern: "", mode: "copy" }])
+                    }
+                    variant="outline"
+                    className="flex-1 border-dashed border-canopy-border text-gray-400 hover:text-canopy-text hover:border-canopy-accent/50"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add File
+                  </Button>
+                  <Button
+                    onClick={() => setSetupCommands((prev) => [...prev, ""])}
+                    variant="outline"
+                    className="flex-1 border-dashed border-canopy-border text-gray-400 hover:text-canopy-text hover:border-canopy-accent/50"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Command
+                  </Button>
+                </div>
+
+                <div className="flex items-center gap-2 mt-3">
+                  <label htmlFor="setup-recipe" className="text-sm text-canopy-text/80">
+                    Then launch recipe
+                  </label>
+                  <select
+                    id="setup-recipe"
+                    className="flex-1 bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text focus:outline-none focus:border-canopy-accent"
+                    value={setupRecipeId}
+                    onChange={(e) => setSetupRecipeId(e.target.value)}
+                  >
+                    <option value="">None</option>
+                    {recipes
+                      .filter((recipe) => recipe.worktreeId === undefined)
+                      .map((recipe) => (
+                        <option key={recipe.id} value={recipe.id}>
+                          {recipe.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Sync Strategy Section */}
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">Sync with Main</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  How worktree branches take in new commits from the main branch. Conflicts stop the
+                  sync so they can be resolved from the worktree card.
+                </p>
+                <select
+                  aria-label="Sync strategy"
+                  className="w-full bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text focus:outline-none focus:border-canopy-accent"
+                  value={syncStrategy}
+                  onChange={(e) => setSyncStrategy(e.target.value as WorktreeSyncStrategy)}
                 >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Command
-                </Button>
+                  <option value="rebase">Rebase onto main (linear history)</option>
+                  <option value="merge">Merge main into the branch</option>
+                </select>
+              </div>
+
+              {/* Forge Section */}
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">Code Host</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Where issues and pull requests live. Automatic detection only recognizes hosts
+                  whose name includes the product, so pick one for self-hosted instances on a custom
+                  domain.
+                </p>
+                <select
+                  aria-label="Code host"
+                  className="w-full bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text focus:outline-none focus:border-canopy-accent"
+                  value={forgeKind}
+                  onChange={(e) => setForgeKind(e.target.value as ForgeKind | "")}
+                >
+                  <option value="">Automatic (from the origin remote)</option>
+                  <option value="github">GitHub (gh CLI)</option>
+                  <option value="gitlab">GitLab</option>
+                  <option value="gitea">Gitea / Forgejo</option>
+                </select>
+              </div>
+
+              {/* File Watching Section */}
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-canopy-text/80 mb-2">File Watching</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Worktree status updates when files change. Polling checks on an interval instead,
+                  for network drives or systems that run out of file watchers.
+                </p>
+                <div className="flex gap-2 items-center">
+                  <label className="flex-1 flex items-center gap-2 text-sm text-canopy-text">
+                    <input
+                      type="checkbox"
+                      checked={usePolling}
+                      onChange={(e) => setUsePolling(e.target.checked)}
+                      className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                    />
+                    Poll for changes instead of watching files
+                  </label>
+                  {!usePolling && (
+                    <input
+                      type="number"
+                      min={0}
+                      aria-label="Refresh delay after file changes"
+                      className={cn(
+                        "bg-canopy-bg border border-canopy-border rounded px-2 py-1.5 text-sm text-canopy-text w-28",
+                        "focus:outline-none focus:border-canopy-accent focus:ring-1 focus:ring-canopy-accent/30"
+                      )}
+                      value={refreshDebounce}
+                      onChange={(e) => setRefreshDebounce(e.target.value)}
+                      placeholder="Delay (ms)"
+                    />
+                  )}
+                </div>
               </div>
 
               {/* Suggested Commands Section */}
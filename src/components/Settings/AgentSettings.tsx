@@ -0,0 +1,436 @@
+/**
+ * Agent Settings Component
+ *
+ * Settings tab for the agent registry. Lists built-in and user-defined agents
+ * and provides an editor for each agent's launch command, environment, icon,
+ * context format, state detection patterns and shortcut.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AgentIcon, AGENT_ICON_NAMES } from "@/components/icons";
+import { useAgentRegistryStore } from "@/store";
+import { AlertCircle, Pencil, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AgentDefinition, AgentIconName } from "@/types";
+
+type CopyTreeFormat = AgentDefinition["copyTreeFormat"];
+
+const COPYTREE_FORMATS: CopyTreeFormat[] = ["xml", "markdown", "json", "tree", "ndjson"];
+
+const INPUT_CLASS =
+  "w-full bg-canopy-bg border border-canopy-border rounded-md px-3 py-2 text-sm text-canopy-text placeholder:text-gray-500 focus:outline-none focus:ring-1 focus:ring-canopy-accent";
+
+/** Editable form fields; list fields are edited one entry per line */
+interface AgentFormState {
+  id: string;
+  name: string;
+  command: string;
+  args: string;
+  env: string;
+  icon: AgentIconName;
+  copyTreeFormat: CopyTreeFormat;
+  busyPatterns: string;
+  promptPatterns: string;
+  promptPatternsIgnoreCase: boolean;
+  shortcut: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: AgentFormState = {
+  id: "",
+  name: "",
+  command: "",
+  args: "",
+  env: "",
+  icon: "bot",
+  copyTreeFormat: "xml",
+  busyPatterns: "",
+  promptPatterns: "> $",
+  promptPatternsIgnoreCase: false,
+  shortcut: "",
+  enabled: true,
+};
+
+function toForm(agent: AgentDefinition): AgentFormState {
+  return {
+    id: agent.id,
+    name: agent.name,
+    command: agent.command,
+    args: (agent.args ?? []).join("\n"),
+    env: Object.entries(agent.env ?? {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join("\n"),
+    icon: agent.icon,
+    copyTreeFormat: agent.copyTreeFormat,
+    busyPatterns: agent.busyPatterns.join("\n"),
+    promptPatterns: agent.promptPatterns.join("\n"),
+    promptPatternsIgnoreCase: agent.promptPatternsIgnoreCase ?? false,
+    shortcut: agent.shortcut ?? "",
+    enabled: agent.enabled,
+  };
+}
+
+function splitLines(text: string): string[] {
+  return text.split("\n").filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Convert form fields into an agent definition.
+ * @returns The definition, or an error message describing the first invalid field
+ */
+function fromForm(
+  form: AgentFormState,
+  existing: AgentDefinition[],
+  original: AgentDefinition | null
+): AgentDefinition | string {
+  const id = form.id.trim();
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+    return "ID must be lowercase letters, numbers and dashes";
+  }
+  if (id === "shell") {
+    return 'The ID "shell" is reserved';
+  }
+  if (existing.some((agent) => agent.id === id && agent !== original)) {
+    return `An agent with ID "${id}" already exists`;
+  }
+  if (!form.name.trim()) return "Name is required";
+  if (!form.command.trim()) return "Command is required";
+
+  const env: Record<string, string> = {};
+  for (const line of splitLines(form.env)) {
+    const separator = line.indexOf("=");
+    if (separator <= 0) return `Invalid environment variable: ${line.trim()}`;
+    env[line.slice(0, separator).trim()] = line.slice(separator + 1);
+  }
+
+  const busyPatterns = splitLines(form.busyPatterns);
+  const promptPatterns = splitLines(form.promptPatterns);
+  for (const pattern of [...busyPatterns, ...promptPatterns]) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `Invalid pattern: ${pattern}`;
+    }
+  }
+
+  const args = splitLines(form.args).map((arg) => arg.trim());
+  const shortcut = form.shortcut.trim();
+
+  return {
+    id,
+    name: form.name.trim(),
+    command: form.command.trim(),
+    ...(args.length > 0 ? { args } : {}),
+    ...(Object.keys(env).length > 0 ? { env } : {}),
+    icon: form.icon,
+    copyTreeFormat: form.copyTreeFormat,
+    busyPatterns,
+    promptPatterns,
+    ...(form.promptPatternsIgnoreCase ? { promptPatternsIgnoreCase: true } : {}),
+    ...(shortcut ? { shortcut } : {}),
+    enabled: form.enabled,
+    ...(original?.builtIn ? { builtIn: true } : {}),
+  };
+}
+
+function Field({
+  label,
+  hint,
+  children,
+}: {
+  label: string;
+  hint?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs font-medium text-gray-400">{label}</span>
+      {children}
+      {hint && <span className="block text-xs text-gray-500">{hint}</span>}
+    </label>
+  );
+}
+
+export function AgentSettings() {
+  const agents = useAgentRegistryStore((state) => state.agents);
+  const saveAgents = useAgentRegistryStore((state) => state.saveAgents);
+
+  // null = list view; otherwise the agent being edited (original is null when adding)
+  const [editing, setEditing] = useState<{
+    original: AgentDefinition | null;
+    form: AgentFormState;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const persist = async (next: AgentDefinition[]): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveAgents(next);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save agents");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateForm = (updates: Partial<AgentFormState>) => {
+    setEditing((current) =>
+      current ? { ...current, form: { ...current.form, ...updates } } : null
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const result = fromForm(editing.form, agents, editing.original);
+    if (typeof result === "string") {
+      setError(result);
+      return;
+    }
+
+    const next = editing.original
+      ? agents.map((agent) => (agent === editing.original ? result : agent))
+      : [...agents, result];
+    if (await persist(next)) {
+      setEditing(null);
+    }
+  };
+
+  const handleToggle = (target: AgentDefinition) => {
+    void persist(
+      agents.map((agent) => (agent === target ? { ...agent, enabled: !agent.enabled } : agent))
+    );
+  };
+
+  const handleDelete = (target: AgentDefinition) => {
+    void persist(agents.filter((agent) => agent !== target));
+  };
+
+  const openEditor = (original: AgentDefinition | null) => {
+    setError(null);
+    setEditing({ original, form: original ? toForm(original) : EMPTY_FORM });
+  };
+
+  if (editing) {
+    const { form, original } = editing;
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Field label="Name">
+            <input
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="Aider"
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="ID" hint={original ? "IDs can't be changed" : undefined}>
+            <input
+              value={form.id}
+              onChange={(e) => updateForm({ id: e.target.value })}
+              placeholder="aider"
+              disabled={original !== null}
+              className={cn(INPUT_CLASS, original && "opacity-60")}
+            />
+          </Field>
+          <Field label="Command">
+            <input
+              value={form.command}
+              onChange={(e) => updateForm({ command: e.target.value })}
+              placeholder="aider"
+              className={cn(INPUT_CLASS, "font-mono")}
+            />
+          </Field>
+          <Field label="Shortcut" hint="e.g. Ctrl+Shift+A (optional)">
+            <input
+              value={form.shortcut}
+              onChange={(e) => updateForm({ shortcut: e.target.value })}
+              className={cn(INPUT_CLASS, "font-mono")}
+            />
+          </Field>
+          <Field label="Arguments" hint="One per line">
+            <textarea
+              value={form.args}
+              onChange={(e) => updateForm({ args: e.target.value })}
+              rows={3}
+              className={cn(INPUT_CLASS, "font-mono resize-none")}
+            />
+          </Field>
+          <Field label="Environment" hint="KEY=value, one per line">
+            <textarea
+              value={form.env}
+              onChange={(e) => updateForm({ env: e.target.value })}
+              rows={3}
+              className={cn(INPUT_CLASS, "font-mono resize-none")}
+            />
+          </Field>
+          <Field label="Busy patterns" hint="Regexes matched while the agent is working">
+            <textarea
+              value={form.busyPatterns}
+              onChange={(e) => updateForm({ busyPatterns: e.target.value })}
+              rows={3}
+              className={cn(INPUT_CLASS, "font-mono resize-none")}
+            />
+          </Field>
+          <Field label="Prompt patterns" hint="Regexes matched when it waits for input">
+            <textarea
+              value={form.promptPatterns}
+              onChange={(e) => updateForm({ promptPatterns: e.target.value })}
+              rows={3}
+              className={cn(INPUT_CLASS, "font-mono resize-none")}
+            />
+          </Field>
+          <label className="flex items-center gap-2 text-sm text-canopy-text">
+            <input
+              type="checkbox"
+              checked={form.promptPatternsIgnoreCase}
+              onChange={(e) => updateForm({ promptPatternsIgnoreCase: e.target.checked })}
+              className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+            />
+            Ignore case in prompt patterns
+          </label>
+          <Field label="Context format">
+            <select
+              value={form.copyTreeFormat}
+              onChange={(e) => updateForm({ copyTreeFormat: e.target.value as CopyTreeFormat })}
+              className={INPUT_CLASS}
+            >
+              {COPYTREE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {format}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Icon">
+            <div className="flex gap-1">
+              {AGENT_ICON_NAMES.map((icon) => (
+                <button
+                  key={icon}
+                  type="button"
+                  onClick={() => updateForm({ icon })}
+                  className={cn(
+                    "p-2 rounded-md border transition-colors",
+                    form.icon === icon
+                      ? "border-canopy-accent bg-canopy-accent/10 text-canopy-accent"
+                      : "border-canopy-border text-gray-400 hover:text-canopy-text"
+                  )}
+                  aria-label={`Use ${icon} icon`}
+                  aria-pressed={form.icon === icon}
+                >
+                  <AgentIcon icon={icon} className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </Field>
+        </div>
+
+        {error && (
+          <p className="text-xs text-[var(--color-status-error)] flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setEditing(null)}
+            className="text-canopy-text border-canopy-border hover:bg-canopy-border"
+          >
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {original ? "Save" : "Add Agent"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400">
+        Agents appear in the toolbar and can be launched into any worktree. Busy and prompt patterns
+        let Canopy tell when an agent is working or waiting for input.
+      </p>
+
+      <div className="space-y-2">
+        {agents.map((agent) => (
+          <div
+            key={agent.id}
+            className="flex items-center gap-3 p-3 rounded-md border border-canopy-border bg-canopy-bg"
+          >
+            <AgentIcon icon={agent.icon} className="w-4 h-4 text-canopy-text shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-canopy-text">
+                {agent.name}
+                {agent.builtIn && <span className="ml-2 text-xs text-gray-500">built-in</span>}
+              </div>
+              <div className="text-xs text-gray-500 font-mono truncate">
+                {[agent.command, ...(agent.args ?? [])].join(" ")}
+              </div>
+            </div>
+            <button
+              onClick={() => handleToggle(agent)}
+              disabled={isSaving}
+              className={cn(
+                "relative w-9 h-5 rounded-full transition-colors shrink-0",
+                agent.enabled ? "bg-canopy-accent" : "bg-gray-600"
+              )}
+              aria-label={`${agent.enabled ? "Disable" : "Enable"} ${agent.name}`}
+              aria-pressed={agent.enabled}
+            >
+              <span
+                className={cn(
+                  "absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full transition-transform",
+                  agent.enabled && "translate-x-4"
+                )}
+              />
+            </button>
+            <button
+              onClick={() => openEditor(agent)}
+              className="text-gray-400 hover:text-canopy-text transition-colors"
+              aria-label={`Edit ${agent.name}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            {!agent.builtIn && (
+              <button
+                onClick={() => handleDelete(agent)}
+                disabled={isSaving}
+                className="text-gray-400 hover:text-[var(--color-status-error)] transition-colors"
+                aria-label={`Remove ${agent.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="text-xs text-[var(--color-status-error)] flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => openEditor(null)}
+        className="text-canopy-text border-canopy-border hover:bg-canopy-border"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Agent
+      </Button>
+    </div>
+  );
+}
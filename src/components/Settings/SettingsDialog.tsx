@@ -2,13 +2,14 @@
  * Settings Dialog Component
  *
  * Modal UI for viewing and configuring application settings.
- * Includes tabs for General info, AI settings, and Troubleshooting tools.
+ * Includes tabs for General info, the agent registry, AI settings, and Troubleshooting tools.
  */
 
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { useErrors } from "@/hooks";
-import { useLogsStore } from "@/store";
+import { useAgentRegistryStore, useLogsStore } from "@/store";
+import { AgentSettings } from "./AgentSettings";
 import {
   X,
   FileText,
@@ -20,6 +21,7 @@ import {
   Sparkles,
   FlaskConical,
   TreePine,
+  Bot,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { AIServiceState } from "@/types";
@@ -30,7 +32,7 @@ interface SettingsDialogProps {
   defaultTab?: SettingsTab;
 }
 
-type SettingsTab = "general" | "ai" | "troubleshooting";
+type SettingsTab = "general" | "agents" | "ai" | "troubleshooting";
 
 // Keyboard shortcuts organized by category
 const KEYBOARD_SHORTCUTS = [
@@ -41,21 +43,19 @@ const KEYBOARD_SHORTCUTS = [
       { key: "Ctrl+Tab", description: "Focus next terminal" },
       { key: "Ctrl+Shift+Tab", description: "Focus previous terminal" },
       { key: "Ctrl+Shift+F", description: "Toggle maximize terminal" },
+      { key: "Cmd+Up / Cmd+Down", description: "Jump between commands (shell integration)" },
     ],
   },
   {
     category: "Agents",
-    shortcuts: [
-      { key: "Ctrl+Shift+C", description: "Launch Claude agent" },
-      { key: "Ctrl+Shift+G", description: "Launch Gemini agent" },
-      { key: "Ctrl+Shift+I", description: "Inject context to terminal" },
-    ],
+    shortcuts: [{ key: "Ctrl+Shift+I", description: "Inject context to terminal" }],
   },
   {
     category: "Panels",
     shortcuts: [
       { key: "Ctrl+Shift+L", description: "Toggle logs panel" },
       { key: "Ctrl+Shift+E", description: "Toggle event inspector" },
+      { key: "Ctrl+Shift+B", description: "Toggle dev server preview" },
     ],
   },
   {
@@ -97,6 +97,7 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
   const [activeTab, setActiveTab] = useState<SettingsTab>(defaultTab ?? "general");
   const { openLogs } = useErrors();
   const clearLogs = useLogsStore((state) => state.clearLogs);
+  const agents = useAgentRegistryStore((state) => state.agents);
 
   // App version state
   const [appVersion, setAppVersion] = useState<string>("Loading...");
@@ -111,6 +112,9 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
   >(null);
   const [selectedModel, setSelectedModel] = useState("gpt-5-nano");
 
+  // Terminal settings state
+  const [shellIntegration, setShellIntegration] = useState(false);
+
   // Update active tab when defaultTab changes while dialog is open
   useEffect(() => {
     if (isOpen && defaultTab && defaultTab !== activeTab) {
@@ -147,6 +151,16 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
     }
   }, [isOpen]);
 
+  // Load terminal settings on mount
+  useEffect(() => {
+    if (isOpen && window.electron?.terminal) {
+      window.electron.terminal
+        .getShellIntegration()
+        .then(setShellIntegration)
+        .catch((error) => console.error("Failed to load shell integration setting:", error));
+    }
+  }, [isOpen]);
+
   // Clear validation result after 3 seconds
   useEffect(() => {
     if (!validationResult) return;
@@ -221,6 +235,16 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
     setAiConfig(config);
   };
 
+  const handleShellIntegrationChange = async (enabled: boolean) => {
+    setShellIntegration(enabled);
+    try {
+      await window.electron.terminal.setShellIntegration(enabled);
+    } catch (error) {
+      console.error("Failed to update shell integration setting:", error);
+      setShellIntegration(!enabled);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -251,6 +275,18 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
           >
             General
           </button>
+          <button
+            onClick={() => setActiveTab("agents")}
+            className={cn(
+              "text-left px-3 py-2 rounded-md text-sm transition-colors flex items-center gap-2",
+              activeTab === "agents"
+                ? "bg-canopy-accent/10 text-canopy-accent"
+                : "text-gray-400 hover:bg-canopy-border hover:text-canopy-text"
+            )}
+          >
+            <Bot className="w-4 h-4" />
+            Agents
+          </button>
           <button
             onClick={() => setActiveTab("ai")}
             className={cn(
@@ -323,6 +359,34 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-canopy-text">Shell Integration</h4>
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <button
+                      onClick={() => handleShellIntegrationChange(!shellIntegration)}
+                      className={cn(
+                        "relative w-11 h-6 rounded-full transition-colors",
+                        shellIntegration ? "bg-canopy-accent" : "bg-gray-600"
+                      )}
+                    >
+                      <span
+                        className={cn(
+                          "absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform",
+                          shellIntegration && "translate-x-5"
+                        )}
+                      />
+                    </button>
+                    <span className="text-sm text-canopy-text">
+                      {shellIntegration ? "Enabled" : "Disabled"}
+                    </span>
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Loads a small script into bash, zsh and fish so Canopy can mark each command
+                    with its exit status and follow directory changes across worktrees. Applies to
+                    newly opened terminals.
+                  </p>
+                </div>
+
                 <div className="space-y-4">
                   <h4 className="text-sm font-medium text-canopy-text">Keyboard Shortcuts</h4>
 
@@ -332,7 +396,18 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
                         {category.category}
                       </h5>
                       <dl className="space-y-1">
-                        {category.shortcuts.map((shortcut) => (
+                        {[
+                          // Agent launch shortcuts come from the agent registry
+                          ...(category.category === "Agents"
+                            ? agents
+                                .filter((agent) => agent.enabled && agent.shortcut)
+                                .map((agent) => ({
+                                  key: agent.shortcut!,
+                                  description: `Launch ${agent.name} agent`,
+                                }))
+                            : []),
+                          ...category.shortcuts,
+                        ].map((shortcut) => (
                           <div
                             key={shortcut.key}
                             className="flex items-center justify-between text-sm py-1"
@@ -352,6 +427,8 @@ export function SettingsDialog({ isOpen, onClose, defaultTab }: SettingsDialogPr
               </div>
             )}
 
+            {activeTab === "agents" && <AgentSettings />}
+
             {activeTab === "ai" && (
               <div className="space-y-6">
                 {/* API Key Section */}
@@ -136,6 +136,7 @@ export function TerminalGrid({ className, defaultCwd }: TerminalGridProps) {
             id={terminal.id}
             title={terminal.title}
             type={terminal.type}
+            agentType={terminal.agentType}
             worktreeId={terminal.worktreeId}
             cwd={terminal.cwd}
             isFocused={true}
@@ -193,6 +194,7 @@ export function TerminalGrid({ className, defaultCwd }: TerminalGridProps) {
           id={terminal.id}
           title={terminal.title}
           type={terminal.type}
+          agentType={terminal.agentType}
           worktreeId={terminal.worktreeId}
           cwd={terminal.cwd}
           isFocused={terminal.id === focusedId}
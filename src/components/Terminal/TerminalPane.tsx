@@ -18,12 +18,12 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { useShallow } from "zustand/react/shallow";
 import { Terminal, Command, X, Maximize2, Minimize2, Copy, Loader2 } from "lucide-react";
-import { ClaudeIcon, GeminiIcon, CodexIcon } from "@/components/icons";
+import { ClaudeIcon, GeminiIcon, CodexIcon, AgentIcon } from "@/components/icons";
 import { cn } from "@/lib/utils";
 import { XtermAdapter } from "./XtermAdapter";
 import { ArtifactOverlay } from "./ArtifactOverlay";
 import { ErrorBanner } from "../Errors/ErrorBanner";
-import { useErrorStore, useTerminalStore, type RetryAction } from "@/store";
+import { useErrorStore, useTerminalStore, useAgentRegistryStore, type RetryAction } from "@/store";
 import { useContextInjection, type CopyTreeProgress } from "@/hooks/useContextInjection";
 import type { AgentState, AgentStateChangeTrigger } from "@/types";
 
@@ -42,6 +42,8 @@ export interface TerminalPaneProps {
   title: string;
   /** Type of terminal (affects icon display) */
   type: TerminalType;
+  /** Agent registry ID (its configured icon takes precedence over the type icon) */
+  agentType?: string;
   /** Associated worktree ID (enables inject context button) */
   worktreeId?: string;
   /** Working directory for the terminal */
@@ -95,6 +97,7 @@ export function TerminalPane({
   id,
   title,
   type,
+  agentType,
   worktreeId,
   cwd,
   isFocused,
@@ -119,6 +122,10 @@ export function TerminalPane({
   // Get context injection hook for retry handling
   const { inject } = useContextInjection();
 
+  const agentIcon = useAgentRegistryStore(
+    (state) => state.agents.find((agent) => agent.id === agentType)?.icon
+  );
+
   // Get queued command count for this terminal
   const queueCount = useTerminalStore(
     useShallow((state) => state.commandQueue.filter((c) => c.terminalId === id).length)
@@ -293,7 +300,11 @@ export function TerminalPane({
       >
         <div className="flex items-center gap-2 min-w-0">
           <span className={cn("shrink-0 text-canopy-text/70", isFocused && "text-canopy-accent")}>
-            {getTerminalIcon(type)}
+            {agentIcon ? (
+              <AgentIcon icon={agentIcon} className="w-3.5 h-3.5" />
+            ) : (
+              getTerminalIcon(type)
+            )}
           </span>
 
           {/* Title - Monospace and smaller */}
@@ -507,6 +518,7 @@ export function TerminalPane({
           terminalId={id}
           onReady={handleReady}
           onExit={handleExit}
+          isFocused={isFocused}
           className="absolute inset-0"
         />
         {/* Artifact Overlay */}
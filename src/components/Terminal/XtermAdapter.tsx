@@ -9,14 +9,18 @@
  * - WebGL rendering for performance (with canvas fallback)
  * - "Jank Fix": CSI parser to block cursor-home jumps during scrolling
  * - Write throttling for 60fps cap on massive text dumps
+ * - Snapshot replay from the main-process headless mirror on mount
+ * - Command gutters and prompt navigation from shell integration (OSC 133)
  */
 
 import { useEffect, useRef, useCallback, useMemo } from "react";
-import { Terminal } from "@xterm/xterm";
+import { Terminal, type IMarker } from "@xterm/xterm";
 import { FitAddon } from "@xterm/addon-fit";
 import { WebglAddon } from "@xterm/addon-webgl";
 import "@xterm/xterm/css/xterm.css";
 import { cn } from "@/lib/utils";
+import { useKeybinding } from "@/hooks/useKeybinding";
+import { keybindingService } from "@/services/KeybindingService";
 
 export interface XtermAdapterProps {
   /** Unique terminal identifier - must match PtyManager terminal ID */
@@ -25,6 +29,8 @@ export interface XtermAdapterProps {
   onReady?: () => void;
   /** Called when PTY process exits */
   onExit?: (exitCode: number) => void;
+  /** Whether this terminal has focus (enables command navigation shortcuts) */
+  isFocused?: boolean;
   /** Additional CSS classes */
   className?: string;
 }
@@ -155,10 +161,83 @@ function applyJankFix(terminal: Terminal): () => void {
   };
 }
 
+/** Actions handled by the adapter itself rather than sent to the PTY */
+const COMMAND_NAVIGATION_ACTIONS = ["terminal.previousCommand", "terminal.nextCommand"];
+
+/**
+ * Track OSC 133 command boundaries emitted by shell integration.
+ * Each prompt gets a marker (used to jump between commands) and, once its command
+ * finishes, a gutter decoration coloured by exit code.
+ *
+ * @returns Disposable function to remove the OSC handler
+ */
+function trackShellCommands(terminal: Terminal, promptMarkers: IMarker[]): () => void {
+  let currentPrompt: IMarker | undefined;
+  let commandRunning = false;
+
+  const oscDisposable = terminal.parser.registerOscHandler(133, (data) => {
+    const [kind, code] = data.split(";");
+
+    if (kind === "A") {
+      const marker = terminal.registerMarker(0);
+      if (marker) {
+        promptMarkers.push(marker);
+        // Markers are disposed when their line is trimmed from scrollback
+        marker.onDispose(() => {
+          const index = promptMarkers.indexOf(marker);
+          if (index !== -1) promptMarkers.splice(index, 1);
+        });
+        currentPrompt = marker;
+      }
+    } else if (kind === "C") {
+      commandRunning = true;
+    } else if (kind === "D" && commandRunning) {
+      // Shells emit D before every prompt; only decorate prompts that ran a command
+      commandRunning = false;
+      if (!currentPrompt || currentPrompt.isDisposed) return true;
+
+      const exitCode = Number.parseInt(code ?? "", 10);
+      const color = exitCode > 0 ? CANOPY_TERMINAL_THEME.red : CANOPY_TERMINAL_THEME.green;
+      const decoration = terminal.registerDecoration({ marker: currentPrompt, width: 1 });
+      decoration?.onRender((element) => {
+        element.style.boxShadow = `inset 2px 0 0 ${color}`;
+        element.style.pointerEvents = "none";
+      });
+    }
+    return true;
+  });
+
+  return () => oscDisposable.dispose();
+}
+
+/**
+ * Scroll to the nearest prompt above (-1) or below (1) the top of the viewport.
+ * Scrolling down past the last prompt returns to the bottom.
+ */
+function scrollToCommand(terminal: Terminal, promptMarkers: IMarker[], direction: -1 | 1): void {
+  const viewportTop = terminal.buffer.active.viewportY;
+  const target =
+    direction < 0
+      ? [...promptMarkers].reverse().find((marker) => marker.line < viewportTop)
+      : promptMarkers.find((marker) => marker.line > viewportTop);
+
+  if (target) {
+    terminal.scrollToLine(target.line);
+  } else if (direction > 0) {
+    terminal.scrollToBottom();
+  }
+}
+
 /** Maximum retries when container has zero dimensions */
 const MAX_ZERO_RETRIES = 10;
 
-export function XtermAdapter({ terminalId, onReady, onExit, className }: XtermAdapterProps) {
+export function XtermAdapter({
+  terminalId,
+  onReady,
+  onExit,
+  isFocused = false,
+  className,
+}: XtermAdapterProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const terminalRef = useRef<Terminal | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
@@ -168,6 +247,7 @@ export function XtermAdapter({ terminalId, onReady, onExit, className }: XtermAd
   const prevDimensionsRef = useRef<{ cols: number; rows: number } | null>(null);
   const zeroRetryCountRef = useRef<number>(0);
   const clearScreenTimeoutRef = useRef<number | null>(null);
+  const promptMarkersRef = useRef<IMarker[]>([]);
 
   // Memoize terminal options
   const terminalOptions = useMemo(
@@ -263,15 +343,52 @@ export function XtermAdapter({ terminalId, onReady, onExit, className }: XtermAd
     // Apply the jank fix and store the dispose function
     jankFixDisposeRef.current = applyJankFix(terminal);
 
+    // Track command boundaries from shell integration
+    const promptMarkers = promptMarkersRef.current;
+    const disposeCommandTracking = trackShellCommands(terminal, promptMarkers);
+
+    // Command navigation shortcuts are handled by useKeybinding; keep xterm from
+    // also sending them to the shell as cursor sequences
+    terminal.attachCustomKeyEventHandler(
+      (event) =>
+        !COMMAND_NAVIGATION_ACTIONS.some((actionId) => {
+          const binding = keybindingService.getBinding(actionId);
+          return binding !== undefined && keybindingService.matchesEvent(event, binding.combo);
+        })
+    );
+
     // Create throttled writer for performance
     const throttledWriter = createThrottledWriter(terminal);
     throttledWriterRef.current = throttledWriter;
 
+    // Live output is held back until the snapshot settles. A snapshot already
+    // covers it (the main process includes everything emitted before replying, and
+    // IPC preserves order); without one, the held output is written instead.
+    let pendingData: string[] | null = [];
+
     // Connect to PTY via IPC - data coming FROM the shell
     const unsubData = window.electron.terminal.onData(terminalId, (data: string) => {
+      if (pendingData) {
+        pendingData.push(data);
+        return;
+      }
       throttledWriter.write(data);
     });
 
+    // Replay the headless mirror's screen state (including any restored history)
+    window.electron.terminal
+      .getSnapshot(terminalId)
+      .catch((error) => {
+        console.warn(`Failed to load snapshot for terminal ${terminalId}:`, error);
+        return null;
+      })
+      .then((snapshot) => {
+        const heldData = pendingData ?? [];
+        pendingData = null;
+        if (isCancelled) return;
+        throttledWriter.write(snapshot ?? heldData.join(""));
+      });
+
     // Handle terminal exit
     const unsubExit = window.electron.terminal.onExit((id, exitCode) => {
       if (id === terminalId) {
@@ -398,6 +515,9 @@ export function XtermAdapter({ terminalId, onReady, onExit, className }: XtermAd
         jankFixDisposeRef.current = null;
       }
 
+      disposeCommandTracking();
+      promptMarkers.length = 0;
+
       window.removeEventListener("resize", handleResize);
       resizeObserver.disconnect();
       unsubData();
@@ -414,6 +534,21 @@ export function XtermAdapter({ terminalId, onReady, onExit, className }: XtermAd
     };
   }, [terminalId, terminalOptions, handleResize, onReady, onExit]);
 
+  useKeybinding(
+    "terminal.previousCommand",
+    () => {
+      if (terminalRef.current) scrollToCommand(terminalRef.current, promptMarkersRef.current, -1);
+    },
+    { enabled: isFocused, scope: "terminal" }
+  );
+  useKeybinding(
+    "terminal.nextCommand",
+    () => {
+      if (terminalRef.current) scrollToCommand(terminalRef.current, promptMarkersRef.current, 1);
+    },
+    { enabled: isFocused, scope: "terminal" }
+  );
+
   return (
     <div
       ref={containerRef}
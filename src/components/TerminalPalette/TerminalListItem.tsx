@@ -6,7 +6,8 @@
  */
 
 import { Terminal, Command } from "lucide-react";
-import { ClaudeIcon, GeminiIcon, CodexIcon } from "@/components/icons";
+import { ClaudeIcon, GeminiIcon, CodexIcon, AgentIcon } from "@/components/icons";
+import { useAgentRegistryStore } from "@/store";
 import { cn } from "@/lib/utils";
 import type { TerminalType } from "@/components/Terminal/TerminalPane";
 
@@ -17,6 +18,8 @@ export interface TerminalListItemProps {
   title: string;
   /** Terminal type (affects icon) */
   type: TerminalType;
+  /** Agent registry ID (its configured icon takes precedence) */
+  agentType?: string;
   /** Associated worktree name (optional) */
   worktreeName?: string;
   /** Current working directory */
@@ -63,11 +66,15 @@ export function TerminalListItem({
   id,
   title,
   type,
+  agentType,
   worktreeName,
   cwd,
   isSelected,
   onClick,
 }: TerminalListItemProps) {
+  const agentIcon = useAgentRegistryStore(
+    (state) => state.agents.find((agent) => agent.id === agentType)?.icon
+  );
   const worktreeLabel = worktreeName ? ` in ${worktreeName}` : "";
   const fullLabel = `${title}${worktreeLabel} — ${cwd}`;
 
@@ -89,7 +96,7 @@ export function TerminalListItem({
     >
       {/* Terminal type icon */}
       <span className="shrink-0 text-canopy-text/70" aria-hidden="true">
-        {getIcon(type)}
+        {agentIcon ? <AgentIcon icon={agentIcon} className="w-4 h-4" /> : getIcon(type)}
       </span>
 
       {/* Content */}
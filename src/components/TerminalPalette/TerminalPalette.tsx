@@ -184,6 +184,7 @@ export function TerminalPalette({
                 id={`terminal-option-${terminal.id}`}
                 title={terminal.title}
                 type={terminal.type}
+                agentType={terminal.agentType}
                 worktreeName={terminal.worktreeName}
                 cwd={terminal.cwd}
                 isSelected={index === selectedIndex}
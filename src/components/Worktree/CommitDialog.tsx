@@ -0,0 +1,253 @@
+/**
+ * Commit Dialog Component
+ *
+ * Commits the worktree's staged changes, or amends the last commit. The message
+ * can be drafted by AI from the staged diff when an API key is configured.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { X, GitCommitHorizontal, Sparkles, AlertCircle, Loader2 } from "lucide-react";
+import type { WorktreeState } from "@/types";
+
+interface CommitDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worktree: WorktreeState;
+}
+
+export function CommitDialog({ isOpen, onClose, worktree }: CommitDialogProps) {
+  const [message, setMessage] = useState("");
+  const [amend, setAmend] = useState(false);
+  const [aiAvailable, setAiAvailable] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [staging, setStaging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form and check AI availability when dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setMessage("");
+    setAmend(false);
+    setError(null);
+
+    window.electron?.ai
+      ?.getConfig()
+      .then((config) => setAiAvailable(config.hasKey && config.enabled))
+      .catch(() => setAiAvailable(false));
+  }, [isOpen]);
+
+  const changes = worktree.worktreeChanges?.changes ?? [];
+  const stagedCount = changes.filter((change) => (change.staged ?? "none") !== "none").length;
+  const unstagedPaths = changes
+    .filter((change) => (change.staged ?? "none") !== "all")
+    .map((change) => change.path);
+
+  const handleAmendChange = async (checked: boolean) => {
+    setAmend(checked);
+    if (!checked || message.trim() || !window.electron?.git) return;
+
+    // Start from the message being amended
+    try {
+      const lastMessage = await window.electron.git.getLastCommitMessage(worktree.id);
+      if (lastMessage) setMessage(lastMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the last commit");
+    }
+  };
+
+  const handleStageAll = async () => {
+    if (!window.electron?.git || unstagedPaths.length === 0) return;
+
+    setStaging(true);
+    setError(null);
+    try {
+      await window.electron.git.stage({ worktreeId: worktree.id, filePaths: unstagedPaths });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to stage changes");
+    } finally {
+      setStaging(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!window.electron?.git) return;
+
+    setGenerating(true);
+    setError(null);
+    try {
+      const generated = await window.electron.git.generateCommitMessage(worktree.id);
+      if (generated) {
+        setMessage(generated);
+      } else {
+        setError("Couldn't generate a message. Check that changes are staged and AI is enabled.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to generate commit message");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!window.electron?.git || !message.trim()) return;
+
+    setCommitting(true);
+    setError(null);
+    try {
+      await window.electron.git.commit({ worktreeId: worktree.id, message: message.trim(), amend });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to commit");
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const busy = generating || committing || staging;
+  const canCommit = message.trim().length > 0 && (stagedCount > 0 || amend);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!committing) onClose();
+      }}
+    >
+      <div
+        className="bg-canopy-sidebar border border-canopy-border rounded-lg shadow-xl w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && canCommit && !busy) {
+            e.preventDefault();
+            void handleCommit();
+          }
+        }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="commit-dialog-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-canopy-border">
+          <h2
+            id="commit-dialog-title"
+            className="text-lg font-medium text-canopy-text flex items-center gap-2"
+          >
+            <GitCommitHorizontal className="w-5 h-5 text-canopy-accent" />
+            {amend ? "Amend Commit" : "Commit"}
+            <span className="font-mono text-sm text-gray-400">{worktree.branch}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-canopy-text transition-colors"
+            disabled={committing}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-canopy-text/70">
+              {stagedCount > 0
+                ? `${stagedCount} of ${changes.length} changed file${changes.length === 1 ? "" : "s"} staged`
+                : "Nothing staged"}
+            </span>
+            {unstagedPaths.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleStageAll} disabled={busy}>
+                {staging && <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />}
+                Stage All
+              </Button>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="commit-message" className="text-sm font-medium text-canopy-text">
+                Message
+              </label>
+              {aiAvailable && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleGenerate}
+                  disabled={busy || stagedCount === 0}
+                  title={stagedCount === 0 ? "Stage changes first" : "Draft from staged changes"}
+                >
+                  {generating ? (
+                    <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                  ) : (
+                    <Sparkles className="w-3.5 h-3.5 mr-1" />
+                  )}
+                  Generate with AI
+                </Button>
+              )}
+            </div>
+            <textarea
+              id="commit-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Summarize the change in one line, then add details below"
+              rows={6}
+              className="w-full px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text font-mono text-sm focus:outline-none focus:ring-2 focus:ring-canopy-accent resize-y"
+              disabled={committing}
+              autoFocus
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="commit-amend"
+              type="checkbox"
+              checked={amend}
+              onChange={(e) => void handleAmendChange(e.target.checked)}
+              className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+              disabled={busy}
+            />
+            <label htmlFor="commit-amend" className="text-sm text-canopy-text">
+              Amend the last commit
+            </label>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+              <AlertCircle className="w-4 h-4 text-[var(--color-status-error)] mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-[var(--color-status-error)]">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-canopy-border">
+          <Button variant="ghost" onClick={onClose} disabled={committing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCommit}
+            disabled={busy || !canCommit}
+            className="min-w-[100px]"
+            title="Commit (Cmd+Enter)"
+          >
+            {committing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Committing...
+              </>
+            ) : amend ? (
+              "Amend"
+            ) : (
+              "Commit"
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+/**
+ * Create Pull Request Dialog Component
+ *
+ * Pushes the worktree's branch and opens a pull request for it. Title and body
+ * are prefilled from the linked issue, the worktree summary and the branch's
+ * commits; the PR can be opened as a draft and with requested reviewers.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { X, GitPullRequest, AlertCircle, Loader2 } from "lucide-react";
+import type { WorktreeState } from "@/types";
+
+interface CreatePRDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worktree: WorktreeState;
+}
+
+export function CreatePRDialog({ isOpen, onClose, worktree }: CreatePRDialogProps) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [baseBranch, setBaseBranch] = useState("");
+  const [draft, setDraft] = useState(false);
+  const [reviewers, setReviewers] = useState("");
+  const [commitCount, setCommitCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefill the form when dialog opens
+  useEffect(() => {
+    if (!isOpen || !window.electron?.github) return;
+
+    setDraft(false);
+    setReviewers("");
+    setError(null);
+    setLoading(true);
+
+    let cancelled = false;
+    window.electron.github
+      .getPRDraft(worktree.id)
+      .then((prDraft) => {
+        if (cancelled) return;
+        setTitle(prDraft.title);
+        setBody(prDraft.body);
+        setBaseBranch(prDraft.baseBranch);
+        setCommitCount(prDraft.commits.length);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to prepare pull request");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, worktree.id]);
+
+  const handleCreate = async () => {
+    if (!window.electron?.github || !title.trim() || !baseBranch.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      await window.electron.github.createPR({
+        worktreeId: worktree.id,
+        title: title.trim(),
+        body,
+        baseBranch: baseBranch.trim(),
+        draft,
+        reviewers: reviewers
+          .split(",")
+          .map((reviewer) => reviewer.trim().replace(/^@/, ""))
+          .filter(Boolean),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create pull request");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const busy = loading || creating;
+  const canCreate = title.trim().length > 0 && baseBranch.trim().length > 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!creating) onClose();
+      }}
+    >
+      <div
+        className="bg-canopy-sidebar border border-canopy-border rounded-lg shadow-xl w-full max-w-xl"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && canCreate && !busy) {
+            e.preventDefault();
+            void handleCreate();
+          }
+        }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="create-pr-dialog-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-canopy-border">
+          <h2
+            id="create-pr-dialog-title"
+            className="text-lg font-medium text-canopy-text flex items-center gap-2"
+          >
+            <GitPullRequest className="w-5 h-5 text-canopy-accent" />
+            Create Pull Request
+            <span className="font-mono text-sm text-gray-400">{worktree.branch}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-canopy-text transition-colors"
+            disabled={creating}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-canopy-text/70">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Preparing pull request...
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-sm text-canopy-text/70">
+                <label htmlFor="create-pr-base">Merge into</label>
+                <input
+                  id="create-pr-base"
+                  type="text"
+                  value={baseBranch}
+                  onChange={(e) => setBaseBranch(e.target.value)}
+                  className="w-40 px-2 py-1 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text font-mono text-sm focus:outline-none focus:ring-2 focus:ring-canopy-accent"
+                  disabled={creating}
+                />
+                <span>
+                  {commitCount} commit{commitCount === 1 ? "" : "s"}
+                </span>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="create-pr-title"
+                  className="block text-sm font-medium text-canopy-text mb-2"
+                >
+                  Title
+                </label>
+                <input
+                  id="create-pr-title"
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="w-full px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text text-sm focus:outline-none focus:ring-2 focus:ring-canopy-accent"
+                  disabled={creating}
+                  autoFocus
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="create-pr-body"
+                  className="block text-sm font-medium text-canopy-text mb-2"
+                >
+                  Description
+                </label>
+                <textarea
+                  id="create-pr-body"
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={10}
+                  className="w-full px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text font-mono text-sm focus:outline-none focus:ring-2 focus:ring-canopy-accent resize-y"
+                  disabled={creating}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="create-pr-reviewers"
+                  className="block text-sm font-medium text-canopy-text mb-2"
+                >
+                  Reviewers
+                </label>
+                <input
+                  id="create-pr-reviewers"
+                  type="text"
+                  value={reviewers}
+                  onChange={(e) => setReviewers(e.target.value)}
+                  placeholder="octocat, my-org/my-team"
+                  className="w-full px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text text-sm focus:outline-none focus:ring-2 focus:ring-canopy-accent"
+                  disabled={creating}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  id="create-pr-draft"
+                  type="checkbox"
+                  checked={draft}
+                  onChange={(e) => setDraft(e.target.checked)}
+                  className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                  disabled={creating}
+                />
+                <label htmlFor="create-pr-draft" className="text-sm text-canopy-text">
+                  Create as draft
+                </label>
+              </div>
+            </>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+              <AlertCircle className="w-4 h-4 text-[var(--color-status-error)] mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-[var(--color-status-error)]">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-canopy-border">
+          <Button variant="ghost" onClick={onClose} disabled={creating}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={busy || !canCreate}
+            className="min-w-[100px]"
+            title="Push and create (Cmd+Enter)"
+          >
+            {creating ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Creating...
+              </>
+            ) : draft ? (
+              "Create Draft"
+            ) : (
+              "Create"
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
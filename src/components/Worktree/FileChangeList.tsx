@@ -1,5 +1,6 @@
 import { useMemo, Fragment } from "react";
-import type { FileChangeDetail, GitStatus } from "../../types";
+import { Square, SquareCheck, SquareMinus } from "lucide-react";
+import type { FileChangeDetail, GitStagedState, GitStatus } from "../../types";
 import { cn } from "../../lib/utils";
 
 /**
@@ -44,6 +45,12 @@ const STATUS_ICONS: Record<GitStatus, { icon: string; color: string }> = {
   ignored: { icon: "I", color: "text-gray-500" },
 };
 
+const STAGED_ICONS: Record<GitStagedState, { Icon: typeof Square; label: string }> = {
+  none: { Icon: Square, label: "Stage file" },
+  partial: { Icon: SquareMinus, label: "Partially staged - stage the rest" },
+  all: { Icon: SquareCheck, label: "Unstage file" },
+};
+
 const STATUS_PRIORITY: Record<GitStatus, number> = {
   modified: 0,
   added: 1,
@@ -58,6 +65,10 @@ interface FileChangeListProps {
   changes: FileChangeDetail[];
   maxVisible?: number;
   rootPath: string;
+  /** Called with the clicked file's path; rows are plain text when omitted */
+  onFileClick?: (filePath: string) => void;
+  /** Called to stage (true) or unstage (false) a file; no staging column when omitted */
+  onToggleStaged?: (filePath: string, stage: boolean) => void;
 }
 
 function splitPath(filePath: string): { dir: string; base: string } {
@@ -72,7 +83,13 @@ function splitPath(filePath: string): { dir: string; base: string } {
   };
 }
 
-export function FileChangeList({ changes, maxVisible = 4, rootPath }: FileChangeListProps) {
+export function FileChangeList({
+  changes,
+  maxVisible = 4,
+  rootPath,
+  onFileClick,
+  onToggleStaged,
+}: FileChangeListProps) {
   // Sort changes by churn (most changes first), then by status priority as tiebreaker
   const sortedChanges = useMemo(() => {
     return [...changes].sort((a, b) => {
@@ -104,7 +121,14 @@ export function FileChangeList({ changes, maxVisible = 4, rootPath }: FileChange
 
   return (
     <div className="mt-2">
-      <div className="grid grid-cols-[auto_minmax(0,1fr)_auto] gap-x-3 gap-y-1 text-xs font-mono">
+      <div
+        className={cn(
+          "grid gap-x-3 gap-y-1 text-xs font-mono",
+          onToggleStaged
+            ? "grid-cols-[auto_auto_minmax(0,1fr)_auto]"
+            : "grid-cols-[auto_minmax(0,1fr)_auto]"
+        )}
+      >
         {visibleChanges.map((change) => {
           const { icon, color } = STATUS_ICONS[change.status] || {
             icon: "?",
@@ -117,17 +141,48 @@ export function FileChangeList({ changes, maxVisible = 4, rootPath }: FileChange
           const { dir, base } = splitPath(relativePath);
           const additionsLabel = change.insertions !== null ? `+${change.insertions}` : "";
           const deletionsLabel = change.deletions !== null ? `-${change.deletions}` : "";
+          const staged = change.staged ?? "none";
+          const { Icon: StagedIcon, label: stagedLabel } = STAGED_ICONS[staged];
 
           return (
             <Fragment key={`${change.path}-${change.status}`}>
+              {/* Staging Column */}
+              {onToggleStaged && (
+                <button
+                  className={cn(
+                    "flex items-center hover:text-canopy-accent",
+                    staged === "none" ? "text-gray-500" : "text-canopy-accent"
+                  )}
+                  title={stagedLabel}
+                  aria-label={`${stagedLabel}: ${relativePath}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleStaged(change.path, staged !== "all");
+                  }}
+                >
+                  <StagedIcon className="w-3 h-3" />
+                </button>
+              )}
+
               {/* Icon Column */}
               <div className={cn(color, "font-bold flex items-center")}>{icon}</div>
 
               {/* Path Column - RTL for left-side truncation, LTR for content */}
               <div
-                className="min-w-0 overflow-hidden text-ellipsis whitespace-nowrap text-left text-gray-500"
+                className={cn(
+                  "min-w-0 overflow-hidden text-ellipsis whitespace-nowrap text-left text-gray-500",
+                  onFileClick && "cursor-pointer hover:underline"
+                )}
                 dir="rtl"
-                title={relativePath}
+                title={onFileClick ? `View diff: ${relativePath}` : relativePath}
+                onClick={
+                  onFileClick
+                    ? (e) => {
+                        e.stopPropagation();
+                        onFileClick(change.path);
+                      }
+                    : undefined
+                }
               >
                 <span dir="ltr">
                   {dir && <span className="text-gray-500">{dir}/</span>}
@@ -0,0 +1,332 @@
+/**
+ * File Diff Viewer Component
+ *
+ * Modal panel showing a worktree file's changes against HEAD or the main branch,
+ * in unified or side-by-side layout with syntax highlighting. The staged and
+ * unstaged views let individual hunks be staged or unstaged.
+ */
+
+import { useState, useEffect, useMemo, useCallback, Fragment } from "react";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github-dark.css";
+import { X, FileDiff, AlertCircle, Loader2, RefreshCw, Plus, Minus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { parseUnifiedDiff, toSplitRows, type DiffLine } from "@/lib/diffParser";
+import type { GitDiffBase, GitFileDiff } from "@/types";
+
+type DiffLayout = "unified" | "split";
+
+interface FileDiffViewerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worktreeId: string;
+  /** File path, absolute or relative to the worktree root */
+  filePath: string;
+}
+
+const EMPTY_MESSAGES: Record<GitDiffBase, string> = {
+  head: "No changes since the last commit.",
+  main: "No changes compared to main.",
+  unstaged: "No unstaged changes.",
+  staged: "No staged changes.",
+};
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-green-500/10",
+  delete: "bg-red-500/10",
+};
+
+const LINE_MARKERS: Record<DiffLine["type"], string> = {
+  context: " ",
+  add: "+",
+  delete: "-",
+};
+
+function getLanguage(filePath: string): string | undefined {
+  const extension = filePath.split(".").pop()?.toLowerCase();
+  return extension && hljs.getLanguage(extension) ? extension : undefined;
+}
+
+/**
+ * Highlight lines one at a time so each diff row can be rendered independently.
+ * Constructs spanning lines (block comments, template strings) may lose colors.
+ */
+function useHighlightedLines(lines: DiffLine[], language: string | undefined) {
+  return useMemo(() => {
+    const html = new Map<DiffLine, string>();
+    if (!language) return html;
+    for (const line of lines) {
+      html.set(line, hljs.highlight(line.content, { language, ignoreIllegals: true }).value);
+    }
+    return html;
+  }, [lines, language]);
+}
+
+function LineContent({ line, html }: { line: DiffLine; html: Map<DiffLine, string> }) {
+  const highlighted = html.get(line);
+  if (highlighted !== undefined) {
+    return <span dangerouslySetInnerHTML={{ __html: highlighted }} />;
+  }
+  return <span>{line.content}</span>;
+}
+
+export function FileDiffViewer({ isOpen, onClose, worktreeId, filePath }: FileDiffViewerProps) {
+  const [base, setBase] = useState<GitDiffBase>("head");
+  const [layout, setLayout] = useState<DiffLayout>("unified");
+  const [result, setResult] = useState<GitFileDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingHunk, setPendingHunk] = useState<string | null>(null);
+
+  const loadDiff = useCallback(async () => {
+    if (!window.electron?.git) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await window.electron.git.getFileDiff({ worktreeId, filePath, base }));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Failed to load diff");
+    } finally {
+      setLoading(false);
+    }
+  }, [worktreeId, filePath, base]);
+
+  useEffect(() => {
+    if (isOpen) void loadDiff();
+  }, [isOpen, loadDiff]);
+
+  const handleHunk = async (hunkHeader: string) => {
+    if (!window.electron?.git || !result) return;
+
+    setPendingHunk(hunkHeader);
+    setError(null);
+    try {
+      const payload = { worktreeId, filePath: result.filePath, hunkHeader };
+      if (base === "staged") {
+        await window.electron.git.unstageHunk(payload);
+      } else {
+        await window.electron.git.stageHunk(payload);
+      }
+      await loadDiff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update the index");
+    } finally {
+      setPendingHunk(null);
+    }
+  };
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const hunks = useMemo(() => parseUnifiedDiff(result?.diff ?? ""), [result]);
+  const allLines = useMemo(() => hunks.flatMap((hunk) => hunk.lines), [hunks]);
+  const language = getLanguage(result?.filePath ?? filePath);
+  const highlighted = useHighlightedLines(allLines, language);
+
+  if (!isOpen) return null;
+
+  const displayPath = result?.filePath ?? filePath;
+  const canStageHunks = base === "staged" || base === "unstaged";
+
+  const renderBody = () => {
+    if (loading && !result) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-5 h-5 animate-spin text-canopy-accent" />
+          <span className="ml-2 text-sm text-gray-400">Loading diff...</span>
+        </div>
+      );
+    }
+    if (error) {
+      return (
+        <div className="m-4 flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+          <AlertCircle className="w-4 h-4 text-[var(--color-status-error)] mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-[var(--color-status-error)]">{error}</p>
+        </div>
+      );
+    }
+    if (!result) return null;
+    if (result.isBinary) {
+      return <p className="py-12 text-center text-sm text-gray-400">Binary file changed.</p>;
+    }
+    if (hunks.length === 0) {
+      return <p className="py-12 text-center text-sm text-gray-400">{EMPTY_MESSAGES[base]}</p>;
+    }
+
+    return (
+      <table className="w-full border-collapse font-mono text-xs leading-5">
+        <tbody>
+          {hunks.map((hunk) => (
+            <Fragment key={hunk.header}>
+              <tr className="bg-canopy-accent/10 text-canopy-accent/80">
+                <td colSpan={layout === "unified" ? 3 : 4} className="px-3 py-0.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate">{hunk.header}</span>
+                    {canStageHunks && (
+                      <button
+                        onClick={() => void handleHunk(hunk.header)}
+                        disabled={pendingHunk !== null}
+                        className="flex items-center gap-1 px-1.5 rounded font-sans text-canopy-accent hover:bg-canopy-accent/20 disabled:opacity-50"
+                      >
+                        {pendingHunk === hunk.header ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : base === "staged" ? (
+                          <Minus className="w-3 h-3" />
+                        ) : (
+                          <Plus className="w-3 h-3" />
+                        )}
+                        {base === "staged" ? "Unstage Hunk" : "Stage Hunk"}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+              {layout === "unified"
+                ? hunk.lines.map((line, index) => (
+                    <tr key={index} className={LINE_STYLES[line.type]}>
+                      <td className="w-12 px-2 text-right text-gray-600 select-none">
+                        {line.oldLine ?? ""}
+                      </td>
+                      <td className="w-12 px-2 text-right text-gray-600 select-none">
+                        {line.newLine ?? ""}
+                      </td>
+                      <td className="px-2 whitespace-pre text-gray-200">
+                        <span className="select-none text-gray-500">{LINE_MARKERS[line.type]}</span>
+                        <LineContent line={line} html={highlighted} />
+                      </td>
+                    </tr>
+                  ))
+                : toSplitRows(hunk).map((row, index) => (
+                    <tr key={index}>
+                      <td className="w-12 px-2 text-right text-gray-600 select-none">
+                        {row.left?.oldLine ?? ""}
+                      </td>
+                      <td
+                        className={cn(
+                          "w-1/2 px-2 whitespace-pre text-gray-200 border-r border-canopy-border",
+                          row.left ? LINE_STYLES[row.left.type] : "bg-canopy-bg/50"
+                        )}
+                      >
+                        {row.left && <LineContent line={row.left} html={highlighted} />}
+                      </td>
+                      <td className="w-12 px-2 text-right text-gray-600 select-none">
+                        {row.right?.newLine ?? ""}
+                      </td>
+                      <td
+                        className={cn(
+                          "w-1/2 px-2 whitespace-pre text-gray-200",
+                          row.right ? LINE_STYLES[row.right.type] : "bg-canopy-bg/50"
+                        )}
+                      >
+                        {row.right && <LineContent line={row.right} html={highlighted} />}
+                      </td>
+                    </tr>
+                  ))}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  const toggleClass = (active: boolean) =>
+    cn(
+      "px-2 py-1 text-xs rounded transition-colors",
+      active
+        ? "bg-canopy-accent/20 text-canopy-accent"
+        : "text-gray-400 hover:text-canopy-text hover:bg-canopy-border/50"
+    );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <div
+        className="bg-canopy-sidebar border border-canopy-border rounded-lg shadow-xl w-full max-w-6xl h-[85vh] mx-4 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="file-diff-title"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-canopy-border">
+          <FileDiff className="w-4 h-4 text-canopy-accent flex-shrink-0" />
+          <h2
+            id="file-diff-title"
+            className="flex-1 min-w-0 truncate font-mono text-sm text-canopy-text"
+            title={displayPath}
+          >
+            {displayPath}
+          </h2>
+
+          <div className="flex items-center gap-1">
+            <button onClick={() => setBase("head")} className={toggleClass(base === "head")}>
+              vs HEAD
+            </button>
+            <button onClick={() => setBase("main")} className={toggleClass(base === "main")}>
+              vs main
+            </button>
+            <button
+              onClick={() => setBase("unstaged")}
+              className={toggleClass(base === "unstaged")}
+            >
+              Unstaged
+            </button>
+            <button onClick={() => setBase("staged")} className={toggleClass(base === "staged")}>
+              Staged
+            </button>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setLayout("unified")}
+              className={toggleClass(layout === "unified")}
+            >
+              Unified
+            </button>
+            <button onClick={() => setLayout("split")} className={toggleClass(layout === "split")}>
+              Split
+            </button>
+          </div>
+          <button
+            onClick={() => void loadDiff()}
+            className="p-1 text-gray-400 hover:text-canopy-text transition-colors"
+            title="Refresh diff"
+            disabled={loading}
+          >
+            <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-canopy-text transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-auto">{renderBody()}</div>
+
+        {result?.truncated && (
+          <div className="px-4 py-2 border-t border-canopy-border text-xs text-[var(--color-status-warning)]">
+            Diff is too large and was truncated.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Issue Picker Component
+ *
+ * Searchable list of the repository's open GitHub issues (via the gh CLI),
+ * used to start a worktree from an issue.
+ */
+
+import { useState, useEffect } from "react";
+import { Search, CircleDot, Loader2, AlertCircle } from "lucide-react";
+import type { GitHubIssue } from "@/types";
+
+interface IssuePickerProps {
+  rootPath: string;
+  onSelect: (issue: GitHubIssue) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function IssuePicker({ rootPath, onSelect }: IssuePickerProps) {
+  const [query, setQuery] = useState("");
+  const [issues, setIssues] = useState<GitHubIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!window.electron?.github) return;
+
+    let cancelled = false;
+    const timer = setTimeout(
+      () => {
+        setLoading(true);
+        window.electron.github
+          .listIssues({ cwd: rootPath, search: query || undefined })
+          .then((result) => {
+            if (cancelled) return;
+            setIssues(result.issues);
+            setError(result.error ?? null);
+          })
+          .catch((err) => {
+            if (cancelled) return;
+            setIssues([]);
+            setError(err instanceof Error ? err.message : "Failed to load issues");
+          })
+          .finally(() => {
+            if (!cancelled) setLoading(false);
+          });
+      },
+      query ? SEARCH_DEBOUNCE_MS : 0
+    );
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [rootPath, query]);
+
+  return (
+    <div className="border border-canopy-border rounded-md bg-canopy-bg">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-canopy-border">
+        <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search open issues"
+          className="flex-1 bg-transparent text-sm text-canopy-text focus:outline-none"
+          autoFocus
+        />
+        {loading && <Loader2 className="w-4 h-4 animate-spin text-canopy-accent" />}
+      </div>
+
+      <div className="max-h-56 overflow-y-auto">
+        {error ? (
+          <div className="flex items-center gap-2 p-3 text-sm text-[var(--color-status-error)]">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        ) : !loading && issues.length === 0 ? (
+          <p className="p-3 text-sm text-center text-gray-400">No open issues found</p>
+        ) : (
+          issues.map((issue) => (
+            <button
+              key={issue.number}
+              onClick={() => onSelect(issue)}
+              className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-canopy-border/30 transition-colors"
+            >
+              <CircleDot className="w-3.5 h-3.5 mt-0.5 text-[var(--color-status-success)] flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="text-sm text-canopy-text truncate">
+                  <span className="text-gray-400 font-mono mr-1.5">#{issue.number}</span>
+                  {issue.title}
+                </div>
+                {issue.labels.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {issue.labels.map((label) => (
+                      <span
+                        key={label}
+                        className="text-xs text-gray-400 px-1.5 py-0.5 bg-canopy-border/30 rounded"
+                      >
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
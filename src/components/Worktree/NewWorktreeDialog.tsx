@@ -3,13 +3,37 @@
  *
  * Modal UI for creating new git worktrees.
  * Allows users to select a base branch, enter a new branch name,
- * and choose a worktree path.
+ * and choose a worktree path, or start from an open GitHub issue (optionally
+ * launching an agent with the issue as its first prompt). When the project has
+ * worktree setup configured, streams its progress after creation and can launch
+ * a recipe once it succeeds.
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { X, FolderOpen, GitBranch, Check, AlertCircle, Loader2 } from "lucide-react";
+import {
+  X,
+  FolderOpen,
+  GitBranch,
+  Check,
+  AlertCircle,
+  Loader2,
+  CircleDot,
+  ChevronDown,
+} from "lucide-react";
+import { useProjectSettings } from "@/hooks/useProjectSettings";
+import { getAgentTerminalType } from "@/hooks/useAgentLauncher";
+import { useRecipeStore } from "@/store/recipeStore";
+import { useAgentRegistryStore } from "@/store/agentRegistryStore";
+import { useTerminalStore } from "@/store/terminalStore";
+import { cn } from "@/lib/utils";
+import { buildIssueBranchName, buildIssuePrompt } from "@/lib/issueBranch";
+import { IssuePicker } from "./IssuePicker";
 import type { BranchInfo, CreateWorktreeOptions } from "@/types/electron";
+import type { GitHubIssue, WorktreeSetupProgress } from "@/types";
+
+// Keep the progress log bounded; npm install alone can print thousands of lines
+const MAX_PROGRESS_LINES = 200;
 
 interface NewWorktreeDialogProps {
   isOpen: boolean;
@@ -35,6 +59,53 @@ export function NewWorktreeDialog({
   const [worktreePath, setWorktreePath] = useState("");
   const [fromRemote, setFromRemote] = useState(false);
 
+  // Issue state
+  const agents = useAgentRegistryStore((state) => state.agents);
+  const addTerminal = useTerminalStore((state) => state.addTerminal);
+  const [issue, setIssue] = useState<GitHubIssue | null>(null);
+  const [showIssuePicker, setShowIssuePicker] = useState(false);
+  const [agentId, setAgentId] = useState("");
+  const enabledAgents = agents.filter((agent) => agent.enabled);
+
+  // Setup state
+  const { settings } = useProjectSettings();
+  const recipes = useRecipeStore((state) => state.recipes);
+  const runRecipe = useRecipeStore((state) => state.runRecipe);
+  const [runSetup, setRunSetup] = useState(true);
+  const [recipeId, setRecipeId] = useState("");
+  const [progress, setProgress] = useState<WorktreeSetupProgress[]>([]);
+  const [setupFailed, setSetupFailed] = useState(false);
+  const progressEndRef = useRef<HTMLDivElement>(null);
+
+  const setupConfig = settings?.worktreeSetup;
+  const setupStepCount =
+    (setupConfig?.files.length ?? 0) +
+    (setupConfig?.commands.filter((cmd) => cmd.trim()).length ?? 0);
+  // Recipes tied to other worktrees don't apply to a brand new one
+  const globalRecipes = recipes.filter((recipe) => recipe.worktreeId === undefined);
+
+  // Reset setup options when dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setRunSetup(true);
+    setRecipeId(setupConfig?.recipeId ?? "");
+    setProgress([]);
+    setSetupFailed(false);
+  }, [isOpen, setupConfig?.recipeId]);
+
+  // Stream setup progress while creating
+  useEffect(() => {
+    if (!creating || !window.electron?.worktree) return;
+
+    return window.electron.worktree.onSetupProgress((line) => {
+      setProgress((prev) => [...prev, line].slice(-MAX_PROGRESS_LINES));
+    });
+  }, [creating]);
+
+  useEffect(() => {
+    progressEndRef.current?.scrollIntoView({ block: "end" });
+  }, [progress]);
+
   // Load branches when dialog opens
   useEffect(() => {
     if (!isOpen || !window.electron?.worktree) return;
@@ -70,6 +141,18 @@ export function NewWorktreeDialog({
     }
   }, [newBranch, rootPath]);
 
+  const handleDone = () => {
+    onClose();
+
+    // Reset form
+    setNewBranch("");
+    setWorktreePath("");
+    setFromRemote(false);
+    setIssue(null);
+    setShowIssuePicker(false);
+    setAgentId("");
+  };
+
   const handleCreate = async () => {
     if (!window.electron?.worktree) return;
 
@@ -96,18 +179,49 @@ export function NewWorktreeDialog({
         newBranch: newBranch.trim(),
         path: worktreePath.trim(),
         fromRemote,
+        issueNumber: issue?.number,
       };
 
-      await window.electron.worktree.create(options, rootPath);
-
-      // Success! Call callback and close
+      const result = await window.electron.worktree.create(
+        options,
+        rootPath,
+        runSetup && setupStepCount > 0
+      );
       onWorktreeCreated?.();
-      onClose();
 
-      // Reset form
-      setNewBranch("");
-      setWorktreePath("");
-      setFromRemote(false);
+      // The worktree exists either way; keep the dialog open so the output can be read
+      if (result.setup && !result.setup.success) {
+        setSetupFailed(true);
+        setError(`Worktree created, but setup failed: ${result.setup.error ?? "unknown error"}`);
+        return;
+      }
+
+      if (recipeId) {
+        try {
+          // Worktree IDs are the resolved worktree paths
+          await runRecipe(recipeId, result.worktreeId, result.worktreeId);
+        } catch (err) {
+          console.error("Failed to launch recipe after worktree setup:", err);
+        }
+      }
+
+      const agent = issue && agentId ? enabledAgents.find((a) => a.id === agentId) : undefined;
+      if (issue && agent) {
+        try {
+          await addTerminal({
+            type: getAgentTerminalType(agent),
+            agentType: agent.id,
+            title: `${agent.name} #${issue.number}`,
+            cwd: result.worktreeId,
+            worktreeId: result.worktreeId,
+            initialPrompt: buildIssuePrompt(issue),
+          });
+        } catch (err) {
+          console.error("Failed to launch agent for issue:", err);
+        }
+      }
+
+      handleDone();
     } catch (err: any) {
       setError(err.message || "Failed to create worktree");
     } finally {
@@ -156,6 +270,57 @@ export function NewWorktreeDialog({
             </div>
           ) : (
             <>
+              {/* GitHub Issue */}
+              <div className="space-y-2">
+                {issue ? (
+                  <div className="flex items-center gap-2 px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md">
+                    <CircleDot className="w-4 h-4 text-[var(--color-status-success)] flex-shrink-0" />
+                    <span className="flex-1 min-w-0 text-sm text-canopy-text truncate">
+                      <span className="text-gray-400 font-mono mr-1.5">#{issue.number}</span>
+                      {issue.title}
+                    </span>
+                    <button
+                      onClick={() => {
+                        setIssue(null);
+                        setAgentId("");
+                      }}
+                      className="text-gray-400 hover:text-canopy-text transition-colors"
+                      disabled={creating}
+                      aria-label="Clear issue"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowIssuePicker(!showIssuePicker)}
+                    disabled={creating || !window.electron?.github}
+                  >
+                    <CircleDot className="w-4 h-4 mr-2" />
+                    Start from an issue
+                    <ChevronDown
+                      className={cn(
+                        "w-3.5 h-3.5 ml-1 transition-transform",
+                        showIssuePicker && "rotate-180"
+                      )}
+                    />
+                  </Button>
+                )}
+                {showIssuePicker && !issue && (
+                  <IssuePicker
+                    rootPath={rootPath}
+                    onSelect={(selected) => {
+                      setIssue(selected);
+                      setNewBranch(buildIssueBranchName(selected));
+                      setShowIssuePicker(false);
+                      setError(null);
+                    }}
+                  />
+                )}
+              </div>
+
               {/* Base Branch */}
               <div className="space-y-2">
                 <label htmlFor="base-branch" className="block text-sm font-medium text-canopy-text">
@@ -260,6 +425,99 @@ export function NewWorktreeDialog({
                 </label>
               </div>
 
+              {/* Issue Agent */}
+              {issue && enabledAgents.length > 0 && (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="issue-agent"
+                    className="block text-sm font-medium text-canopy-text"
+                  >
+                    Start Agent on Issue
+                  </label>
+                  <select
+                    id="issue-agent"
+                    value={agentId}
+                    onChange={(e) => setAgentId(e.target.value)}
+                    className="w-full px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text focus:outline-none focus:ring-2 focus:ring-canopy-accent"
+                    disabled={creating || setupFailed}
+                  >
+                    <option value="">None</option>
+                    {enabledAgents.map((agent) => (
+                      <option key={agent.id} value={agent.id}>
+                        {agent.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-400">
+                    Sends the issue title and description as the first prompt
+                  </p>
+                </div>
+              )}
+
+              {/* Worktree Setup */}
+              {setupStepCount > 0 && (
+                <div className="flex items-center gap-2">
+                  <input
+                    id="run-setup"
+                    type="checkbox"
+                    checked={runSetup}
+                    onChange={(e) => setRunSetup(e.target.checked)}
+                    className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                    disabled={creating || setupFailed}
+                  />
+                  <label htmlFor="run-setup" className="text-sm text-canopy-text">
+                    Run worktree setup ({setupStepCount} step{setupStepCount === 1 ? "" : "s"})
+                  </label>
+                </div>
+              )}
+
+              {globalRecipes.length > 0 && (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="setup-recipe"
+                    className="block text-sm font-medium text-canopy-text"
+                  >
+                    Then Launch Recipe
+                  </label>
+                  <select
+                    id="setup-recipe"
+                    value={recipeId}
+                    onChange={(e) => setRecipeId(e.target.value)}
+                    className="w-full px-3 py-2 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text focus:outline-none focus:ring-2 focus:ring-canopy-accent"
+                    disabled={creating || setupFailed}
+                  >
+                    <option value="">None</option>
+                    {globalRecipes.map((recipe) => (
+                      <option key={recipe.id} value={recipe.id}>
+                        {recipe.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Setup Progress */}
+              {progress.length > 0 && (
+                <div className="max-h-48 overflow-y-auto p-2 bg-canopy-bg border border-canopy-border rounded-md font-mono text-xs">
+                  {progress.map((line, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        "whitespace-pre-wrap break-all",
+                        line.isError
+                          ? "text-gray-400"
+                          : line.message.startsWith("$ ")
+                            ? "text-canopy-accent"
+                            : "text-canopy-text/80"
+                      )}
+                    >
+                      {line.message}
+                    </div>
+                  ))}
+                  <div ref={progressEndRef} />
+                </div>
+              )}
+
               {/* Error Message */}
               {error && (
                 <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
@@ -273,22 +531,32 @@ export function NewWorktreeDialog({
 
         {/* Footer */}
         <div className="flex items-center justify-end gap-3 p-6 border-t border-canopy-border">
-          <Button variant="ghost" onClick={onClose} disabled={creating}>
-            Cancel
-          </Button>
-          <Button onClick={handleCreate} disabled={creating || loading} className="min-w-[100px]">
-            {creating ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Creating...
-              </>
-            ) : (
-              <>
-                <Check className="w-4 h-4 mr-2" />
-                Create
-              </>
-            )}
-          </Button>
+          {setupFailed ? (
+            <Button onClick={handleDone}>Close</Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose} disabled={creating}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={creating || loading}
+                className="min-w-[100px]"
+              >
+                {creating ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {progress.length > 0 ? "Setting up..." : "Creating..."}
+                  </>
+                ) : (
+                  <>
+                    <Check className="w-4 h-4 mr-2" />
+                    Create
+                  </>
+                )}
+              </Button>
+            </>
+          )}
         </div>
       </div>
     </div>
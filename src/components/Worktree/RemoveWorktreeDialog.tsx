@@ -0,0 +1,234 @@
+/**
+ * Remove Worktree Dialog Component
+ *
+ * Confirmation modal for deleting a worktree from disk. Checks for uncommitted
+ * changes, unpushed commits, a running dev server and open terminals, and lists
+ * what will be lost before running `git worktree remove`.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { X, Trash2, AlertCircle, AlertTriangle, Loader2 } from "lucide-react";
+import { useTerminalStore } from "@/store";
+import type { WorktreeState, WorktreeRemovalCheck } from "@/types";
+
+interface RemoveWorktreeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worktree: WorktreeState;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function RemoveWorktreeDialog({ isOpen, onClose, worktree }: RemoveWorktreeDialogProps) {
+  const bulkCloseByWorktree = useTerminalStore((state) => state.bulkCloseByWorktree);
+
+  const [check, setCheck] = useState<WorktreeRemovalCheck | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [removing, setRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteBranch, setDeleteBranch] = useState(false);
+
+  // Run safety checks when dialog opens
+  useEffect(() => {
+    if (!isOpen || !window.electron?.worktree) return;
+
+    setLoading(true);
+    setError(null);
+    setCheck(null);
+    setDeleteBranch(false);
+
+    window.electron.worktree
+      .checkRemoval(worktree.id)
+      .then(setCheck)
+      .catch((err) => {
+        setError(`Failed to check worktree: ${err.message}`);
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [isOpen, worktree.id]);
+
+  const losesWork =
+    check !== null && (check.uncommittedFileCount > 0 || check.unpushedCommitCount > 0);
+
+  const warnings: string[] = [];
+  if (check) {
+    if (check.uncommittedFileCount > 0) {
+      warnings.push(
+        `${plural(check.uncommittedFileCount, "file")} with uncommitted changes will be discarded`
+      );
+    }
+    if (check.unpushedCommitCount > 0) {
+      warnings.push(
+        `${plural(check.unpushedCommitCount, "commit")} ${
+          check.hasUpstream ? "not pushed to the upstream branch" : "not on any remote"
+        }${deleteBranch ? " will be lost" : ""}`
+      );
+    }
+    if (check.devServerRunning) {
+      warnings.push("The running dev server will be stopped");
+    }
+    if (check.terminalCount > 0) {
+      warnings.push(`${plural(check.terminalCount, "terminal")} will be closed`);
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!window.electron?.worktree || !check) return;
+
+    setRemoving(true);
+    setError(null);
+
+    try {
+      // Close terminal panes first; the main process kills any it still owns
+      bulkCloseByWorktree(worktree.id);
+
+      await window.electron.worktree.delete({
+        worktreeId: worktree.id,
+        deleteBranch: deleteBranch && Boolean(worktree.branch),
+        force: losesWork,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove worktree");
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const branchLabel = worktree.branch ?? worktree.name;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!removing) onClose();
+      }}
+    >
+      <div
+        className="bg-canopy-sidebar border border-canopy-border rounded-lg shadow-xl w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="remove-worktree-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-canopy-border">
+          <h2
+            id="remove-worktree-title"
+            className="text-lg font-medium text-canopy-text flex items-center gap-2"
+          >
+            <Trash2 className="w-5 h-5 text-[var(--color-status-error)]" />
+            Remove Worktree
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-canopy-text transition-colors"
+            disabled={removing}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-canopy-text/70">
+            Delete the worktree for{" "}
+            <span className="font-mono text-canopy-text">{branchLabel}</span> at{" "}
+            <span className="font-mono text-canopy-text break-all">{worktree.path}</span>.
+          </p>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-canopy-accent" />
+              <span className="ml-2 text-sm text-gray-400">Checking worktree...</span>
+            </div>
+          ) : (
+            check && (
+              <>
+                {check.isMainWorktree ? (
+                  <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+                    <AlertCircle className="w-4 h-4 text-[var(--color-status-error)] mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-[var(--color-status-error)]">
+                      The main worktree can't be removed.
+                    </p>
+                  </div>
+                ) : warnings.length > 0 ? (
+                  <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md space-y-1">
+                    {warnings.map((warning) => (
+                      <p
+                        key={warning}
+                        className="flex items-start gap-2 text-sm text-[var(--color-status-warning)]"
+                      >
+                        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400">
+                    No uncommitted changes or unpushed commits. Nothing will be lost.
+                  </p>
+                )}
+
+                {!check.isMainWorktree && worktree.branch && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="delete-branch"
+                      type="checkbox"
+                      checked={deleteBranch}
+                      onChange={(e) => setDeleteBranch(e.target.checked)}
+                      className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                      disabled={removing}
+                    />
+                    <label htmlFor="delete-branch" className="text-sm text-canopy-text">
+                      Also delete branch <span className="font-mono">{worktree.branch}</span>
+                    </label>
+                  </div>
+                )}
+              </>
+            )
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+              <AlertCircle className="w-4 h-4 text-[var(--color-status-error)] mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-[var(--color-status-error)]">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-canopy-border">
+          <Button variant="ghost" onClick={onClose} disabled={removing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRemove}
+            disabled={removing || loading || !check || check.isMainWorktree}
+            className="min-w-[100px] bg-red-600 hover:bg-red-700 text-white"
+          >
+            {removing ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Removing...
+              </>
+            ) : (
+              <>
+                <Trash2 className="w-4 h-4 mr-2" />
+                {losesWork ? "Remove Anyway" : "Remove"}
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
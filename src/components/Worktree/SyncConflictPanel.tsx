@@ -0,0 +1,176 @@
+/**
+ * Sync Conflict Panel Component
+ *
+ * Shown on a worktree card while a rebase or merge is in progress. Lists the
+ * conflicted files with per-file "ours/theirs/open" actions, can hand the
+ * conflicts to an agent terminal, and continues or aborts the operation.
+ */
+
+import { useState } from "react";
+import { GitMerge, FileWarning, ExternalLink, Bot, Loader2, AlertCircle } from "lucide-react";
+import type { WorktreeState } from "@/types";
+import { getAgentTerminalType } from "@/hooks/useAgentLauncher";
+import { useAgentRegistryStore } from "@/store/agentRegistryStore";
+import { useTerminalStore } from "@/store/terminalStore";
+import { buildConflictPrompt } from "@/lib/syncConflicts";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface SyncConflictPanelProps {
+  worktree: WorktreeState;
+}
+
+const actionClass =
+  "px-1.5 py-0.5 rounded border border-canopy-border text-gray-400 hover:text-canopy-text hover:border-canopy-accent/50 disabled:opacity-50";
+
+export function SyncConflictPanel({ worktree }: SyncConflictPanelProps) {
+  const agents = useAgentRegistryStore((state) => state.agents);
+  const addTerminal = useTerminalStore((state) => state.addTerminal);
+  const enabledAgents = agents.filter((agent) => agent.enabled);
+
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const operation = worktree.syncOperation;
+  if (!operation) return null;
+
+  const mainRef = worktree.syncStatus?.mainRef ?? "main";
+  const conflictCount = operation.conflictedFiles.length;
+
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    if (busy !== null) return;
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Git operation failed");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleResolve = (filePath: string, side: "ours" | "theirs") =>
+    run(`${side}:${filePath}`, () =>
+      window.electron.git.resolveConflict({ worktreeId: worktree.id, filePath, side })
+    );
+
+  const handleOpen = (filePath: string) =>
+    window.electron.system.openPath(`${worktree.path}/${filePath}`);
+
+  const handleAskAgent = (agentId: string) => {
+    const agent = enabledAgents.find((a) => a.id === agentId);
+    if (!agent) return;
+    void run("agent", () =>
+      addTerminal({
+        type: getAgentTerminalType(agent),
+        agentType: agent.id,
+        title: `${agent.name} conflicts`,
+        cwd: worktree.path,
+        worktreeId: worktree.id,
+        initialPrompt: buildConflictPrompt(operation, mainRef),
+      })
+    );
+  };
+
+  return (
+    <div
+      className="mt-1 p-2 rounded border border-[var(--color-status-warning)]/40 bg-yellow-500/5 text-xs"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-1.5 text-[var(--color-status-warning)] mb-1.5">
+        <GitMerge className="w-3 h-3" />
+        <span className="font-medium">
+          {operation.kind === "rebase" ? `Rebasing onto ${mainRef}` : `Merging ${mainRef}`}
+          {conflictCount > 0
+            ? ` - ${conflictCount} conflicted file${conflictCount === 1 ? "" : "s"}`
+            : " - conflicts resolved"}
+        </span>
+      </div>
+
+      {conflictCount > 0 && (
+        <ul className="space-y-1 mb-2">
+          {operation.conflictedFiles.map((filePath) => (
+            <li key={filePath} className="flex items-center gap-1.5 font-mono">
+              <FileWarning className="w-3 h-3 text-[var(--color-status-error)] flex-shrink-0" />
+              <span className="flex-1 truncate text-gray-300" title={filePath}>
+                {filePath}
+              </span>
+              <button
+                onClick={() => void handleResolve(filePath, "ours")}
+                disabled={busy !== null}
+                className={actionClass}
+                title="Keep this branch's version"
+              >
+                Ours
+              </button>
+              <button
+                onClick={() => void handleResolve(filePath, "theirs")}
+                disabled={busy !== null}
+                className={actionClass}
+                title={`Take the version from ${mainRef}`}
+              >
+                Theirs
+              </button>
+              <button
+                onClick={() => void handleOpen(filePath)}
+                className={actionClass}
+                title="Open in editor"
+                aria-label={`Open ${filePath} in editor`}
+              >
+                <ExternalLink className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-1.5 mb-2 p-1.5 rounded bg-red-500/10 border border-red-500/20 text-[var(--color-status-error)]">
+          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1.5">
+        {conflictCount > 0 && enabledAgents.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button disabled={busy !== null} className={`${actionClass} flex items-center gap-1`}>
+                <Bot className="w-3 h-3" />
+                Ask Agent
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" sideOffset={4}>
+              {enabledAgents.map((agent) => (
+                <DropdownMenuItem key={agent.id} onClick={() => handleAskAgent(agent.id)}>
+                  {agent.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <div className="flex-1" />
+        {busy !== null && <Loader2 className="w-3 h-3 animate-spin text-canopy-accent" />}
+        <button
+          onClick={() => void run("abort", () => window.electron.git.abortSync(worktree.id))}
+          disabled={busy !== null}
+          className={actionClass}
+        >
+          Abort
+        </button>
+        <button
+          onClick={() => void run("continue", () => window.electron.git.continueSync(worktree.id))}
+          disabled={busy !== null || conflictCount > 0}
+          className={`${actionClass} text-canopy-accent border-canopy-accent/50`}
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,22 @@
 import { useCallback, useState, useEffect, useMemo } from "react";
 import { useShallow } from "zustand/react/shallow";
-import type { WorktreeState } from "../../types";
+import type {
+  BranchDivergence,
+  DevServerStatus,
+  PullRequestStatus,
+  WorktreeState,
+} from "../../types";
 import { AgentStatusIndicator } from "./AgentStatusIndicator";
 import { FileChangeList } from "./FileChangeList";
 import { ErrorBanner } from "../Errors/ErrorBanner";
 import { useDevServer } from "../../hooks/useDevServer";
 import { useWorktreeTerminals } from "../../hooks/useWorktreeTerminals";
-import { useErrorStore, useTerminalStore, type RetryAction } from "../../store";
+import { useErrorStore, usePreviewStore, useTerminalStore, type RetryAction } from "../../store";
 import { useRecipeStore } from "../../store/recipeStore";
 import { cn } from "../../lib/utils";
+import { formatReviewComments } from "../../lib/reviewComments";
+import { getDevServerLabel, getDevServerTooltip, isRestarting } from "../../lib/devServerHealth";
+import { getOptimalFormat } from "../../hooks/useContextInjection";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,8 +26,20 @@ import {
   DropdownMenuLabel,
 } from "../ui/dropdown-menu";
 import { ConfirmDialog } from "../Terminal/ConfirmDialog";
+import { RemoveWorktreeDialog } from "./RemoveWorktreeDialog";
+import { FileDiffViewer } from "./FileDiffViewer";
+import { CommitDialog } from "./CommitDialog";
+import { CreatePRDialog } from "./CreatePRDialog";
+import { SyncConflictPanel } from "./SyncConflictPanel";
 import {
   AlertCircle,
+  AlertTriangle,
+  ArrowDown,
+  ArrowDownToLine,
+  ArrowUp,
+  Check,
+  Clock,
+  GitBranch,
   Loader2,
   Copy,
   Code,
@@ -32,6 +52,10 @@ import {
   Globe,
   GitCommitHorizontal,
   Folder,
+  Trash2,
+  MessageSquare,
+  AppWindow,
+  X,
 } from "lucide-react";
 
 export interface WorktreeCardProps {
@@ -54,6 +78,64 @@ export interface WorktreeCardProps {
   onOpenSettings?: (tab?: "ai" | "general" | "troubleshooting") => void;
   /** User's home directory for path formatting */
   homeDir?: string;
+  /** Other worktrees this one is predicted to collide with */
+  conflicts?: WorktreeCardConflict[];
+  /** Called when the conflict badge is clicked */
+  onShowConflicts?: () => void;
+}
+
+/** A predicted collision with another worktree */
+export interface WorktreeCardConflict {
+  /** Branch or name of the other worktree */
+  otherLabel: string;
+  overlappingFiles: string[];
+  conflictingFiles: string[];
+}
+
+function describeConflicts(conflicts: WorktreeCardConflict[]): string {
+  return conflicts
+    .map(({ otherLabel, overlappingFiles, conflictingFiles }) => {
+      const lines = [];
+      if (conflictingFiles.length > 0) {
+        lines.push(`Merge conflicts with ${otherLabel}: ${conflictingFiles.join(", ")}`);
+      }
+      if (overlappingFiles.length > 0) {
+        lines.push(`Also changed in ${otherLabel}: ${overlappingFiles.join(", ")}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+function describeDivergence(ref: string, { ahead, behind }: BranchDivergence): string {
+  return `${ahead} ahead, ${behind} behind ${ref}`;
+}
+
+const CHECK_STATUS_LABELS: Record<NonNullable<PullRequestStatus["checkStatus"]>, string> = {
+  success: "Checks passing",
+  pending: "Checks running",
+  failure: "Checks failing",
+};
+
+const REVIEW_DECISION_LABELS: Record<NonNullable<PullRequestStatus["reviewDecision"]>, string> = {
+  approved: "Approved",
+  changes_requested: "Changes requested",
+  review_required: "Review required",
+};
+
+function describePRStatus(status: PullRequestStatus): string {
+  const lines: string[] = [];
+  if (status.checkStatus) lines.push(CHECK_STATUS_LABELS[status.checkStatus]);
+  if (status.reviewDecision) lines.push(REVIEW_DECISION_LABELS[status.reviewDecision]);
+  if (status.requestedReviewers.length > 0) {
+    lines.push(`Waiting on ${status.requestedReviewers.join(", ")}`);
+  }
+  if (status.unresolvedThreadCount > 0) {
+    lines.push(
+      `${status.unresolvedThreadCount} unresolved thread${status.unresolvedThreadCount === 1 ? "" : "s"}`
+    );
+  }
+  return lines.join("\n");
 }
 
 const URL_REGEX = /(https?:\/\/[^\s]+)/g;
@@ -102,6 +184,8 @@ export function WorktreeCard({
   onCreateRecipe,
   onOpenSettings,
   homeDir,
+  conflicts = [],
+  onShowConflicts,
 }: WorktreeCardProps) {
   const mood = worktree.mood || "stable";
 
@@ -112,7 +196,13 @@ export function WorktreeCard({
   const [runningRecipeId, setRunningRecipeId] = useState<string | null>(null);
 
   // Terminal counts and agent state
-  const { counts: terminalCounts, dominantAgentState } = useWorktreeTerminals(worktree.id);
+  const {
+    terminals: worktreeTerminals,
+    counts: terminalCounts,
+    dominantAgentState,
+  } = useWorktreeTerminals(worktree.id);
+  const focusedTerminalId = useTerminalStore((state) => state.focusedId);
+  const queueCommand = useTerminalStore((state) => state.queueCommand);
 
   // Terminal bulk actions
   const bulkCloseByWorktree = useTerminalStore((state) => state.bulkCloseByWorktree);
@@ -133,14 +223,29 @@ export function WorktreeCard({
     onConfirm: () => {},
   });
 
+  const [isRemoveDialogOpen, setIsRemoveDialogOpen] = useState(false);
+  const [diffFilePath, setDiffFilePath] = useState<string | null>(null);
+  const [isCommitDialogOpen, setIsCommitDialogOpen] = useState(false);
+  const [isCreatePRDialogOpen, setIsCreatePRDialogOpen] = useState(false);
+  const [syncAction, setSyncAction] = useState<"pull" | "sync" | null>(null);
+
   const {
-    state: serverState,
+    slots: serverSlots,
+    health: serverHealth,
     hasDevScript,
+    start: startServer,
+    stop: stopServer,
     isLoading: serverLoading,
   } = useDevServer({
     worktreeId: worktree.id,
     worktreePath: worktree.path,
   });
+  // Pending restarts can be cancelled from the card; a first start can't
+  const serverRestarting = serverSlots.some((slot) => isRestarting(slot.state));
+  const serverStarting = serverHealth.status === "starting" && !serverRestarting;
+  const serverActive = serverHealth.running > 0 || serverRestarting;
+  const previewSlot = serverSlots.find((slot) => slot.state.status === "running" && slot.state.url);
+  const showPreview = usePreviewStore((state) => state.showProcess);
 
   // Get errors for this worktree - subscribe to store changes
   const worktreeErrors = useErrorStore(
@@ -148,6 +253,7 @@ export function WorktreeCard({
       state.errors.filter((e) => e.context?.worktreeId === worktree.id && !e.dismissed)
     )
   );
+  const addError = useErrorStore((state) => state.addError);
   const dismissError = useErrorStore((state) => state.dismissError);
   const removeError = useErrorStore((state) => state.removeError);
 
@@ -250,6 +356,88 @@ export function WorktreeCard({
     [runRecipe, worktree.path, worktree.id, runningRecipeId]
   );
 
+  const handleToggleStaged = useCallback(
+    async (filePath: string, stage: boolean) => {
+      if (!window.electron?.git) return;
+      const payload = { worktreeId: worktree.id, filePaths: [filePath] };
+      try {
+        await (stage ? window.electron.git.stage(payload) : window.electron.git.unstage(payload));
+      } catch (error) {
+        console.error(`Failed to ${stage ? "stage" : "unstage"} file:`, error);
+      }
+    },
+    [worktree.id]
+  );
+
+  const handleSync = useCallback(
+    async (action: "pull" | "sync") => {
+      if (!window.electron?.git || syncAction !== null) return;
+      setSyncAction(action);
+      try {
+        await (action === "pull"
+          ? window.electron.git.pull(worktree.id)
+          : window.electron.git.syncWithMain(worktree.id));
+      } catch (error) {
+        addError({
+          type: "git",
+          message:
+            error instanceof Error
+              ? error.message
+              : action === "pull"
+                ? "Failed to pull"
+                : "Failed to sync with main",
+          source: "WorktreeSync",
+          context: { worktreeId: worktree.id },
+          isTransient: false,
+        });
+      } finally {
+        setSyncAction(null);
+      }
+    },
+    [worktree.id, syncAction, addError]
+  );
+
+  // Agent terminals are the ones with an agent state; prefer the focused one
+  const agentTerminals = worktreeTerminals.filter((t) => t.agentState !== undefined);
+  const reviewTarget =
+    agentTerminals.find((t) => t.id === focusedTerminalId) ?? agentTerminals[0] ?? null;
+  const [sendingReviewComments, setSendingReviewComments] = useState(false);
+
+  const handleSendReviewComments = useCallback(async () => {
+    if (!window.electron?.github || !worktree.prNumber || !reviewTarget) return;
+    setSendingReviewComments(true);
+    try {
+      const result = await window.electron.github.listReviewThreads({
+        cwd: worktree.path,
+        prNumber: worktree.prNumber,
+      });
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      if (result.threads.length === 0) {
+        throw new Error(`PR #${worktree.prNumber} has no unresolved review comments`);
+      }
+
+      const format = getOptimalFormat(reviewTarget.type, reviewTarget.agentType);
+      queueCommand(
+        reviewTarget.id,
+        formatReviewComments(result.threads, worktree.prNumber, format),
+        "Review Comments"
+      );
+    } catch (error) {
+      addError({
+        type: "network",
+        message:
+          error instanceof Error ? error.message : "Failed to send review comments to the agent",
+        source: "ReviewComments",
+        context: { worktreeId: worktree.id, terminalId: reviewTarget.id },
+        isTransient: true,
+      });
+    } finally {
+      setSendingReviewComments(false);
+    }
+  }, [worktree.id, worktree.path, worktree.prNumber, reviewTarget, queueCommand, addError]);
+
   // Terminal bulk action handlers
   const closeConfirmDialog = useCallback(() => {
     setConfirmDialog((prev) => ({ ...prev, isOpen: false }));
@@ -278,6 +466,17 @@ export function WorktreeCard({
   const displayPath = formatPath(worktree.path, homeDir);
   const branchLabel = worktree.branch ?? worktree.name;
   const hasChanges = (worktree.worktreeChanges?.changedFileCount ?? 0) > 0;
+  const { upstream, upstreamDivergence, mainRef, mainDivergence } = worktree.syncStatus ?? {};
+  const canPull = !!upstreamDivergence && upstreamDivergence.behind > 0;
+  const canSyncWithMain = !!mainDivergence && mainDivergence.behind > 0 && !worktree.syncOperation;
+  // Review and CI state only matter while the PR is open
+  const prStatus = worktree.prState === "open" ? worktree.prStatus : undefined;
+  const canCreatePR =
+    !!worktree.branch &&
+    !isMainWorktree &&
+    !worktree.isMainWorktree &&
+    worktree.prState !== "open" &&
+    !worktree.syncOperation;
 
   // AI Summary
   const renderAISummary = useCallback(() => {
@@ -329,9 +528,8 @@ export function WorktreeCard({
   }, [worktree.aiStatus, worktree.summary, hasChanges, onOpenSettings]);
 
   // Server status helpers
-  const getServerStatusIndicator = () => {
-    if (!serverState) return null;
-    switch (serverState.status) {
+  const getServerStatusIndicator = (status: DevServerStatus) => {
+    switch (status) {
       case "stopped":
         return <span className="text-gray-600">○</span>;
       case "starting":
@@ -345,17 +543,6 @@ export function WorktreeCard({
     }
   };
 
-  const getServerLabel = () => {
-    if (!serverState) return null;
-    if (serverState.status === "running" && serverState.url) {
-      // Strip http:// and trailing slash for density
-      return serverState.url.replace(/^https?:\/\//, "").replace(/\/$/, "");
-    }
-    if (serverState.status === "error") return "Error";
-    if (serverState.status === "starting") return "Starting";
-    return "Dev Server";
-  };
-
   return (
     <div
       className={cn(
@@ -408,9 +595,46 @@ export function WorktreeCard({
 
               {/* Issues/PRs in header line for extreme density */}
               {worktree.prNumber && (
-                <span className="flex items-center gap-0.5 text-[0.65rem] text-[var(--color-status-success)] bg-green-500/10 px-1 rounded">
+                <span
+                  className="flex items-center gap-0.5 text-[0.65rem] text-[var(--color-status-success)] bg-green-500/10 px-1 rounded"
+                  title={prStatus ? describePRStatus(prStatus) : undefined}
+                >
                   <GitPullRequest className="w-2.5 h-2.5" />
                   {worktree.prNumber}
+                  {prStatus?.checkStatus === "success" && (
+                    <Check className="w-2.5 h-2.5" aria-label="Checks passing" />
+                  )}
+                  {prStatus?.checkStatus === "pending" && (
+                    <Clock
+                      className="w-2.5 h-2.5 text-[var(--color-status-warning)]"
+                      aria-label="Checks running"
+                    />
+                  )}
+                  {prStatus?.checkStatus === "failure" && (
+                    <X
+                      className="w-2.5 h-2.5 text-[var(--color-status-error)]"
+                      aria-label="Checks failing"
+                    />
+                  )}
+                </span>
+              )}
+              {prStatus?.reviewDecision === "changes_requested" && (
+                <span className="text-[0.65rem] text-[var(--color-status-error)] bg-red-500/10 px-1 rounded">
+                  changes
+                </span>
+              )}
+              {prStatus?.reviewDecision === "approved" && (
+                <span className="text-[0.65rem] text-[var(--color-status-success)] bg-green-500/10 px-1 rounded">
+                  approved
+                </span>
+              )}
+              {prStatus && prStatus.unresolvedThreadCount > 0 && (
+                <span
+                  className="flex items-center gap-0.5 text-[0.65rem] text-gray-400"
+                  title={`${prStatus.unresolvedThreadCount} unresolved review thread${prStatus.unresolvedThreadCount === 1 ? "" : "s"}`}
+                >
+                  <MessageSquare className="w-2.5 h-2.5" />
+                  {prStatus.unresolvedThreadCount}
                 </span>
               )}
               {worktree.issueNumber && (
@@ -461,8 +685,32 @@ export function WorktreeCard({
                   <Folder className="w-3 h-3 mr-2" />
                   Reveal in Finder
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsCommitDialogOpen(true)}>
+                  <GitCommitHorizontal className="w-3 h-3 mr-2" />
+                  Commit...
+                </DropdownMenuItem>
+                {canPull && (
+                  <DropdownMenuItem
+                    onClick={() => void handleSync("pull")}
+                    disabled={syncAction !== null}
+                  >
+                    <ArrowDownToLine className="w-3 h-3 mr-2" />
+                    Pull from {upstream}
+                  </DropdownMenuItem>
+                )}
+                {canSyncWithMain && (
+                  <DropdownMenuItem
+                    onClick={() => void handleSync("sync")}
+                    disabled={syncAction !== null}
+                  >
+                    <GitBranch className="w-3 h-3 mr-2" />
+                    Sync with {mainRef}
+                  </DropdownMenuItem>
+                )}
 
-                {(worktree.issueNumber || worktree.prNumber) && <DropdownMenuSeparator />}
+                {(worktree.issueNumber || worktree.prNumber || canCreatePR) && (
+                  <DropdownMenuSeparator />
+                )}
 
                 {worktree.issueNumber && onOpenIssue && (
                   <DropdownMenuItem onClick={() => handleOpenIssue()}>
@@ -476,6 +724,22 @@ export function WorktreeCard({
                     Open PR #{worktree.prNumber}
                   </DropdownMenuItem>
                 )}
+                {worktree.prNumber && worktree.prState === "open" && reviewTarget && (
+                  <DropdownMenuItem
+                    onClick={() => void handleSendReviewComments()}
+                    disabled={sendingReviewComments}
+                    title={`Queue unresolved review threads for ${reviewTarget.title}`}
+                  >
+                    <MessageSquare className="w-3 h-3 mr-2" />
+                    Send Review Comments to Agent
+                  </DropdownMenuItem>
+                )}
+                {canCreatePR && (
+                  <DropdownMenuItem onClick={() => setIsCreatePRDialogOpen(true)}>
+                    <GitPullRequest className="w-3 h-3 mr-2" />
+                    Create Pull Request...
+                  </DropdownMenuItem>
+                )}
 
                 {(recipes.length > 0 || onCreateRecipe) && <DropdownMenuSeparator />}
 
@@ -522,6 +786,19 @@ export function WorktreeCard({
                     </DropdownMenuItem>
                   </>
                 )}
+
+                {!worktree.isMainWorktree && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => setIsRemoveDialogOpen(true)}
+                      className="text-[var(--color-status-error)] focus:text-[var(--color-status-error)]"
+                    >
+                      <Trash2 className="w-3 h-3 mr-2" />
+                      Remove Worktree...
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -594,6 +871,64 @@ export function WorktreeCard({
             </div>
           )}
 
+          {/* Divergence from upstream and main */}
+          {upstream &&
+            upstreamDivergence &&
+            (upstreamDivergence.ahead > 0 || upstreamDivergence.behind > 0) && (
+              <div
+                className="flex items-center gap-1"
+                title={describeDivergence(upstream, upstreamDivergence)}
+              >
+                {upstreamDivergence.ahead > 0 && (
+                  <span className="flex items-center">
+                    <ArrowUp className="w-3 h-3" />
+                    {upstreamDivergence.ahead}
+                  </span>
+                )}
+                {upstreamDivergence.behind > 0 && (
+                  <span className="flex items-center text-[var(--color-status-info)]">
+                    <ArrowDown className="w-3 h-3" />
+                    {upstreamDivergence.behind}
+                  </span>
+                )}
+              </div>
+            )}
+          {mainRef && mainDivergence && mainDivergence.behind > 0 && (
+            <div
+              className="flex items-center gap-1 text-[var(--color-status-warning)]"
+              title={describeDivergence(mainRef, mainDivergence)}
+            >
+              {syncAction === "sync" ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <GitBranch className="w-3 h-3" />
+              )}
+              <span>
+                {mainDivergence.behind} behind {mainRef}
+              </span>
+            </div>
+          )}
+
+          {/* Predicted conflicts with other worktrees */}
+          {conflicts.length > 0 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onShowConflicts?.();
+              }}
+              className={cn(
+                "flex items-center gap-1",
+                conflicts.some((conflict) => conflict.conflictingFiles.length > 0)
+                  ? "text-[var(--color-status-error)]"
+                  : "text-[var(--color-status-warning)]"
+              )}
+              title={describeConflicts(conflicts)}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              <span>{conflicts.length}</span>
+            </button>
+          )}
+
           {/* Error Summary (only if NOT active - active shows banner) */}
           {!isActive && worktreeErrors.length > 0 && (
             <div className="flex items-center gap-1 text-[var(--color-status-error)]">
@@ -603,6 +938,9 @@ export function WorktreeCard({
           )}
         </div>
 
+        {/* Rebase/merge in progress (shown even when inactive - it blocks the branch) */}
+        {worktree.syncOperation && <SyncConflictPanel worktree={worktree} />}
+
         {/* ACTIVE STATE EXPANSIONS */}
 
         {/* 1. File Changes List */}
@@ -612,39 +950,119 @@ export function WorktreeCard({
               changes={worktree.worktreeChanges.changes}
               rootPath={worktree.worktreeChanges.rootPath}
               maxVisible={5}
+              onFileClick={setDiffFilePath}
+              onToggleStaged={handleToggleStaged}
             />
           </div>
         )}
 
         {/* Dev Server Button (new placement) */}
-        {hasDevScript && serverState && (
+        {hasDevScript && (
           <div className="flex items-center gap-2 mt-1 text-xs text-gray-400 font-mono">
             <Globe className="w-3 h-3" />
             <div className="flex items-center gap-1">
-              {getServerStatusIndicator()}
-              <span className="truncate max-w-[120px]">{getServerLabel()}</span>
+              {getServerStatusIndicator(serverHealth.status)}
+              <span
+                className="truncate max-w-[120px]"
+                title={
+                  serverSlots.length === 1 ? getDevServerTooltip(serverSlots[0].state) : undefined
+                }
+              >
+                {getDevServerLabel(serverSlots.map((slot) => slot.state))}
+              </span>
+              {serverSlots.some((slot) => slot.state.health && !slot.state.health.ok) &&
+                serverHealth.status === "running" && (
+                  <AlertTriangle
+                    className="w-3 h-3 text-[var(--color-server-starting)]"
+                    aria-label="Health check failing"
+                  />
+                )}
             </div>
-            {/* Tiny Action Button for Dev Server */}
+            {/* Tiny Action Button for Dev Server (all processes) */}
             <button
               onClick={(e) => {
                 e.stopPropagation();
-                if (!serverLoading && serverState.status !== "starting") {
+                if (!serverLoading && !serverStarting) {
                   onToggleServer();
                 }
               }}
-              disabled={serverLoading || serverState.status === "starting"}
+              disabled={serverLoading || serverStarting}
               className={cn(
                 "ml-1 p-0.5 rounded hover:bg-gray-700 transition-colors",
                 serverLoading ? "opacity-50" : ""
               )}
-              title={serverState.status === "running" ? "Stop Server" : "Start Server"}
+              title={
+                serverActive
+                  ? serverSlots.length > 1
+                    ? "Stop All Servers"
+                    : "Stop Server"
+                  : serverSlots.length > 1
+                    ? "Start All Servers"
+                    : "Start Server"
+              }
             >
-              {serverState.status === "running" ? (
+              {serverActive ? (
                 <div className="w-1.5 h-1.5 bg-[var(--color-status-error)] rounded-sm" />
               ) : (
                 <Play className="w-2 h-2 fill-current" />
               )}
             </button>
+            {previewSlot && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect();
+                  showPreview(previewSlot.process.id);
+                }}
+                className="p-0.5 rounded hover:bg-gray-700 transition-colors"
+                title="Open Preview"
+              >
+                <AppWindow className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Individual dev processes */}
+        {isActive && serverSlots.length > 1 && (
+          <div className="mt-1 ml-5 space-y-0.5 text-xs text-gray-400 font-mono">
+            {serverSlots.map(({ process, state }) => {
+              const active = state.status === "running" || state.status === "starting";
+              return (
+                <div key={process.id} className="flex items-center gap-1">
+                  {getServerStatusIndicator(state.status)}
+                  <span className="truncate max-w-[100px] text-gray-300">{process.name}</span>
+                  {state.status !== "stopped" && (
+                    <span
+                      className="truncate max-w-[120px] text-gray-500"
+                      title={getDevServerTooltip(state)}
+                    >
+                      {getDevServerLabel([state])}
+                    </span>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void (active ? stopServer(process.id) : startServer(process.id));
+                    }}
+                    disabled={
+                      serverLoading || (state.status === "starting" && !isRestarting(state))
+                    }
+                    className={cn(
+                      "ml-1 p-0.5 rounded hover:bg-gray-700 transition-colors",
+                      serverLoading ? "opacity-50" : ""
+                    )}
+                    title={active ? `Stop ${process.name}` : `Start ${process.name}`}
+                  >
+                    {active ? (
+                      <div className="w-1.5 h-1.5 bg-[var(--color-status-error)] rounded-sm" />
+                    ) : (
+                      <Play className="w-2 h-2 fill-current" />
+                    )}
+                  </button>
+                </div>
+              );
+            })}
           </div>
         )}
 
@@ -676,6 +1094,33 @@ export function WorktreeCard({
           onConfirm={confirmDialog.onConfirm}
           onCancel={closeConfirmDialog}
         />
+
+        <RemoveWorktreeDialog
+          isOpen={isRemoveDialogOpen}
+          onClose={() => setIsRemoveDialogOpen(false)}
+          worktree={worktree}
+        />
+
+        <CommitDialog
+          isOpen={isCommitDialogOpen}
+          onClose={() => setIsCommitDialogOpen(false)}
+          worktree={worktree}
+        />
+
+        <CreatePRDialog
+          isOpen={isCreatePRDialogOpen}
+          onClose={() => setIsCreatePRDialogOpen(false)}
+          worktree={worktree}
+        />
+
+        {diffFilePath && (
+          <FileDiffViewer
+            isOpen
+            onClose={() => setDiffFilePath(null)}
+            worktreeId={worktree.id}
+            filePath={diffFilePath}
+          />
+        )}
       </div>
     </div>
   );
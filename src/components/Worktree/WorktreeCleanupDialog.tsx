@@ -0,0 +1,352 @@
+/**
+ * Worktree Cleanup Dialog Component
+ *
+ * Lists worktrees whose PR was merged or closed, or that have gone stale, with
+ * their disk size and last activity. Selected worktrees are removed in bulk
+ * (optionally with their local branches), followed by `git worktree prune`.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { X, Sparkles, AlertCircle, AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { useTerminalStore } from "@/store";
+import { cn } from "@/lib/utils";
+import type {
+  WorktreeCleanupCandidate,
+  WorktreeCleanupReason,
+  WorktreeCleanupResult,
+} from "@/types";
+
+interface WorktreeCleanupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<WorktreeCleanupReason, string> = {
+  merged: "PR merged",
+  closed: "PR closed",
+  stale: "Stale",
+};
+
+const REASON_COLORS: Record<WorktreeCleanupReason, string> = {
+  merged: "bg-purple-500/10 text-purple-400",
+  closed: "bg-red-500/10 text-[var(--color-status-error)]",
+  stale: "bg-gray-500/10 text-gray-400",
+};
+
+function formatRelativeTime(timestamp: number | null): string {
+  if (timestamp === null) return "unknown";
+  const days = Math.floor((Date.now() - timestamp) / (1000 * 60 * 60 * 24));
+  if (days > 0) return `${days}d ago`;
+  return "today";
+}
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return "—";
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+export function WorktreeCleanupDialog({ isOpen, onClose }: WorktreeCleanupDialogProps) {
+  const bulkCloseByWorktree = useTerminalStore((state) => state.bulkCloseByWorktree);
+
+  const [candidates, setCandidates] = useState<WorktreeCleanupCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [staleDays, setStaleDays] = useState<number | null>(null);
+  const [deleteBranches, setDeleteBranches] = useState(true);
+  const [force, setForce] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [cleaning, setCleaning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<WorktreeCleanupResult | null>(null);
+
+  const scan = useCallback(async (days?: number) => {
+    if (!window.electron?.worktree) return;
+
+    setScanning(true);
+    setError(null);
+    try {
+      const scanResult = await window.electron.worktree.getCleanupCandidates(
+        days !== undefined ? { staleDays: days } : undefined
+      );
+      setStaleDays(scanResult.staleDays);
+      setCandidates(scanResult.candidates);
+      // Worktrees with uncommitted changes must be opted in explicitly
+      setSelected(
+        new Set(
+          scanResult.candidates
+            .filter((candidate) => candidate.uncommittedFileCount === 0)
+            .map((candidate) => candidate.worktreeId)
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to scan worktrees");
+    } finally {
+      setScanning(false);
+    }
+  }, []);
+
+  // Scan with the saved threshold when dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setResult(null);
+    setForce(false);
+    void scan();
+  }, [isOpen, scan]);
+
+  const toggle = (worktreeId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(worktreeId)) {
+        next.delete(worktreeId);
+      } else {
+        next.add(worktreeId);
+      }
+      return next;
+    });
+  };
+
+  const selectedCandidates = candidates.filter((candidate) => selected.has(candidate.worktreeId));
+  const selectedBytes = selectedCandidates.reduce(
+    (sum, candidate) => sum + (candidate.diskSizeBytes ?? 0),
+    0
+  );
+  const needsForce = selectedCandidates.some((candidate) => candidate.uncommittedFileCount > 0);
+
+  const handleCleanup = async () => {
+    if (!window.electron?.worktree) return;
+
+    setCleaning(true);
+    setError(null);
+    try {
+      const worktreeIds = selectedCandidates.map((candidate) => candidate.worktreeId);
+      worktreeIds.forEach((worktreeId) => bulkCloseByWorktree(worktreeId));
+
+      const cleanupResult = await window.electron.worktree.cleanup({
+        worktreeIds,
+        deleteBranches,
+        force,
+      });
+      setResult(cleanupResult);
+      await scan(staleDays ?? undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clean up worktrees");
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const busy = scanning || cleaning;
+  const failedNames = new Map(candidates.map((c) => [c.worktreeId, c.branch ?? c.name]));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={() => !cleaning && onClose()}
+    >
+      <div
+        className="bg-canopy-sidebar border border-canopy-border rounded-lg shadow-xl w-full max-w-2xl"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="worktree-cleanup-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-canopy-border">
+          <h2
+            id="worktree-cleanup-title"
+            className="text-lg font-medium text-canopy-text flex items-center gap-2"
+          >
+            <Sparkles className="w-5 h-5 text-canopy-accent" />
+            Clean Up Worktrees
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-canopy-text transition-colors"
+            disabled={cleaning}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-2 text-sm text-canopy-text">
+            <label htmlFor="stale-days">Stale after</label>
+            <input
+              id="stale-days"
+              type="number"
+              min={1}
+              max={365}
+              value={staleDays ?? ""}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                setStaleDays(days > 0 ? Math.min(days, 365) : null);
+              }}
+              className="w-16 px-2 py-1 bg-canopy-bg border border-canopy-border rounded-md text-canopy-text focus:outline-none focus:ring-2 focus:ring-canopy-accent"
+              disabled={busy}
+            />
+            <span>days without commits</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => scan(staleDays ?? undefined)}
+              disabled={busy || staleDays === null}
+              className="ml-auto"
+            >
+              <RefreshCw className={cn("w-3.5 h-3.5 mr-1", scanning && "animate-spin")} />
+              Rescan
+            </Button>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto border border-canopy-border rounded-md divide-y divide-canopy-border">
+            {scanning && candidates.length === 0 ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-canopy-accent" />
+                <span className="ml-2 text-sm text-gray-400">Scanning worktrees...</span>
+              </div>
+            ) : candidates.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-400">Nothing to clean up.</p>
+            ) : (
+              candidates.map((candidate) => (
+                <label
+                  key={candidate.worktreeId}
+                  className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-canopy-bg/50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(candidate.worktreeId)}
+                    onChange={() => toggle(candidate.worktreeId)}
+                    className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                    disabled={busy}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm text-canopy-text truncate">
+                        {candidate.branch ?? candidate.name}
+                      </span>
+                      <span
+                        className={cn(
+                          "text-xs px-1.5 py-0.5 rounded",
+                          REASON_COLORS[candidate.reason]
+                        )}
+                      >
+                        {REASON_LABELS[candidate.reason]}
+                        {candidate.prNumber && candidate.reason !== "stale"
+                          ? ` #${candidate.prNumber}`
+                          : ""}
+                      </span>
+                      {candidate.uncommittedFileCount > 0 && (
+                        <span
+                          className="flex items-center gap-1 text-xs text-[var(--color-status-warning)]"
+                          title="Uncommitted changes will be discarded"
+                        >
+                          <AlertTriangle className="w-3 h-3" />
+                          {candidate.uncommittedFileCount} uncommitted
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{candidate.path}</div>
+                  </div>
+                  <div className="text-right text-xs text-gray-400 flex-shrink-0">
+                    <div>{formatBytes(candidate.diskSizeBytes)}</div>
+                    <div>{formatRelativeTime(candidate.lastActivityAt)}</div>
+                  </div>
+                </label>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                id="cleanup-delete-branches"
+                type="checkbox"
+                checked={deleteBranches}
+                onChange={(e) => setDeleteBranches(e.target.checked)}
+                className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                disabled={busy}
+              />
+              <label htmlFor="cleanup-delete-branches" className="text-sm text-canopy-text">
+                Also delete local branches
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                id="cleanup-force"
+                type="checkbox"
+                checked={force}
+                onChange={(e) => setForce(e.target.checked)}
+                className="rounded border-canopy-border text-canopy-accent focus:ring-canopy-accent"
+                disabled={busy}
+              />
+              <label htmlFor="cleanup-force" className="text-sm text-canopy-text">
+                Force (discard uncommitted changes and delete unmerged branches)
+              </label>
+            </div>
+          </div>
+
+          {needsForce && !force && (
+            <p className="flex items-start gap-2 text-sm text-[var(--color-status-warning)]">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              Worktrees with uncommitted changes will fail to remove unless forced.
+            </p>
+          )}
+
+          {result && (
+            <div className="text-sm text-canopy-text/70 space-y-1">
+              <p>
+                Removed {result.removed.length} worktree{result.removed.length === 1 ? "" : "s"}
+                {result.pruned ? " and pruned worktree metadata." : "."}
+              </p>
+              {result.failed.map((failure) => (
+                <p key={failure.worktreeId} className="text-[var(--color-status-error)]">
+                  {failedNames.get(failure.worktreeId) ?? failure.worktreeId}: {failure.error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md">
+              <AlertCircle className="w-4 h-4 text-[var(--color-status-error)] mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-[var(--color-status-error)]">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-canopy-border">
+          <Button variant="ghost" onClick={onClose} disabled={cleaning}>
+            Close
+          </Button>
+          <Button
+            onClick={handleCleanup}
+            disabled={busy}
+            className="min-w-[100px] bg-red-600 hover:bg-red-700 text-white"
+          >
+            {cleaning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Cleaning...
+              </>
+            ) : selectedCandidates.length > 0 ? (
+              `Remove ${selectedCandidates.length} (${formatBytes(selectedBytes)}) and Prune`
+            ) : (
+              "Prune Only"
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
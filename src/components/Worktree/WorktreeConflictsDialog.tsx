@@ -0,0 +1,211 @@
+/**
+ * Worktree Conflicts Dialog Component
+ *
+ * Matrix of predicted collisions between worktrees: files with uncommitted
+ * changes in both, and files that conflict when their branches are test-merged.
+ * Below the matrix, each colliding pair lists its files.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { X, AlertTriangle, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { WorktreeConflictPair, WorktreeConflictReport, WorktreeState } from "@/types";
+
+interface WorktreeConflictsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worktrees: WorktreeState[];
+  report: WorktreeConflictReport | null;
+  onRefresh: () => void;
+  isRefreshing?: boolean;
+}
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join("\u0000");
+}
+
+function cellClass(pair: WorktreeConflictPair | undefined): string {
+  if (!pair) return "bg-canopy-bg/50 text-gray-600";
+  if (pair.conflictingFiles.length > 0) {
+    return "bg-red-500/20 text-[var(--color-status-error)] hover:bg-red-500/30";
+  }
+  return "bg-yellow-500/15 text-[var(--color-status-warning)] hover:bg-yellow-500/25";
+}
+
+export function WorktreeConflictsDialog({
+  isOpen,
+  onClose,
+  worktrees,
+  report,
+  onRefresh,
+  isRefreshing = false,
+}: WorktreeConflictsDialogProps) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const labels = new Map(worktrees.map((wt) => [wt.id, wt.branch ?? wt.name]));
+  const pairsByKey = new Map(
+    (report?.pairs ?? []).map((pair) => [pairKey(pair.worktreeIds[0], pair.worktreeIds[1]), pair])
+  );
+  const listedPairs = selectedKey
+    ? (report?.pairs ?? []).filter(
+        (pair) => pairKey(pair.worktreeIds[0], pair.worktreeIds[1]) === selectedKey
+      )
+    : (report?.pairs ?? []);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-canopy-sidebar border border-canopy-border rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="worktree-conflicts-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-canopy-border">
+          <h2
+            id="worktree-conflicts-title"
+            className="text-lg font-medium text-canopy-text flex items-center gap-2"
+          >
+            <AlertTriangle className="w-5 h-5 text-[var(--color-status-warning)]" />
+            Worktree Conflicts
+          </h2>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={onRefresh} disabled={isRefreshing}>
+              <RefreshCw className={cn("w-3.5 h-3.5 mr-1", isRefreshing && "animate-spin")} />
+              Recheck
+            </Button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-canopy-text transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="overflow-x-auto">
+            <table className="border-separate border-spacing-1 text-xs font-mono">
+              <thead>
+                <tr>
+                  <th />
+                  {worktrees.map((wt) => (
+                    <th
+                      key={wt.id}
+                      className="max-w-[8rem] px-1 font-normal text-gray-400 truncate"
+                      title={labels.get(wt.id)}
+                    >
+                      {labels.get(wt.id)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {worktrees.map((row) => (
+                  <tr key={row.id}>
+                    <th
+                      className="max-w-[10rem] pr-2 font-normal text-left text-gray-400 truncate"
+                      title={labels.get(row.id)}
+                    >
+                      {labels.get(row.id)}
+                    </th>
+                    {worktrees.map((col) => {
+                      if (row.id === col.id) {
+                        return <td key={col.id} className="w-10 h-8" />;
+                      }
+                      const key = pairKey(row.id, col.id);
+                      const pair = pairsByKey.get(key);
+                      const count = pair
+                        ? new Set([...pair.overlappingFiles, ...pair.conflictingFiles]).size
+                        : 0;
+                      return (
+                        <td key={col.id} className="w-10 h-8 p-0">
+                          <button
+                            onClick={() => setSelectedKey(selectedKey === key ? null : key)}
+                            disabled={!pair}
+                            className={cn(
+                              "w-full h-full rounded text-center transition-colors",
+                              cellClass(pair),
+                              selectedKey === key && "ring-1 ring-canopy-accent"
+                            )}
+                            title={
+                              pair
+                                ? `${labels.get(row.id)} × ${labels.get(col.id)}: ${count} file${count === 1 ? "" : "s"}`
+                                : undefined
+                            }
+                          >
+                            {pair ? count : "·"}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-4 text-xs text-gray-400">
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-red-500/20" />
+              Merge conflicts
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded bg-yellow-500/15" />
+              Same files changed
+            </span>
+            {report && !report.mergeChecked && (
+              <span className="ml-auto">Merge check unavailable (needs git 2.38+)</span>
+            )}
+          </div>
+
+          {listedPairs.length === 0 ? (
+            <p className="py-4 text-center text-sm text-gray-400">
+              No overlapping changes between worktrees.
+            </p>
+          ) : (
+            <div className="border border-canopy-border rounded-md divide-y divide-canopy-border">
+              {listedPairs.map((pair) => {
+                const [a, b] = pair.worktreeIds;
+                return (
+                  <div key={pairKey(a, b)} className="px-3 py-2 space-y-1">
+                    <div className="font-mono text-sm text-canopy-text">
+                      {labels.get(a) ?? a} <span className="text-gray-500">×</span>{" "}
+                      {labels.get(b) ?? b}
+                    </div>
+                    {pair.conflictingFiles.length > 0 && (
+                      <div className="text-xs">
+                        <span className="text-[var(--color-status-error)]">Merge conflicts: </span>
+                        <span className="font-mono text-gray-300">
+                          {pair.conflictingFiles.join(", ")}
+                        </span>
+                      </div>
+                    )}
+                    {pair.overlappingFiles.length > 0 && (
+                      <div className="text-xs">
+                        <span className="text-[var(--color-status-warning)]">
+                          Uncommitted in both:{" "}
+                        </span>
+                        <span className="font-mono text-gray-300">
+                          {pair.overlappingFiles.join(", ")}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
 export { WorktreeCard } from "./WorktreeCard";
+export type { WorktreeCardConflict } from "./WorktreeCard";
 export { WorktreeList } from "./WorktreeList";
 export { FileChangeList } from "./FileChangeList";
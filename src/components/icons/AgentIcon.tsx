@@ -0,0 +1,36 @@
+/**
+ * Agent Icon Component
+ *
+ * Renders the icon configured for an agent registry entry, using the
+ * brand icons for built-in agents and Lucide icons for user-defined ones.
+ */
+
+import type { ComponentType } from "react";
+import { Bot, Code2, Sparkles, Terminal } from "lucide-react";
+import type { AgentIconName } from "@/types";
+import { ClaudeIcon } from "./ClaudeIcon";
+import { GeminiIcon } from "./GeminiIcon";
+import { CodexIcon } from "./CodexIcon";
+
+const AGENT_ICONS: Record<AgentIconName, ComponentType<{ className?: string }>> = {
+  claude: ClaudeIcon,
+  gemini: GeminiIcon,
+  codex: CodexIcon,
+  terminal: Terminal,
+  bot: Bot,
+  sparkles: Sparkles,
+  code: Code2,
+};
+
+/** Icon names selectable for an agent, in display order */
+export const AGENT_ICON_NAMES = Object.keys(AGENT_ICONS) as AgentIconName[];
+
+interface AgentIconProps {
+  icon: AgentIconName;
+  className?: string;
+}
+
+export function AgentIcon({ icon, className }: AgentIconProps) {
+  const Icon = AGENT_ICONS[icon] ?? Bot;
+  return <Icon className={className} aria-hidden="true" />;
+}
@@ -9,3 +9,4 @@
 export { ClaudeIcon } from "./ClaudeIcon";
 export { GeminiIcon } from "./GeminiIcon";
 export { CodexIcon } from "./CodexIcon";
+export { AgentIcon, AGENT_ICON_NAMES } from "./AgentIcon";
@@ -7,6 +7,9 @@
 export { useWorktrees, useWorktree } from "./useWorktrees";
 export type { UseWorktreesReturn } from "./useWorktrees";
 
+export { useWorktreeConflicts } from "./useWorktreeConflicts";
+export type { UseWorktreeConflictsReturn } from "./useWorktreeConflicts";
+
 export { useDevServer, useDevServerStates } from "./useDevServer";
 
 export { useElectron, isElectronAvailable } from "./useElectron";
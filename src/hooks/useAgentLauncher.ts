@@ -1,62 +1,41 @@
 /**
  * useAgentLauncher Hook
  *
- * Provides agent launcher functionality with proper configuration for AI agents.
- * Handles spawning terminals pre-configured for Claude, Gemini, or plain shell.
+ * Provides agent launcher functionality for agents in the agent registry.
+ * Handles spawning terminals pre-configured for a registry agent or plain shell.
  *
  * Features:
- * - Spawns terminal with agent command (claude, gemini) or plain shell
+ * - Spawns terminal for a registry agent (the main process runs its command) or plain shell
  * - Uses active worktree path as CWD when available
  * - Checks CLI availability and caches results
  */
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useTerminalStore, type AddTerminalOptions } from "@/store/terminalStore";
 import { useProjectStore } from "@/store/projectStore";
+import { useAgentRegistryStore } from "@/store/agentRegistryStore";
+import type { AgentDefinition, TerminalType } from "@/types";
 import { useWorktrees } from "./useWorktrees";
 import { isElectronAvailable } from "./useElectron";
 
-export type AgentType = "claude" | "gemini" | "codex" | "shell";
+/** Agent registry ID, or "shell" for a plain shell */
+export type AgentType = string;
 
-interface AgentConfig {
-  type: AgentType;
-  title: string;
-  command?: string;
-}
+/** Built-in agents that have a dedicated terminal type; other agents use "custom" */
+const AGENT_TERMINAL_TYPES: TerminalType[] = ["claude", "gemini", "codex"];
 
-const AGENT_CONFIGS: Record<AgentType, AgentConfig> = {
-  claude: {
-    type: "claude",
-    title: "Claude",
-    command: "claude",
-  },
-  gemini: {
-    type: "gemini",
-    title: "Gemini",
-    command: "gemini",
-  },
-  codex: {
-    type: "codex",
-    title: "Codex",
-    command: "codex",
-  },
-  shell: {
-    type: "shell",
-    title: "Shell",
-    command: undefined, // Plain shell, no command
-  },
-};
-
-export interface AgentAvailability {
-  claude: boolean;
-  gemini: boolean;
-  codex: boolean;
+export function getAgentTerminalType(agent: AgentDefinition): TerminalType {
+  const type = agent.id as TerminalType;
+  return AGENT_TERMINAL_TYPES.includes(type) ? type : "custom";
 }
 
+/** CLI availability keyed by agent registry ID */
+export type AgentAvailability = Record<string, boolean>;
+
 export interface UseAgentLauncherReturn {
   /** Launch an agent terminal */
   launchAgent: (type: AgentType) => Promise<string | null>;
-  /** CLI availability status */
+  /** CLI availability status (agents missing from the map are assumed available) */
   availability: AgentAvailability;
   /** Whether availability check is in progress */
   isCheckingAvailability: boolean;
@@ -96,15 +75,22 @@ export function useAgentLauncher(): UseAgentLauncherReturn {
   const { addTerminal } = useTerminalStore();
   const { worktreeMap, activeId } = useWorktrees();
   const currentProject = useProjectStore((state) => state.currentProject);
+  const agents = useAgentRegistryStore((state) => state.agents);
 
-  const [availability, setAvailability] = useState<AgentAvailability>({
-    claude: true, // Optimistically assume available until checked
-    gemini: true,
-    codex: true,
-  });
+  // Optimistically assume available until checked
+  const [availability, setAvailability] = useState<AgentAvailability>({});
   const [isCheckingAvailability, setIsCheckingAvailability] = useState(true);
 
-  // Check CLI availability on mount
+  // Re-check only when the set of commands changes, not on every registry edit
+  const commandKey = useMemo(
+    () =>
+      JSON.stringify(
+        agents.filter((agent) => agent.enabled).map((agent) => [agent.id, agent.command])
+      ),
+    [agents]
+  );
+
+  // Check CLI availability on mount and when agent commands change
   useEffect(() => {
     if (!isElectronAvailable()) {
       setIsCheckingAvailability(false);
@@ -112,21 +98,17 @@ export function useAgentLauncher(): UseAgentLauncherReturn {
     }
 
     let cancelled = false;
+    const commands = JSON.parse(commandKey) as Array<[string, string]>;
 
     async function checkAvailability() {
+      setIsCheckingAvailability(true);
       try {
-        const [claudeAvailable, geminiAvailable, codexAvailable] = await Promise.all([
-          window.electron.system.checkCommand("claude"),
-          window.electron.system.checkCommand("gemini"),
-          window.electron.system.checkCommand("codex"),
-        ]);
+        const results = await Promise.all(
+          commands.map(([, command]) => window.electron.system.checkCommand(command))
+        );
 
         if (!cancelled) {
-          setAvailability({
-            claude: claudeAvailable,
-            gemini: geminiAvailable,
-            codex: codexAvailable,
-          });
+          setAvailability(Object.fromEntries(commands.map(([id], i) => [id, results[i]])));
         }
       } catch (error) {
         console.error("Failed to check CLI availability:", error);
@@ -143,7 +125,7 @@ export function useAgentLauncher(): UseAgentLauncherReturn {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [commandKey]);
 
   const launchAgent = useCallback(
     async (type: AgentType): Promise<string | null> => {
@@ -152,20 +134,31 @@ export function useAgentLauncher(): UseAgentLauncherReturn {
         return null;
       }
 
-      const config = AGENT_CONFIGS[type];
+      const agent = type === "shell" ? undefined : agents.find((a) => a.id === type);
+      if (type !== "shell" && !agent) {
+        console.warn(`Unknown agent: ${type}`);
+        return null;
+      }
 
       // Get CWD from active worktree or fall back to project root
       const activeWorktree = activeId ? worktreeMap.get(activeId) : null;
       // Pass project root if no worktree; Main process handles HOME fallback as last resort
       const cwd = activeWorktree?.path || currentProject?.path || "";
 
-      const options: AddTerminalOptions = {
-        type: config.type,
-        title: config.title,
-        cwd,
-        worktreeId: activeId || undefined,
-        command: config.command,
-      };
+      const options: AddTerminalOptions = agent
+        ? {
+            type: getAgentTerminalType(agent),
+            agentType: agent.id,
+            title: agent.name,
+            cwd,
+            worktreeId: activeId || undefined,
+          }
+        : {
+            type: "shell",
+            title: "Shell",
+            cwd,
+            worktreeId: activeId || undefined,
+          };
 
       try {
         const terminalId = await addTerminal(options);
@@ -175,7 +168,7 @@ export function useAgentLauncher(): UseAgentLauncherReturn {
         return null;
       }
     },
-    [activeId, worktreeMap, addTerminal, currentProject]
+    [activeId, worktreeMap, addTerminal, currentProject, agents]
   );
 
   return {
@@ -5,8 +5,7 @@
  * Generates CopyTree output and injects it into the focused terminal.
  *
  * The output format is automatically optimized based on the target AI agent:
- * - Claude: XML (structured parsing)
- * - Gemini: Markdown (natural reading)
+ * - Registry agents: the format configured for the agent in Settings
  * - Shell/Custom: XML (safe default)
  *
  * Includes progress reporting and cancellation support.
@@ -15,15 +14,16 @@
 import { useCallback, useState, useEffect, useRef } from "react";
 import { useTerminalStore, type TerminalInstance } from "@/store/terminalStore";
 import { useErrorStore } from "@/store/errorStore";
+import { useAgentRegistryStore } from "@/store/agentRegistryStore";
 import type { TerminalType } from "@/components/Terminal/TerminalPane";
 import type { AgentState } from "@/types";
 
 /** CopyTree output format */
-type CopyTreeFormat = "xml" | "json" | "markdown" | "tree" | "ndjson";
+export type CopyTreeFormat = "xml" | "json" | "markdown" | "tree" | "ndjson";
 
 /**
- * Mapping from terminal type to optimal CopyTree output format.
- * Different AI agents have different preferences for context format.
+ * Fallback mapping from terminal type to CopyTree output format, used when a
+ * terminal isn't linked to an agent registry entry.
  */
 const AGENT_FORMAT_MAP: Record<TerminalType, CopyTreeFormat> = {
   claude: "xml", // Claude prefers structured XML
@@ -34,9 +34,13 @@ const AGENT_FORMAT_MAP: Record<TerminalType, CopyTreeFormat> = {
 };
 
 /**
- * Get the optimal CopyTree output format for a terminal type.
+ * Get the optimal CopyTree output format for a terminal.
+ * Different AI agents have different preferences for context format.
  */
-function getOptimalFormat(terminalType: TerminalType): CopyTreeFormat {
+export function getOptimalFormat(terminalType: TerminalType, agentType?: string): CopyTreeFormat {
+  const agent = agentType ? useAgentRegistryStore.getState().getAgent(agentType) : undefined;
+  if (agent) return agent.copyTreeFormat;
+
   const format = AGENT_FORMAT_MAP[terminalType];
   if (!format) {
     console.warn(`Unknown terminal type "${terminalType}", defaulting to XML format`);
@@ -164,7 +168,7 @@ export function useContextInjection(): UseContextInjectionReturn {
           );
         }
 
-        const format = getOptimalFormat(terminal.type);
+        const format = getOptimalFormat(terminal.type, terminal.agentType);
 
         // Build options with includePaths if selected paths were provided
         const options = {
@@ -1,29 +1,41 @@
 /**
  * useDevServer Hook
  *
- * Provides dev server control for a specific worktree via IPC.
- * Manages state, start/stop/toggle actions, and dev script detection.
+ * Provides control of a worktree's dev processes via IPC.
+ * Each process (e.g. frontend, API, queue worker) runs in its own slot with its
+ * own state; the hook also exposes start/stop for all of them and their combined health.
  */
 
-import { useState, useEffect, useCallback } from "react";
-import type { DevServerState } from "../types";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { DevServerState, RunCommand } from "../types";
+import { summarizeDevServerHealth, type DevServerHealth } from "../lib/devServerHealth";
 
 interface UseDevServerOptions {
   worktreeId: string;
   worktreePath?: string;
 }
 
+/** A dev process and its current state */
+export interface DevServerSlot {
+  process: RunCommand;
+  state: DevServerState;
+}
+
 interface UseDevServerReturn {
-  /** Current dev server state for this worktree */
-  state: DevServerState | null;
-  /** Whether the worktree has a detectable dev script */
+  /** Dev processes for this worktree, in configuration order */
+  slots: DevServerSlot[];
+  /** Combined health of all slots */
+  health: DevServerHealth;
+  /** Whether the worktree has any dev process to run */
   hasDevScript: boolean;
-  /** Start the dev server (optionally with custom command) */
-  start: (command?: string) => Promise<void>;
-  /** Stop the dev server */
-  stop: () => Promise<void>;
-  /** Toggle the dev server state */
-  toggle: () => Promise<void>;
+  /** Start one dev process */
+  start: (processId: string) => Promise<void>;
+  /** Stop one dev process */
+  stop: (processId: string) => Promise<void>;
+  /** Start every dev process */
+  startAll: () => Promise<void>;
+  /** Stop every dev process */
+  stopAll: () => Promise<void>;
   /** Whether an action is currently in progress */
   isLoading: boolean;
   /** Any error that occurred during the last action */
@@ -31,20 +43,20 @@ interface UseDevServerReturn {
 }
 
 /**
- * Hook for controlling a dev server for a specific worktree
+ * Hook for controlling the dev processes of a specific worktree
  *
  * @example
  * ```tsx
- * const { state, hasDevScript, toggle, isLoading } = useDevServer({
+ * const { slots, health, startAll, stopAll, isLoading } = useDevServer({
  *   worktreeId: worktree.id,
  *   worktreePath: worktree.path,
  * })
  *
- * if (!hasDevScript) return null
+ * if (slots.length === 0) return null
  *
  * return (
- *   <button onClick={toggle} disabled={isLoading}>
- *     {state?.status === 'running' ? 'Stop' : 'Start'}
+ *   <button onClick={health.running > 0 ? stopAll : startAll} disabled={isLoading}>
+ *     {health.running > 0 ? 'Stop all' : 'Start all'}
  *   </button>
  * )
  * ```
@@ -53,30 +65,40 @@ export function useDevServer({
   worktreeId,
   worktreePath,
 }: UseDevServerOptions): UseDevServerReturn {
-  const [state, setState] = useState<DevServerState | null>(null);
-  const [hasDevScript, setHasDevScript] = useState(false);
+  const [processes, setProcesses] = useState<RunCommand[]>([]);
+  const [states, setStates] = useState<Map<string, DevServerState>>(new Map());
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Check for dev script availability on mount or when path changes
+  const applyStates = useCallback((updates: DevServerState[]) => {
+    setStates((prev) => {
+      const next = new Map(prev);
+      for (const state of updates) {
+        next.set(state.processId, state);
+      }
+      return next;
+    });
+  }, []);
+
+  // Resolve the worktree's dev processes on mount or when path changes
   useEffect(() => {
     if (!worktreePath) {
-      setHasDevScript(false);
+      setProcesses([]);
       return;
     }
 
     let cancelled = false;
 
     window.electron.devServer
-      .hasDevScript(worktreePath)
+      .getProcesses(worktreePath)
       .then((result) => {
         if (!cancelled) {
-          setHasDevScript(result);
+          setProcesses(result);
         }
       })
       .catch(() => {
         if (!cancelled) {
-          setHasDevScript(false);
+          setProcesses([]);
         }
       });
 
@@ -85,33 +107,32 @@ export function useDevServer({
     };
   }, [worktreePath]);
 
-  // Get initial state on mount or when worktreeId changes
+  // Get initial states on mount or when worktreeId changes
   useEffect(() => {
     let cancelled = false;
+    setStates(new Map());
 
     window.electron.devServer
-      .getState(worktreeId)
-      .then((state) => {
+      .getStates(worktreeId)
+      .then((result) => {
         if (!cancelled) {
-          setState(state);
+          applyStates(result);
         }
       })
       .catch(() => {
-        if (!cancelled) {
-          setState(null);
-        }
+        // Slots show as stopped until their first update
       });
 
     return () => {
       cancelled = true;
     };
-  }, [worktreeId]);
+  }, [worktreeId, applyStates]);
 
   // Subscribe to state updates for this worktree
   useEffect(() => {
     const unsubUpdate = window.electron.devServer.onUpdate((newState) => {
       if (newState.worktreeId === worktreeId) {
-        setState(newState);
+        applyStates([newState]);
         // Clear loading state when update arrives
         setIsLoading(false);
       }
@@ -128,72 +149,101 @@ export function useDevServer({
       unsubUpdate();
       unsubError();
     };
-  }, [worktreeId]);
+  }, [worktreeId, applyStates]);
 
-  const start = useCallback(
-    async (command?: string) => {
-      if (!worktreePath) {
-        setError("Worktree path is required to start dev server");
-        return;
-      }
+  const slots = useMemo(() => {
+    const configured = processes.map((process) => ({
+      process,
+      state: states.get(process.id) ?? { worktreeId, processId: process.id, status: "stopped" },
+    }));
+
+    // Processes removed from settings while running stay visible until stopped
+    const orphaned = Array.from(states.values())
+      .filter(
+        (state) =>
+          state.status !== "stopped" && !processes.some((process) => process.id === state.processId)
+      )
+      .map((state) => ({
+        process: { id: state.processId, name: state.processId, command: "" },
+        state,
+      }));
 
+    return [...configured, ...orphaned];
+  }, [processes, states, worktreeId]);
+
+  const health = useMemo(() => summarizeDevServerHealth(slots.map((slot) => slot.state)), [slots]);
+
+  const runAction = useCallback(
+    async (action: () => Promise<DevServerState | DevServerState[]>, fallbackError: string) => {
       setIsLoading(true);
       setError(null);
 
       try {
-        const newState = await window.electron.devServer.start(worktreeId, worktreePath, command);
-        setState(newState);
+        const result = await action();
+        applyStates(Array.isArray(result) ? result : [result]);
       } catch (err) {
-        const message = err instanceof Error ? err.message : "Failed to start dev server";
+        const message = err instanceof Error ? err.message : fallbackError;
         setError(message);
       } finally {
         setIsLoading(false);
       }
     },
-    [worktreeId, worktreePath]
+    [applyStates]
   );
 
-  const stop = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const newState = await window.electron.devServer.stop(worktreeId);
-      setState(newState);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to stop dev server";
-      setError(message);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [worktreeId]);
+  const start = useCallback(
+    async (processId: string) => {
+      if (!worktreePath) {
+        setError("Worktree path is required to start dev server");
+        return;
+      }
 
-  const toggle = useCallback(async () => {
+      const command = processes.find((process) => process.id === processId)?.command;
+      await runAction(
+        () => window.electron.devServer.start(worktreeId, worktreePath, command, processId),
+        "Failed to start dev server"
+      );
+    },
+    [worktreeId, worktreePath, processes, runAction]
+  );
+
+  const stop = useCallback(
+    async (processId: string) => {
+      await runAction(
+        () => window.electron.devServer.stop(worktreeId, processId),
+        "Failed to stop dev server"
+      );
+    },
+    [worktreeId, runAction]
+  );
+
+  const startAll = useCallback(async () => {
     if (!worktreePath) {
-      setError("Worktree path is required to toggle dev server");
+      setError("Worktree path is required to start dev servers");
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const newState = await window.electron.devServer.toggle(worktreeId, worktreePath);
-      setState(newState);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "Failed to toggle dev server";
-      setError(message);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [worktreeId, worktreePath]);
+    await runAction(
+      () => window.electron.devServer.startAll(worktreeId, worktreePath),
+      "Failed to start dev servers"
+    );
+  }, [worktreeId, worktreePath, runAction]);
+
+  const stopAll = useCallback(async () => {
+    await runAction(
+      () => window.electron.devServer.stopAll(worktreeId),
+      "Failed to stop dev servers"
+    );
+  }, [worktreeId, runAction]);
 
   return {
-    state,
-    hasDevScript,
+    slots,
+    health,
+    hasDevScript: slots.length > 0,
     start,
     stop,
-    toggle,
+    startAll,
+    stopAll,
     isLoading,
     error,
   };
@@ -203,7 +253,7 @@ export function useDevServer({
  * Hook for managing all dev server states globally
  *
  * Use this when you need to track dev servers across multiple worktrees,
- * such as in a dashboard view.
+ * such as in a dashboard view. States are keyed by `worktreeId:processId`.
  *
  * @example
  * ```tsx
@@ -225,7 +275,7 @@ export function useDevServerStates(): Map<string, DevServerState> {
     const unsub = window.electron.devServer.onUpdate((state) => {
       setStates((prev) => {
         const next = new Map(prev);
-        next.set(state.worktreeId, state);
+        next.set(`${state.worktreeId}:${state.processId}`, state);
         return next;
       });
     });
@@ -18,6 +18,7 @@ export interface SearchableTerminal {
   id: string;
   title: string;
   type: TerminalInstance["type"];
+  agentType?: string;
   worktreeId?: string;
   worktreeName?: string;
   cwd: string;
@@ -107,6 +108,7 @@ export function useTerminalPalette(): UseTerminalPaletteReturn {
       id: t.id,
       title: t.title,
       type: t.type,
+      agentType: t.agentType,
       worktreeId: t.worktreeId,
       worktreeName: t.worktreeId ? worktreeMap.get(t.worktreeId)?.name : undefined,
       cwd: t.cwd,
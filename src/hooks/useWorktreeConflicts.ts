@@ -0,0 +1,68 @@
+/**
+ * useWorktreeConflicts Hook
+ *
+ * Subscribes to the main process's cross-worktree conflict predictions
+ * (overlapping uncommitted files and test-merge conflicts between branches).
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { WorktreeConflictPair, WorktreeConflictReport } from "../types";
+
+export interface UseWorktreeConflictsReturn {
+  /** Latest report, or null before the first load */
+  report: WorktreeConflictReport | null;
+  /** Pairs involving the given worktree */
+  getConflicts: (worktreeId: string) => WorktreeConflictPair[];
+  /** Recompute the report now */
+  refresh: () => Promise<void>;
+  /** Whether a manual refresh is in progress */
+  isRefreshing: boolean;
+}
+
+export function useWorktreeConflicts(): UseWorktreeConflictsReturn {
+  const [report, setReport] = useState<WorktreeConflictReport | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!window.electron?.worktree) return;
+
+    let cancelled = false;
+
+    window.electron.worktree
+      .getConflicts()
+      .then((initial) => {
+        if (!cancelled) setReport(initial);
+      })
+      .catch(() => {
+        // Non-critical - pushed updates will fill this in
+      });
+
+    const unsubscribe = window.electron.worktree.onConflicts(setReport);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const getConflicts = useCallback(
+    (worktreeId: string) =>
+      report?.pairs.filter((pair) => pair.worktreeIds.includes(worktreeId)) ?? [],
+    [report]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!window.electron?.worktree) return;
+
+    setIsRefreshing(true);
+    try {
+      setReport(await window.electron.worktree.refreshConflicts());
+    } catch (error) {
+      console.error("Failed to refresh worktree conflicts:", error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  return { report, getConflicts, refresh, isRefreshing };
+}
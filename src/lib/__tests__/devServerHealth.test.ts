@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { DevServerState, DevServerStatus } from "@/types";
+import {
+  getDevServerCrashText,
+  getDevServerHealthText,
+  getDevServerLabel,
+  summarizeDevServerHealth,
+} from "../devServerHealth";
+
+function state(processId: string, status: DevServerStatus, url?: string): DevServerState {
+  return { worktreeId: "/repo/feature", processId, status, url };
+}
+
+describe("summarizeDevServerHealth", () => {
+  it("should report the worst status across processes", () => {
+    expect(summarizeDevServerHealth([state("web", "running"), state("api", "stopped")])).toEqual({
+      status: "running",
+      running: 1,
+      failed: 0,
+      total: 2,
+    });
+    expect(
+      summarizeDevServerHealth([state("web", "running"), state("api", "starting")]).status
+    ).toBe("starting");
+    expect(summarizeDevServerHealth([state("web", "starting"), state("api", "error")]).status).toBe(
+      "error"
+    );
+    expect(summarizeDevServerHealth([]).status).toBe("stopped");
+  });
+});
+
+describe("getDevServerLabel", () => {
+  it("should show a single running server's URL", () => {
+    expect(getDevServerLabel([state("dev", "running", "http://localhost:5173/")])).toBe(
+      "localhost:5173"
+    );
+    expect(getDevServerLabel([state("dev", "stopped")])).toBe("Dev Server");
+  });
+
+  it("should count running and failed processes", () => {
+    const states = [state("web", "running"), state("api", "running"), state("queue", "stopped")];
+    expect(getDevServerLabel(states)).toBe("2/3 running");
+    expect(getDevServerLabel([...states, state("mail", "error")])).toBe("1 failed");
+  });
+
+  it("should tell restarts apart from first starts", () => {
+    expect(getDevServerLabel([state("dev", "starting")])).toBe("Starting");
+    expect(getDevServerLabel([{ ...state("dev", "starting"), restartCount: 1 }])).toBe(
+      "Restarting"
+    );
+  });
+});
+
+describe("getDevServerHealthText", () => {
+  it("should describe the latest probe", () => {
+    const running = state("web", "running");
+    expect(getDevServerHealthText(running)).toBeUndefined();
+    expect(
+      getDevServerHealthText({
+        ...running,
+        health: { ok: true, checkedAt: 0, latencyMs: 4, consecutiveFailures: 0 },
+      })
+    ).toBe("Healthy (4 ms)");
+    expect(
+      getDevServerHealthText({
+        ...running,
+        health: { ok: false, checkedAt: 0, error: "ECONNREFUSED", consecutiveFailures: 2 },
+      })
+    ).toBe("Health check failing: ECONNREFUSED (2 failures)");
+    expect(
+      getDevServerHealthText({ ...state("web", "error"), errorMessage: "Health check failed" })
+    ).toBe("Health check failed");
+  });
+});
+
+describe("getDevServerCrashText", () => {
+  it("should describe restarts and the last crash's output", () => {
+    expect(getDevServerCrashText(state("web", "running"))).toBeUndefined();
+
+    const text = getDevServerCrashText({
+      ...state("web", "starting"),
+      restartCount: 3,
+      lastCrash: { exitCode: 1, crashedAt: 0, logTail: ["Error: EADDRINUSE"] },
+    });
+    expect(text).toMatch(/^Restarted 3 times\nLast crash \(code 1\) at .+:\nError: EADDRINUSE$/);
+  });
+});
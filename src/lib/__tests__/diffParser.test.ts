@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { parseUnifiedDiff, toSplitRows } from "../diffParser";
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1234567..89abcde 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,4 +1,5 @@
+ import { run } from "./run";
+-const port = 3000;
++const port = 8080;
++const host = "localhost";
+${" "}
+ run(port);
+@@ -10,2 +11,2 @@ export function main() {
+-  return 1;
++  return 0;
+ }
+\\ No newline at end of file
+`;
+
+describe("parseUnifiedDiff", () => {
+  it("should skip file headers and number lines from hunk headers", () => {
+    const hunks = parseUnifiedDiff(DIFF);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].lines).toEqual([
+      { type: "context", content: 'import { run } from "./run";', oldLine: 1, newLine: 1 },
+      { type: "delete", content: "const port = 3000;", oldLine: 2 },
+      { type: "add", content: "const port = 8080;", newLine: 2 },
+      { type: "add", content: 'const host = "localhost";', newLine: 3 },
+      { type: "context", content: "", oldLine: 3, newLine: 4 },
+      { type: "context", content: "run(port);", oldLine: 4, newLine: 5 },
+    ]);
+    expect(hunks[1].header).toBe("@@ -10,2 +11,2 @@ export function main() {");
+    expect(hunks[1].lines.map((line) => [line.oldLine, line.newLine])).toEqual([
+      [10, undefined],
+      [undefined, 11],
+      [11, 12],
+    ]);
+  });
+
+  it("should return no hunks for an empty or binary diff", () => {
+    expect(parseUnifiedDiff("")).toEqual([]);
+    expect(parseUnifiedDiff("Binary files a/logo.png and b/logo.png differ\n")).toEqual([]);
+  });
+});
+
+describe("toSplitRows", () => {
+  it("should pair deletions with the additions that replace them", () => {
+    const [hunk] = parseUnifiedDiff(DIFF);
+    const rows = toSplitRows(hunk);
+
+    expect(rows).toHaveLength(5);
+    expect(rows[1].left?.content).toBe("const port = 3000;");
+    expect(rows[1].right?.content).toBe("const port = 8080;");
+    expect(rows[2].left).toBeNull();
+    expect(rows[2].right?.content).toBe('const host = "localhost";');
+    expect(rows[0].left).toBe(rows[0].right);
+  });
+});
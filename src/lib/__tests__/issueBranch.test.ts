@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { buildIssueBranchName, buildIssuePrompt, slugifyIssueTitle } from "../issueBranch";
+
+describe("slugifyIssueTitle", () => {
+  it("should lowercase, strip punctuation and accents", () => {
+    expect(slugifyIssueTitle("Fix: Crash when café name has `quotes`!")).toBe(
+      "fix-crash-when-cafe-name-has-quotes"
+    );
+  });
+
+  it("should cut long titles at a word boundary", () => {
+    const slug = slugifyIssueTitle(
+      "Support configuring multiple development servers per worktree with ports"
+    );
+    expect(slug).toBe("support-configuring-multiple-development");
+    expect(slug.length).toBeLessThanOrEqual(40);
+  });
+});
+
+describe("buildIssueBranchName", () => {
+  it("should build a conventional branch name", () => {
+    expect(buildIssueBranchName({ number: 158, title: "Add login page" })).toBe(
+      "feature/issue-158-add-login-page"
+    );
+    expect(buildIssueBranchName({ number: 7, title: "???" }, "fix")).toBe("fix/issue-7");
+  });
+});
+
+describe("buildIssuePrompt", () => {
+  it("should include the title, link and body", () => {
+    const prompt = buildIssuePrompt({
+      number: 12,
+      title: "Broken build",
+      body: "Steps to reproduce",
+      url: "https://github.com/o/r/issues/12",
+      labels: [],
+      updatedAt: "",
+    });
+    expect(prompt).toBe(
+      "Work on GitHub issue #12: Broken build\n\nhttps://github.com/o/r/issues/12\n\nSteps to reproduce"
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { getPreviewLayout } from "../previewLayout";
+
+const PANE = { x: 1000, y: 48, width: 600, height: 900 };
+
+describe("getPreviewLayout", () => {
+  it("should fill the pane when responsive", () => {
+    expect(getPreviewLayout("responsive", PANE, true)).toEqual({
+      bounds: PANE,
+      zoomFactor: 1,
+      visible: true,
+    });
+  });
+
+  it("should center a device viewport that fits at full size", () => {
+    expect(getPreviewLayout("mobile", PANE, true)).toEqual({
+      bounds: { x: 1105, y: 48, width: 390, height: 844 },
+      zoomFactor: 1,
+      visible: true,
+    });
+  });
+
+  it("should scale down a device viewport wider than the pane", () => {
+    const layout = getPreviewLayout("desktop", PANE, false);
+
+    expect(layout.zoomFactor).toBeCloseTo(600 / 1440);
+    expect(layout.bounds).toEqual({ x: 1000, y: 48, width: 600, height: 375 });
+    expect(layout.visible).toBe(false);
+  });
+
+  it("should keep a usable zoom factor for a collapsed pane", () => {
+    const layout = getPreviewLayout("tablet", { x: 0, y: 0, width: 0, height: 0 }, true);
+
+    expect(layout.bounds).toMatchObject({ width: 0, height: 0 });
+    expect(layout.zoomFactor).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { formatReviewComments } from "../reviewComments";
+import type { GitHubReviewThread } from "@/types";
+
+const threads: GitHubReviewThread[] = [
+  {
+    path: "src/app.ts",
+    line: 12,
+    isOutdated: false,
+    comments: [
+      { author: "octocat", body: 'Use <const> & avoid "any"', url: "u1" },
+      { author: undefined, body: "Agreed", url: "u2" },
+    ],
+  },
+  {
+    path: "README.md",
+    line: null,
+    isOutdated: true,
+    comments: [{ author: "a", body: "Typo", url: "u3" }],
+  },
+];
+
+describe("formatReviewComments", () => {
+  it("should escape comment text in XML", () => {
+    const message = formatReviewComments(threads, 7, "xml");
+
+    expect(message).toContain("2 unresolved comment threads on PR #7");
+    expect(message).toContain('<thread file="src/app.ts" line="12">');
+    expect(message).toContain(
+      '<comment author="octocat">Use &lt;const&gt; &amp; avoid &quot;any&quot;</comment>'
+    );
+    expect(message).toContain('<comment author="ghost">Agreed</comment>');
+    expect(message).toContain('<thread file="README.md" outdated="true">');
+  });
+
+  it("should use headings per location in Markdown and one thread per line in NDJSON", () => {
+    const markdown = formatReviewComments(threads, 7, "markdown");
+    expect(markdown).toContain("### src/app.ts:12\n\n**octocat:** Use <const>");
+    expect(markdown).toContain("### README.md (outdated)");
+
+    const ndjson = formatReviewComments(threads, 7, "ndjson").split("\n\n")[1].split("\n");
+    expect(ndjson).toHaveLength(2);
+    expect(JSON.parse(ndjson[1])).toEqual({
+      file: "README.md",
+      line: null,
+      outdated: true,
+      comments: [{ author: "a", body: "Typo" }],
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Combined health of the dev processes running in a worktree
+ */
+
+import type { DevServerState, DevServerStatus } from "@/types";
+
+export interface DevServerHealth {
+  /** Worst status across processes: error, then starting, then running */
+  status: DevServerStatus;
+  running: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Summarize process states into one status for the worktree card.
+ */
+export function summarizeDevServerHealth(states: DevServerState[]): DevServerHealth {
+  const count = (status: DevServerStatus) =>
+    states.filter((state) => state.status === status).length;
+
+  const running = count("running");
+  const failed = count("error");
+  let status: DevServerStatus = "stopped";
+  if (failed > 0) status = "error";
+  else if (count("starting") > 0) status = "starting";
+  else if (running > 0) status = "running";
+
+  return { status, running, failed, total: states.length };
+}
+
+/**
+ * Short label for a worktree's dev processes: the URL of a single running
+ * server, otherwise how many are running or failed.
+ */
+export function getDevServerLabel(states: DevServerState[]): string {
+  const health = summarizeDevServerHealth(states);
+
+  if (states.length === 1) {
+    const [state] = states;
+    if (state.status === "running" && state.url) {
+      // Strip http:// and trailing slash for density
+      return state.url.replace(/^https?:\/\//, "").replace(/\/$/, "");
+    }
+    if (state.status === "error") return "Error";
+    if (state.status === "starting") return isRestarting(state) ? "Restarting" : "Starting";
+    return "Dev Server";
+  }
+
+  if (health.failed > 0) return `${health.failed} failed`;
+  if (health.status === "starting") return states.some(isRestarting) ? "Restarting" : "Starting";
+  return `${health.running}/${health.total} running`;
+}
+
+/**
+ * Whether a process is starting again after an automatic restart.
+ */
+export function isRestarting(state: DevServerState): boolean {
+  return state.status === "starting" && (state.restartCount ?? 0) > 0;
+}
+
+/**
+ * Describe a process's latest health probe, e.g. for a tooltip.
+ */
+export function getDevServerHealthText(state: DevServerState): string | undefined {
+  if (state.status === "error" && state.errorMessage) {
+    return state.errorMessage;
+  }
+  const { health } = state;
+  if (!health) return undefined;
+  if (health.ok) {
+    return health.latencyMs !== undefined ? `Healthy (${health.latencyMs} ms)` : "Healthy";
+  }
+  const failures =
+    health.consecutiveFailures === 1 ? "1 failure" : `${health.consecutiveFailures} failures`;
+  return `Health check failing: ${health.error ?? "no response"} (${failures})`;
+}
+
+// Output lines from the last crash shown in a tooltip
+const CRASH_TOOLTIP_LINES = 5;
+
+/**
+ * Describe a process's automatic restarts and its last crash, e.g. for a tooltip.
+ */
+export function getDevServerCrashText(state: DevServerState): string | undefined {
+  const { restartCount, lastCrash } = state;
+  const lines: string[] = [];
+  if (restartCount) {
+    lines.push(restartCount === 1 ? "Restarted once" : `Restarted ${restartCount} times`);
+  }
+  if (lastCrash) {
+    const exit =
+      lastCrash.exitCode !== null
+        ? `code ${lastCrash.exitCode}`
+        : `signal ${lastCrash.signal ?? "unknown"}`;
+    lines.push(`Last crash (${exit}) at ${new Date(lastCrash.crashedAt).toLocaleTimeString()}:`);
+    lines.push(...lastCrash.logTail.slice(-CRASH_TOOLTIP_LINES));
+  }
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+/**
+ * Tooltip for a process: its health, then its restarts and last crash.
+ */
+export function getDevServerTooltip(state: DevServerState): string | undefined {
+  const text = [getDevServerHealthText(state), getDevServerCrashText(state)].filter(Boolean);
+  return text.length > 0 ? text.join("\n\n") : undefined;
+}
@@ -0,0 +1,104 @@
+/**
+ * Unified diff parsing for the diff viewer
+ */
+
+export type DiffLineType = "context" | "add" | "delete";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  /** Line number in the old file (absent for added lines) */
+  oldLine?: number;
+  /** Line number in the new file (absent for deleted lines) */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: DiffLine[];
+}
+
+/** A row of the side-by-side view; either side is null where lines were only added or removed */
+export interface SplitDiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Parse unified diff text into hunks. File headers and "\ No newline" markers are skipped.
+ *
+ * @param diff - Output of `git diff` for a single file
+ * @returns Hunks with numbered lines
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const raw of diff.split("\n")) {
+    const header = HUNK_HEADER.exec(raw);
+    if (header) {
+      current = { header: raw, lines: [] };
+      hunks.push(current);
+      oldLine = parseInt(header[1], 10);
+      newLine = parseInt(header[2], 10);
+      continue;
+    }
+
+    // Everything before the first hunk is file metadata
+    if (!current) continue;
+
+    const marker = raw[0];
+    const content = raw.slice(1);
+    if (marker === "+") {
+      current.lines.push({ type: "add", content, newLine: newLine++ });
+    } else if (marker === "-") {
+      current.lines.push({ type: "delete", content, oldLine: oldLine++ });
+    } else if (marker === " ") {
+      current.lines.push({ type: "context", content, oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Arrange a hunk's lines for side-by-side display, pairing each run of deletions
+ * with the additions that follow it.
+ *
+ * @param hunk - Parsed hunk
+ * @returns Rows with the old file on the left and the new file on the right
+ */
+export function toSplitRows(hunk: DiffHunk): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = [];
+  let deletions: DiffLine[] = [];
+  let additions: DiffLine[] = [];
+
+  const flush = () => {
+    const count = Math.max(deletions.length, additions.length);
+    for (let i = 0; i < count; i++) {
+      rows.push({ left: deletions[i] ?? null, right: additions[i] ?? null });
+    }
+    deletions = [];
+    additions = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === "delete") {
+      // A deletion after additions starts a new change block
+      if (additions.length > 0) flush();
+      deletions.push(line);
+    } else if (line.type === "add") {
+      additions.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,57 @@
+/**
+ * Branch names and agent prompts for worktrees started from a GitHub issue
+ */
+
+import type { GitHubIssue } from "@/types";
+
+const MAX_SLUG_LENGTH = 40;
+// Keep the prompt a reasonable command-line argument; long issues are linked instead
+const MAX_PROMPT_BODY_LENGTH = 4000;
+
+/**
+ * Turn an issue title into a branch-safe slug, cut at a word boundary.
+ */
+export function slugifyIssueTitle(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  if (slug.length <= MAX_SLUG_LENGTH) return slug;
+
+  const cut = slug.slice(0, MAX_SLUG_LENGTH);
+  if (slug[MAX_SLUG_LENGTH] === "-") return cut;
+  const lastDash = cut.lastIndexOf("-");
+  return lastDash > 0 ? cut.slice(0, lastDash) : cut;
+}
+
+/**
+ * Conventional branch name for an issue, e.g. "feature/issue-158-add-login".
+ * The "issue-<n>" part is what the main process uses to re-detect the issue.
+ */
+export function buildIssueBranchName(
+  issue: Pick<GitHubIssue, "number" | "title">,
+  prefix = "feature"
+): string {
+  const slug = slugifyIssueTitle(issue.title);
+  return `${prefix}/issue-${issue.number}${slug ? `-${slug}` : ""}`;
+}
+
+/**
+ * First message for an agent working on an issue.
+ */
+export function buildIssuePrompt(issue: GitHubIssue): string {
+  const body = issue.body.trim();
+  const truncated =
+    body.length > MAX_PROMPT_BODY_LENGTH
+      ? `${body.slice(0, MAX_PROMPT_BODY_LENGTH)}\n\n[Truncated - see ${issue.url}]`
+      : body;
+
+  return [
+    `Work on GitHub issue #${issue.number}: ${issue.title}`,
+    issue.url,
+    truncated || "(No description)",
+  ].join("\n\n");
+}
@@ -0,0 +1,53 @@
+/**
+ * Device presets for the preview pane, and where the page goes inside it
+ */
+
+import type { PreviewBounds, PreviewLayout } from "@/types";
+
+export type PreviewDevice = "responsive" | "desktop" | "tablet" | "mobile";
+
+export interface PreviewDevicePreset {
+  label: string;
+  /** Viewport size in CSS pixels; omitted to fill the pane */
+  viewport?: { width: number; height: number };
+}
+
+export const PREVIEW_DEVICES: Record<PreviewDevice, PreviewDevicePreset> = {
+  responsive: { label: "Fit to pane" },
+  desktop: { label: "Desktop", viewport: { width: 1440, height: 900 } },
+  tablet: { label: "Tablet", viewport: { width: 768, height: 1024 } },
+  mobile: { label: "Mobile", viewport: { width: 390, height: 844 } },
+};
+
+// Smallest zoom Chromium renders sensibly, for panes too small to scale into
+const MIN_ZOOM_FACTOR = 0.25;
+
+/**
+ * Place the page inside the pane. A device viewport that doesn't fit is scaled
+ * down with the zoom factor, so the page still lays out at the device's width.
+ */
+export function getPreviewLayout(
+  device: PreviewDevice,
+  pane: PreviewBounds,
+  visible: boolean
+): PreviewLayout {
+  const { viewport } = PREVIEW_DEVICES[device];
+  if (!viewport) {
+    return { bounds: pane, zoomFactor: 1, visible };
+  }
+
+  const scale = Math.min(1, pane.width / viewport.width, pane.height / viewport.height);
+  const width = Math.round(viewport.width * scale);
+  const height = Math.round(viewport.height * scale);
+
+  return {
+    bounds: {
+      x: Math.round(pane.x + (pane.width - width) / 2),
+      y: pane.y,
+      width,
+      height,
+    },
+    zoomFactor: Math.max(scale, MIN_ZOOM_FACTOR),
+    visible,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Format unresolved pull request review threads for an agent terminal
+ */
+
+import type { GitHubReviewThread } from "@/types";
+import type { CopyTreeFormat } from "@/hooks/useContextInjection";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeLocation(thread: GitHubReviewThread): string {
+  const location = thread.line !== null ? `${thread.path}:${thread.line}` : thread.path;
+  return thread.isOutdated ? `${location} (outdated)` : location;
+}
+
+function toXml(threads: GitHubReviewThread[], prNumber: number): string {
+  const body = threads.map((thread) => {
+    const attrs = [
+      `file="${escapeXml(thread.path)}"`,
+      thread.line !== null ? `line="${thread.line}"` : null,
+      thread.isOutdated ? 'outdated="true"' : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const comments = thread.comments.map(
+      (comment) =>
+        `    <comment author="${escapeXml(comment.author ?? "ghost")}">${escapeXml(comment.body)}</comment>`
+    );
+    return [`  <thread ${attrs}>`, ...comments, "  </thread>"].join("\n");
+  });
+  return [`<review_comments pr="${prNumber}">`, ...body, "</review_comments>"].join("\n");
+}
+
+function toMarkdown(threads: GitHubReviewThread[], prNumber: number): string {
+  const sections = threads.map((thread) => {
+    const comments = thread.comments.map(
+      (comment) => `**${comment.author ?? "ghost"}:** ${comment.body}`
+    );
+    return [`### ${describeLocation(thread)}`, ...comments].join("\n\n");
+  });
+  return [`## Review comments on PR #${prNumber}`, ...sections].join("\n\n");
+}
+
+function toJsonThread(thread: GitHubReviewThread) {
+  return {
+    file: thread.path,
+    line: thread.line,
+    outdated: thread.isOutdated,
+    comments: thread.comments.map(({ author, body }) => ({ author: author ?? null, body })),
+  };
+}
+
+/**
+ * Build the message sent to an agent asking it to address a PR's unresolved review
+ * threads, in the format the agent prefers for injected context. The agent is asked
+ * to change the code only; replying on GitHub and resolving threads is left to the user.
+ */
+export function formatReviewComments(
+  threads: GitHubReviewThread[],
+  prNumber: number,
+  format: CopyTreeFormat
+): string {
+  let block: string;
+  switch (format) {
+    case "xml":
+      block = toXml(threads, prNumber);
+      break;
+    case "json":
+      block = JSON.stringify(
+        { pullRequest: prNumber, threads: threads.map(toJsonThread) },
+        null,
+        2
+      );
+      break;
+    case "ndjson":
+      block = threads.map((thread) => JSON.stringify(toJsonThread(thread))).join("\n");
+      break;
+    case "markdown":
+    case "tree":
+      block = toMarkdown(threads, prNumber);
+      break;
+  }
+
+  const count = threads.length;
+  return [
+    `Reviewers left ${count} unresolved comment thread${count === 1 ? "" : "s"} on PR #${prNumber}. ` +
+      "Address each one in the code; if you disagree with a comment, explain why instead of changing it.",
+    block,
+  ].join("\n\n");
+}
@@ -0,0 +1,21 @@
+/**
+ * Agent prompts for worktrees stopped on rebase/merge conflicts
+ */
+
+import type { WorktreeSyncOperation } from "@/types";
+
+/**
+ * Ask an agent to resolve the conflicts of a stopped rebase or merge.
+ * The agent only resolves and stages files; continuing is left to the user.
+ */
+export function buildConflictPrompt(operation: WorktreeSyncOperation, mainRef: string): string {
+  const action = operation.kind === "rebase" ? `Rebasing onto ${mainRef}` : `Merging ${mainRef}`;
+
+  return [
+    `${action} stopped on conflicts in these files:`,
+    operation.conflictedFiles.map((file) => `- ${file}`).join("\n"),
+    `Resolve each conflict so both this branch's intent and the changes from ${mainRef} are kept, ` +
+      "remove all conflict markers, and stage each resolved file with git add. " +
+      `Do not run git ${operation.kind} --continue or --abort.`,
+  ].join("\n\n");
+}
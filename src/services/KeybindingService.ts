@@ -8,6 +8,11 @@
  * - Modifier key support (Cmd/Ctrl, Shift, Alt)
  */
 
+import type { AgentDefinition } from "@/types";
+
+/** Action ID prefix for agent launch shortcuts */
+export const AGENT_ACTION_PREFIX = "agent.";
+
 /**
  * Scope determines where a shortcut is active:
  * - global: Active anywhere in the app (except when in terminal or modal with higher priority)
@@ -65,22 +70,24 @@ const DEFAULT_KEYBINDINGS: KeybindingConfig[] = [
     description: "Toggle maximize terminal",
   },
 
-  // Agent launchers
+  // === Terminal shortcuts (active when a terminal is focused) ===
   {
-    actionId: "agent.claude",
-    combo: "Ctrl+Shift+C",
-    scope: "global",
-    priority: 0,
-    description: "Launch Claude agent",
+    actionId: "terminal.previousCommand",
+    combo: "Cmd+ArrowUp",
+    scope: "terminal",
+    priority: 5,
+    description: "Scroll to previous command (shell integration)",
   },
   {
-    actionId: "agent.gemini",
-    combo: "Ctrl+Shift+G",
-    scope: "global",
-    priority: 0,
-    description: "Launch Gemini agent",
+    actionId: "terminal.nextCommand",
+    combo: "Cmd+ArrowDown",
+    scope: "terminal",
+    priority: 5,
+    description: "Scroll to next command (shell integration)",
   },
 
+  // Agent launchers ("agent.<id>") are registered from the agent registry
+
   // Context injection
   {
     actionId: "context.inject",
@@ -105,6 +112,13 @@ const DEFAULT_KEYBINDINGS: KeybindingConfig[] = [
     priority: 0,
     description: "Toggle event inspector",
   },
+  {
+    actionId: "panel.preview",
+    combo: "Ctrl+Shift+B",
+    scope: "global",
+    priority: 0,
+    description: "Toggle dev server preview",
+  },
 
   // === Modal shortcuts (active in dialogs) ===
   {
@@ -368,6 +382,28 @@ class KeybindingService {
     this.bindings.delete(actionId);
   }
 
+  /**
+   * Replace agent launch bindings with the shortcuts of enabled registry agents
+   */
+  setAgentBindings(agents: AgentDefinition[]): void {
+    for (const actionId of this.bindings.keys()) {
+      if (actionId.startsWith(AGENT_ACTION_PREFIX)) {
+        this.bindings.delete(actionId);
+      }
+    }
+
+    for (const agent of agents) {
+      if (!agent.enabled || !agent.shortcut) continue;
+      this.bindings.set(`${AGENT_ACTION_PREFIX}${agent.id}`, {
+        actionId: `${AGENT_ACTION_PREFIX}${agent.id}`,
+        combo: agent.shortcut,
+        scope: "global",
+        priority: 0,
+        description: `Launch ${agent.name} agent`,
+      });
+    }
+  }
+
   /**
    * Get human-readable description of a keybinding
    */
@@ -0,0 +1,50 @@
+/**
+ * Agent Registry Store
+ *
+ * Zustand store for the agent registry - the CLI agents (built-in and
+ * user-defined) that can be launched in terminals. Launch shortcuts are
+ * registered with the KeybindingService whenever the registry changes.
+ */
+
+import { create, type StateCreator } from "zustand";
+import type { AgentDefinition } from "@/types";
+import { keybindingService } from "@/services/KeybindingService";
+
+interface AgentRegistryState {
+  agents: AgentDefinition[];
+  isLoading: boolean;
+
+  loadAgents: () => Promise<void>;
+  /** Validate and persist the full registry (main process rejects invalid entries) */
+  saveAgents: (agents: AgentDefinition[]) => Promise<void>;
+  getAgent: (id: string) => AgentDefinition | undefined;
+}
+
+const createAgentRegistryStore: StateCreator<AgentRegistryState> = (set, get) => ({
+  agents: [],
+  isLoading: false,
+
+  loadAgents: async () => {
+    set({ isLoading: true });
+    try {
+      const agents = await window.electron.agent.getRegistry();
+      keybindingService.setAgentBindings(agents);
+      set({ agents, isLoading: false });
+    } catch (error) {
+      console.error("Failed to load agent registry:", error);
+      set({ isLoading: false });
+    }
+  },
+
+  saveAgents: async (agents) => {
+    await window.electron.agent.setRegistry(agents);
+    keybindingService.setAgentBindings(agents);
+    set({ agents });
+  },
+
+  getAgent: (id) => {
+    return get().agents.find((agent) => agent.id === id);
+  },
+});
+
+export const useAgentRegistryStore = create<AgentRegistryState>()(createAgentRegistryStore);
@@ -12,7 +12,11 @@ export { useEventStore } from "./eventStore";
 
 export { useProjectStore } from "./projectStore";
 
+export { useAgentRegistryStore } from "./agentRegistryStore";
+
 export { useFocusStore } from "./focusStore";
 
 export { useNotificationStore } from "./notificationStore";
 export type { Notification, NotificationType } from "./notificationStore";
+
+export { usePreviewStore } from "./previewStore";
@@ -0,0 +1,55 @@
+/**
+ * Preview Store
+ *
+ * Zustand store for the dev server preview panel: whether it is open, its
+ * width, the device preset, and which dev process it shows.
+ */
+
+import { create, type StateCreator } from "zustand";
+import type { PreviewDevice } from "@/lib/previewLayout";
+
+export const MIN_PREVIEW_WIDTH = 320;
+export const MAX_PREVIEW_WIDTH = 1600;
+const DEFAULT_PREVIEW_WIDTH = 560;
+
+interface PreviewPanelState {
+  // Panel visibility
+  isOpen: boolean;
+
+  // Panel width in pixels
+  width: number;
+
+  // Device size preset
+  device: PreviewDevice;
+
+  // Dev process to show; null follows the first running one
+  processId: string | null;
+
+  // Actions
+  togglePanel: () => void;
+  setOpen: (open: boolean) => void;
+  setWidth: (width: number) => void;
+  setDevice: (device: PreviewDevice) => void;
+  /** Open the panel on a specific dev process */
+  showProcess: (processId: string) => void;
+}
+
+const createPreviewStore: StateCreator<PreviewPanelState> = (set) => ({
+  isOpen: false,
+  width: DEFAULT_PREVIEW_WIDTH,
+  device: "responsive",
+  processId: null,
+
+  togglePanel: () => set((state) => ({ isOpen: !state.isOpen })),
+
+  setOpen: (open) => set({ isOpen: open }),
+
+  setWidth: (width) =>
+    set({ width: Math.min(Math.max(width, MIN_PREVIEW_WIDTH), MAX_PREVIEW_WIDTH) }),
+
+  setDevice: (device) => set({ device }),
+
+  showProcess: (processId) => set({ isOpen: true, processId }),
+});
+
+export const usePreviewStore = create<PreviewPanelState>(createPreviewStore);
@@ -21,13 +21,19 @@ import type {
 export type TerminalInstance = TerminalInstanceType;
 
 export interface AddTerminalOptions {
+  /** Reuse a persisted terminal ID (when restoring) so saved scrollback can be replayed */
+  id?: string;
   type?: TerminalType;
+  /** Agent registry ID; the main process launches the agent's command for new terminals */
+  agentType?: string;
   title?: string;
   worktreeId?: string;
   cwd: string;
   shell?: string;
   /** Command to execute after shell starts (e.g., 'claude' for AI agents) */
   command?: string;
+  /** First message for an agent terminal (e.g., a GitHub issue to work on) */
+  initialPrompt?: string;
 }
 
 const TYPE_TITLES: Record<TerminalType, string> = {
@@ -52,6 +58,8 @@ export interface TerminalRegistrySlice {
     trigger?: AgentStateChangeTrigger,
     confidence?: number
   ) => void;
+  /** Update a terminal's cwd and worktree after its shell changed directory */
+  updateLocation: (id: string, cwd: string, worktreeId: string | undefined) => void;
   getTerminal: (id: string) => TerminalInstance | undefined;
 }
 
@@ -65,6 +73,7 @@ function persistTerminals(terminals: TerminalInstance[]): void {
       terminals: terminals.map((t) => ({
         id: t.id,
         type: t.type,
+        agentType: t.agentType,
         title: t.title,
         cwd: t.cwd,
         worktreeId: t.worktreeId,
@@ -97,21 +106,26 @@ export const createTerminalRegistrySlice =
       try {
         // Spawn the PTY process via IPC
         const id = await window.electron.terminal.spawn({
+          id: options.id,
           cwd: options.cwd,
           shell: options.shell,
           cols: 80,
           rows: 24,
           command: options.command,
           type,
+          agentType: options.agentType,
           title,
           worktreeId: options.worktreeId,
+          initialPrompt: options.initialPrompt,
         });
 
-        // Agent terminals (claude/gemini) start in 'idle' state
-        const isAgentTerminal = type === "claude" || type === "gemini";
+        // Agent terminals start in 'idle' state
+        const isAgentTerminal =
+          options.agentType !== undefined || type === "claude" || type === "gemini";
         const terminal: TerminalInstance = {
           id,
           type,
+          agentType: options.agentType,
           title,
           worktreeId: options.worktreeId,
           cwd: options.cwd,
@@ -198,6 +212,21 @@ export const createTerminalRegistrySlice =
       });
     },
 
+    updateLocation: (id, cwd, worktreeId) => {
+      set((state) => {
+        const terminal = state.terminals.find((t) => t.id === id);
+        if (!terminal) return state;
+        if (terminal.cwd === cwd && terminal.worktreeId === worktreeId) return state;
+
+        const newTerminals = state.terminals.map((t) =>
+          t.id === id ? { ...t, cwd, worktreeId } : t
+        );
+
+        persistTerminals(newTerminals);
+        return { terminals: newTerminals };
+      });
+    },
+
     getTerminal: (id) => {
       return get().terminals.find((t) => t.id === id);
     },
@@ -123,10 +123,25 @@ if (typeof window !== "undefined" && window.electron?.terminal?.onAgentStateChan
   });
 }
 
+// Subscribe to cwd changes reported by shell integration (OSC 7)
+let cwdChangedUnsubscribe: (() => void) | null = null;
+
+if (typeof window !== "undefined" && window.electron?.terminal?.onCwdChanged) {
+  cwdChangedUnsubscribe = window.electron.terminal.onCwdChanged(
+    ({ terminalId, cwd, worktreeId }) => {
+      useTerminalStore.getState().updateLocation(terminalId, cwd, worktreeId);
+    }
+  );
+}
+
 // Export cleanup function for app shutdown
 export function cleanupTerminalStoreListeners() {
   if (agentStateUnsubscribe) {
     agentStateUnsubscribe();
     agentStateUnsubscribe = null;
   }
+  if (cwdChangedUnsubscribe) {
+    cwdChangedUnsubscribe();
+    cwdChangedUnsubscribe = null;
+  }
 }